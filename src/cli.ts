@@ -0,0 +1,227 @@
+import * as AWS from 'aws-sdk';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SqsCliOptions, SqsCliResult, SqsConfig, SqsMessage, SqsTransport } from './components/app.component';
+import { CliUtils } from './utils/cli.utils';
+import { ConnectionUtils } from './utils/connection.utils';
+import { ErrorUtils } from './utils/error.utils';
+import { MessageUtils } from './utils/message.utils';
+import { ProfileUtils } from './utils/profile.utils';
+import { TemplateUtils } from './utils/template.utils';
+import { TransportUtils } from './utils/transport.utils';
+
+type CliMessage = {
+    /**
+     * The message's result, updated as it is validated and sent.
+     */
+    result: SqsCliResult;
+
+    /**
+     * The message, with its template expressions rendered, when valid.
+     */
+    message?: SqsMessage;
+};
+
+type ValidCliMessage = Required<CliMessage>;
+
+const isValid = (cliMessage: CliMessage): cliMessage is ValidCliMessage => !!cliMessage.message;
+
+const updateResult = (result: SqsCliResult, changes: Partial<SqsCliResult>) => Object.assign(result, changes);
+
+/**
+ * Reads the messages picked out by the index and tag options from each file, then validates and renders them.
+ */
+const loadMessages = async (options: SqsCliOptions): Promise<CliMessage[]> => {
+    const context = TemplateUtils.createContext(options.variables, process.env);
+    const messages: CliMessage[] = [];
+
+    for (const file of options.files) {
+        let items: unknown[];
+
+        try {
+            items = MessageUtils.parseMessagesFile(await fs.readFile(file, 'utf8'), path.basename(file));
+        } catch (error) {
+            throw new Error(`Could not read '${file}': ${ErrorUtils.getMessage(error)}`);
+        }
+
+        items.forEach((item, index) => {
+            if (!CliUtils.isSelected(item, index, options)) {
+                return;
+            }
+
+            const result: SqsCliResult = { file, index, status: 'valid' };
+
+            // Items are only loosely typed by their file, so a malformed item is reported rather than stopping the run.
+            const itemErrors = MessageUtils.validateItem(item);
+            if (itemErrors) {
+                messages.push({ result: updateResult(result, { status: 'invalid', errors: itemErrors }) });
+                return;
+            }
+
+            try {
+                const prepared = MessageUtils.prepareMessage(MessageUtils.toMessage(item), options.queueUrl, context);
+                result.tags = prepared.message.tags;
+
+                if (prepared.errors) {
+                    messages.push({ result: updateResult(result, { status: 'invalid', errors: prepared.errors }) });
+                } else {
+                    messages.push({ result, message: prepared.message });
+                }
+            } catch (error) {
+                messages.push({ result: updateResult(result, { status: 'invalid', errors: [ErrorUtils.getMessage(error)] }) });
+            }
+        });
+    }
+
+    return messages;
+};
+
+/**
+ * Creates the SQS configuration from the options, falling back to the same environment variables as the application.
+ * A shared credentials profile, when given, replaces the credentials from the environment.
+ */
+const loadConfig = async (options: SqsCliOptions): Promise<SqsConfig> => {
+    const defaults = ProfileUtils.getDefaultConfig();
+    const queueUrl = options.queueUrl ?? '';
+    const config: SqsConfig = {
+        ...defaults,
+        queueUrl,
+        region: options.region || defaults.region || ConnectionUtils.getQueueRegion(queueUrl) || '',
+        endpoint: options.endpoint,
+    };
+
+    if (options.profile) {
+        const credentials = new AWS.SharedIniFileCredentials({ profile: options.profile });
+
+        try {
+            await credentials.getPromise();
+        } catch (error) {
+            throw new Error(`Could not load the credentials of profile '${options.profile}': ${ErrorUtils.getMessage(error)}`);
+        }
+
+        config.accessKeyId = credentials.accessKeyId;
+        config.secretAccessKey = credentials.secretAccessKey;
+        config.sessionToken = credentials.sessionToken ?? '';
+    }
+
+    const missingFields = ConnectionUtils.getRequiredFields(config).filter((key) => !config[key]);
+    if (missingFields.length) {
+        throw new Error(`Missing ${missingFields.join(', ')}. Set them with options or AWS_* environment variables, or use --profile.`);
+    }
+
+    return config;
+};
+
+const sendBatches = async (transport: SqsTransport, queueUrl: string, messages: ValidCliMessage[]): Promise<void> => {
+    const requests = MessageUtils.toBatchRequests(
+        queueUrl,
+        messages.map(({ message }) => message)
+    );
+
+    for (const request of requests) {
+        // Each entry's ID is the position of its message.
+        const batchMessages = request.Entries.map((entry) => ({ entry, result: messages[Number(entry.Id)].result }));
+
+        try {
+            const response = await transport.sendMessageBatch(request);
+
+            batchMessages.forEach(({ entry, result }) => {
+                const successful = response.Successful.find((responseEntry) => responseEntry.Id === entry.Id);
+                const failed = response.Failed.find((responseEntry) => responseEntry.Id === entry.Id);
+
+                if (successful) {
+                    updateResult(result, { status: 'sent', messageId: successful.MessageId, warnings: MessageUtils.verifyChecksums(entry, successful) });
+                } else {
+                    updateResult(result, { status: 'failed', errors: [failed?.Message || failed?.Code || 'SQS did not report the message as sent.'] });
+                }
+            });
+        } catch (error) {
+            // The whole batch was rejected, e.g. due to invalid credentials.
+            batchMessages.forEach(({ result }) => updateResult(result, { status: 'failed', errors: [ErrorUtils.getMessage(error)] }));
+        }
+    }
+};
+
+const sendEach = async (transport: SqsTransport, queueUrl: string, messages: ValidCliMessage[]): Promise<void> => {
+    for (const { result, message } of messages) {
+        const request = MessageUtils.toRequest(queueUrl, message);
+
+        try {
+            const response = await transport.sendMessage(request);
+            updateResult(result, { status: 'sent', messageId: response.MessageId, warnings: MessageUtils.verifyChecksums(request, response) });
+        } catch (error) {
+            updateResult(result, { status: 'failed', errors: [ErrorUtils.getMessage(error)] });
+        }
+    }
+};
+
+/**
+ * Runs the command given by the provided arguments.
+ *
+ * @param args    The arguments, excluding the node executable and script path.
+ * @returns       A promise that resolves to the process exit code.
+ */
+const run = async (args: string[]): Promise<number> => {
+    let options: SqsCliOptions;
+
+    try {
+        options = CliUtils.parseArgs(args);
+    } catch (error) {
+        console.error(`${ErrorUtils.getMessage(error)}\n\n${CliUtils.getUsage()}`);
+        return CliUtils.getExitCode('usage');
+    }
+
+    if (options.command === 'help') {
+        process.stdout.write(`${CliUtils.getUsage()}\n`);
+        return CliUtils.getExitCode('success');
+    }
+
+    options = { ...options, queueUrl: options.queueUrl || ProfileUtils.getDefaultConfig().queueUrl || undefined };
+    const sending = options.command === 'send' && !options.dryRun;
+
+    let messages: CliMessage[];
+    let config: SqsConfig | undefined;
+
+    try {
+        // The configuration is only needed to send, so validation and dry runs work without credentials.
+        config = sending ? await loadConfig(options) : undefined;
+        messages = await loadMessages(options);
+    } catch (error) {
+        console.error(ErrorUtils.getMessage(error));
+        return CliUtils.getExitCode('usage');
+    }
+
+    const validMessages = messages.filter(isValid);
+
+    // Nothing is sent while any message is invalid, so a pipeline never sends only part of its fixtures.
+    if (validMessages.length < messages.length) {
+        validMessages.forEach(({ result }) => updateResult(result, { status: sending ? 'skipped' : 'valid' }));
+    } else if (options.command === 'send' && options.dryRun) {
+        validMessages.forEach(({ result, message }) => updateResult(result, { request: MessageUtils.toRequest(options.queueUrl ?? '', message) }));
+    } else if (config) {
+        const queueUrl = ConnectionUtils.resolveQueueUrl(config);
+        const transport = TransportUtils.createTransport(config);
+        await (options.batch ? sendBatches(transport, queueUrl, validMessages) : sendEach(transport, queueUrl, validMessages));
+    }
+
+    const results = messages.map(({ result }) => result);
+    const exitCode = CliUtils.getResultsExitCode(results);
+
+    if (options.json) {
+        process.stdout.write(`${JSON.stringify({ command: options.command, dryRun: options.dryRun, exitCode, results }, null, 2)}\n`);
+    } else {
+        process.stdout.write(`${CliUtils.formatResults(results)}\n`);
+    }
+
+    return exitCode;
+};
+
+run(process.argv.slice(2)).then(
+    (exitCode) => {
+        process.exitCode = exitCode;
+    },
+    (error) => {
+        console.error(error);
+        process.exitCode = 1;
+    }
+);
@@ -2,10 +2,30 @@ import { AppBar, Tab } from '@material-ui/core';
 import { TabContext, TabList } from '@material-ui/lab';
 import * as AWS from 'aws-sdk';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ConnectionUtils } from '../utils/connection.utils';
+import { ErrorUtils } from '../utils/error.utils';
+import { HistoryUtils } from '../utils/history.utils';
 import { MessageUtils } from '../utils/message.utils';
+import { MetricsUtils } from '../utils/metrics.utils';
+import { ProfileUtils } from '../utils/profile.utils';
+import { QueueAdminUtils } from '../utils/queue-admin.utils';
+import { QueueUtils } from '../utils/queue.utils';
+import { TemplateUtils } from '../utils/template.utils';
+import { TransportUtils } from '../utils/transport.utils';
+import { WorkspaceUtils } from '../utils/workspace.utils';
+import { History } from './history.component';
+import { Inbox } from './inbox.component';
+import { LoadTest } from './load-test.component';
 import { Messages } from './messages.component';
+import { ProfileSwitcher } from './profile-switcher.component';
+import { QueueAdmin } from './queue-admin.component';
+import { QueueMetrics } from './queue-metrics.component';
+import { Redrive } from './redrive.component';
+import { Schemas } from './schemas.component';
 import { Settings } from './settings.component';
 import { TabView } from './tab-view.component';
+import { Variables } from './variables.component';
+import { WorkspaceView } from './workspace-view.component';
 
 export type SqsConfig = {
     /**
@@ -29,136 +49,1620 @@ export type SqsConfig = {
     sessionToken: string;
 
     /**
-     * The SQS queue URL.
+     * Whether messages are sent to an SQS queue or published to an SNS topic. Defaults to 'queue'.
+     */
+    targetType?: SqsTargetType;
+
+    /**
+     * The SQS queue URL. When publishing to a topic, this is the queue the Inbox receives from, e.g. a subscribed queue.
+     */
+    queueUrl: string;
+
+    /**
+     * The ARN of the SNS topic messages are published to, when the target type is 'topic'.
+     */
+    topicArn?: string;
+
+    /**
+     * An optional endpoint that overrides the AWS endpoint, e.g. a local ElasticMQ or LocalStack instance.
+     * When set, the region and credentials become optional.
+     */
+    endpoint?: string;
+
+    /**
+     * True if the queue URL should be rewritten to a path under the custom endpoint.
+     */
+    forcePathStyle?: boolean;
+
+    /**
+     * False if requests to the custom endpoint should not use SSL. Defaults to true.
+     */
+    sslEnabled?: boolean;
+
+    /**
+     * How requests reach SQS and SNS. Defaults to 'sdkV2'.
+     */
+    transport?: SqsTransportType;
+
+    /**
+     * The failures and latency simulated by the offline queue, when the transport is 'offline'.
+     */
+    offline?: SqsOfflineOptions;
+};
+
+/**
+ * - sdkV2: Requests are sent with the aws-sdk v2 SQS and SNS clients.
+ * - sdkV3: Requests are sent with the modular @aws-sdk/client-sqs and @aws-sdk/client-sns v3 clients.
+ * - offline: Messages are kept in an in-memory queue in the browser, so no AWS account is needed.
+ */
+export type SqsTransportType = 'sdkV2' | 'sdkV3' | 'offline';
+
+export type SqsOfflineOptions = {
+    /**
+     * The percentage of sent messages that fail with a simulated internal error.
+     */
+    failurePercent: number;
+
+    /**
+     * The percentage of requests that are rejected with a simulated throttling error.
+     */
+    throttlePercent: number;
+
+    /**
+     * The simulated latency of each request, in milliseconds.
+     */
+    latencyMilliseconds: number;
+};
+
+/**
+ * Sends requests to SQS and SNS, or a stand-in for them. Requests and responses use the aws-sdk v2 shapes,
+ * whichever client actually sends them, and errors are thrown with an AWS error code.
+ */
+export type SqsTransport = {
+    sendMessage: (request: AWS.SQS.SendMessageRequest) => Promise<AWS.SQS.SendMessageResult>;
+    sendMessageBatch: (request: AWS.SQS.SendMessageBatchRequest) => Promise<AWS.SQS.SendMessageBatchResult>;
+    receiveMessage: (request: AWS.SQS.ReceiveMessageRequest) => Promise<AWS.SQS.ReceiveMessageResult>;
+    deleteMessage: (request: AWS.SQS.DeleteMessageRequest) => Promise<void>;
+    changeMessageVisibility: (request: AWS.SQS.ChangeMessageVisibilityRequest) => Promise<void>;
+    listQueues: (request: AWS.SQS.ListQueuesRequest) => Promise<AWS.SQS.ListQueuesResult>;
+    getQueueAttributes: (request: AWS.SQS.GetQueueAttributesRequest) => Promise<AWS.SQS.GetQueueAttributesResult>;
+    listDeadLetterSourceQueues: (request: AWS.SQS.ListDeadLetterSourceQueuesRequest) => Promise<AWS.SQS.ListDeadLetterSourceQueuesResult>;
+    createQueue: (request: AWS.SQS.CreateQueueRequest) => Promise<AWS.SQS.CreateQueueResult>;
+    setQueueAttributes: (request: AWS.SQS.SetQueueAttributesRequest) => Promise<void>;
+    purgeQueue: (request: AWS.SQS.PurgeQueueRequest) => Promise<void>;
+    deleteQueue: (request: AWS.SQS.DeleteQueueRequest) => Promise<void>;
+    listQueueTags: (request: AWS.SQS.ListQueueTagsRequest) => Promise<AWS.SQS.ListQueueTagsResult>;
+    tagQueue: (request: AWS.SQS.TagQueueRequest) => Promise<void>;
+    untagQueue: (request: AWS.SQS.UntagQueueRequest) => Promise<void>;
+    publish: (request: AWS.SNS.PublishInput) => Promise<AWS.SNS.PublishResponse>;
+    publishBatch: (request: AWS.SNS.PublishBatchInput) => Promise<AWS.SNS.PublishBatchResponse>;
+    getTopicAttributes: (request: AWS.SNS.GetTopicAttributesInput) => Promise<AWS.SNS.GetTopicAttributesResponse>;
+};
+
+/**
+ * - queue: Messages are sent to the SQS queue with SendMessage.
+ * - topic: Messages are published to the SNS topic with Publish, e.g. to test a topic that fans out to queues.
+ */
+export type SqsTargetType = 'queue' | 'topic';
+
+export type SqsProfile = {
+    /**
+     * The profile's unique identifier.
+     */
+    id: string;
+
+    /**
+     * The profile's display name.
+     */
+    name: string;
+
+    /**
+     * The profile's AWS account and SQS queue configuration.
+     */
+    config: SqsConfig;
+
+    /**
+     * True if the secret access key and session token are saved to browser storage, otherwise false.
+     */
+    persistSecrets: boolean;
+};
+
+export type SqsMessage = {
+    /**
+     * The message's unique identifier.
+     */
+    id: string;
+
+    /**
+     * The message's body.
+     */
+    body: string;
+
+    /**
+     * The message attributes.
+     */
+    attributes: SqsMessageAttribute[];
+
+    /**
+     * The FIFO message group the message belongs to.
+     * Required when sending to a FIFO queue.
+     */
+    messageGroupId?: string;
+
+    /**
+     * The token used to deduplicate messages sent to a FIFO queue.
+     * Only used when the deduplication mode is 'explicit'.
+     */
+    messageDeduplicationId?: string;
+
+    /**
+     * How the message's deduplication ID is determined when sending to a FIFO queue.
+     * Defaults to 'explicit'.
+     */
+    deduplicationMode?: SqsDeduplicationMode;
+
+    /**
+     * The number of seconds to delay the message's delivery.
+     * Only supported by standard queues.
+     */
+    delaySeconds?: number;
+
+    /**
+     * The subject of the message, used as the subject line of email subscriptions.
+     * Only supported when publishing to an SNS topic.
+     */
+    subject?: string;
+
+    /**
+     * When 'json', the body is a JSON object holding a different message per protocol, keyed by protocol with a required 'default'.
+     * Only supported when publishing to an SNS topic.
+     */
+    messageStructure?: 'json';
+
+    /**
+     * The ID of the workspace schema the body is validated against, overriding the workspace's schema selection.
+     */
+    schemaId?: string;
+
+    /**
+     * The body's format, used to highlight and check it. Detected from the body when undefined.
+     */
+    bodyFormat?: SqsBodyFormat;
+
+    /**
+     * True if a YAML body is converted to JSON when the message is sent.
+     */
+    convertToJson?: boolean;
+
+    /**
+     * True if a JSON or XML body is minified when the message is sent.
+     */
+    minifyBody?: boolean;
+
+    /**
+     * Labels for picking the message out of a messages.js file, e.g. with the CLI's --tag option.
+     */
+    tags?: string[];
+
+    /**
+     * The message's client-side validation errors.
+     */
+    errors?: string[];
+};
+
+export type SqsPreparedMessage = {
+    /**
+     * The message with its template expressions resolved, or the original message if invalid.
+     */
+    message: SqsMessage;
+
+    /**
+     * The message's validation errors, if any.
+     */
+    errors?: string[];
+};
+
+/**
+ * A message as stored in a messages.js or JSON file, without IDs, workspace schemas or validation errors.
+ */
+export type SqsMessageItem = Omit<SqsMessage, 'id' | 'errors' | 'attributes' | 'schemaId'> & {
+    attributes: Array<Omit<SqsMessageAttribute, 'id'>>;
+};
+
+export type SqsMessageAttribute = {
+    /**
+     * The attribute's unique identifier.
+     */
+    id: string;
+
+    /**
+     * The attibute's unique name.
+     */
+    name: string;
+
+    /**
+     * The attributes value's data type.
+     */
+    type: SqsMessageAttributeType;
+
+    /**
+     * An optional custom label appended to the data type, e.g. 'json' for a String.json attribute.
+     */
+    label?: string;
+
+    /**
+     * The attribute's value.
+     */
+    value: SqsMessageAttributeValue;
+
+    /**
+     * How a Binary attribute's value is encoded as text. Defaults to 'base64'.
+     */
+    encoding?: SqsBinaryEncoding;
+};
+
+/**
+ * - explicit: The deduplication ID entered by the user is sent.
+ * - contentBased: No deduplication ID is sent, relying on the queue's content-based deduplication.
+ * - generated: A unique deduplication ID is generated each time the message is sent.
+ */
+export type SqsBodyFormat = 'json' | 'xml' | 'yaml' | 'text';
+
+/**
+ * - key: An object key in JSON or a mapping key in YAML.
+ * - string: A string value, or a CDATA section in XML.
+ * - number: A number value.
+ * - literal: A boolean or null value, an entity reference in XML, or an anchor or alias in YAML.
+ * - punctuation: Brackets, separators and other structural characters.
+ * - tag: An XML tag's name and angle brackets.
+ * - attribute: An XML attribute's name.
+ * - comment: A comment, or an XML declaration or processing instruction.
+ */
+export type SqsBodyTokenType = 'key' | 'string' | 'number' | 'literal' | 'punctuation' | 'tag' | 'attribute' | 'comment';
+
+export type SqsBodyToken = {
+    /**
+     * The kind of token, used to highlight it.
+     */
+    type: SqsBodyTokenType;
+
+    /**
+     * The offset of the token's first character in the body.
+     */
+    start: number;
+
+    /**
+     * The offset after the token's last character in the body.
+     */
+    end: number;
+};
+
+export type SqsBodyError = {
+    /**
+     * The reason the body could not be parsed.
+     */
+    message: string;
+
+    /**
+     * The offset in the body where the problem was found.
+     */
+    offset: number;
+
+    /**
+     * The line where the problem was found, starting at 1.
+     */
+    line: number;
+
+    /**
+     * The column where the problem was found, starting at 1.
+     */
+    column: number;
+};
+
+export type SqsDeduplicationMode = 'explicit' | 'contentBased' | 'generated';
+
+export type SqsMessageAttributeValue = Buffer | Uint8Array | Blob | string;
+
+export type SqsMessageAttributeType = 'String' | 'Number' | 'Binary';
+
+export type SqsBinaryEncoding = 'base64' | 'hex';
+
+export type SqsWorkspace = {
+    /**
+     * The workspace's unique identifier.
+     */
+    id: string;
+
+    /**
+     * The workspace's display name.
+     */
+    name: string;
+
+    /**
+     * The workspace's messages.
+     */
+    messages: SqsMessage[];
+
+    /**
+     * The workspace's user-defined template variables.
+     */
+    variables: SqsTemplateVariable[];
+
+    /**
+     * The JSON schemas message bodies are validated against, and how one is chosen for each message.
+     */
+    schemaSettings?: SqsSchemaSettings;
+};
+
+export type SqsSchema = {
+    /**
+     * The schema's unique identifier.
+     */
+    id: string;
+
+    /**
+     * The name of the file the schema was loaded from, which other schemas can reference with $ref.
+     */
+    fileName: string;
+
+    /**
+     * The parsed JSON Schema (draft 2020-12).
+     */
+    schema: SqsJsonSchema;
+};
+
+export type SqsJsonSchema = boolean | { [keyword: string]: unknown };
+
+export type SqsSchemaSettings = {
+    /**
+     * The workspace's schemas.
+     */
+    schemas: SqsSchema[];
+
+    /**
+     * The ID of the schema messages are validated against when no other schema is chosen.
+     */
+    defaultSchemaId?: string;
+
+    /**
+     * The name of an attribute, e.g. eventType, whose value chooses the schema. The value is matched
+     * against each schema's title and file name without its extension, e.g. OrderCreated.schema.json.
+     */
+    selectorAttribute?: string;
+};
+
+export type SqsSchemaViolation = {
+    /**
+     * The JSON path of the invalid value, e.g. $.items[0].price.
+     */
+    path: string;
+
+    /**
+     * The reason the value is not valid.
+     */
+    message: string;
+};
+
+export type SqsTemplateVariable = {
+    /**
+     * The variable's unique identifier.
+     */
+    id: string;
+
+    /**
+     * The variable's name, as referenced in templates, e.g. {{customerId}}.
+     */
+    name: string;
+
+    /**
+     * The variable's value.
+     */
+    value: string;
+};
+
+export type SqsTemplateContext = {
+    /**
+     * The user-defined variables, keyed by name.
+     */
+    variables: Record<string, string>;
+
+    /**
+     * The environment variables, referenced in templates as {{env.NAME}}. Only the CLI can read them.
+     */
+    env?: Record<string, string | undefined>;
+};
+
+export type SqsReceivedMessage = {
+    /**
+     * The ID SQS assigned to the message.
+     */
+    messageId: string;
+
+    /**
+     * The handle used to delete the message or change its visibility.
+     * A new handle is issued each time the message is received.
+     */
+    receiptHandle: string;
+
+    /**
+     * The message's body.
+     */
+    body: string;
+
+    /**
+     * The message's custom attributes.
+     */
+    attributes: SqsMessageAttribute[];
+
+    /**
+     * The message's system attributes, such as SentTimestamp and MessageGroupId.
+     */
+    systemAttributes: Record<string, string>;
+
+    /**
+     * The number of times the message has been received without being deleted.
+     */
+    receiveCount: number;
+
+    /**
+     * The time the message was sent to the queue, in epoch milliseconds.
+     */
+    sentTimestamp?: number;
+};
+
+export type SqsReceiveOptions = {
+    /**
+     * The duration, in seconds, to wait for messages to arrive (long polling).
+     */
+    waitTimeSeconds: number;
+
+    /**
+     * The maximum number of messages to receive, between 1 and 10.
+     */
+    maxNumberOfMessages: number;
+
+    /**
+     * The duration, in seconds, that received messages are hidden from other consumers.
+     */
+    visibilityTimeout: number;
+};
+
+export type SqsQueueSummary = {
+    /**
+     * The queue's URL.
+     */
+    url: string;
+
+    /**
+     * The queue's name, taken from the last segment of its URL.
+     */
+    name: string;
+
+    /**
+     * The queue's Amazon Resource Name.
+     */
+    arn?: string;
+
+    /**
+     * True if the queue is a FIFO queue, otherwise false.
+     */
+    fifo: boolean;
+
+    /**
+     * The queue's default visibility timeout, in seconds.
+     */
+    visibilityTimeout?: number;
+
+    /**
+     * The approximate number of messages available for retrieval.
+     */
+    approximateDepth?: number;
+
+    /**
+     * The ARN of the dead-letter queue failed messages are moved to, from the queue's redrive policy.
+     */
+    deadLetterTargetArn?: string;
+
+    /**
+     * The number of receives before a message is moved to the dead-letter queue.
+     */
+    maxReceiveCount?: number;
+
+    /**
+     * The queue's server-side encryption.
+     */
+    encryption: 'none' | 'sqs' | 'kms';
+
+    /**
+     * The names of the queues whose redrive policy targets this queue, making it their dead-letter queue.
+     */
+    deadLetterSources: string[];
+};
+
+export type SqsQueuePage = {
+    /**
+     * The queues in the page.
+     */
+    queues: SqsQueueSummary[];
+
+    /**
+     * The token used to request the next page, if there is one.
+     */
+    nextToken?: string;
+};
+
+export type SqsSendResult = {
+    /**
+     * True if SQS accepted the message, otherwise false.
+     */
+    success: boolean;
+
+    /**
+     * The ID SQS assigned to the message, when successfully sent.
+     */
+    messageId?: string;
+
+    /**
+     * The sequence number SQS assigned to the message, when successfully sent to a FIFO queue.
+     */
+    sequenceNumber?: string;
+
+    /**
+     * The reason the message was rejected, when not successfully sent.
+     */
+    error?: string;
+
+    /**
+     * The error code returned by SQS, when not successfully sent.
+     */
+    errorCode?: string;
+
+    /**
+     * Warnings raised when the MD5 digests returned by SQS do not match those of the message sent.
+     */
+    integrityWarnings?: string[];
+};
+
+export type SqsHistoryEntry = {
+    /**
+     * The entry's unique identifier.
+     */
+    id: string;
+
+    /**
+     * The time the message was sent, in epoch milliseconds.
+     */
+    timestamp: number;
+
+    /**
+     * The URL of the queue the message was sent to.
+     */
+    queueUrl: string;
+
+    /**
+     * The exact request sent to SQS, with templates already rendered.
+     */
+    request: AWS.SQS.SendMessageRequest;
+
+    /**
+     * The ID SQS assigned to the message, when successfully sent.
+     */
+    messageId?: string;
+
+    /**
+     * The sequence number SQS assigned to the message, when successfully sent to a FIFO queue.
+     */
+    sequenceNumber?: string;
+
+    /**
+     * The reason the message was rejected, when not successfully sent.
+     */
+    error?: string;
+};
+
+export type SqsLoadTestOptions = {
+    /**
+     * Whether the load test stops after sending a number of messages or after a duration.
+     */
+    mode: 'count' | 'duration';
+
+    /**
+     * The total number of messages to send, in 'count' mode.
+     */
+    count: number;
+
+    /**
+     * The number of seconds to keep sending messages, in 'duration' mode.
+     */
+    durationSeconds: number;
+
+    /**
+     * The target number of messages sent per second.
+     */
+    ratePerSecond: number;
+
+    /**
+     * The maximum number of requests in flight at once.
+     */
+    concurrency: number;
+
+    /**
+     * True if messages are sent in batches of up to 10, otherwise false.
+     */
+    batching: boolean;
+};
+
+export type SqsLoadTestStats = {
+    /**
+     * The number of messages accepted by SQS.
+     */
+    sent: number;
+
+    /**
+     * The number of messages rejected by SQS, including throttled messages.
+     */
+    failed: number;
+
+    /**
+     * The number of messages rejected because requests were throttled.
+     */
+    throttled: number;
+
+    /**
+     * The duration of each request, in milliseconds.
+     */
+    latencies: number[];
+
+    /**
+     * The number of times each error occurred, keyed by error message.
+     */
+    errors: Record<string, number>;
+
+    /**
+     * The time spent sending, in milliseconds, excluding pauses.
+     */
+    elapsed: number;
+};
+
+export type SqsRedriveOptions = {
+    /**
+     * The maximum number of messages read from the dead-letter queue.
+     */
+    maxMessages: number;
+
+    /**
+     * The duration, in seconds, that read messages are hidden from other consumers while they are inspected and redriven.
+     */
+    visibilityTimeout: number;
+
+    /**
+     * The maximum number of messages redriven per second.
+     */
+    ratePerSecond: number;
+
+    /**
+     * True if messages are only validated and shown as they would be sent, without sending or deleting anything.
+     */
+    dryRun: boolean;
+};
+
+/**
+ * - pending: The message has not been redriven yet.
+ * - sent: The message was sent to the source queue and deleted from the dead-letter queue.
+ * - sentNotDeleted: The message was sent to the source queue, but could not be deleted from the dead-letter queue.
+ * - failed: The message could not be sent, so it was left in the dead-letter queue.
+ * - dryRun: The message would have been sent, but this was a dry run.
+ */
+export type SqsRedriveStatus = 'pending' | 'sent' | 'sentNotDeleted' | 'failed' | 'dryRun';
+
+export type SqsRedriveMessage = {
+    /**
+     * The message as read from the dead-letter queue, whose receipt handle is used to delete it.
+     */
+    received: SqsReceivedMessage;
+
+    /**
+     * The message that is sent to the source queue, which can be edited before it is redriven.
+     */
+    message: SqsMessage;
+
+    /**
+     * True if the message is redriven with the other selected messages, otherwise false.
+     */
+    selected: boolean;
+
+    /**
+     * The outcome of redriving the message.
+     */
+    status: SqsRedriveStatus;
+
+    /**
+     * The ID the source queue assigned to the sent message.
+     */
+    messageId?: string;
+
+    /**
+     * The reason the message could not be redriven or deleted.
+     */
+    error?: string;
+};
+
+export type SqsQueueSettings = {
+    /**
+     * The queue's name. FIFO queue names end with '.fifo'.
+     */
+    name: string;
+
+    /**
+     * True if the queue is a FIFO queue, otherwise false. Cannot be changed once the queue is created.
+     */
+    fifo: boolean;
+
+    /**
+     * How long, in seconds, received messages are hidden from other consumers.
+     */
+    visibilityTimeout: number;
+
+    /**
+     * How long, in seconds, messages are kept before they are deleted.
+     */
+    messageRetentionPeriod: number;
+
+    /**
+     * How long, in seconds, new messages are delayed before they can be received.
+     */
+    delaySeconds: number;
+
+    /**
+     * The largest message the queue accepts, in bytes.
+     */
+    maximumMessageSize: number;
+
+    /**
+     * How long, in seconds, receive requests wait for messages when they do not set a wait time.
+     */
+    receiveMessageWaitTimeSeconds: number;
+
+    /**
+     * True if FIFO messages sent without a deduplication ID are deduplicated by a hash of their body.
+     */
+    contentBasedDeduplication: boolean;
+
+    /**
+     * The ARN of the dead-letter queue failed messages are moved to, or empty if the queue has no redrive policy.
+     */
+    deadLetterTargetArn: string;
+
+    /**
+     * The number of receives before a message is moved to the dead-letter queue.
+     */
+    maxReceiveCount: number;
+};
+
+export type SqsQueueTag = {
+    /**
+     * The tag's key, which is unique within the queue.
+     */
+    key: string;
+
+    /**
+     * The tag's value, which may be empty.
+     */
+    value: string;
+};
+
+export type SqsQueueDetails = {
+    /**
+     * The queue's URL.
+     */
+    url: string;
+
+    /**
+     * The queue's Amazon Resource Name, which other queues' redrive policies refer to.
+     */
+    arn?: string;
+
+    /**
+     * The queue's current settings.
+     */
+    settings: SqsQueueSettings;
+
+    /**
+     * The queue's tags.
+     */
+    tags: SqsQueueTag[];
+
+    /**
+     * The approximate number of messages in the queue, including those in flight and delayed.
+     */
+    approximateMessageCount?: number;
+};
+
+/**
+ * - csv: Comma-separated values, with a header row naming the columns.
+ * - json: A JSON array of objects, whose properties are the columns.
+ * - jsonLines: One JSON object per line, whose properties are the columns.
+ */
+export type SqsDatasetFormat = 'csv' | 'json' | 'jsonLines';
+
+/**
+ * A row of a dataset, keyed by column name.
+ */
+export type SqsDatasetRow = Record<string, string>;
+
+export type SqsDataset = {
+    /**
+     * The name of the file the dataset was read from.
+     */
+    fileName: string;
+
+    /**
+     * The file's format.
+     */
+    format: SqsDatasetFormat;
+
+    /**
+     * The column names, usable as placeholders in the message template, e.g. {{customerId}}.
+     */
+    columns: string[];
+
+    /**
+     * The dataset's rows, each sent as a message.
+     */
+    rows: SqsDatasetRow[];
+};
+
+/**
+ * - pending: The row has not been sent.
+ * - invalid: The row's rendered message failed validation, so it was not sent.
+ * - sent: SQS accepted the row's message.
+ * - failed: SQS rejected the row's message.
+ */
+export type SqsDatasetRowStatus = 'pending' | 'invalid' | 'sent' | 'failed';
+
+export type SqsDatasetResult = {
+    /**
+     * The row's position in the dataset, starting at 1.
+     */
+    row: number;
+
+    /**
+     * The outcome of sending the row.
+     */
+    status: SqsDatasetRowStatus;
+
+    /**
+     * The ID SQS assigned to the row's message, when successfully sent.
+     */
+    messageId?: string;
+
+    /**
+     * The sequence number SQS assigned to the row's message, when successfully sent to a FIFO queue.
+     */
+    sequenceNumber?: string;
+
+    /**
+     * The validation errors, or the reason SQS rejected the message.
+     */
+    errors?: string[];
+};
+
+export type SqsMetricsOptions = {
+    /**
+     * How often, in seconds, the queue's attributes are polled.
+     */
+    intervalSeconds: number;
+
+    /**
+     * The number of minutes charted, after which older samples are discarded.
+     */
+    windowMinutes: number;
+};
+
+export type SqsQueueDepth = {
+    /**
+     * The time the queue's attributes were read, in milliseconds since the epoch.
+     */
+    timestamp: number;
+
+    /**
+     * The approximate number of messages available to consumers.
+     */
+    visible: number;
+
+    /**
+     * The approximate number of messages received by a consumer but not yet deleted.
+     */
+    notVisible: number;
+
+    /**
+     * The approximate number of messages that are not available yet due to a delivery delay.
+     */
+    delayed: number;
+
+    /**
+     * The URL of the queue's dead-letter queue, if it has a redrive policy.
+     */
+    deadLetterQueueUrl?: string;
+};
+
+/**
+ * - visible: ApproximateNumberOfMessages.
+ * - notVisible: ApproximateNumberOfMessagesNotVisible.
+ * - delayed: ApproximateNumberOfMessagesDelayed.
+ */
+export type SqsQueueDepthSeries = 'visible' | 'notVisible' | 'delayed';
+
+export type SqsSendMarker = {
+    /**
+     * The time the messages were sent, in milliseconds since the epoch.
+     */
+    timestamp: number;
+
+    /**
+     * The SQS queue URL the messages were sent to.
      */
     queueUrl: string;
+
+    /**
+     * The number of messages SQS accepted.
+     */
+    count: number;
 };
 
-export type SqsMessage = {
+export type SqsDepthChart = {
     /**
-     * The message's unique identifier.
+     * The SVG path of each series, in chart coordinates.
      */
-    id: string;
+    paths: Record<SqsQueueDepthSeries, string>;
 
     /**
-     * The message's body.
+     * The horizontal position of each send marker within the charted time range.
      */
-    body: string;
+    markers: Array<{ x: number; marker: SqsSendMarker }>;
 
     /**
-     * The message attributes.
+     * The vertical position and value of each gridline.
      */
-    attributes: SqsMessageAttribute[];
+    yTicks: Array<{ y: number; value: number }>;
 
     /**
-     * The message's client-side validation errors.
+     * The horizontal position and time of each time label.
      */
-    errors?: string[];
+    xTicks: Array<{ x: number; timestamp: number }>;
 };
 
-export type SqsMessageAttribute = {
+/**
+ * - awsCli: An `aws sqs send-message` command.
+ * - sdkV3: A JavaScript snippet that sends the message with the AWS SDK v3.
+ * - boto3: A Python snippet that sends the message with boto3.
+ * - lambdaEvent: A Lambda SQS event holding the message as its only record, e.g. as a fixture for a handler's tests.
+ */
+export type SqsSnippetFormat = 'awsCli' | 'sdkV3' | 'boto3' | 'lambdaEvent';
+
+export type SqsCliOptions = {
     /**
-     * The attribute's unique identifier.
+     * The command to run: 'send' validates and sends messages, 'validate' only validates them.
      */
-    id: string;
+    command: 'send' | 'validate' | 'help';
 
     /**
-     * The attibute's unique name.
+     * The paths of the messages.js or JSON files to read messages from.
      */
-    name: string;
+    files: string[];
 
     /**
-     * The attributes value's data type.
+     * The SQS queue URL messages are sent to, also used to apply FIFO rules when validating.
      */
-    type: SqsMessageAttributeType;
+    queueUrl?: string;
 
     /**
-     * The attribute's value.
+     * The name of the AWS shared credentials profile to sign requests with.
      */
-    value: SqsMessageAttributeValue;
+    profile?: string;
+
+    /**
+     * The AWS region, overriding the region of the environment and queue URL.
+     */
+    region?: string;
+
+    /**
+     * A custom endpoint, e.g. a local emulator such as LocalStack.
+     */
+    endpoint?: string;
+
+    /**
+     * The positions of the messages to include, starting at 0. All messages are included when undefined.
+     */
+    indexes?: number[];
+
+    /**
+     * Only messages with at least one of these tags are included. All messages are included when undefined.
+     */
+    tags?: string[];
+
+    /**
+     * The variables available to template expressions.
+     */
+    variables: SqsTemplateVariable[];
+
+    /**
+     * True if messages are validated and rendered, but not sent.
+     */
+    dryRun: boolean;
+
+    /**
+     * True if messages are sent in batches of up to 10, otherwise one request is made per message.
+     */
+    batch: boolean;
+
+    /**
+     * True if the results are written as JSON rather than as text.
+     */
+    json: boolean;
 };
 
-export type SqsMessageAttributeValue = Buffer | Uint8Array | Blob | string;
+/**
+ * - valid: The message passed validation and was not sent.
+ * - invalid: The message failed validation.
+ * - skipped: The message was valid, but was not sent because another message failed validation.
+ * - sent: SQS accepted the message.
+ * - failed: SQS rejected the message, or the request failed.
+ */
+export type SqsCliMessageStatus = 'valid' | 'invalid' | 'skipped' | 'sent' | 'failed';
 
-export type SqsMessageAttributeType = 'String' | 'Number' | 'Binary';
+export type SqsCliResult = {
+    /**
+     * The path of the file the message was read from.
+     */
+    file: string;
+
+    /**
+     * The message's position in the file, starting at 0.
+     */
+    index: number;
+
+    /**
+     * The message's tags.
+     */
+    tags?: string[];
+
+    /**
+     * The outcome of validating and sending the message.
+     */
+    status: SqsCliMessageStatus;
+
+    /**
+     * The ID SQS assigned to the message, when successfully sent.
+     */
+    messageId?: string;
+
+    /**
+     * The validation errors, or the reason SQS rejected the message.
+     */
+    errors?: string[];
+
+    /**
+     * Warnings raised when the MD5 digests returned by SQS do not match those of the message sent.
+     */
+    warnings?: string[];
+
+    /**
+     * The request that would have been sent, on a dry run.
+     */
+    request?: AWS.SQS.SendMessageRequest;
+};
+
+/**
+ * - unknown: The connection has not been tested.
+ * - ok: The queue or topic is reachable, on an emulator or offline queue that does not check permissions.
+ * - failed: The connection failed for a reason not covered by the other statuses.
+ * - invalidCredentials: The access key ID or secret is not recognized.
+ * - expiredToken: The session token has expired.
+ * - accessDenied: The credentials are not permitted to access the queue or topic.
+ * - sendUnverified: The queue or topic is reachable, but permission to send messages cannot be checked without sending one.
+ * - queueNotFound: The queue does not exist.
+ * - topicNotFound: The SNS topic does not exist.
+ * - regionMismatch: The queue URL or topic ARN belongs to a different region than the one configured.
+ */
+export type SqsConnectionStatus =
+    | 'unknown'
+    | 'ok'
+    | 'failed'
+    | 'invalidCredentials'
+    | 'expiredToken'
+    | 'accessDenied'
+    | 'sendUnverified'
+    | 'queueNotFound'
+    | 'topicNotFound'
+    | 'regionMismatch';
 
-export type SqsConnectionStatus = 'unknown' | 'ok' | 'failed';
+/**
+ * The number of queues loaded per page by the queue browser.
+ */
+const QUEUE_PAGE_SIZE = 20;
 
 /**
  * Renders the application's main content.
  */
 export const App: React.FC = () => {
     const [tab, setTab] = useState('settings');
-    const [messages, setMessages] = useState<SqsMessage[]>();
-
-    // If a local .env file is present, variables from it will be loaded
-    // as environment variables by parcel when the application is transpiled.
-    const [config, setConfig] = useState<SqsConfig>({
-        region: process.env.AWS_REGION || '',
-        accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
-        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
-        sessionToken: process.env.AWS_SESSION_TOKEN || '',
-        queueUrl: process.env.AWS_SQS_QUEUE_URL || '',
-    });
-
-    const sqs = useMemo(() => {
-        AWS.config.update(config);
-        return new AWS.SQS();
-    }, [config]);
+    const [workspaces, setWorkspaces] = useState<SqsWorkspace[]>(WorkspaceUtils.loadWorkspaces);
+    const [activeWorkspaceId, setActiveWorkspaceId] = useState(() => WorkspaceUtils.loadActiveWorkspaceId() ?? workspaces[0].id);
+    const [firstRun] = useState(() => !WorkspaceUtils.hasSavedWorkspaces());
+
+    const activeWorkspace = useMemo(() => workspaces.find((workspace) => workspace.id === activeWorkspaceId) ?? workspaces[0], [workspaces, activeWorkspaceId]);
+    const messages = activeWorkspace.messages;
+    const variables = activeWorkspace.variables;
+    const schemaSettings = activeWorkspace.schemaSettings;
+
+    const updateActiveWorkspace = useCallback(
+        (update: (workspace: SqsWorkspace) => Partial<SqsWorkspace>) => {
+            setWorkspaces((currentWorkspaces) => currentWorkspaces.map((workspace) => (workspace.id === activeWorkspace.id ? { ...workspace, ...update(workspace) } : workspace)));
+        },
+        [activeWorkspace.id]
+    );
+
+    const setMessages = useCallback(
+        (newMessages: React.SetStateAction<SqsMessage[]>) => {
+            updateActiveWorkspace((workspace) => ({ messages: typeof newMessages === 'function' ? newMessages(workspace.messages) : newMessages }));
+        },
+        [updateActiveWorkspace]
+    );
+
+    const setVariables = useCallback((newVariables: SqsTemplateVariable[]) => updateActiveWorkspace(() => ({ variables: newVariables })), [updateActiveWorkspace]);
+
+    const setSchemaSettings = useCallback((newSchemaSettings: SqsSchemaSettings) => updateActiveWorkspace(() => ({ schemaSettings: newSchemaSettings })), [updateActiveWorkspace]);
+
+    const templateContext = useMemo(() => TemplateUtils.createContext(variables), [variables]);
+
+    useEffect(() => {
+        WorkspaceUtils.saveWorkspaces(workspaces);
+    }, [workspaces]);
+
+    useEffect(() => {
+        WorkspaceUtils.saveActiveWorkspaceId(activeWorkspace.id);
+    }, [activeWorkspace.id]);
+
+    const [profiles, setProfiles] = useState<SqsProfile[]>(ProfileUtils.loadProfiles);
+    const [activeProfileId, setActiveProfileId] = useState(() => ProfileUtils.loadActiveProfileId() ?? profiles[0].id);
+
+    const activeProfile = useMemo(() => profiles.find((profile) => profile.id === activeProfileId) ?? profiles[0], [profiles, activeProfileId]);
+    const config = activeProfile.config;
+
+    const setConfig = useCallback(
+        (newConfig: SqsConfig) => {
+            setProfiles((currentProfiles) => currentProfiles.map((profile) => (profile.id === activeProfile.id ? { ...profile, config: newConfig } : profile)));
+        },
+        [activeProfile.id]
+    );
+
+    useEffect(() => {
+        ProfileUtils.saveProfiles(profiles);
+    }, [profiles]);
+
+    useEffect(() => {
+        ProfileUtils.saveActiveProfileId(activeProfile.id);
+    }, [activeProfile.id]);
+
+    const queueUrl = useMemo(() => ConnectionUtils.resolveQueueUrl(config), [config]);
+
+    const target = useMemo(() => ConnectionUtils.getTarget(config), [config]);
+
+    const transport = useMemo(() => TransportUtils.createTransport(config), [config]);
+
+    const [history, setHistory] = useState<SqsHistoryEntry[]>(HistoryUtils.loadHistory);
+    const [historySaved, setHistorySaved] = useState(true);
+
+    useEffect(() => {
+        setHistorySaved(HistoryUtils.saveHistory(history));
+    }, [history]);
+
+    const addHistory = useCallback((entries: SqsHistoryEntry[]) => {
+        setHistory((currentHistory) => HistoryUtils.addEntries(currentHistory, entries));
+    }, []);
+
+    // Sends are marked on the metrics charts, including load test sends that are not recorded in the history.
+    const [sendMarkers, setSendMarkers] = useState<SqsSendMarker[]>([]);
+
+    const addSendMarker = useCallback((sentQueueUrl: string, count: number) => {
+        if (count) {
+            setSendMarkers((currentMarkers) => MetricsUtils.addSendMarker(currentMarkers, { timestamp: Date.now(), queueUrl: sentQueueUrl, count }));
+        }
+    }, []);
+
+    const queueSendMarkers = useMemo(() => sendMarkers.filter((marker) => marker.queueUrl === queueUrl), [sendMarkers, queueUrl]);
+
+    const sendRequest = useCallback(
+        async (request: AWS.SQS.SendMessageRequest): Promise<SqsSendResult> => {
+            let data: AWS.SQS.SendMessageResult;
+
+            try {
+                data = await transport.sendMessage(request);
+            } catch (error) {
+                addHistory([HistoryUtils.createEntry(request, { success: false, error: ErrorUtils.getMessage(error) })]);
+                throw ErrorUtils.toError(error);
+            }
+
+            const result: SqsSendResult = {
+                success: true,
+                messageId: data.MessageId,
+                sequenceNumber: data.SequenceNumber,
+                integrityWarnings: MessageUtils.verifyChecksums(request, data),
+            };
+
+            addHistory([HistoryUtils.createEntry(request, result)]);
+            addSendMarker(request.QueueUrl, 1);
+            return result;
+        },
+        [transport, addHistory, addSendMarker]
+    );
+
+    // Messages published to SNS topics are not recorded in the history, which only replays SQS send requests.
+    const publish = useCallback(
+        async (request: AWS.SNS.PublishInput): Promise<SqsSendResult> => {
+            const response = await transport.publish(request);
+            return { success: true, messageId: response.MessageId, sequenceNumber: response.SequenceNumber };
+        },
+        [transport]
+    );
+
+    const publishBatch = useCallback(
+        async (request: AWS.SNS.PublishBatchInput) => {
+            const results: Record<string, SqsSendResult> = {};
+
+            try {
+                const response = await transport.publishBatch(request);
+
+                response.Successful?.forEach((entry) => {
+                    results[entry.Id ?? ''] = { success: true, messageId: entry.MessageId, sequenceNumber: entry.SequenceNumber };
+                });
+                response.Failed?.forEach((entry) => {
+                    results[entry.Id] = { success: false, error: entry.Message || entry.Code, errorCode: entry.Code };
+                });
+            } catch (error) {
+                request.PublishBatchRequestEntries.forEach((entry) => {
+                    results[entry.Id] = { success: false, error: ErrorUtils.getMessage(error), errorCode: ErrorUtils.getCode(error) };
+                });
+            }
+
+            return results;
+        },
+        [transport]
+    );
 
     const sendMessage = useCallback(
         (message: SqsMessage) => {
-            return new Promise<boolean>((resolve, reject) => {
-                const request = MessageUtils.toRequest(config.queueUrl, message);
-
-                sqs.sendMessage(request, (error) => {
-                    if (error) {
-                        console.error({ error });
-                        return reject(error.message);
-                    }
-                    resolve(true);
+            if (MessageUtils.isTopicArn(target)) {
+                return publish(MessageUtils.toPublishRequest(target, message));
+            }
+            return sendRequest(MessageUtils.toRequest(target, message));
+        },
+        [sendRequest, publish, target]
+    );
+
+    const sendBatch = useCallback(
+        async (request: AWS.SQS.SendMessageBatchRequest) => {
+            const results: Record<string, SqsSendResult> = {};
+
+            try {
+                const response = await transport.sendMessageBatch(request);
+                addSendMarker(request.QueueUrl, response.Successful.length);
+
+                response.Successful.forEach((entry) => {
+                    const sentEntry = request.Entries.find((requestEntry) => requestEntry.Id === entry.Id);
+
+                    results[entry.Id] = {
+                        success: true,
+                        messageId: entry.MessageId,
+                        sequenceNumber: entry.SequenceNumber,
+                        integrityWarnings: sentEntry && MessageUtils.verifyChecksums(sentEntry, entry),
+                    };
+                });
+                response.Failed.forEach((entry) => {
+                    results[entry.Id] = { success: false, error: entry.Message || entry.Code, errorCode: entry.Code };
+                });
+            } catch (error) {
+                // The whole batch was rejected, e.g. due to invalid credentials.
+                request.Entries.forEach((entry) => {
+                    results[entry.Id] = { success: false, error: ErrorUtils.getMessage(error), errorCode: ErrorUtils.getCode(error) };
+                });
+            }
+
+            return results;
+        },
+        [transport, addSendMarker]
+    );
+
+    // Batch entries are identified by their position, so the results are returned in the order of the messages.
+    const sendMessages = useCallback(
+        async (sentMessages: SqsMessage[]): Promise<SqsSendResult[]> => {
+            const results: Record<string, SqsSendResult> = {};
+
+            if (MessageUtils.isTopicArn(target)) {
+                for (const request of MessageUtils.toPublishBatchRequests(target, sentMessages)) {
+                    Object.assign(results, await publishBatch(request));
+                }
+                return sentMessages.map((_, index) => results[String(index)]);
+            }
+
+            const requests = MessageUtils.toBatchRequests(target, sentMessages);
+
+            for (const request of requests) {
+                Object.assign(results, await sendBatch(request));
+                addHistory(request.Entries.map((entry) => HistoryUtils.createEntry(HistoryUtils.toRequest(request.QueueUrl, entry), results[entry.Id])));
+            }
+
+            return sentMessages.map((_, index) => results[String(index)]);
+        },
+        [sendBatch, publishBatch, target, addHistory]
+    );
+
+    // Load test sends are not recorded in the history, which would otherwise be flooded with thousands of entries.
+    const sendLoadTestMessages = useCallback(
+        async (loadMessages: SqsMessage[]): Promise<SqsSendResult[]> => {
+            const results: Record<string, SqsSendResult> = {};
+
+            if (MessageUtils.isTopicArn(target)) {
+                for (const request of MessageUtils.toPublishBatchRequests(target, loadMessages)) {
+                    Object.assign(results, await publishBatch(request));
+                }
+                return loadMessages.map((_, index) => results[String(index)]);
+            }
+
+            if (loadMessages.length === 1) {
+                try {
+                    const response = await transport.sendMessage(MessageUtils.toRequest(target, loadMessages[0]));
+                    addSendMarker(target, 1);
+                    return [{ success: true, messageId: response.MessageId, sequenceNumber: response.SequenceNumber }];
+                } catch (error) {
+                    return [{ success: false, error: ErrorUtils.getMessage(error), errorCode: ErrorUtils.getCode(error) }];
+                }
+            }
+
+            for (const request of MessageUtils.toBatchRequests(target, loadMessages)) {
+                Object.assign(results, await sendBatch(request));
+            }
+
+            return loadMessages.map((_, index) => results[String(index)]);
+        },
+        [transport, sendBatch, publishBatch, target, addSendMarker]
+    );
+
+    // Replayed requests are sent exactly as recorded, so generated values such as deduplication IDs are reused.
+    const replayHistoryEntry = useCallback(
+        (entry: SqsHistoryEntry, targetQueueUrl: string) => {
+            return sendRequest({ ...entry.request, QueueUrl: ConnectionUtils.resolveQueueUrl({ ...config, queueUrl: targetQueueUrl }) });
+        },
+        [sendRequest, config]
+    );
+
+    const receiveFromQueue = useCallback(
+        async (receiveQueueUrl: string, options: SqsReceiveOptions) => {
+            const response = await transport.receiveMessage({
+                QueueUrl: receiveQueueUrl,
+                WaitTimeSeconds: options.waitTimeSeconds,
+                MaxNumberOfMessages: options.maxNumberOfMessages,
+                VisibilityTimeout: options.visibilityTimeout,
+                AttributeNames: ['All'],
+                MessageAttributeNames: ['All'],
+            });
+
+            return (response.Messages ?? []).map(MessageUtils.fromReceivedMessage);
+        },
+        [transport]
+    );
+
+    const receiveMessages = useCallback((options: SqsReceiveOptions) => receiveFromQueue(queueUrl, options), [receiveFromQueue, queueUrl]);
+
+    const deleteFromQueue = useCallback(
+        async (deleteQueueUrl: string, message: SqsReceivedMessage) => {
+            await transport.deleteMessage({ QueueUrl: deleteQueueUrl, ReceiptHandle: message.receiptHandle });
+        },
+        [transport]
+    );
+
+    const deleteMessage = useCallback((message: SqsReceivedMessage) => deleteFromQueue(queueUrl, message), [deleteFromQueue, queueUrl]);
+
+    const changeMessageVisibility = useCallback(
+        async (message: SqsReceivedMessage, visibilityTimeout: number) => {
+            await transport.changeMessageVisibility({ QueueUrl: queueUrl, ReceiptHandle: message.receiptHandle, VisibilityTimeout: visibilityTimeout });
+        },
+        [transport, queueUrl]
+    );
+
+    const listQueues = useCallback(
+        async (prefix: string, nextToken?: string): Promise<SqsQueuePage> => {
+            const response = await transport.listQueues({ QueueNamePrefix: prefix || undefined, NextToken: nextToken, MaxResults: QUEUE_PAGE_SIZE });
+
+            const queues = await Promise.all(
+                (response.QueueUrls ?? []).map(async (url) => {
+                    const attributes = await transport.getQueueAttributes({ QueueUrl: ConnectionUtils.resolveQueueUrl({ ...config, queueUrl: url }), AttributeNames: ['All'] });
+                    return QueueUtils.toQueueSummary(url, attributes.Attributes ?? {});
+                })
+            );
+
+            return { queues, nextToken: response.NextToken };
+        },
+        [transport, config]
+    );
+
+    const listDeadLetterSources = useCallback(
+        async (deadLetterQueueUrl: string) => {
+            const sourceUrls: string[] = [];
+            let nextToken: string | undefined;
+
+            do {
+                const response = await transport.listDeadLetterSourceQueues({
+                    QueueUrl: ConnectionUtils.resolveQueueUrl({ ...config, queueUrl: deadLetterQueueUrl }),
+                    NextToken: nextToken,
+                    MaxResults: QUEUE_PAGE_SIZE,
                 });
+                sourceUrls.push(...response.queueUrls);
+                nextToken = response.NextToken;
+            } while (nextToken);
+
+            return sourceUrls;
+        },
+        [transport, config]
+    );
+
+    const receiveForRedrive = useCallback(
+        (deadLetterQueueUrl: string, options: SqsReceiveOptions) => receiveFromQueue(ConnectionUtils.resolveQueueUrl({ ...config, queueUrl: deadLetterQueueUrl }), options),
+        [receiveFromQueue, config]
+    );
+
+    const deleteForRedrive = useCallback(
+        (deadLetterQueueUrl: string, message: SqsReceivedMessage) => deleteFromQueue(ConnectionUtils.resolveQueueUrl({ ...config, queueUrl: deadLetterQueueUrl }), message),
+        [deleteFromQueue, config]
+    );
+
+    // Redriven messages are recorded in the history like any other sent message.
+    const sendForRedrive = useCallback(
+        (sourceQueueUrl: string, message: SqsMessage) => sendRequest(MessageUtils.toRequest(ConnectionUtils.resolveQueueUrl({ ...config, queueUrl: sourceQueueUrl }), message)),
+        [sendRequest, config]
+    );
+
+    const loadQueueDetails = useCallback(
+        async (adminQueueUrl: string): Promise<SqsQueueDetails> => {
+            const resolvedUrl = ConnectionUtils.resolveQueueUrl({ ...config, queueUrl: adminQueueUrl });
+            const [attributes, tags] = await Promise.all([
+                transport.getQueueAttributes({ QueueUrl: resolvedUrl, AttributeNames: ['All'] }),
+                transport.listQueueTags({ QueueUrl: resolvedUrl }),
+            ]);
+
+            return QueueAdminUtils.toQueueDetails(adminQueueUrl, attributes.Attributes ?? {}, tags.Tags);
+        },
+        [transport, config]
+    );
+
+    const createQueue = useCallback(
+        async (settings: SqsQueueSettings, tags: SqsQueueTag[]) => {
+            const response = await transport.createQueue({
+                QueueName: settings.name,
+                Attributes: QueueAdminUtils.toAttributes(settings, true),
+                tags: tags.length ? QueueAdminUtils.toTagMap(tags) : undefined,
+            });
+
+            return response.QueueUrl ?? '';
+        },
+        [transport]
+    );
+
+    const updateQueueAttributes = useCallback(
+        async (adminQueueUrl: string, settings: SqsQueueSettings) => {
+            await transport.setQueueAttributes({
+                QueueUrl: ConnectionUtils.resolveQueueUrl({ ...config, queueUrl: adminQueueUrl }),
+                Attributes: QueueAdminUtils.toAttributes(settings, false),
+            });
+        },
+        [transport, config]
+    );
+
+    // Tags missing from the update are removed before the rest are added or overwritten.
+    const updateQueueTags = useCallback(
+        async (adminQueueUrl: string, tags: SqsQueueTag[]) => {
+            const resolvedUrl = ConnectionUtils.resolveQueueUrl({ ...config, queueUrl: adminQueueUrl });
+            const currentTags = await transport.listQueueTags({ QueueUrl: resolvedUrl });
+            const removedKeys = QueueAdminUtils.getRemovedTagKeys(currentTags.Tags, tags);
+
+            if (removedKeys.length) {
+                await transport.untagQueue({ QueueUrl: resolvedUrl, TagKeys: removedKeys });
+            }
+            if (tags.length) {
+                await transport.tagQueue({ QueueUrl: resolvedUrl, Tags: QueueAdminUtils.toTagMap(tags) });
+            }
+        },
+        [transport, config]
+    );
+
+    const purgeQueue = useCallback(
+        (adminQueueUrl: string) => transport.purgeQueue({ QueueUrl: ConnectionUtils.resolveQueueUrl({ ...config, queueUrl: adminQueueUrl }) }),
+        [transport, config]
+    );
+
+    const deleteQueue = useCallback(
+        (adminQueueUrl: string) => transport.deleteQueue({ QueueUrl: ConnectionUtils.resolveQueueUrl({ ...config, queueUrl: adminQueueUrl }) }),
+        [transport, config]
+    );
+
+    const loadQueueDepth = useCallback(
+        async (metricsQueueUrl: string) => {
+            const response = await transport.getQueueAttributes({
+                QueueUrl: ConnectionUtils.resolveQueueUrl({ ...config, queueUrl: metricsQueueUrl }),
+                AttributeNames: MetricsUtils.getAttributeNames(),
             });
+
+            return MetricsUtils.toQueueDepth(metricsQueueUrl, response.Attributes ?? {}, Date.now());
+        },
+        [transport, config]
+    );
+
+    const sendToAdminQueue = useCallback((adminQueueUrl: string) => setConfig({ ...config, queueUrl: adminQueueUrl }), [setConfig, config]);
+
+    const copyToEditor = useCallback(
+        (message: SqsReceivedMessage) => {
+            setMessages((currentMessages) => [...currentMessages, MessageUtils.fromReceivedToMessage(message)]);
+            setTab('messages');
         },
-        [sqs]
+        [setMessages]
+    );
+
+    const restoreHistoryEntry = useCallback(
+        (entry: SqsHistoryEntry) => {
+            setMessages((currentMessages) => [...currentMessages, MessageUtils.fromRequest(entry.request)]);
+            setTab('messages');
+        },
+        [setMessages]
     );
 
     const updateTab = useCallback((event: React.ChangeEvent<{}>, newTab: string) => {
         setTab(newTab);
     }, []);
 
-    // Testing Queue with basic message.
+    // Testing the connection with calls that cannot deliver a message, so nothing reaches the queue's consumers.
     const testConnection = useCallback(async (): Promise<SqsConnectionStatus> => {
-        const success = await sendMessage({
-            id: MessageUtils.generateRandomId(),
-            body: 'connection test',
-            attributes: [],
-        });
-
-        if (!success) {
-            return 'failed';
+        const topic = ConnectionUtils.isTopicTarget(config);
+        const targetRegion = topic ? ConnectionUtils.getTopicRegion(target) : ConnectionUtils.getQueueRegion(config.queueUrl);
+
+        if (!config.endpoint && targetRegion && targetRegion !== config.region) {
+            return 'regionMismatch';
         }
 
-        return 'ok';
-    }, [sqs]);
+        try {
+            if (topic) {
+                await transport.getTopicAttributes({ TopicArn: target });
+            } else {
+                await transport.getQueueAttributes({ QueueUrl: target, AttributeNames: ['QueueArn'] });
+            }
+        } catch (error) {
+            const status = ConnectionUtils.toConnectionStatus(error);
+            if (status === 'failed') {
+                throw error;
+            }
+            return status;
+        }
 
+        // Local emulators and the offline queue do not implement IAM, so there are no permissions to check.
+        // On AWS, permission to send can only be proven by sending, which this test must not do.
+        return config.endpoint || config.transport === 'offline' ? 'ok' : 'sendUnverified';
+    }, [transport, config, target]);
+
+    // The local messages.js file seeds the default workspace the first time the application is opened.
+    // After that, messages are restored from browser storage and the file can be imported from the Messages tab.
     useEffect(() => {
+        if (!firstRun) {
+            return;
+        }
+
         try {
             import('../../messages.js' as string)
                 .then((data) => {
                     const items: unknown[] = data.default;
-                    const initialMessages = items.map<SqsMessage>(MessageUtils.toMessage);
+                    const initialMessages = items.map<SqsMessage>((item) => MessageUtils.toMessage(item, target));
                     setMessages(initialMessages);
                 })
                 .catch(() => {
-                    setMessages([
-                        {
-                            id: MessageUtils.generateRandomId(),
-                            body: '',
-                            attributes: [],
-                        },
-                    ]);
-
                     console.warn(`Could not find local messages.js file.`);
                 });
         } catch {
@@ -169,17 +1673,90 @@ export const App: React.FC = () => {
     return (
         <div className="app">
             <TabContext value={tab}>
-                <AppBar>
-                    <TabList value={tab} indicatorColor="primary" variant="fullWidth" onChange={updateTab}>
+                <AppBar className="app-bar">
+                    <TabList className="app-bar-tabs" value={tab} indicatorColor="primary" variant="fullWidth" onChange={updateTab}>
                         <Tab label="Settings" value="settings" />
+                        <Tab label="Queues" value="queues" />
+                        <Tab label="Metrics" value="metrics" />
                         <Tab label="Messages" value="messages" />
+                        <Tab label="Inbox" value="inbox" />
+                        <Tab label="Redrive" value="redrive" />
+                        <Tab label="History" value="history" />
+                        <Tab label="Load Test" value="loadTest" />
                     </TabList>
+                    <ProfileSwitcher profiles={profiles} activeProfileId={activeProfile.id} onChange={setActiveProfileId} />
                 </AppBar>
                 <TabView className="tab-view" value="settings" unmount>
-                    <Settings config={config} onChange={setConfig} onTestConnection={testConnection} />
+                    <Settings
+                        key={activeProfile.id}
+                        config={config}
+                        profile={activeProfile}
+                        profiles={profiles}
+                        onChange={setConfig}
+                        onProfilesChange={setProfiles}
+                        onSelectProfile={setActiveProfileId}
+                        onTestConnection={testConnection}
+                        onListQueues={listQueues}
+                    />
+                </TabView>
+                <TabView className="tab-view" value="queues" unmount>
+                    <QueueAdmin
+                        key={activeProfile.id}
+                        queueUrl={config.queueUrl}
+                        onListQueues={listQueues}
+                        onLoad={loadQueueDetails}
+                        onCreate={createQueue}
+                        onUpdateAttributes={updateQueueAttributes}
+                        onUpdateTags={updateQueueTags}
+                        onPurge={purgeQueue}
+                        onDelete={deleteQueue}
+                        onUseQueue={sendToAdminQueue}
+                    />
+                </TabView>
+                <TabView className="tab-view" value="metrics">
+                    <QueueMetrics key={queueUrl} queueUrl={config.queueUrl} sendMarkers={queueSendMarkers} onLoadDepth={loadQueueDepth} />
                 </TabView>
                 <TabView className="tab-view" value="messages">
-                    {!!messages && <Messages initialMessages={messages} onSendMessage={sendMessage} />}
+                    <WorkspaceView workspaces={workspaces} workspace={activeWorkspace} queueUrl={target} onChange={setWorkspaces} onSelect={setActiveWorkspaceId}>
+                        <Variables variables={variables} onChange={setVariables} />
+                        <Schemas key={activeWorkspace.id} settings={schemaSettings} onChange={setSchemaSettings} />
+                        <Messages
+                            key={activeWorkspace.id}
+                            messages={messages}
+                            queueUrl={target}
+                            templateContext={templateContext}
+                            schemaSettings={schemaSettings}
+                            onChange={setMessages}
+                            onSendMessage={sendMessage}
+                            onSendMessages={sendMessages}
+                        />
+                    </WorkspaceView>
+                </TabView>
+                <TabView className="tab-view" value="inbox">
+                    <Inbox onReceive={receiveMessages} onDelete={deleteMessage} onChangeVisibility={changeMessageVisibility} onCopy={copyToEditor} />
+                </TabView>
+                <TabView className="tab-view" value="loadTest">
+                    <LoadTest
+                        key={activeWorkspace.id}
+                        messages={messages}
+                        queueUrl={target}
+                        templateContext={templateContext}
+                        schemaSettings={schemaSettings}
+                        onSend={sendLoadTestMessages}
+                    />
+                </TabView>
+                <TabView className="tab-view" value="redrive">
+                    <Redrive
+                        queueUrl={config.queueUrl}
+                        templateContext={templateContext}
+                        onListSources={listDeadLetterSources}
+                        onReceive={receiveForRedrive}
+                        onSend={sendForRedrive}
+                        onDelete={deleteForRedrive}
+                    />
+                </TabView>
+                <TabView className="tab-view" value="history">
+                    <History history={history} saved={historySaved} onChange={setHistory} onReplay={replayHistoryEntry} onRestore={restoreHistoryEntry} />
                 </TabView>
             </TabContext>
         </div>
@@ -0,0 +1,108 @@
+import { IconButton, MenuItem, Select, TextField, Tooltip } from '@material-ui/core';
+import AttachFileIcon from '@material-ui/icons/AttachFile';
+import React, { ChangeEvent, useCallback, useMemo, useRef, useState } from 'react';
+import { ErrorUtils } from '../utils/error.utils';
+import { FileUtils } from '../utils/file.utils';
+import { MessageUtils } from '../utils/message.utils';
+import { SqsBinaryEncoding } from './app.component';
+
+type Props = {
+    /**
+     * The attribute's value, encoded as text.
+     */
+    value: string;
+
+    /**
+     * How the value is encoded.
+     */
+    encoding: SqsBinaryEncoding;
+
+    /**
+     * Emitted when the user edits the value, changes its encoding or uploads a file.
+     *
+     * @param value       The encoded value.
+     * @param encoding    The value's encoding.
+     */
+    onChange: (value: string, encoding: SqsBinaryEncoding) => void;
+};
+
+const encodingLabels: Record<SqsBinaryEncoding, string> = {
+    base64: 'Base64',
+    hex: 'Hex',
+};
+
+/**
+ * Renders an editor for a Binary attribute value, entered as base64 or hex or uploaded from a file,
+ * along with the decoded value's size and a preview of its bytes.
+ */
+export const BinaryAttributeValue: React.FC<Props> = (props) => {
+    const [uploadError, setUploadError] = useState<string>();
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    const valid = useMemo(() => MessageUtils.isBinaryValid(props.value, props.encoding), [props.value, props.encoding]);
+    const bytes = useMemo(() => (valid ? (MessageUtils.decodeBinary(props.value, props.encoding) as Buffer) : undefined), [valid, props.value, props.encoding]);
+
+    const onValueChange = useCallback((event: ChangeEvent<HTMLInputElement>) => props.onChange(event.target.value, props.encoding), [props.encoding, props.onChange]);
+
+    // Switching encoding converts the value, so the bytes it represents are kept.
+    const onEncodingChange = useCallback(
+        (event: ChangeEvent<{ value: unknown }>) => {
+            const encoding = event.target.value as SqsBinaryEncoding;
+            props.onChange(MessageUtils.convertBinary(props.value, props.encoding, encoding), encoding);
+        },
+        [props.value, props.encoding, props.onChange]
+    );
+
+    const openFile = useCallback(() => fileInput.current?.click(), []);
+
+    const onFileChange = useCallback(
+        async (event: ChangeEvent<HTMLInputElement>) => {
+            const file = event.target.files?.[0];
+            event.target.value = '';
+
+            if (!file) {
+                return;
+            }
+
+            try {
+                setUploadError(undefined);
+                props.onChange(MessageUtils.encodeBinary(await FileUtils.readBytes(file), props.encoding), props.encoding);
+            } catch (error) {
+                setUploadError(`Could not read '${file.name}': ${ErrorUtils.getMessage(error)}`);
+            }
+        },
+        [props.encoding, props.onChange]
+    );
+
+    const helperText =
+        uploadError ??
+        (bytes ? `${bytes.length} bytes${bytes.length ? `: ${MessageUtils.toHexPreview(bytes)}` : ''}` : `Not valid ${encodingLabels[props.encoding].toLowerCase()}.`);
+
+    return (
+        <div className="message-attribute-value binary-attribute-value">
+            <Select className="binary-attribute-value-encoding" variant="outlined" value={props.encoding} onChange={onEncodingChange}>
+                {Object.entries(encodingLabels).map(([encoding, label]) => (
+                    <MenuItem key={encoding} value={encoding}>
+                        {label}
+                    </MenuItem>
+                ))}
+            </Select>
+            <TextField
+                className="binary-attribute-value-text"
+                variant="outlined"
+                multiline
+                rowsMax={4}
+                value={props.value}
+                error={!valid || !!uploadError}
+                helperText={helperText}
+                onChange={onValueChange}
+            />
+            <input ref={fileInput} type="file" hidden onChange={onFileChange} />
+            <Tooltip title="Upload file">
+                <IconButton className="binary-attribute-value-upload-btn" onClick={openFile}>
+                    <AttachFileIcon />
+                </IconButton>
+            </Tooltip>
+        </div>
+    );
+};
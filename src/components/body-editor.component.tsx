@@ -0,0 +1,268 @@
+import { Button, MenuItem, Select } from '@material-ui/core';
+import React, { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { BodyUtils } from '../utils/body.utils';
+import { ErrorUtils } from '../utils/error.utils';
+import { SqsBodyFormat } from './app.component';
+
+type Props = {
+    /**
+     * The body being edited.
+     */
+    body: string;
+
+    /**
+     * The body's format, or undefined to detect it from the body.
+     */
+    format?: SqsBodyFormat;
+
+    /**
+     * The text shown while the body is empty.
+     */
+    placeholder?: string;
+
+    /**
+     * Emitted when the user edits, formats or minifies the body, or chooses its format.
+     *
+     * @param body      The updated body.
+     * @param format    The chosen format, or undefined if it is detected from the body.
+     */
+    onChange: (body: string, format: SqsBodyFormat | undefined) => void;
+};
+
+type Segment = {
+    /**
+     * The segment's text.
+     */
+    text: string;
+
+    /**
+     * The CSS classes that highlight the segment.
+     */
+    className: string;
+};
+
+type Mark = {
+    start: number;
+    end: number;
+    className: string;
+};
+
+const formatLabels: Record<SqsBodyFormat, string> = {
+    json: 'JSON',
+    xml: 'XML',
+    yaml: 'YAML',
+    text: 'Text',
+};
+
+/**
+ * Matches template expressions, which are highlighted in every format.
+ */
+const TEMPLATE_PATTERN = /{{[^{}]*}}/g;
+
+/**
+ * Returns the indentation inserted by the tab key, which matches the indentation used when formatting.
+ */
+const getIndentUnit = (format: SqsBodyFormat) => (format === 'yaml' ? '  ' : '    ');
+
+/**
+ * Splits the body into segments at the edges of its tokens and marks, so each segment is highlighted by
+ * the token it is part of and any marks covering it. Tokens are ordered and never overlap.
+ */
+const toSegments = (body: string, marks: Mark[]): Segment[] => {
+    const tokens = marks.filter((mark) => mark.className.startsWith('body-editor-token-'));
+    const otherMarks = marks.filter((mark) => !mark.className.startsWith('body-editor-token-'));
+    const edges = Array.from(new Set([0, body.length, ...marks.flatMap((mark) => [mark.start, mark.end])]))
+        .filter((edge) => edge >= 0 && edge <= body.length)
+        .sort((a, b) => a - b);
+    const segments: Segment[] = [];
+    let tokenIndex = 0;
+
+    for (let index = 1; index < edges.length; index++) {
+        const start = edges[index - 1];
+        const end = edges[index];
+
+        while (tokens[tokenIndex] && tokens[tokenIndex].end <= start) {
+            tokenIndex++;
+        }
+
+        const token = tokens[tokenIndex] && tokens[tokenIndex].start <= start ? tokens[tokenIndex] : undefined;
+        const classNames = [token, ...otherMarks.filter((mark) => mark.start <= start && mark.end >= end)].map((mark) => mark?.className).filter(Boolean);
+
+        segments.push({ text: body.substring(start, end), className: classNames.join(' ') });
+    }
+
+    return segments;
+};
+
+/**
+ * Renders a code editor for a message body, with syntax highlighting, bracket matching and inline parse errors
+ * for JSON, XML and YAML, along with commands to format and minify the body.
+ * A transparent text area is laid over the highlighted body, so editing behaves as in any other text field.
+ */
+export const BodyEditor: React.FC<Props> = (props) => {
+    const [cursor, setCursor] = useState<number>();
+    const [commandError, setCommandError] = useState<string>();
+    const textArea = useRef<HTMLTextAreaElement>(null);
+    const pendingSelection = useRef<number>();
+
+    const format = props.format ?? BodyUtils.detectFormat(props.body);
+    const error = useMemo(() => BodyUtils.validate(props.body, format), [props.body, format]);
+
+    const segments = useMemo(() => {
+        const marks: Mark[] = BodyUtils.tokenize(props.body, format).map((token) => ({ ...token, className: `body-editor-token-${token.type}` }));
+
+        const templatePattern = new RegExp(TEMPLATE_PATTERN);
+        let template: RegExpExecArray | null;
+        while ((template = templatePattern.exec(props.body))) {
+            marks.push({ start: template.index, end: template.index + template[0].length, className: 'body-editor-template' });
+        }
+
+        const brackets = cursor === undefined ? undefined : BodyUtils.findMatchingBracket(props.body, format, cursor);
+        brackets?.forEach((offset) => marks.push({ start: offset, end: offset + 1, className: 'body-editor-bracket' }));
+
+        if (error) {
+            // Errors at a line break or the end of the body underline the character before, so they stay visible.
+            const start = /[^\n]/.test(props.body[error.offset] ?? '') ? error.offset : Math.max(error.offset - 1, 0);
+            const length = /^[^\s{}[\],:<>]*/.exec(props.body.substring(start))?.[0].length ?? 0;
+            marks.push({ start, end: start + Math.max(length, 1), className: 'body-editor-error' });
+        }
+
+        return toSegments(props.body, marks);
+    }, [props.body, format, cursor, error]);
+
+    // The selection is restored once an edit made by a key press is rendered, as React moves the cursor to the end.
+    useLayoutEffect(() => {
+        if (pendingSelection.current !== undefined && textArea.current) {
+            textArea.current.setSelectionRange(pendingSelection.current, pendingSelection.current);
+            setCursor(pendingSelection.current);
+            pendingSelection.current = undefined;
+        }
+    }, [props.body]);
+
+    const updateBody = useCallback(
+        (body: string) => {
+            setCommandError(undefined);
+            props.onChange(body, props.format);
+        },
+        [props.format, props.onChange]
+    );
+
+    const replaceSelection = useCallback(
+        (element: HTMLTextAreaElement, text: string, cursorOffset?: number) => {
+            const start = element.selectionStart;
+            pendingSelection.current = start + (cursorOffset ?? text.length);
+            updateBody(element.value.substring(0, start) + text + element.value.substring(element.selectionEnd));
+        },
+        [updateBody]
+    );
+
+    const onKeyDown = useCallback(
+        (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+            const element = event.currentTarget;
+            const indentUnit = getIndentUnit(format);
+
+            // Tab inserts an indent rather than moving the focus, so bodies can be indented by hand.
+            if (event.key === 'Tab' && !event.shiftKey) {
+                event.preventDefault();
+                replaceSelection(element, indentUnit);
+            } else if (event.key === 'Enter' && !event.shiftKey && format !== 'text') {
+                const before = element.value.substring(0, element.selectionStart);
+                const after = element.value.substring(element.selectionEnd);
+                const indent = /[ \t]*/.exec(before.substring(before.lastIndexOf('\n') + 1))?.[0] ?? '';
+                const opensBlock = format === 'yaml' ? /:[ \t]*$/.test(before) : /[{[][ \t]*$/.test(before);
+                const nextIndent = opensBlock ? indent + indentUnit : indent;
+
+                event.preventDefault();
+
+                // A closing bracket right after the cursor moves to its own line, below the new indented line.
+                if (opensBlock && format === 'json' && /^\s*[}\]]/.test(after)) {
+                    replaceSelection(element, `\n${nextIndent}\n${indent}`, nextIndent.length + 1);
+                } else {
+                    replaceSelection(element, `\n${nextIndent}`);
+                }
+            }
+        },
+        [format, replaceSelection]
+    );
+
+    const onBodyChange = useCallback((event: React.ChangeEvent<HTMLTextAreaElement>) => updateBody(event.target.value), [updateBody]);
+
+    const onSelect = useCallback((event: React.SyntheticEvent<HTMLTextAreaElement>) => {
+        const element = event.currentTarget;
+        setCursor(element.selectionStart === element.selectionEnd ? element.selectionStart : undefined);
+    }, []);
+
+    const onBlur = useCallback(() => setCursor(undefined), []);
+
+    const onFormatChange = useCallback(
+        (event: React.ChangeEvent<{ value: unknown }>) => {
+            const value = event.target.value as SqsBodyFormat | 'auto';
+            setCommandError(undefined);
+            props.onChange(props.body, value === 'auto' ? undefined : value);
+        },
+        [props.body, props.onChange]
+    );
+
+    const runCommand = useCallback(
+        (name: string, command: (body: string, bodyFormat: SqsBodyFormat) => string) => {
+            try {
+                updateBody(command(props.body, format));
+            } catch (failure) {
+                setCommandError(`Could not ${name} the body: ${ErrorUtils.getMessage(failure)}`);
+            }
+        },
+        [props.body, format, updateBody]
+    );
+
+    const formatBody = useCallback(() => runCommand('format', BodyUtils.format), [runCommand]);
+
+    const minifyBody = useCallback(() => runCommand('minify', BodyUtils.minify), [runCommand]);
+
+    return (
+        <div className="body-editor">
+            <div className="body-editor-toolbar">
+                <Select className="body-editor-format" variant="outlined" value={props.format ?? 'auto'} onChange={onFormatChange}>
+                    <MenuItem value="auto">Auto ({formatLabels[BodyUtils.detectFormat(props.body)]})</MenuItem>
+                    {Object.entries(formatLabels).map(([value, label]) => (
+                        <MenuItem key={value} value={value}>
+                            {label}
+                        </MenuItem>
+                    ))}
+                </Select>
+                <Button size="small" disabled={format === 'text' || !props.body.trim() || !!error} onClick={formatBody}>
+                    Format
+                </Button>
+                <Button size="small" disabled={!BodyUtils.canMinify(format) || !props.body.trim() || !!error} onClick={minifyBody}>
+                    Minify
+                </Button>
+            </div>
+            <div className={error ? 'body-editor-code body-editor-code-invalid' : 'body-editor-code'}>
+                <pre className="body-editor-highlight" aria-hidden="true">
+                    {segments.map((segment, index) =>
+                        segment.className ? (
+                            <span key={index} className={segment.className}>
+                                {segment.text}
+                            </span>
+                        ) : (
+                            segment.text
+                        )
+                    )}
+                    {/* Keeps a trailing line break from collapsing, so the highlight matches the text area's height. */}
+                    {'\n'}
+                </pre>
+                <textarea
+                    ref={textArea}
+                    className="body-editor-input"
+                    value={props.body}
+                    placeholder={props.placeholder}
+                    spellCheck={false}
+                    onChange={onBodyChange}
+                    onKeyDown={onKeyDown}
+                    onSelect={onSelect}
+                    onBlur={onBlur}
+                />
+            </div>
+            {(error || commandError) && <div className="body-editor-error-message">{error ? `Line ${error.line}, column ${error.column}: ${error.message}` : commandError}</div>}
+        </div>
+    );
+};
@@ -0,0 +1,291 @@
+import { Button, CircularProgress, IconButton, InputLabel, LinearProgress, TextField } from '@material-ui/core';
+import CloseIcon from '@material-ui/icons/Close';
+import GetAppIcon from '@material-ui/icons/GetApp';
+import PublishIcon from '@material-ui/icons/Publish';
+import SendIcon from '@material-ui/icons/Send';
+import StopIcon from '@material-ui/icons/Stop';
+import { Alert } from '@material-ui/lab';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { DatasetUtils } from '../utils/dataset.utils';
+import { ErrorUtils } from '../utils/error.utils';
+import { FileUtils } from '../utils/file.utils';
+import { MessageUtils } from '../utils/message.utils';
+import { SqsDataset, SqsDatasetResult, SqsMessage, SqsSchemaSettings, SqsSendResult, SqsTemplateContext } from './app.component';
+import { FileDropZone } from './file-drop-zone.component';
+
+type Props = {
+    /**
+     * The message sent once per row, whose template expressions can reference the dataset's columns.
+     */
+    message: SqsMessage;
+
+    /**
+     * The SQS queue URL or SNS topic ARN messages will be posted to.
+     */
+    queueUrl: string;
+
+    /**
+     * The variables available to template expressions, which the row's columns are added to.
+     */
+    templateContext: SqsTemplateContext;
+
+    /**
+     * The workspace's JSON schemas, which rendered message bodies are validated against.
+     */
+    schemaSettings?: SqsSchemaSettings;
+
+    /**
+     * Emitted for each chunk of rows sent, after they are rendered and validated.
+     *
+     * @param messages    The rendered messages.
+     * @returns           A promise that resolves to the result of each message, in order.
+     */
+    onSendMessages: (messages: SqsMessage[]) => Promise<SqsSendResult[]>;
+
+    /**
+     * Emitted when the user unbinds the dataset from the message.
+     */
+    onClose: () => void;
+};
+
+type RunControl = {
+    cancelled: boolean;
+};
+
+/**
+ * The number of rows sent per request to the parent, so progress is shown while large datasets are sent.
+ */
+const SEND_CHUNK_SIZE = 100;
+
+/**
+ * The most rows that can be previewed at once.
+ */
+const MAX_PREVIEW_ROWS = 50;
+
+/**
+ * Renders a dataset bound to a message, which is sent once per row with the row's columns available as placeholders.
+ * The first rows are previewed as they will be sent, and the results of sending the dataset can be downloaded as a report.
+ */
+export const Dataset: React.FC<Props> = (props) => {
+    const [dataset, setDataset] = useState<SqsDataset>();
+    const [previewRows, setPreviewRows] = useState(5);
+    const [results, setResults] = useState<SqsDatasetResult[]>([]);
+    const [progress, setProgress] = useState<{ done: number; total: number }>();
+    const [error, setError] = useState<string>();
+    const fileInput = useRef<HTMLInputElement>(null);
+    const control = useRef<RunControl>();
+
+    const columnErrors = useMemo(() => dataset && DatasetUtils.validateColumns(dataset.columns), [dataset]);
+    const warnings = useMemo(() => DatasetUtils.getWarnings(props.message, props.queueUrl), [props.message, props.queueUrl]);
+    const counts = useMemo(() => DatasetUtils.getCounts(results), [results]);
+
+    const preview = useMemo(
+        () =>
+            dataset?.rows
+                .slice(0, previewRows)
+                .map((row, index) => DatasetUtils.prepareRow(props.message, row, index + 1, props.queueUrl, props.templateContext, props.schemaSettings)) ?? [],
+        [dataset, previewRows, props.message, props.queueUrl, props.templateContext, props.schemaSettings]
+    );
+
+    // A running send is cancelled when the dataset is unbound.
+    useEffect(() => {
+        return () => {
+            if (control.current) {
+                control.current.cancelled = true;
+            }
+        };
+    }, []);
+
+    const loadFile = useCallback(async (file: File) => {
+        if (control.current) {
+            return;
+        }
+
+        try {
+            setDataset(DatasetUtils.parse(await FileUtils.readText(file), file.name));
+            setResults([]);
+            setError(undefined);
+        } catch (loadError) {
+            setError(`Could not read '${file.name}': ${ErrorUtils.getMessage(loadError)}`);
+        }
+    }, []);
+
+    const openFile = useCallback(() => fileInput.current?.click(), []);
+
+    const onFileChange = useCallback(
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            const file = event.target.files?.[0];
+            event.target.value = '';
+
+            if (file) {
+                void loadFile(file);
+            }
+        },
+        [loadFile]
+    );
+
+    const onPreviewRowsChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        setPreviewRows(Math.min(Math.max(Math.floor(Number(event.target.value)), 1), MAX_PREVIEW_ROWS));
+    }, []);
+
+    const sendAll = useCallback(async () => {
+        if (!dataset || control.current) {
+            return;
+        }
+
+        const run: RunControl = { cancelled: false };
+        const prepared = dataset.rows.map((row, index) => DatasetUtils.prepareRow(props.message, row, index + 1, props.queueUrl, props.templateContext, props.schemaSettings));
+        const newResults = prepared.map<SqsDatasetResult>((item, index) => ({ row: index + 1, status: item.errors ? 'invalid' : 'pending', errors: item.errors }));
+        const validRows = newResults.filter((result) => result.status === 'pending');
+
+        control.current = run;
+        setResults(newResults);
+        setProgress({ done: 0, total: validRows.length });
+        setError(undefined);
+
+        try {
+            for (let start = 0; start < validRows.length && !run.cancelled; start += SEND_CHUNK_SIZE) {
+                const chunk = validRows.slice(start, start + SEND_CHUNK_SIZE);
+                const sendResults = await props.onSendMessages(chunk.map((result) => prepared[result.row - 1].message));
+
+                chunk.forEach((result, index) => {
+                    const sendResult = sendResults[index];
+                    newResults[result.row - 1] = sendResult?.success
+                        ? { ...result, status: 'sent', messageId: sendResult.messageId, sequenceNumber: sendResult.sequenceNumber }
+                        : { ...result, status: 'failed', errors: [sendResult?.error || 'Message could not be sent.'] };
+                });
+
+                setResults([...newResults]);
+                setProgress({ done: start + chunk.length, total: validRows.length });
+            }
+        } catch (sendError) {
+            setError(`Could not send the dataset: ${ErrorUtils.getMessage(sendError)}`);
+        } finally {
+            control.current = undefined;
+            setProgress(undefined);
+        }
+    }, [dataset, props.message, props.queueUrl, props.templateContext, props.schemaSettings, props.onSendMessages]);
+
+    const cancel = useCallback(() => {
+        if (control.current) {
+            control.current.cancelled = true;
+        }
+    }, []);
+
+    const downloadReport = useCallback(() => {
+        if (dataset) {
+            FileUtils.download(`${dataset.fileName.replace(/\.[^.]*$/, '')}.report.csv`, DatasetUtils.toReport(dataset, results), 'text/csv');
+        }
+    }, [dataset, results]);
+
+    const sending = !!progress;
+    const problems = results.filter((result) => result.status === 'invalid' || result.status === 'failed');
+
+    return (
+        <FileDropZone className="message dataset" message="Drop a CSV, JSON or JSON lines file to send a message per row" onDrop={loadFile}>
+            {error && <Alert severity="error">{error}</Alert>}
+            {columnErrors?.map((columnError, index) => (
+                <Alert key={index} severity="warning">
+                    {columnError}
+                </Alert>
+            ))}
+            {warnings.map((warning, index) => (
+                <Alert key={index} severity="warning">
+                    {warning}
+                </Alert>
+            ))}
+            <div className="message-top">
+                <h3 className="message-header">Dataset</h3>
+                <IconButton className="message-delete-btn" disabled={sending} onClick={props.onClose}>
+                    <CloseIcon />
+                </IconButton>
+            </div>
+            <p className="dataset-help">
+                {dataset
+                    ? `${dataset.fileName}: ${dataset.rows.length} rows. Columns: ${dataset.columns.join(', ')}.`
+                    : 'Drop a CSV, JSON or JSON lines file here, or choose one, to send this message once per row. Columns are placeholders in the body and attribute values, e.g. {{customerId}}.'}
+            </p>
+            <div className="inbox-actions">
+                <input ref={fileInput} type="file" accept=".csv,.jsonl,.ndjson,.json" hidden onChange={onFileChange} />
+                {dataset && (
+                    <div className="dataset-preview-rows">
+                        <InputLabel>Preview Rows</InputLabel>
+                        <TextField variant="outlined" type="number" inputProps={{ min: 1, max: MAX_PREVIEW_ROWS }} value={previewRows} onChange={onPreviewRowsChange} />
+                    </div>
+                )}
+                <Button variant="outlined" disabled={sending} startIcon={<PublishIcon />} onClick={openFile}>
+                    {dataset ? 'Replace File' : 'Choose File'}
+                </Button>
+                <Button variant="outlined" disabled={sending || !results.length} startIcon={<GetAppIcon />} onClick={downloadReport}>
+                    Download Report
+                </Button>
+                <Button variant="outlined" color="secondary" disabled={!sending} startIcon={<StopIcon />} onClick={cancel}>
+                    Cancel
+                </Button>
+                <Button
+                    variant="contained"
+                    color="primary"
+                    disableElevation
+                    disabled={sending || !dataset}
+                    endIcon={sending ? <CircularProgress color="inherit" size={20} /> : <SendIcon />}
+                    onClick={sendAll}
+                >
+                    Send {dataset?.rows.length ?? 0} Rows
+                </Button>
+            </div>
+            {!!results.length && (
+                <div className="load-test-stats dataset-stats">
+                    <LinearProgress className="load-test-progress" variant="determinate" value={progress ? Math.min((progress.done / (progress.total || 1)) * 100, 100) : 100} />
+                    <div className="load-test-stat-grid">
+                        <div className="load-test-stat">
+                            <b>{results.length}</b>
+                            <span>Rows</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{counts.sent}</b>
+                            <span>Sent</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{counts.failed}</b>
+                            <span>Failed</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{counts.invalid}</b>
+                            <span>Invalid</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{counts.pending}</b>
+                            <span>Not sent</span>
+                        </div>
+                    </div>
+                    {problems.slice(0, MAX_PREVIEW_ROWS).map((result) => (
+                        <Alert key={result.row} severity={result.status === 'invalid' ? 'warning' : 'error'}>
+                            Row {result.row}: {result.errors?.join(' ')}
+                        </Alert>
+                    ))}
+                    {problems.length > MAX_PREVIEW_ROWS && <p className="dataset-help">{problems.length - MAX_PREVIEW_ROWS} more rows are listed in the report.</p>}
+                </div>
+            )}
+            {preview.map((item, index) => (
+                <div key={index} className="dataset-row">
+                    <h4 className="dataset-row-header">Row {index + 1}</h4>
+                    {item.errors?.map((rowError, errorIndex) => (
+                        <Alert key={errorIndex} severity="warning">
+                            {rowError}
+                        </Alert>
+                    ))}
+                    {!item.errors && (
+                        <>
+                            <pre className="message-preview-body">{MessageUtils.toPayloadBody(item.message)}</pre>
+                            {item.message.attributes.map((attribute) => (
+                                <div key={attribute.id} className="message-preview-attribute">
+                                    <b>{attribute.name}</b> ({MessageUtils.toDataType(attribute)}): {String(attribute.value)}
+                                </div>
+                            ))}
+                        </>
+                    )}
+                </div>
+            ))}
+        </FileDropZone>
+    );
+};
@@ -0,0 +1,64 @@
+import React, { useCallback, useState } from 'react';
+
+type Props = {
+    /**
+     * An optional class name that is assigned to the component's root element.
+     */
+    className?: string;
+
+    /**
+     * The message shown while a file is dragged over the drop zone.
+     */
+    message: string;
+
+    /**
+     * Emitted when the user drops a file onto the drop zone.
+     *
+     * @param file    The dropped file.
+     */
+    onDrop: (file: File) => void;
+};
+
+/**
+ * Renders the provided children inside an area that files can be dragged and dropped onto.
+ * Drop zones can be nested, in which case a file is only handled by the innermost zone it is dropped onto.
+ */
+export const FileDropZone: React.FC<Props> = (props) => {
+    const [dragging, setDragging] = useState(false);
+
+    const onDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+        if (event.dataTransfer.types.includes('Files')) {
+            event.preventDefault();
+            event.stopPropagation();
+            setDragging(true);
+        }
+    }, []);
+
+    const onDragLeave = useCallback((event: React.DragEvent<HTMLDivElement>) => {
+        // Ignore leaving into one of the drop zone's own children.
+        if (!event.currentTarget.contains(event.relatedTarget as Node)) {
+            setDragging(false);
+        }
+    }, []);
+
+    const onDrop = useCallback(
+        (event: React.DragEvent<HTMLDivElement>) => {
+            event.preventDefault();
+            event.stopPropagation();
+            setDragging(false);
+
+            const file = event.dataTransfer.files[0];
+            if (file) {
+                props.onDrop(file);
+            }
+        },
+        [props.onDrop]
+    );
+
+    return (
+        <div className={props.className} onDragOver={onDragOver} onDragLeave={onDragLeave} onDrop={onDrop}>
+            {dragging && <div className="file-drop-zone-overlay">{props.message}</div>}
+            {props.children}
+        </div>
+    );
+};
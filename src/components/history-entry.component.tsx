@@ -0,0 +1,178 @@
+import { Button, Checkbox, CircularProgress, FormControlLabel, IconButton, TextField } from '@material-ui/core';
+import DeleteIcon from '@material-ui/icons/Delete';
+import EditIcon from '@material-ui/icons/Edit';
+import ReplayIcon from '@material-ui/icons/Replay';
+import { Alert } from '@material-ui/lab';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ErrorUtils } from '../utils/error.utils';
+import { MessageUtils } from '../utils/message.utils';
+import { QueueUtils } from '../utils/queue.utils';
+import { SqsHistoryEntry, SqsSendResult } from './app.component';
+
+type Props = {
+    /**
+     * The recorded send.
+     */
+    entry: SqsHistoryEntry;
+
+    /**
+     * True if the entry is selected for comparison, otherwise false.
+     */
+    selected: boolean;
+
+    /**
+     * Emitted when the user chooses to send the recorded request again.
+     *
+     * @param entry       The history entry.
+     * @param queueUrl    The URL of the queue to send the request to.
+     * @returns           A promise that resolves to the send result.
+     */
+    onReplay: (entry: SqsHistoryEntry, queueUrl: string) => Promise<SqsSendResult>;
+
+    /**
+     * Emitted when the user chooses to restore the recorded request into the message editor.
+     *
+     * @param entry    The history entry.
+     */
+    onRestore: (entry: SqsHistoryEntry) => void;
+
+    /**
+     * Emitted when the user selects or deselects the entry for comparison.
+     *
+     * @param entry       The history entry.
+     * @param selected    True if the entry was selected, otherwise false.
+     */
+    onSelect: (entry: SqsHistoryEntry, selected: boolean) => void;
+
+    /**
+     * Emitted when the user chooses to remove the entry from the history.
+     *
+     * @param entry    The history entry.
+     */
+    onRemove: (entry: SqsHistoryEntry) => void;
+};
+
+/**
+ * Renders a recorded send, along with actions to replay it, restore it into the editor or compare it.
+ */
+export const HistoryEntry: React.FC<Props> = (props) => {
+    const [targetQueueUrl, setTargetQueueUrl] = useState(props.entry.queueUrl);
+    const [pending, setPending] = useState(false);
+    const [status, setStatus] = useState<string>();
+    const [error, setError] = useState<string>();
+    const [warnings, setWarnings] = useState<string[]>();
+
+    const body = useMemo(() => MessageUtils.formatBody(props.entry.request.MessageBody), [props.entry.request.MessageBody]);
+    const sentAt = useMemo(() => new Date(props.entry.timestamp).toLocaleString(), [props.entry.timestamp]);
+    const attributes = useMemo(() => Object.entries(props.entry.request.MessageAttributes ?? {}), [props.entry.request.MessageAttributes]);
+
+    const replay = useCallback(async () => {
+        if (pending) {
+            return;
+        }
+
+        setPending(true);
+        setStatus(undefined);
+        setError(undefined);
+        setWarnings(undefined);
+
+        try {
+            const result = await props.onReplay(props.entry, targetQueueUrl);
+            setWarnings(result.integrityWarnings);
+            setStatus(`Message sent to ${QueueUtils.getQueueName(targetQueueUrl)}.`);
+        } catch (replayError) {
+            setError(ErrorUtils.getMessage(replayError));
+        } finally {
+            setPending(false);
+        }
+    }, [pending, targetQueueUrl, props.entry, props.onReplay]);
+
+    const updateTargetQueueUrl = useCallback((event: React.ChangeEvent<HTMLInputElement>) => setTargetQueueUrl(event.target.value), []);
+    const restore = useCallback(() => props.onRestore(props.entry), [props.entry, props.onRestore]);
+    const select = useCallback((event: React.ChangeEvent<HTMLInputElement>) => props.onSelect(props.entry, event.target.checked), [props.entry, props.onSelect]);
+    const remove = useCallback(() => props.onRemove(props.entry), [props.entry, props.onRemove]);
+
+    return (
+        <div className={props.entry.error ? 'message history-entry history-entry-failed' : 'message history-entry'}>
+            <div className="message-top-actions">
+                <FormControlLabel control={<Checkbox color="primary" checked={props.selected} onChange={select} />} label="Compare" />
+                <IconButton aria-label="remove" onClick={remove}>
+                    <DeleteIcon />
+                </IconButton>
+            </div>
+            {props.entry.error && <Alert severity="error">{props.entry.error}</Alert>}
+            {error && <Alert severity="error">{error}</Alert>}
+            {status && <Alert severity="success">{status}</Alert>}
+            {warnings?.map((warning, index) => (
+                <Alert key={index} severity="warning">
+                    {warning}
+                </Alert>
+            ))}
+            <div className="received-message-details">
+                <span>
+                    <b>Queue:</b> {QueueUtils.getQueueName(props.entry.queueUrl)}
+                </span>
+                <span>
+                    <b>Sent:</b> {sentAt}
+                </span>
+                <span>
+                    <b>ID:</b> {props.entry.messageId ?? '-'}
+                </span>
+                {props.entry.sequenceNumber && (
+                    <span>
+                        <b>Sequence:</b> {props.entry.sequenceNumber}
+                    </span>
+                )}
+            </div>
+            <h3 className="message-header">Body</h3>
+            <pre className="received-message-body">{body}</pre>
+            <h3 className="message-header">Attributes</h3>
+            <hr className="message-hr" />
+            <table className="received-message-attributes">
+                <tbody>
+                    {attributes.map(([name, attribute]) => (
+                        <tr key={name}>
+                            <td>{name}</td>
+                            <td>{attribute.DataType}</td>
+                            <td>
+                                {attribute.StringValue ??
+                                    (attribute.BinaryValue instanceof Uint8Array ? MessageUtils.toHexPreview(attribute.BinaryValue) : String(attribute.BinaryValue))}
+                            </td>
+                        </tr>
+                    ))}
+                    {props.entry.request.MessageGroupId && (
+                        <tr className="received-message-system-attribute">
+                            <td>MessageGroupId</td>
+                            <td>Request</td>
+                            <td>{props.entry.request.MessageGroupId}</td>
+                        </tr>
+                    )}
+                    {props.entry.request.MessageDeduplicationId && (
+                        <tr className="received-message-system-attribute">
+                            <td>MessageDeduplicationId</td>
+                            <td>Request</td>
+                            <td>{props.entry.request.MessageDeduplicationId}</td>
+                        </tr>
+                    )}
+                    {props.entry.request.DelaySeconds !== undefined && (
+                        <tr className="received-message-system-attribute">
+                            <td>DelaySeconds</td>
+                            <td>Request</td>
+                            <td>{props.entry.request.DelaySeconds}</td>
+                        </tr>
+                    )}
+                </tbody>
+            </table>
+            <div className="received-message-actions">
+                <TextField className="history-entry-queue" variant="outlined" label="Replay to queue URL" value={targetQueueUrl} onChange={updateTargetQueueUrl} />
+                <Button variant="outlined" disabled={pending || !targetQueueUrl} startIcon={<ReplayIcon />} onClick={replay}>
+                    Replay
+                </Button>
+                <Button variant="outlined" color="primary" startIcon={<EditIcon />} onClick={restore}>
+                    Restore into Editor
+                </Button>
+                {pending && <CircularProgress size={20} />}
+            </div>
+        </div>
+    );
+};
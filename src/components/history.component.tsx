@@ -0,0 +1,168 @@
+import { Button, MenuItem, Select, TextField } from '@material-ui/core';
+import { Alert } from '@material-ui/lab';
+import React, { useCallback, useMemo, useState } from 'react';
+import { DiffUtils } from '../utils/diff.utils';
+import { HistoryUtils } from '../utils/history.utils';
+import { QueueUtils } from '../utils/queue.utils';
+import { SqsHistoryEntry, SqsSendResult } from './app.component';
+import { HistoryEntry } from './history-entry.component';
+
+type Props = {
+    /**
+     * The recorded sends, newest first.
+     */
+    history: SqsHistoryEntry[];
+
+    /**
+     * False if the history could not be saved to browser storage.
+     */
+    saved: boolean;
+
+    /**
+     * Emitted when the user removes entries from the history.
+     *
+     * @param history    The updated history.
+     */
+    onChange: (history: SqsHistoryEntry[]) => void;
+
+    /**
+     * Emitted when the user chooses to send a recorded request again.
+     *
+     * @param entry       The history entry.
+     * @param queueUrl    The URL of the queue to send the request to.
+     * @returns           A promise that resolves to the send result.
+     */
+    onReplay: (entry: SqsHistoryEntry, queueUrl: string) => Promise<SqsSendResult>;
+
+    /**
+     * Emitted when the user chooses to restore a recorded request into the message editor.
+     *
+     * @param entry    The history entry.
+     */
+    onRestore: (entry: SqsHistoryEntry) => void;
+};
+
+type StatusFilter = 'all' | 'sent' | 'failed';
+
+const ALL_QUEUES = '';
+
+/**
+ * Renders the searchable history of sent messages, and a line-by-line comparison of two selected entries.
+ */
+export const History: React.FC<Props> = (props) => {
+    const [search, setSearch] = useState('');
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+    const [queueFilter, setQueueFilter] = useState(ALL_QUEUES);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+    const queueUrls = useMemo(() => Array.from(new Set(props.history.map((entry) => entry.queueUrl))), [props.history]);
+
+    const entries = useMemo(
+        () =>
+            props.history.filter(
+                (entry) =>
+                    (statusFilter === 'all' || (statusFilter === 'failed') === !!entry.error) &&
+                    (queueFilter === ALL_QUEUES || entry.queueUrl === queueFilter) &&
+                    HistoryUtils.matches(entry, search)
+            ),
+        [props.history, search, statusFilter, queueFilter]
+    );
+
+    // The diff shows the older of the two entries as the original.
+    const diff = useMemo(() => {
+        const selected = props.history.filter((entry) => selectedIds.includes(entry.id));
+        if (selected.length !== 2) {
+            return undefined;
+        }
+
+        const [newer, older] = selected;
+        return DiffUtils.diffLines(HistoryUtils.toDiffText(older), HistoryUtils.toDiffText(newer));
+    }, [props.history, selectedIds]);
+
+    const onSearchChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => setSearch(event.target.value), []);
+    const onStatusFilterChange = useCallback((event: React.ChangeEvent<{ value: unknown }>) => setStatusFilter(event.target.value as StatusFilter), []);
+    const onQueueFilterChange = useCallback((event: React.ChangeEvent<{ value: unknown }>) => setQueueFilter(event.target.value as string), []);
+
+    // Only two entries can be compared, so selecting a third replaces the earliest selection.
+    const selectEntry = useCallback((entry: SqsHistoryEntry, selected: boolean) => {
+        setSelectedIds((currentIds) => (selected ? [...currentIds, entry.id].slice(-2) : currentIds.filter((id) => id !== entry.id)));
+    }, []);
+
+    const removeEntry = useCallback(
+        (removedEntry: SqsHistoryEntry) => {
+            props.onChange(props.history.filter((entry) => entry.id !== removedEntry.id));
+            setSelectedIds((currentIds) => currentIds.filter((id) => id !== removedEntry.id));
+        },
+        [props.history, props.onChange]
+    );
+
+    const clearHistory = useCallback(() => {
+        props.onChange([]);
+        setSelectedIds([]);
+    }, [props.onChange]);
+
+    return (
+        <div className="inbox history">
+            <div className="settings-config inbox-options">
+                <div className="inbox-inputs">
+                    <TextField className="history-search" variant="outlined" placeholder="Search bodies, attributes, IDs and errors" value={search} onChange={onSearchChange} />
+                    <Select className="history-filter" variant="outlined" value={statusFilter} onChange={onStatusFilterChange}>
+                        <MenuItem value="all">All sends</MenuItem>
+                        <MenuItem value="sent">Sent</MenuItem>
+                        <MenuItem value="failed">Failed</MenuItem>
+                    </Select>
+                    <Select className="history-filter" variant="outlined" value={queueFilter} displayEmpty onChange={onQueueFilterChange}>
+                        <MenuItem value={ALL_QUEUES}>All queues</MenuItem>
+                        {queueUrls.map((queueUrl) => (
+                            <MenuItem key={queueUrl} value={queueUrl}>
+                                {QueueUtils.getQueueName(queueUrl)}
+                            </MenuItem>
+                        ))}
+                    </Select>
+                </div>
+                <div className="inbox-actions">
+                    <span className="history-count">
+                        Showing {entries.length} of {props.history.length} sends
+                    </span>
+                    <Button variant="outlined" color="secondary" disabled={!props.history.length} onClick={clearHistory}>
+                        Clear History
+                    </Button>
+                </div>
+            </div>
+            {!props.saved && (
+                <Alert severity="warning">
+                    The history could not be saved, as browser storage is full. Recent sends will be lost when the page is closed. Clear the history to free up space.
+                </Alert>
+            )}
+            {selectedIds.length === 1 && (
+                <Alert className="history-hint" severity="info">
+                    Select another entry to compare.
+                </Alert>
+            )}
+            {diff && (
+                <div className="message history-diff">
+                    <h3 className="message-header">Comparison</h3>
+                    <pre className="received-message-body">
+                        {diff.map((line, index) => (
+                            <div key={index} className={`history-diff-line history-diff-${line.type}`}>
+                                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                                {line.text}
+                            </div>
+                        ))}
+                    </pre>
+                </div>
+            )}
+            {entries.map((entry) => (
+                <HistoryEntry
+                    key={entry.id}
+                    entry={entry}
+                    selected={selectedIds.includes(entry.id)}
+                    onReplay={props.onReplay}
+                    onRestore={props.onRestore}
+                    onSelect={selectEntry}
+                    onRemove={removeEntry}
+                />
+            ))}
+        </div>
+    );
+};
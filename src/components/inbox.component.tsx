@@ -0,0 +1,227 @@
+import { Button, CircularProgress, FormControlLabel, InputLabel, Switch, TextField } from '@material-ui/core';
+import GetAppIcon from '@material-ui/icons/GetApp';
+import { Alert } from '@material-ui/lab';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ErrorUtils } from '../utils/error.utils';
+import { SqsReceivedMessage, SqsReceiveOptions } from './app.component';
+import { ReceivedMessage } from './received-message.component';
+
+type Props = {
+    /**
+     * Emitted when the user chooses to receive messages from the queue.
+     *
+     * @param options    The receive options.
+     * @returns          A promise that resolves to the received messages.
+     */
+    onReceive: (options: SqsReceiveOptions) => Promise<SqsReceivedMessage[]>;
+
+    /**
+     * Emitted when the user chooses to delete a received message from the queue.
+     *
+     * @param message    The received message.
+     * @returns          A promise that resolves once the message is deleted.
+     */
+    onDelete: (message: SqsReceivedMessage) => Promise<void>;
+
+    /**
+     * Emitted when the user chooses to change a received message's visibility timeout.
+     *
+     * @param message              The received message.
+     * @param visibilityTimeout    The new visibility timeout, in seconds.
+     * @returns                    A promise that resolves once the visibility timeout is changed.
+     */
+    onChangeVisibility: (message: SqsReceivedMessage, visibilityTimeout: number) => Promise<void>;
+
+    /**
+     * Emitted when the user chooses to copy a received message into the message editor.
+     *
+     * @param message    The received message.
+     */
+    onCopy: (message: SqsReceivedMessage) => void;
+};
+
+/**
+ * The pause between polls when no messages were received without long polling,
+ * to avoid hammering the queue.
+ */
+const EMPTY_POLL_DELAY = 1000;
+
+const delay = (duration: number) =>
+    new Promise<void>((resolve) => {
+        setTimeout(resolve, duration);
+    });
+
+/**
+ * Renders messages received from the configured SQS queue, optionally polling for new messages.
+ */
+export const Inbox: React.FC<Props> = (props) => {
+    const [options, setOptions] = useState<SqsReceiveOptions>({ waitTimeSeconds: 10, maxNumberOfMessages: 10, visibilityTimeout: 30 });
+    const [messages, setMessages] = useState<SqsReceivedMessage[]>([]);
+    const [receiving, setReceiving] = useState(false);
+    const [polling, setPolling] = useState(false);
+    const [error, setError] = useState<string>();
+
+    const onOptionChange = useCallback(
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            setOptions({ ...options, [event.target.name]: Number(event.target.value) });
+        },
+        [options]
+    );
+
+    const mounted = useRef(true);
+
+    useEffect(() => {
+        return () => {
+            mounted.current = false;
+        };
+    }, []);
+
+    // Messages received again replace their earlier copy, as only the latest receipt handle is valid.
+    const addMessages = useCallback((received: SqsReceivedMessage[]) => {
+        setMessages((currentMessages) => [
+            ...currentMessages.filter((message) => !received.some((receivedMessage) => receivedMessage.messageId === message.messageId)),
+            ...received,
+        ]);
+    }, []);
+
+    const receiveOnce = useCallback(async () => {
+        if (receiving) {
+            return;
+        }
+
+        setReceiving(true);
+        setError(undefined);
+
+        try {
+            const received = await props.onReceive(options);
+            if (mounted.current) {
+                addMessages(received);
+            }
+        } catch (receiveError) {
+            if (mounted.current) {
+                setError(ErrorUtils.getMessage(receiveError));
+            }
+        } finally {
+            if (mounted.current) {
+                setReceiving(false);
+            }
+        }
+    }, [options, receiving, props.onReceive, addMessages]);
+
+    const togglePolling = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        setError(undefined);
+        setPolling(event.target.checked);
+    }, []);
+
+    useEffect(() => {
+        if (!polling) {
+            return;
+        }
+
+        let cancelled = false;
+
+        const poll = async () => {
+            while (!cancelled) {
+                // Receives that finish after polling stops are discarded, as the view may have been closed or the options changed.
+                try {
+                    const received = await props.onReceive(options);
+                    if (cancelled) {
+                        return;
+                    }
+
+                    addMessages(received);
+                    if (!received.length && !options.waitTimeSeconds) {
+                        await delay(EMPTY_POLL_DELAY);
+                    }
+                } catch (pollError) {
+                    if (!cancelled) {
+                        setError(ErrorUtils.getMessage(pollError));
+                        setPolling(false);
+                    }
+                    return;
+                }
+            }
+        };
+
+        void poll();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [polling, options, props.onReceive, addMessages]);
+
+    const deleteMessage = useCallback(
+        async (deletedMessage: SqsReceivedMessage) => {
+            await props.onDelete(deletedMessage);
+            if (!mounted.current) {
+                return;
+            }
+            setMessages((currentMessages) => currentMessages.filter((message) => message.messageId !== deletedMessage.messageId));
+        },
+        [props.onDelete]
+    );
+
+    const clearMessages = useCallback(() => setMessages([]), []);
+
+    return (
+        <div className="inbox">
+            <div className="settings-config inbox-options">
+                {error && <Alert severity="error">{error}</Alert>}
+                <div className="inbox-inputs">
+                    <div className="inbox-field">
+                        <InputLabel>Wait Time (s)</InputLabel>
+                        <TextField
+                            variant="outlined"
+                            type="number"
+                            name="waitTimeSeconds"
+                            inputProps={{ min: 0, max: 20 }}
+                            value={options.waitTimeSeconds}
+                            onChange={onOptionChange}
+                        />
+                    </div>
+                    <div className="inbox-field">
+                        <InputLabel>Max Messages</InputLabel>
+                        <TextField
+                            variant="outlined"
+                            type="number"
+                            name="maxNumberOfMessages"
+                            inputProps={{ min: 1, max: 10 }}
+                            value={options.maxNumberOfMessages}
+                            onChange={onOptionChange}
+                        />
+                    </div>
+                    <div className="inbox-field">
+                        <InputLabel>Visibility Timeout (s)</InputLabel>
+                        <TextField
+                            variant="outlined"
+                            type="number"
+                            name="visibilityTimeout"
+                            inputProps={{ min: 0, max: 43200 }}
+                            value={options.visibilityTimeout}
+                            onChange={onOptionChange}
+                        />
+                    </div>
+                </div>
+                <div className="inbox-actions">
+                    <FormControlLabel control={<Switch color="primary" checked={polling} onChange={togglePolling} />} label="Poll continuously" />
+                    <Button variant="outlined" disabled={!messages.length} onClick={clearMessages}>
+                        Clear
+                    </Button>
+                    <Button
+                        variant="contained"
+                        color="primary"
+                        disabled={polling}
+                        disableElevation
+                        endIcon={receiving || polling ? <CircularProgress color="inherit" size={20} /> : <GetAppIcon />}
+                        onClick={receiveOnce}
+                    >
+                        Receive
+                    </Button>
+                </div>
+            </div>
+            {messages.map((message) => (
+                <ReceivedMessage key={message.messageId} message={message} onDelete={deleteMessage} onChangeVisibility={props.onChangeVisibility} onCopy={props.onCopy} />
+            ))}
+        </div>
+    );
+};
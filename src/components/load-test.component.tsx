@@ -0,0 +1,430 @@
+import { Button, Checkbox, FormControlLabel, InputLabel, LinearProgress, MenuItem, Select, Switch, TextField } from '@material-ui/core';
+import PauseIcon from '@material-ui/icons/Pause';
+import PlayArrowIcon from '@material-ui/icons/PlayArrow';
+import StopIcon from '@material-ui/icons/Stop';
+import { Alert } from '@material-ui/lab';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ErrorUtils } from '../utils/error.utils';
+import { LoadTestUtils } from '../utils/load-test.utils';
+import { MessageUtils } from '../utils/message.utils';
+import { TemplateUtils } from '../utils/template.utils';
+import { SqsLoadTestOptions, SqsLoadTestStats, SqsMessage, SqsSchemaSettings, SqsSendResult, SqsTemplateContext } from './app.component';
+
+type Props = {
+    /**
+     * The messages that can be used as templates for the generated load.
+     */
+    messages: SqsMessage[];
+
+    /**
+     * The SQS queue URL or SNS topic ARN messages will be posted to.
+     */
+    queueUrl: string;
+
+    /**
+     * The variables available to template expressions, rendered separately for each generated message.
+     */
+    templateContext: SqsTemplateContext;
+
+    /**
+     * The workspace's JSON schemas, which template message bodies are validated against.
+     */
+    schemaSettings?: SqsSchemaSettings;
+
+    /**
+     * Emitted for each request the load test makes.
+     *
+     * @param messages    The messages to send, in a single batch when more than one.
+     * @returns           A promise that resolves to the result of each message, in order.
+     */
+    onSend: (messages: SqsMessage[]) => Promise<SqsSendResult[]>;
+};
+
+type RunControl = {
+    paused: boolean;
+    cancelled: boolean;
+    pausedAt?: number;
+    pausedTotal: number;
+};
+
+type RunStatus = 'idle' | 'running' | 'paused';
+
+/**
+ * The maximum number of messages in a single batch request.
+ */
+const BATCH_SIZE = 10;
+
+/**
+ * How often, in milliseconds, the statistics are refreshed while the load test runs.
+ */
+const REFRESH_INTERVAL = 500;
+
+/**
+ * How often, in milliseconds, paused workers check whether they can resume.
+ */
+const PAUSE_POLL_INTERVAL = 100;
+
+const delay = (duration: number) =>
+    new Promise<void>((resolve) => {
+        setTimeout(resolve, duration);
+    });
+
+const formatLatency = (latency: number | undefined) => (latency === undefined ? '-' : `${Math.round(latency)} ms`);
+
+const getTemplateLabel = (message: SqsMessage) => {
+    const firstLine = message.body.trim().split('\n')[0];
+    return firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine || 'Empty message';
+};
+
+/**
+ * Renders a load generator that sends messages rendered from the workspace's messages at a target rate,
+ * along with live throughput, latency and error statistics.
+ */
+export const LoadTest: React.FC<Props> = (props) => {
+    const [options, setOptions] = useState<SqsLoadTestOptions>(LoadTestUtils.getDefaultOptions);
+    const [excludedIds, setExcludedIds] = useState<string[]>([]);
+    const [status, setStatus] = useState<RunStatus>('idle');
+    const [stats, setStats] = useState<SqsLoadTestStats>();
+    const [errors, setErrors] = useState<string[]>();
+    const control = useRef<RunControl>();
+
+    const templates = useMemo(
+        () => props.messages.filter((message) => !excludedIds.includes(message.id)).map((message) => LoadTestUtils.toTemplate(message, props.queueUrl)),
+        [props.messages, excludedIds, props.queueUrl]
+    );
+
+    const latencies = useMemo(() => {
+        const [p50, p90, p99, max] = LoadTestUtils.getPercentiles(stats?.latencies ?? [], [50, 90, 99, 100]);
+        return { p50, p90, p99, max };
+    }, [stats]);
+
+    const progress = useMemo(() => {
+        if (!stats) {
+            return 0;
+        }
+        const ratio = options.mode === 'count' ? (stats.sent + stats.failed) / options.count : stats.elapsed / (options.durationSeconds * 1000);
+        return Math.min(ratio * 100, 100);
+    }, [stats, options]);
+
+    // A running load test is cancelled when the view is unmounted, e.g. when switching workspaces.
+    useEffect(() => {
+        return () => {
+            if (control.current) {
+                control.current.cancelled = true;
+            }
+        };
+    }, []);
+
+    const onOptionChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = event.target;
+        setOptions((currentOptions) => ({ ...currentOptions, [name]: Number(value) }));
+    }, []);
+
+    const onModeChange = useCallback((event: React.ChangeEvent<{ value: unknown }>) => {
+        const mode = event.target.value as SqsLoadTestOptions['mode'];
+        setOptions((currentOptions) => ({ ...currentOptions, mode }));
+    }, []);
+
+    const onBatchingChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const batching = event.target.checked;
+        setOptions((currentOptions) => ({ ...currentOptions, batching }));
+    }, []);
+
+    const toggleTemplate = useCallback((id: string, included: boolean) => {
+        setExcludedIds((currentIds) => (included ? currentIds.filter((excludedId) => excludedId !== id) : [...currentIds, id]));
+    }, []);
+
+    const start = useCallback(async () => {
+        if (status !== 'idle') {
+            return;
+        }
+
+        const newErrors = [...(LoadTestUtils.validateOptions(options) ?? [])];
+        if (!templates.length) {
+            newErrors.push('Select at least one message to use as a template.');
+        }
+        templates.forEach((template, index) => {
+            const templateErrors =
+                MessageUtils.validateMessage(template, props.queueUrl, props.schemaSettings) ?? TemplateUtils.validateMessage(template, props.templateContext) ?? [];
+            newErrors.push(...templateErrors.map((error) => `Template ${index + 1}: ${error}`));
+        });
+
+        setErrors(newErrors.length ? newErrors : undefined);
+        if (newErrors.length) {
+            return;
+        }
+
+        const run: RunControl = { paused: false, cancelled: false, pausedTotal: 0 };
+        const runStats = LoadTestUtils.createStats();
+        const startedAt = performance.now();
+        const total = options.mode === 'count' ? options.count : Infinity;
+        const batchSize = options.batching ? BATCH_SIZE : 1;
+        let next = 0;
+
+        const getElapsed = () => (run.pausedAt ?? performance.now()) - startedAt - run.pausedTotal;
+        const isFinished = () => run.cancelled || next >= total || (options.mode === 'duration' && getElapsed() >= options.durationSeconds * 1000);
+
+        const waitWhilePaused = async () => {
+            while (run.paused && !run.cancelled) {
+                await delay(PAUSE_POLL_INTERVAL);
+            }
+        };
+
+        const refresh = () => {
+            runStats.elapsed = getElapsed();
+            setStats({ ...runStats });
+        };
+
+        const worker = async () => {
+            for (;;) {
+                await waitWhilePaused();
+                if (isFinished()) {
+                    return;
+                }
+
+                const first = next;
+                const size = Math.min(batchSize, total - first);
+                next += size;
+
+                // Each request is scheduled by the position of its first message, spreading requests evenly at the target rate.
+                const wait = (first / options.ratePerSecond) * 1000 - getElapsed();
+                if (wait > 0) {
+                    await delay(wait);
+                }
+
+                await waitWhilePaused();
+                if (run.cancelled || (options.mode === 'duration' && getElapsed() >= options.durationSeconds * 1000)) {
+                    return;
+                }
+
+                // Templates are rendered per message, so generated values such as {{uuid}} differ between messages.
+                const batch = Array.from({ length: size }, (_, index) => ({
+                    ...TemplateUtils.renderMessage(templates[(first + index) % templates.length], props.templateContext),
+                    id: String(first + index),
+                }));
+
+                const requestStartedAt = performance.now();
+                let results: SqsSendResult[];
+
+                try {
+                    results = await props.onSend(batch);
+                } catch (error) {
+                    results = batch.map(() => ({ success: false, error: ErrorUtils.getMessage(error), errorCode: ErrorUtils.getCode(error) }));
+                }
+
+                LoadTestUtils.recordResults(runStats, results, performance.now() - requestStartedAt);
+            }
+        };
+
+        control.current = run;
+        setStatus('running');
+        setStats({ ...runStats });
+
+        const interval = setInterval(refresh, REFRESH_INTERVAL);
+
+        try {
+            await Promise.all(Array.from({ length: options.concurrency }, worker));
+        } finally {
+            clearInterval(interval);
+            control.current = undefined;
+            refresh();
+            setStatus('idle');
+        }
+    }, [status, options, templates, props.queueUrl, props.templateContext, props.schemaSettings, props.onSend]);
+
+    const togglePause = useCallback(() => {
+        const run = control.current;
+        if (!run) {
+            return;
+        }
+
+        if (run.paused) {
+            run.pausedTotal += performance.now() - (run.pausedAt ?? performance.now());
+            run.pausedAt = undefined;
+            run.paused = false;
+            setStatus('running');
+        } else {
+            run.pausedAt = performance.now();
+            run.paused = true;
+            setStatus('paused');
+        }
+    }, []);
+
+    const cancel = useCallback(() => {
+        if (control.current) {
+            control.current.cancelled = true;
+        }
+    }, []);
+
+    const errorEntries = useMemo(() => Object.entries(stats?.errors ?? {}), [stats]);
+
+    return (
+        <div className="inbox load-test">
+            <div className="settings-config inbox-options">
+                {errors?.map((error, index) => (
+                    <Alert key={index} severity="error">
+                        {error}
+                    </Alert>
+                ))}
+                {MessageUtils.isFifoQueue(props.queueUrl) && (
+                    <Alert severity="info">Each message is sent with a generated deduplication ID, so the queue does not drop repeated messages as duplicates.</Alert>
+                )}
+                <div className="load-test-templates">
+                    <InputLabel>Templates</InputLabel>
+                    {!props.messages.length && <p className="load-test-empty">Add messages in the Messages tab to use them as templates.</p>}
+                    {props.messages.map((message) => (
+                        <FormControlLabel
+                            key={message.id}
+                            className="load-test-template"
+                            control={
+                                <Checkbox
+                                    color="primary"
+                                    checked={!excludedIds.includes(message.id)}
+                                    disabled={status !== 'idle'}
+                                    onChange={(event) => toggleTemplate(message.id, event.target.checked)}
+                                />
+                            }
+                            label={getTemplateLabel(message)}
+                        />
+                    ))}
+                </div>
+                <div className="inbox-inputs">
+                    <div className="inbox-field">
+                        <InputLabel>Stop After</InputLabel>
+                        <Select variant="outlined" value={options.mode} disabled={status !== 'idle'} onChange={onModeChange}>
+                            <MenuItem value="count">Message count</MenuItem>
+                            <MenuItem value="duration">Duration</MenuItem>
+                        </Select>
+                    </div>
+                    {options.mode === 'count' ? (
+                        <div className="inbox-field">
+                            <InputLabel>Messages</InputLabel>
+                            <TextField
+                                variant="outlined"
+                                type="number"
+                                name="count"
+                                inputProps={{ min: 1 }}
+                                disabled={status !== 'idle'}
+                                value={options.count}
+                                onChange={onOptionChange}
+                            />
+                        </div>
+                    ) : (
+                        <div className="inbox-field">
+                            <InputLabel>Duration (s)</InputLabel>
+                            <TextField
+                                variant="outlined"
+                                type="number"
+                                name="durationSeconds"
+                                inputProps={{ min: 1 }}
+                                disabled={status !== 'idle'}
+                                value={options.durationSeconds}
+                                onChange={onOptionChange}
+                            />
+                        </div>
+                    )}
+                    <div className="inbox-field">
+                        <InputLabel>Rate (messages/s)</InputLabel>
+                        <TextField
+                            variant="outlined"
+                            type="number"
+                            name="ratePerSecond"
+                            inputProps={{ min: 1 }}
+                            disabled={status !== 'idle'}
+                            value={options.ratePerSecond}
+                            onChange={onOptionChange}
+                        />
+                    </div>
+                    <div className="inbox-field">
+                        <InputLabel>Concurrency</InputLabel>
+                        <TextField
+                            variant="outlined"
+                            type="number"
+                            name="concurrency"
+                            inputProps={{ min: 1, max: 50 }}
+                            disabled={status !== 'idle'}
+                            value={options.concurrency}
+                            onChange={onOptionChange}
+                        />
+                    </div>
+                </div>
+                <div className="inbox-actions">
+                    <FormControlLabel
+                        control={<Switch color="primary" checked={options.batching} disabled={status !== 'idle'} onChange={onBatchingChange} />}
+                        label="Send in batches of 10"
+                    />
+                    <Button variant="outlined" disabled={status === 'idle'} startIcon={status === 'paused' ? <PlayArrowIcon /> : <PauseIcon />} onClick={togglePause}>
+                        {status === 'paused' ? 'Resume' : 'Pause'}
+                    </Button>
+                    <Button variant="outlined" color="secondary" disabled={status === 'idle'} startIcon={<StopIcon />} onClick={cancel}>
+                        Cancel
+                    </Button>
+                    <Button variant="contained" color="primary" disableElevation disabled={status !== 'idle'} endIcon={<PlayArrowIcon />} onClick={start}>
+                        Start
+                    </Button>
+                </div>
+            </div>
+            {stats && (
+                <div className="message load-test-stats">
+                    <LinearProgress className="load-test-progress" variant="determinate" value={progress} />
+                    <div className="load-test-stat-grid">
+                        <div className="load-test-stat">
+                            <b>{stats.sent}</b>
+                            <span>Sent</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{stats.failed}</b>
+                            <span>Failed</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{stats.throttled}</b>
+                            <span>Throttled</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{LoadTestUtils.getThroughput(stats).toFixed(1)}</b>
+                            <span>Messages/s</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{(stats.elapsed / 1000).toFixed(1)} s</b>
+                            <span>Elapsed</span>
+                        </div>
+                    </div>
+                    <div className="load-test-stat-grid">
+                        <div className="load-test-stat">
+                            <b>{formatLatency(latencies.p50)}</b>
+                            <span>p50 latency</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{formatLatency(latencies.p90)}</b>
+                            <span>p90 latency</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{formatLatency(latencies.p99)}</b>
+                            <span>p99 latency</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{formatLatency(latencies.max)}</b>
+                            <span>Max latency</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{stats.latencies.length}</b>
+                            <span>Requests</span>
+                        </div>
+                    </div>
+                    {!!errorEntries.length && (
+                        <table className="received-message-attributes">
+                            <tbody>
+                                {errorEntries.map(([error, count]) => (
+                                    <tr key={error}>
+                                        <td>{error}</td>
+                                        <td>{count}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
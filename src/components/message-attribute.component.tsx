@@ -2,7 +2,8 @@ import { IconButton, InputLabel, MenuItem, Select, TextField } from '@material-u
 import DeleteIcon from '@material-ui/icons/Delete';
 import React, { ChangeEvent, useCallback } from 'react';
 import { MessageUtils } from '../utils/message.utils';
-import { SqsMessageAttribute, SqsMessageAttributeType } from './app.component';
+import { SqsBinaryEncoding, SqsMessageAttribute, SqsMessageAttributeType } from './app.component';
+import { BinaryAttributeValue } from './binary-attribute-value.component';
 
 type Props = SqsMessageAttribute & {
     /**
@@ -34,7 +35,7 @@ const attributeTypes = MessageUtils.getAttributeTypes();
 export const MessageAttribute: React.FC<Props> = (props) => {
     const onChange = useCallback(
         (attribute: Partial<SqsMessageAttribute>) => {
-            props.onChange(props.id, { id: props.id, name: props.name, type: props.type, value: props.value, ...attribute });
+            props.onChange(props.id, { id: props.id, name: props.name, type: props.type, label: props.label, value: props.value, encoding: props.encoding, ...attribute });
         },
         [props]
     );
@@ -45,7 +46,9 @@ export const MessageAttribute: React.FC<Props> = (props) => {
 
     const onNameChange = useCallback((event: ChangeEvent<HTMLInputElement>) => onChange({ name: event.target.value }), [onChange]);
     const onTypeChange = useCallback((event: ChangeEvent<{ value: unknown }>) => onChange({ type: event.target.value as SqsMessageAttributeType }), [onChange]);
+    const onLabelChange = useCallback((event: ChangeEvent<HTMLInputElement>) => onChange({ label: event.target.value || undefined }), [onChange]);
     const onValueChange = useCallback((event: ChangeEvent<HTMLInputElement>) => onChange({ value: event.target.value }), [onChange]);
+    const onBinaryValueChange = useCallback((value: string, encoding: SqsBinaryEncoding) => onChange({ value, encoding }), [onChange]);
 
     return (
         <div className="message-attribute">
@@ -53,6 +56,7 @@ export const MessageAttribute: React.FC<Props> = (props) => {
                 <div className="message-attribute-labels">
                     <InputLabel className="message-attribute-name">Name</InputLabel>
                     <InputLabel className="message-attribute-type">Data Type</InputLabel>
+                    <InputLabel className="message-attribute-label">Label</InputLabel>
                     <InputLabel className="message-attribute-value">Value</InputLabel>
                 </div>
             )}
@@ -65,7 +69,12 @@ export const MessageAttribute: React.FC<Props> = (props) => {
                         </MenuItem>
                     ))}
                 </Select>
-                <TextField className="message-attribute-value" variant="outlined" value={props.value} onChange={onValueChange} />
+                <TextField className="message-attribute-label" variant="outlined" placeholder="e.g. json" value={props.label ?? ''} onChange={onLabelChange} />
+                {props.type === 'Binary' && typeof props.value === 'string' ? (
+                    <BinaryAttributeValue value={props.value} encoding={props.encoding ?? 'base64'} onChange={onBinaryValueChange} />
+                ) : (
+                    <TextField className="message-attribute-value" variant="outlined" value={props.value} onChange={onValueChange} />
+                )}
                 <IconButton className="message-attribute-delete-btn" onClick={onRemove}>
                     <DeleteIcon />
                 </IconButton>
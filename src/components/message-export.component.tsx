@@ -0,0 +1,127 @@
+import { Button, IconButton, MenuItem, Select } from '@material-ui/core';
+import CloseIcon from '@material-ui/icons/Close';
+import FileCopyIcon from '@material-ui/icons/FileCopy';
+import GetAppIcon from '@material-ui/icons/GetApp';
+import { Alert } from '@material-ui/lab';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ErrorUtils } from '../utils/error.utils';
+import { FileUtils } from '../utils/file.utils';
+import { MessageUtils } from '../utils/message.utils';
+import { SnippetUtils } from '../utils/snippet.utils';
+import { SqsMessage, SqsSchemaSettings, SqsSnippetFormat, SqsTemplateContext } from './app.component';
+
+type Props = {
+    /**
+     * The exported message, whose template expressions are rendered before it is exported.
+     */
+    message: SqsMessage;
+
+    /**
+     * The SQS queue URL the exported snippets send the message to.
+     */
+    queueUrl: string;
+
+    /**
+     * The variables available to template expressions in the message.
+     */
+    templateContext: SqsTemplateContext;
+
+    /**
+     * The workspace's JSON schemas, which the rendered message body is validated against.
+     */
+    schemaSettings?: SqsSchemaSettings;
+
+    /**
+     * Emitted when the user closes the export.
+     */
+    onClose: () => void;
+};
+
+const formats: Record<SqsSnippetFormat, { label: string; fileName: string; type: string }> = {
+    awsCli: { label: 'AWS CLI command', fileName: 'send-message.sh', type: 'text/x-sh' },
+    sdkV3: { label: 'AWS SDK v3 (JavaScript)', fileName: 'send-message.mjs', type: 'text/javascript' },
+    boto3: { label: 'boto3 (Python)', fileName: 'send_message.py', type: 'text/x-python' },
+    lambdaEvent: { label: 'Lambda SQS event', fileName: 'sqs-event.json', type: 'application/json' },
+};
+
+/**
+ * Renders a message as an AWS CLI command, an SDK snippet or a Lambda SQS event, which can be copied or downloaded.
+ */
+export const MessageExport: React.FC<Props> = (props) => {
+    const [format, setFormat] = useState<SqsSnippetFormat>('awsCli');
+    const [copied, setCopied] = useState(false);
+    const [error, setError] = useState<string>();
+
+    // Rendered on each change, so the export follows the message as the user edits it.
+    const exported = useMemo(() => {
+        const prepared = MessageUtils.prepareMessage(props.message, props.queueUrl, props.templateContext, props.schemaSettings);
+        if (prepared.errors) {
+            return { errors: prepared.errors };
+        }
+
+        try {
+            return { snippet: SnippetUtils.toSnippet(format, MessageUtils.toRequest(props.queueUrl, prepared.message)) };
+        } catch (exportError) {
+            return { errors: [ErrorUtils.getMessage(exportError)] };
+        }
+    }, [format, props.message, props.queueUrl, props.templateContext, props.schemaSettings]);
+
+    useEffect(() => setCopied(false), [exported]);
+
+    const updateFormat = useCallback((event: React.ChangeEvent<{ value: unknown }>) => {
+        setFormat(event.target.value as SqsSnippetFormat);
+    }, []);
+
+    const copy = useCallback(async () => {
+        if (!exported.snippet) {
+            return;
+        }
+
+        try {
+            await navigator.clipboard.writeText(exported.snippet);
+            setCopied(true);
+            setError(undefined);
+        } catch (copyError) {
+            setError(`Could not copy to the clipboard: ${ErrorUtils.getMessage(copyError)}`);
+        }
+    }, [exported]);
+
+    const download = useCallback(() => {
+        if (exported.snippet) {
+            FileUtils.download(formats[format].fileName, exported.snippet, formats[format].type);
+        }
+    }, [exported, format]);
+
+    return (
+        <div className="message message-export">
+            {error && <Alert severity="error">{error}</Alert>}
+            {exported.errors?.map((exportError, index) => (
+                <Alert key={index} severity="warning">
+                    {exportError}
+                </Alert>
+            ))}
+            <div className="message-top">
+                <h3 className="message-header">Export</h3>
+                <IconButton className="message-delete-btn" onClick={props.onClose}>
+                    <CloseIcon />
+                </IconButton>
+            </div>
+            <div className="inbox-actions">
+                <Select className="message-export-format" variant="outlined" value={format} onChange={updateFormat}>
+                    {Object.entries(formats).map(([value, { label }]) => (
+                        <MenuItem key={value} value={value}>
+                            {label}
+                        </MenuItem>
+                    ))}
+                </Select>
+                <Button variant="outlined" disabled={!exported.snippet} startIcon={<FileCopyIcon />} onClick={copy}>
+                    {copied ? 'Copied' : 'Copy'}
+                </Button>
+                <Button variant="outlined" disabled={!exported.snippet} startIcon={<GetAppIcon />} onClick={download}>
+                    Download
+                </Button>
+            </div>
+            {exported.snippet && <pre className="message-preview-body message-export-snippet">{exported.snippet}</pre>}
+        </div>
+    );
+};
@@ -0,0 +1,70 @@
+import { Button, IconButton, TextField } from '@material-ui/core';
+import AddIcon from '@material-ui/icons/Add';
+import CloseIcon from '@material-ui/icons/Close';
+import { Alert } from '@material-ui/lab';
+import React, { useCallback, useState } from 'react';
+import { ErrorUtils } from '../utils/error.utils';
+import { SnippetUtils } from '../utils/snippet.utils';
+import { SqsMessage } from './app.component';
+
+type Props = {
+    /**
+     * Emitted when the user adds the messages parsed from the pasted text.
+     *
+     * @param messages    The parsed messages.
+     */
+    onAdd: (messages: SqsMessage[]) => void;
+
+    /**
+     * Emitted when the user closes the panel without adding any messages.
+     */
+    onClose: () => void;
+};
+
+/**
+ * Renders a text area that parses an AWS CLI command, an SDK snippet, a Lambda SQS event or a ReceiveMessage response
+ * into messages, the reverse of exporting a message.
+ */
+export const MessagePaste: React.FC<Props> = (props) => {
+    const [text, setText] = useState('');
+    const [error, setError] = useState<string>();
+
+    const updateText = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        setText(event.target.value);
+        setError(undefined);
+    }, []);
+
+    const addMessages = useCallback(() => {
+        try {
+            props.onAdd(SnippetUtils.parse(text));
+        } catch (parseError) {
+            setError(ErrorUtils.getMessage(parseError));
+        }
+    }, [text, props.onAdd]);
+
+    return (
+        <div className="message message-paste">
+            {error && <Alert severity="error">{error}</Alert>}
+            <div className="message-top">
+                <h3 className="message-header">Paste Message</h3>
+                <IconButton className="message-delete-btn" onClick={props.onClose}>
+                    <CloseIcon />
+                </IconButton>
+            </div>
+            <TextField
+                className="message-paste-input"
+                variant="outlined"
+                multiline
+                rows={10}
+                placeholder="Paste an aws sqs send-message command, an AWS SDK v3 or boto3 snippet, a Lambda SQS event, or a ReceiveMessage response"
+                value={text}
+                onChange={updateText}
+            />
+            <div className="inbox-actions">
+                <Button variant="contained" color="primary" disableElevation disabled={!text.trim()} startIcon={<AddIcon />} onClick={addMessages}>
+                    Add Messages
+                </Button>
+            </div>
+        </div>
+    );
+};
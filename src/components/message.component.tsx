@@ -1,13 +1,52 @@
-import { Button, CircularProgress, IconButton, TextField } from '@material-ui/core';
+import { Button, CircularProgress, FormControlLabel, IconButton, InputLabel, LinearProgress, MenuItem, Select, Switch, TextField } from '@material-ui/core';
 import DeleteIcon from '@material-ui/icons/Delete';
 import SendIcon from '@material-ui/icons/Send';
 import { Alert } from '@material-ui/lab';
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
+import { BodyUtils } from '../utils/body.utils';
 import { MessageUtils } from '../utils/message.utils';
-import { SqsMessage, SqsMessageAttribute } from './app.component';
+import { SchemaUtils } from '../utils/schema.utils';
+import { TemplateUtils } from '../utils/template.utils';
+import { BodyEditor } from './body-editor.component';
+import { SqsBodyFormat, SqsDeduplicationMode, SqsMessage, SqsMessageAttribute, SqsSchema, SqsSendResult, SqsTemplateContext } from './app.component';
 import { MessageAttribute } from './message-attribute.component';
 
 type Props = SqsMessage & {
+    /**
+     * True if the message will be sent to a FIFO queue, showing the FIFO fields in place of the delay.
+     */
+    fifo?: boolean;
+
+    /**
+     * True if the message will be published to an SNS topic, showing the subject and message structure in place of the delay.
+     */
+    topic?: boolean;
+
+    /**
+     * The result of the last time the message was sent.
+     */
+    result?: SqsSendResult;
+
+    /**
+     * The variables available to template expressions, used to preview the rendered message.
+     */
+    templateContext: SqsTemplateContext;
+
+    /**
+     * The workspace's JSON schemas, one of which can be chosen to validate the message's body.
+     */
+    schemas?: SqsSchema[];
+
+    /**
+     * True if a dataset is bound to the message, so it is sent once per row.
+     */
+    datasetBound?: boolean;
+
+    /**
+     * True if the message's export is shown.
+     */
+    exporting?: boolean;
+
     /**
      * Emitted when the user changes any of the message's details.
      *
@@ -31,14 +70,51 @@ type Props = SqsMessage & {
      * @param id         The message's unique identifier.
      */
     onRemove: (id: string) => void;
+
+    /**
+     * Emitted when the user binds a dataset to the message, or unbinds it. Datasets cannot be bound when not provided.
+     *
+     * @param id    The message's unique identifier.
+     */
+    onToggleDataset?: (id: string) => void;
+
+    /**
+     * Emitted when the user shows or hides the message's export. The message cannot be exported when not provided.
+     *
+     * @param id    The message's unique identifier.
+     */
+    onToggleExport?: (id: string) => void;
+};
+
+const deduplicationModes: Record<SqsDeduplicationMode, string> = {
+    explicit: 'Explicit ID',
+    contentBased: 'Content-based',
+    generated: 'Auto-generate ID',
 };
 
-const TAB_SPACES = '    ';
+/**
+ * Extracts the SQS message details from the component's props.
+ */
+const toMessage = (props: Props): SqsMessage => ({
+    id: props.id,
+    body: props.body,
+    bodyFormat: props.bodyFormat,
+    convertToJson: props.convertToJson,
+    minifyBody: props.minifyBody,
+    attributes: props.attributes,
+    messageGroupId: props.messageGroupId,
+    messageDeduplicationId: props.messageDeduplicationId,
+    deduplicationMode: props.deduplicationMode,
+    delaySeconds: props.delaySeconds,
+    subject: props.subject,
+    messageStructure: props.messageStructure,
+    schemaId: props.schemaId,
+    tags: props.tags,
+});
+
+const attributeTypes = Object.keys(MessageUtils.getAttributeTypes());
 
-const delay = (duration: number) =>
-    new Promise<void>((resolve) => {
-        setTimeout(resolve, duration);
-    });
+const maxSize = MessageUtils.getMaxMessageSize();
 
 /**
  * Renders inputs for entering the details of a POSTable SQS message.
@@ -46,39 +122,102 @@ const delay = (duration: number) =>
 export const Message: React.FC<Props> = (props) => {
     const [sending, setSending] = useState(false);
     const [sent, setSent] = useState(false);
+    const [preview, setPreview] = useState(false);
+
+    const togglePreview = useCallback((event: React.ChangeEvent<HTMLInputElement>) => setPreview(event.target.checked), []);
+
+    // Rendered on each change while previewing, so generated values such as {{uuid}} are refreshed as the user types.
+    const rendered = useMemo(() => {
+        if (!preview) {
+            return undefined;
+        }
+
+        const message = toMessage(props);
+        const errors = TemplateUtils.validateMessage(message, props.templateContext);
+        return errors ? { errors } : { message: TemplateUtils.renderMessage(message, props.templateContext) };
+    }, [preview, props]);
+
+    // Templates can change a message's size once rendered, so the rendered message is measured while previewing.
+    const size = useMemo(() => {
+        const message = rendered?.message ?? toMessage(props);
+        return message.attributes.every((attribute) => attributeTypes.includes(attribute.type)) ? MessageUtils.getMessageSize(message) : undefined;
+    }, [rendered, props]);
 
     const updateMessage = useCallback(
         (message: Partial<SqsMessage>) => {
-            props.onChange(props.id, { id: props.id, body: props.body, attributes: props.attributes, ...message });
+            props.onChange(props.id, { ...toMessage(props), ...message });
             setSent(false);
         },
         [props]
     );
 
-    const onBodyKeyDown = useCallback(
-        async (event: React.KeyboardEvent<HTMLInputElement>) => {
-            // Disable tab navigation so tabs can be used in field.
-            if (event.key === 'Tab') {
-                const element = event.target as HTMLInputElement;
-                const selectionStart = element.selectionStart || 0;
-                const body = element.value.substring(0, selectionStart) + TAB_SPACES + element.value.substring(selectionStart);
-                const cursorPos = selectionStart + TAB_SPACES.length;
-                event.preventDefault();
+    const updateBody = useCallback(
+        (body: string, format: SqsBodyFormat | undefined) => {
+            updateMessage({ body, bodyFormat: format });
+        },
+        [updateMessage]
+    );
+
+    const updateConvertToJson = useCallback(
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            updateMessage({ convertToJson: event.target.checked || undefined });
+        },
+        [updateMessage]
+    );
 
-                updateMessage({ body });
+    const updateMinifyBody = useCallback(
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            updateMessage({ minifyBody: event.target.checked || undefined });
+        },
+        [updateMessage]
+    );
 
-                // Waiting small duration so changes to effect so selection range is accurate.
-                await delay(10);
+    const updateGroupId = useCallback(
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            updateMessage({ messageGroupId: event.target.value });
+        },
+        [updateMessage]
+    );
 
-                element.setSelectionRange(cursorPos, cursorPos);
-            }
+    const updateDeduplicationMode = useCallback(
+        (event: React.ChangeEvent<{ value: unknown }>) => {
+            updateMessage({ deduplicationMode: event.target.value as SqsDeduplicationMode });
         },
         [updateMessage]
     );
 
-    const updateBody = useCallback(
+    const updateDeduplicationId = useCallback(
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            updateMessage({ messageDeduplicationId: event.target.value });
+        },
+        [updateMessage]
+    );
+
+    const updateDelaySeconds = useCallback(
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            const value = event.target.value;
+            updateMessage({ delaySeconds: value === '' ? undefined : Number(value) });
+        },
+        [updateMessage]
+    );
+
+    const updateSubject = useCallback(
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            updateMessage({ subject: event.target.value || undefined });
+        },
+        [updateMessage]
+    );
+
+    const updateMessageStructure = useCallback(
         (event: React.ChangeEvent<HTMLInputElement>) => {
-            updateMessage({ body: event.target.value });
+            updateMessage({ messageStructure: event.target.checked ? 'json' : undefined });
+        },
+        [updateMessage]
+    );
+
+    const updateSchemaId = useCallback(
+        (event: React.ChangeEvent<{ value: unknown }>) => {
+            updateMessage({ schemaId: (event.target.value as string) || undefined });
         },
         [updateMessage]
     );
@@ -115,7 +254,7 @@ export const Message: React.FC<Props> = (props) => {
         if (!props.errors && !sending) {
             setSent(false);
             setSending(true);
-            const success = await props.onSend(props.id, { id: props.id, body: props.body, attributes: props.attributes });
+            const success = await props.onSend(props.id, toMessage(props));
             setSent(success);
             setSending(false);
         }
@@ -125,6 +264,17 @@ export const Message: React.FC<Props> = (props) => {
         props.onRemove(props.id);
     }, [props.id, props.onRemove]);
 
+    const toggleDataset = useCallback(() => {
+        props.onToggleDataset?.(props.id);
+    }, [props.id, props.onToggleDataset]);
+
+    const toggleExport = useCallback(() => {
+        props.onToggleExport?.(props.id);
+    }, [props.id, props.onToggleExport]);
+
+    const bodyFormat = MessageUtils.getBodyFormat(props);
+    const convertsToJson = bodyFormat === 'yaml' && !!props.convertToJson;
+
     return (
         <div className="message" style={{ borderColor: props.errors && 'red' }}>
             {props.errors &&
@@ -133,14 +283,61 @@ export const Message: React.FC<Props> = (props) => {
                         {error}
                     </Alert>
                 ))}
-            {sent && <Alert severity="success">Message successfully sent.</Alert>}
+            {(sent || props.result?.success) && (
+                <Alert severity="success">{props.result?.messageId ? `Message successfully sent with ID ${props.result.messageId}.` : 'Message successfully sent.'}</Alert>
+            )}
+            {props.result && !props.result.success && <Alert severity="error">{props.result.error || 'Message could not be sent.'}</Alert>}
+            {props.result?.integrityWarnings?.map((warning, index) => (
+                <Alert key={index} severity="warning">
+                    {warning}
+                </Alert>
+            ))}
             <div className="message-top">
                 <h3 className="message-header">Body</h3>
-                <IconButton className="message-delete-btn" onClick={removeMessage}>
-                    <DeleteIcon />
-                </IconButton>
+                <div className="message-top-actions">
+                    {!!props.schemas?.length && (
+                        <Select className="message-schema" variant="outlined" displayEmpty value={props.schemaId ?? ''} onChange={updateSchemaId}>
+                            <MenuItem value="">Workspace schema</MenuItem>
+                            {props.schemas.map((schema) => (
+                                <MenuItem key={schema.id} value={schema.id}>
+                                    {SchemaUtils.getSchemaName(schema)}
+                                </MenuItem>
+                            ))}
+                        </Select>
+                    )}
+                    {props.onToggleDataset && (
+                        <FormControlLabel control={<Switch color="primary" size="small" checked={!!props.datasetBound} onChange={toggleDataset} />} label="Send per data row" />
+                    )}
+                    <FormControlLabel control={<Switch color="primary" size="small" checked={preview} onChange={togglePreview} />} label="Preview rendered" />
+                    {props.onToggleExport && (
+                        <FormControlLabel control={<Switch color="primary" size="small" checked={!!props.exporting} onChange={toggleExport} />} label="Export" />
+                    )}
+                    <IconButton className="message-delete-btn" onClick={removeMessage}>
+                        <DeleteIcon />
+                    </IconButton>
+                </div>
             </div>
-            <TextField className="message-body-field" variant="outlined" multiline value={props.body} placeholder="Enter body" onKeyDown={onBodyKeyDown} onChange={updateBody} />
+            {rendered ? (
+                <div className="message-preview">
+                    {rendered.errors?.map((error, index) => (
+                        <Alert key={index} severity="warning">
+                            {error}
+                        </Alert>
+                    ))}
+                    {rendered.message && (
+                        <>
+                            <pre className="message-preview-body">{MessageUtils.toPayloadBody(rendered.message)}</pre>
+                            {rendered.message.attributes.map((attribute) => (
+                                <div key={attribute.id} className="message-preview-attribute">
+                                    <b>{attribute.name}</b> ({MessageUtils.toDataType(attribute)}): {String(attribute.value)}
+                                </div>
+                            ))}
+                        </>
+                    )}
+                </div>
+            ) : (
+                <BodyEditor body={props.body} format={props.bodyFormat} placeholder="Enter body" onChange={updateBody} />
+            )}
             <Button
                 className="message-send-btn"
                 variant="contained"
@@ -152,6 +349,76 @@ export const Message: React.FC<Props> = (props) => {
             >
                 Send
             </Button>
+            {(bodyFormat === 'yaml' || BodyUtils.canMinify(bodyFormat)) && (
+                <div className="message-body-options">
+                    {bodyFormat === 'yaml' && (
+                        <FormControlLabel
+                            control={<Switch color="primary" size="small" checked={convertsToJson} onChange={updateConvertToJson} />}
+                            label="Convert YAML to JSON when sent"
+                        />
+                    )}
+                    {(convertsToJson || BodyUtils.canMinify(bodyFormat)) && (
+                        <FormControlLabel control={<Switch color="primary" size="small" checked={!!props.minifyBody} onChange={updateMinifyBody} />} label="Minify when sent" />
+                    )}
+                </div>
+            )}
+            {size !== undefined && (
+                <div className={size > maxSize ? 'message-size message-size-exceeded' : 'message-size'}>
+                    <LinearProgress variant="determinate" color={size > maxSize ? 'secondary' : 'primary'} value={Math.min((size / maxSize) * 100, 100)} />
+                    <span>
+                        {MessageUtils.formatSize(size)} of {MessageUtils.formatSize(maxSize)}
+                    </span>
+                </div>
+            )}
+            <h3 className="message-header">Delivery</h3>
+            <hr className="message-hr" />
+            <div className="message-delivery">
+                {props.fifo ? (
+                    <>
+                        <div className="message-delivery-field">
+                            <InputLabel>Message Group ID</InputLabel>
+                            <TextField variant="outlined" value={props.messageGroupId ?? ''} onChange={updateGroupId} />
+                        </div>
+                        <div className="message-delivery-field">
+                            <InputLabel>Deduplication</InputLabel>
+                            <Select variant="outlined" value={props.deduplicationMode ?? 'explicit'} onChange={updateDeduplicationMode}>
+                                {Object.entries(deduplicationModes).map(([mode, label]) => (
+                                    <MenuItem key={mode} value={mode}>
+                                        {label}
+                                    </MenuItem>
+                                ))}
+                            </Select>
+                        </div>
+                        {(props.deduplicationMode ?? 'explicit') === 'explicit' && (
+                            <div className="message-delivery-field">
+                                <InputLabel>Deduplication ID</InputLabel>
+                                <TextField variant="outlined" value={props.messageDeduplicationId ?? ''} onChange={updateDeduplicationId} />
+                            </div>
+                        )}
+                    </>
+                ) : (
+                    !props.topic && (
+                        <div className="message-delivery-field">
+                            <InputLabel>Delay Seconds</InputLabel>
+                            <TextField variant="outlined" type="number" inputProps={{ min: 0, max: 900 }} value={props.delaySeconds ?? ''} onChange={updateDelaySeconds} />
+                        </div>
+                    )
+                )}
+                {props.topic && (
+                    <>
+                        <div className="message-delivery-field">
+                            <InputLabel>Subject</InputLabel>
+                            <TextField variant="outlined" placeholder="Optional, used by email subscriptions" value={props.subject ?? ''} onChange={updateSubject} />
+                        </div>
+                        <div className="message-delivery-field message-delivery-structure">
+                            <FormControlLabel
+                                control={<Switch color="primary" size="small" checked={props.messageStructure === 'json'} onChange={updateMessageStructure} />}
+                                label="Message per protocol"
+                            />
+                        </div>
+                    </>
+                )}
+            </div>
             <h3 className="message-header">Attributes</h3>
             <hr className="message-hr" />
             <div className="message-attributes">
@@ -161,7 +428,9 @@ export const Message: React.FC<Props> = (props) => {
                         id={attribute.id}
                         name={attribute.name}
                         type={attribute.type}
+                        label={attribute.label}
                         value={attribute.value}
+                        encoding={attribute.encoding}
                         hideLabels={index > 0}
                         onChange={updateAttribute}
                         onRemove={removeAttribute}
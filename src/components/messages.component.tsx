@@ -1,35 +1,99 @@
-import { Button } from '@material-ui/core';
+import { Button, CircularProgress } from '@material-ui/core';
+import SendIcon from '@material-ui/icons/Send';
+import { Alert } from '@material-ui/lab';
 import React, { useCallback, useState } from 'react';
+import { ErrorUtils } from '../utils/error.utils';
 import { MessageUtils } from '../utils/message.utils';
-import { SqsMessage } from './app.component';
+import { SqsMessage, SqsSchemaSettings, SqsSendResult, SqsTemplateContext } from './app.component';
+import { Dataset } from './dataset.component';
 import { Message } from './message.component';
+import { MessageExport } from './message-export.component';
+import { MessagePaste } from './message-paste.component';
 
 type Props = {
     /**
-     * The initial messages to present.
+     * The messages to present.
      */
-    initialMessages: SqsMessage[];
+    messages: SqsMessage[];
+
+    /**
+     * The SQS queue URL or SNS topic ARN messages will be posted to.
+     */
+    queueUrl: string;
+
+    /**
+     * The variables available to template expressions in message bodies and attribute values.
+     */
+    templateContext: SqsTemplateContext;
+
+    /**
+     * The workspace's JSON schemas, which message bodies are validated against.
+     */
+    schemaSettings?: SqsSchemaSettings;
 
     /**
      * Emitted whent the user chooses to send an SQS message to a queue.
      *
      * @param message    The sent message.
-     * @returns          A promise that resolves to a boolean indicating success of the send action.
+     * @returns          A promise that resolves to the send result.
+     */
+    onSendMessage: (message: SqsMessage) => Promise<SqsSendResult>;
+
+    /**
+     * Emitted when the user chooses to send all SQS messages to a queue in batches.
+     *
+     * @param messages    The sent messages.
+     * @returns           A promise that resolves to the result of each message, in order.
+     */
+    onSendMessages: (messages: SqsMessage[]) => Promise<SqsSendResult[]>;
+
+    /**
+     * Emitted when the user adds, changes or removes messages.
+     *
+     * @param messages    The updated messages, or a function that produces them from the current messages.
+     */
+    onChange: React.Dispatch<React.SetStateAction<SqsMessage[]>>;
+};
+
+type SendAllSummary = {
+    /**
+     * The number of messages accepted by SQS.
+     */
+    sent: number;
+
+    /**
+     * The number of messages rejected by SQS.
+     */
+    failed: number;
+
+    /**
+     * The number of messages not sent due to client-side validation errors.
      */
-    onSendMessage: (message: SqsMessage) => Promise<boolean>;
+    invalid: number;
+};
+
+const withoutKey = <T,>(record: Record<string, T>, key: string): Record<string, T> => {
+    return Object.keys(record)
+        .filter((recordKey) => recordKey !== key)
+        .reduce<Record<string, T>>((newRecord, recordKey) => ({ ...newRecord, [recordKey]: record[recordKey] }), {});
 };
 
 /**
  * Renders an editable list of POSTable SQS messages.
  */
 export const Messages: React.FC<Props> = (props) => {
-    const [messages, setMessages] = useState<SqsMessage[]>(props.initialMessages);
+    const [results, setResults] = useState<Record<string, SqsSendResult>>({});
+    const [summary, setSummary] = useState<SendAllSummary>();
+    const [sendingAll, setSendingAll] = useState(false);
+    const [datasetIds, setDatasetIds] = useState<string[]>([]);
+    const [exportIds, setExportIds] = useState<string[]>([]);
+    const [pasting, setPasting] = useState(false);
 
     const sendMessage = useCallback(
         async (messageId: string, sentMessage: SqsMessage): Promise<boolean> => {
             const setErrors = (newErrors: string[]) => {
-                setMessages(
-                    messages.map((message) => {
+                props.onChange(
+                    props.messages.map((message) => {
                         if (message.id === messageId) {
                             return {
                                 ...message,
@@ -41,65 +105,175 @@ export const Messages: React.FC<Props> = (props) => {
                 );
             };
 
-            const errors = MessageUtils.validateMessage(sentMessage);
+            const prepared = MessageUtils.prepareMessage(sentMessage, props.queueUrl, props.templateContext, props.schemaSettings);
 
-            if (errors) {
-                setErrors(errors);
+            if (prepared.errors) {
+                setErrors(prepared.errors);
                 return false;
             }
 
+            // Send failures are kept with the results rather than the validation errors, so the message can be sent again as is.
+            let result: SqsSendResult;
             try {
-                return await props.onSendMessage(sentMessage);
+                result = await props.onSendMessage(prepared.message);
             } catch (error) {
-                setErrors([error]);
-                return false;
+                result = { success: false, error: ErrorUtils.getMessage(error), errorCode: ErrorUtils.getCode(error) };
             }
+
+            setResults((currentResults) => ({ ...currentResults, [messageId]: result }));
+            return result.success;
         },
-        [messages]
+        [props.messages, props.queueUrl, props.templateContext, props.schemaSettings]
     );
 
+    const sendAllMessages = useCallback(async () => {
+        if (sendingAll) {
+            return;
+        }
+
+        const preparedMessages = props.messages.map((message) => MessageUtils.prepareMessage(message, props.queueUrl, props.templateContext, props.schemaSettings));
+        const validatedMessages = props.messages.map((message, index) => ({ ...message, errors: preparedMessages[index].errors }));
+        const validMessages = preparedMessages.filter((prepared) => !prepared.errors).map((prepared) => prepared.message);
+
+        props.onChange(validatedMessages);
+        setResults({});
+        setSummary(undefined);
+
+        if (!validMessages.length) {
+            setSummary({ sent: 0, failed: 0, invalid: validatedMessages.length });
+            return;
+        }
+
+        setSendingAll(true);
+
+        try {
+            const newResults = await props.onSendMessages(validMessages);
+            const sent = newResults.filter((result) => result?.success).length;
+
+            setResults(Object.fromEntries(validMessages.map((message, index) => [message.id, newResults[index]])));
+            setSummary({ sent, failed: validMessages.length - sent, invalid: validatedMessages.length - validMessages.length });
+        } finally {
+            setSendingAll(false);
+        }
+    }, [props.messages, sendingAll, props.queueUrl, props.templateContext, props.schemaSettings, props.onSendMessages]);
+
     const addMessage = useCallback(() => {
-        setMessages([
-            ...messages,
+        props.onChange([
+            ...props.messages,
             {
                 id: MessageUtils.generateRandomId(),
                 body: '',
                 attributes: [],
             },
         ]);
-    }, [messages]);
+    }, [props.messages]);
+
+    const openPaste = useCallback(() => setPasting(true), []);
+
+    const closePaste = useCallback(() => setPasting(false), []);
+
+    const addPastedMessages = useCallback(
+        (messages: SqsMessage[]) => {
+            props.onChange([...props.messages, ...messages]);
+            setPasting(false);
+        },
+        [props.messages]
+    );
 
     const updateMessage = useCallback(
         (messageId: string, newMessage: SqsMessage) => {
-            setMessages(messages.map((message) => (message.id === messageId ? newMessage : message)));
+            props.onChange(props.messages.map((message) => (message.id === messageId ? newMessage : message)));
+            setResults((currentResults) => withoutKey(currentResults, messageId));
         },
-        [messages]
+        [props.messages]
     );
 
     const removeMessage = useCallback(
         (messageId: string) => {
-            setMessages(messages.filter((message) => message.id !== messageId));
+            props.onChange(props.messages.filter((message) => message.id !== messageId));
         },
-        [messages]
+        [props.messages]
     );
 
+    // Datasets are kept in memory while they are bound, rather than saved with the workspace, as they can be large.
+    const toggleDataset = useCallback((messageId: string) => {
+        setDatasetIds((currentIds) => (currentIds.includes(messageId) ? currentIds.filter((id) => id !== messageId) : [...currentIds, messageId]));
+    }, []);
+
+    const toggleExport = useCallback((messageId: string) => {
+        setExportIds((currentIds) => (currentIds.includes(messageId) ? currentIds.filter((id) => id !== messageId) : [...currentIds, messageId]));
+    }, []);
+
+    // Snippets call SendMessage, so messages published to SNS topics cannot be exported.
+    const exportable = !MessageUtils.isTopicArn(props.queueUrl);
+
     return (
         <div className="messages">
-            {messages.map((message) => (
-                <Message
-                    key={message.id}
-                    id={message.id}
-                    body={message.body}
-                    attributes={message.attributes}
-                    errors={message.errors}
-                    onChange={updateMessage}
-                    onSend={sendMessage}
-                    onRemove={removeMessage}
-                />
+            <div className="messages-summary">
+                {summary && (
+                    <Alert className="messages-summary-alert" severity={summary.failed || summary.invalid ? 'warning' : 'success'}>
+                        {`Sent ${summary.sent} of ${summary.sent + summary.failed + summary.invalid} messages. Failed: ${summary.failed}. Invalid: ${summary.invalid}.`}
+                    </Alert>
+                )}
+                <Button
+                    className="messages-send-all-btn"
+                    variant="contained"
+                    color="primary"
+                    disabled={!props.messages.length}
+                    disableElevation
+                    endIcon={sendingAll ? <CircularProgress color="inherit" size={20} /> : <SendIcon />}
+                    onClick={sendAllMessages}
+                >
+                    Send All
+                </Button>
+            </div>
+            {props.messages.map((message) => (
+                <React.Fragment key={message.id}>
+                    <Message
+                        {...message}
+                        result={results[message.id]}
+                        templateContext={props.templateContext}
+                        schemas={props.schemaSettings?.schemas}
+                        fifo={MessageUtils.isFifoQueue(props.queueUrl)}
+                        topic={MessageUtils.isTopicArn(props.queueUrl)}
+                        datasetBound={datasetIds.includes(message.id)}
+                        exporting={exportable && exportIds.includes(message.id)}
+                        onChange={updateMessage}
+                        onSend={sendMessage}
+                        onRemove={removeMessage}
+                        onToggleDataset={toggleDataset}
+                        onToggleExport={exportable ? toggleExport : undefined}
+                    />
+                    {exportable && exportIds.includes(message.id) && (
+                        <MessageExport
+                            message={message}
+                            queueUrl={props.queueUrl}
+                            templateContext={props.templateContext}
+                            schemaSettings={props.schemaSettings}
+                            onClose={() => toggleExport(message.id)}
+                        />
+                    )}
+                    {datasetIds.includes(message.id) && (
+                        <Dataset
+                            message={message}
+                            queueUrl={props.queueUrl}
+                            templateContext={props.templateContext}
+                            schemaSettings={props.schemaSettings}
+                            onSendMessages={props.onSendMessages}
+                            onClose={() => toggleDataset(message.id)}
+                        />
+                    )}
+                </React.Fragment>
             ))}
-            <Button className="add-message-btn" variant="contained" color="primary" size="large" disableElevation onClick={addMessage}>
-                Add Message
-            </Button>
+            {pasting && <MessagePaste onAdd={addPastedMessages} onClose={closePaste} />}
+            <div className="messages-add">
+                <Button className="add-message-btn" variant="contained" color="primary" size="large" disableElevation onClick={addMessage}>
+                    Add Message
+                </Button>
+                <Button className="add-message-btn" variant="outlined" color="primary" size="large" disabled={pasting} onClick={openPaste}>
+                    Paste Message
+                </Button>
+            </div>
         </div>
     );
 };
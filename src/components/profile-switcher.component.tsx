@@ -0,0 +1,39 @@
+import { MenuItem, Select } from '@material-ui/core';
+import React, { useCallback } from 'react';
+import { SqsProfile } from './app.component';
+
+type Props = {
+    /**
+     * The connection profiles that can be switched between.
+     */
+    profiles: SqsProfile[];
+
+    /**
+     * The active profile's unique identifier.
+     */
+    activeProfileId: string;
+
+    /**
+     * Emitted when the user chooses a different connection profile.
+     *
+     * @param id    The chosen profile's unique identifier.
+     */
+    onChange: (id: string) => void;
+};
+
+/**
+ * Renders a compact selector for quickly switching the active connection profile.
+ */
+export const ProfileSwitcher: React.FC<Props> = (props) => {
+    const onChange = useCallback((event: React.ChangeEvent<{ value: unknown }>) => props.onChange(event.target.value as string), [props.onChange]);
+
+    return (
+        <Select className="profile-switcher" disableUnderline value={props.activeProfileId} onChange={onChange}>
+            {props.profiles.map((profile) => (
+                <MenuItem key={profile.id} value={profile.id}>
+                    {profile.name || 'Unnamed profile'}
+                </MenuItem>
+            ))}
+        </Select>
+    );
+};
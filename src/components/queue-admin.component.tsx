@@ -0,0 +1,493 @@
+import { Button, CircularProgress, FormControlLabel, IconButton, InputLabel, MenuItem, Select, Switch, TextField } from '@material-ui/core';
+import AddIcon from '@material-ui/icons/Add';
+import DeleteIcon from '@material-ui/icons/Delete';
+import DeleteSweepIcon from '@material-ui/icons/DeleteSweep';
+import GetAppIcon from '@material-ui/icons/GetApp';
+import ListIcon from '@material-ui/icons/List';
+import SaveIcon from '@material-ui/icons/Save';
+import { Alert } from '@material-ui/lab';
+import React, { useCallback, useState } from 'react';
+import { ErrorUtils } from '../utils/error.utils';
+import { QueueAdminUtils } from '../utils/queue-admin.utils';
+import { QueueUtils } from '../utils/queue.utils';
+import { SqsQueueDetails, SqsQueuePage, SqsQueueSettings, SqsQueueSummary, SqsQueueTag } from './app.component';
+import { QueueBrowser } from './queue-browser.component';
+
+type Props = {
+    /**
+     * The configured SQS queue URL, which is the queue first offered for editing.
+     */
+    queueUrl: string;
+
+    /**
+     * Emitted when the user browses the account's queues.
+     *
+     * @param prefix       The queue name prefix to filter by.
+     * @param nextToken    The token of the page to load, if not the first.
+     * @returns            A promise that resolves to the page of queues.
+     */
+    onListQueues: (prefix: string, nextToken?: string) => Promise<SqsQueuePage>;
+
+    /**
+     * Emitted when the user loads a queue's attributes and tags to edit them.
+     *
+     * @param queueUrl    The SQS queue URL.
+     * @returns           A promise that resolves to the queue's details.
+     */
+    onLoad: (queueUrl: string) => Promise<SqsQueueDetails>;
+
+    /**
+     * Emitted when the user creates a queue.
+     *
+     * @param settings    The new queue's settings.
+     * @param tags        The new queue's tags.
+     * @returns           A promise that resolves to the new queue's URL.
+     */
+    onCreate: (settings: SqsQueueSettings, tags: SqsQueueTag[]) => Promise<string>;
+
+    /**
+     * Emitted when the user saves the attributes of an existing queue.
+     *
+     * @param queueUrl    The SQS queue URL.
+     * @param settings    The queue's updated settings.
+     */
+    onUpdateAttributes: (queueUrl: string, settings: SqsQueueSettings) => Promise<void>;
+
+    /**
+     * Emitted when the user saves the tags of an existing queue. Tags that are not provided are removed.
+     *
+     * @param queueUrl    The SQS queue URL.
+     * @param tags        The queue's updated tags.
+     */
+    onUpdateTags: (queueUrl: string, tags: SqsQueueTag[]) => Promise<void>;
+
+    /**
+     * Emitted when the user confirms deleting all of a queue's messages.
+     *
+     * @param queueUrl    The SQS queue URL.
+     */
+    onPurge: (queueUrl: string) => Promise<void>;
+
+    /**
+     * Emitted when the user confirms deleting a queue.
+     *
+     * @param queueUrl    The SQS queue URL.
+     */
+    onDelete: (queueUrl: string) => Promise<void>;
+
+    /**
+     * Emitted when the user chooses to send messages to a queue, making it the configured queue.
+     *
+     * @param queueUrl    The SQS queue URL.
+     */
+    onUseQueue: (queueUrl: string) => void;
+};
+
+/**
+ * - load: The queue's attributes and tags are being loaded.
+ * - create: The queue is being created.
+ * - saveAttributes: The queue's attributes are being saved.
+ * - saveTags: The queue's tags are being saved.
+ * - purge: The queue's messages are being deleted.
+ * - delete: The queue is being deleted.
+ */
+type AdminAction = 'load' | 'create' | 'saveAttributes' | 'saveTags' | 'purge' | 'delete';
+
+const actionLabels: Record<AdminAction, string> = {
+    load: 'load the queue',
+    create: 'create the queue',
+    saveAttributes: 'save the attributes',
+    saveTags: 'save the tags',
+    purge: 'purge the queue',
+    delete: 'delete the queue',
+};
+
+const numberFields: Array<{ name: keyof SqsQueueSettings; label: string; min: number; max: number }> = [
+    { name: 'visibilityTimeout', label: 'Visibility Timeout (s)', min: 0, max: 43200 },
+    { name: 'messageRetentionPeriod', label: 'Retention Period (s)', min: 60, max: 1209600 },
+    { name: 'delaySeconds', label: 'Delivery Delay (s)', min: 0, max: 900 },
+    { name: 'maximumMessageSize', label: 'Maximum Message Size (bytes)', min: 1024, max: 262144 },
+    { name: 'receiveMessageWaitTimeSeconds', label: 'Receive Wait Time (s)', min: 0, max: 20 },
+];
+
+/**
+ * Renders an administration view for creating queues, editing their attributes and tags, and purging or deleting them.
+ * Purging and deleting are destructive, so the user must type the queue's name to confirm them.
+ */
+export const QueueAdmin: React.FC<Props> = (props) => {
+    const [queueUrl, setQueueUrl] = useState(props.queueUrl);
+    const [details, setDetails] = useState<SqsQueueDetails>();
+    const [settings, setSettings] = useState<SqsQueueSettings>(QueueAdminUtils.getDefaultSettings);
+    const [tags, setTags] = useState<SqsQueueTag[]>([]);
+    const [browsing, setBrowsing] = useState(false);
+    const [confirmation, setConfirmation] = useState('');
+    const [action, setAction] = useState<AdminAction>();
+    const [errors, setErrors] = useState<string[]>();
+    const [notice, setNotice] = useState<string>();
+
+    const creating = !details;
+    const confirmed = !!details && QueueAdminUtils.isConfirmed(details.url, confirmation);
+
+    /**
+     * Runs the provided task, unless another is running, and shows its outcome.
+     */
+    const run = useCallback(
+        async (newAction: AdminAction, task: () => Promise<string | undefined>) => {
+            if (action) {
+                return;
+            }
+
+            setAction(newAction);
+            setErrors(undefined);
+            setNotice(undefined);
+
+            try {
+                setNotice(await task());
+            } catch (taskError) {
+                setErrors([`Could not ${actionLabels[newAction]}: ${ErrorUtils.getMessage(taskError)}`]);
+            } finally {
+                setAction(undefined);
+            }
+        },
+        [action]
+    );
+
+    const showDetails = useCallback((newDetails: SqsQueueDetails | undefined) => {
+        setDetails(newDetails);
+        setSettings(newDetails?.settings ?? QueueAdminUtils.getDefaultSettings());
+        setTags(newDetails?.tags ?? []);
+        setConfirmation('');
+    }, []);
+
+    const loadQueue = useCallback(
+        (url: string) =>
+            run('load', async () => {
+                showDetails(await props.onLoad(url));
+                return undefined;
+            }),
+        [run, showDetails, props.onLoad]
+    );
+
+    const load = useCallback(() => loadQueue(queueUrl), [loadQueue, queueUrl]);
+
+    const newQueue = useCallback(() => {
+        showDetails(undefined);
+        setErrors(undefined);
+        setNotice(undefined);
+    }, [showDetails]);
+
+    const onQueueUrlChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => setQueueUrl(event.target.value.trim()), []);
+
+    const toggleBrowsing = useCallback(() => setBrowsing((currentBrowsing) => !currentBrowsing), []);
+
+    const selectQueue = useCallback(
+        (queue: SqsQueueSummary) => {
+            setQueueUrl(queue.url);
+            setBrowsing(false);
+            void loadQueue(queue.url);
+        },
+        [loadQueue]
+    );
+
+    const onNameChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const name = event.target.value.trim();
+        setSettings((currentSettings) => ({ ...currentSettings, name }));
+    }, []);
+
+    // The '.fifo' suffix follows the queue type, as SQS requires it on FIFO queue names only.
+    const onTypeChange = useCallback((event: React.ChangeEvent<{ value: unknown }>) => {
+        const fifo = event.target.value === 'fifo';
+        setSettings((currentSettings) => {
+            const baseName = currentSettings.name.replace(/\.fifo$/, '');
+            return { ...currentSettings, fifo, name: fifo && baseName ? `${baseName}.fifo` : baseName, deadLetterTargetArn: '' };
+        });
+    }, []);
+
+    const onNumberChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = event.target;
+        setSettings((currentSettings) => ({ ...currentSettings, [name]: Number(value) }));
+    }, []);
+
+    const onContentBasedDeduplicationChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const contentBasedDeduplication = event.target.checked;
+        setSettings((currentSettings) => ({ ...currentSettings, contentBasedDeduplication }));
+    }, []);
+
+    const onDeadLetterTargetArnChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const deadLetterTargetArn = event.target.value.trim();
+        setSettings((currentSettings) => ({ ...currentSettings, deadLetterTargetArn }));
+    }, []);
+
+    const addTag = useCallback(() => setTags((currentTags) => [...currentTags, { key: '', value: '' }]), []);
+
+    const updateTag = useCallback((index: number, changes: Partial<SqsQueueTag>) => {
+        setTags((currentTags) => currentTags.map((tag, tagIndex) => (tagIndex === index ? { ...tag, ...changes } : tag)));
+    }, []);
+
+    const removeTag = useCallback((index: number) => setTags((currentTags) => currentTags.filter((tag, tagIndex) => tagIndex !== index)), []);
+
+    const create = useCallback(() => {
+        const newErrors = [...(QueueAdminUtils.validateSettings(settings) ?? []), ...(QueueAdminUtils.validateTags(tags) ?? [])];
+        if (newErrors.length) {
+            setErrors(newErrors);
+            return;
+        }
+
+        return run('create', async () => {
+            const url = await props.onCreate(settings, tags);
+            setQueueUrl(url);
+            showDetails(await props.onLoad(url));
+            return `Created ${settings.name}.`;
+        });
+    }, [settings, tags, run, showDetails, props.onCreate, props.onLoad]);
+
+    const saveAttributes = useCallback(() => {
+        const newErrors = QueueAdminUtils.validateSettings(settings);
+        if (!details || newErrors) {
+            setErrors(newErrors);
+            return;
+        }
+
+        return run('saveAttributes', async () => {
+            await props.onUpdateAttributes(details.url, settings);
+            return `Saved the attributes of ${details.settings.name}. Changes can take up to a minute to apply.`;
+        });
+    }, [details, settings, run, props.onUpdateAttributes]);
+
+    const saveTags = useCallback(() => {
+        const newErrors = QueueAdminUtils.validateTags(tags);
+        if (!details || newErrors) {
+            setErrors(newErrors);
+            return;
+        }
+
+        return run('saveTags', async () => {
+            await props.onUpdateTags(details.url, tags);
+            return `Saved the tags of ${details.settings.name}.`;
+        });
+    }, [details, tags, run, props.onUpdateTags]);
+
+    const onConfirmationChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => setConfirmation(event.target.value), []);
+
+    const purge = useCallback(() => {
+        if (!details || !confirmed) {
+            return;
+        }
+
+        return run('purge', async () => {
+            await props.onPurge(details.url);
+            setConfirmation('');
+            return `Purged ${details.settings.name}. Messages can take up to a minute to be deleted.`;
+        });
+    }, [details, confirmed, run, props.onPurge]);
+
+    const deleteQueue = useCallback(() => {
+        if (!details || !confirmed) {
+            return;
+        }
+
+        return run('delete', async () => {
+            await props.onDelete(details.url);
+            showDetails(undefined);
+            setQueueUrl('');
+            return `Deleted ${details.settings.name}.`;
+        });
+    }, [details, confirmed, run, showDetails, props.onDelete]);
+
+    const sendToQueue = useCallback(() => {
+        if (details) {
+            props.onUseQueue(details.url);
+        }
+    }, [details, props.onUseQueue]);
+
+    const progressIcon = (icon: React.ReactNode, ...actions: AdminAction[]) => (action && actions.includes(action) ? <CircularProgress color="inherit" size={20} /> : icon);
+
+    return (
+        <div className="inbox queue-admin">
+            <div className="settings-config inbox-options">
+                {errors?.map((error, index) => (
+                    <Alert key={index} severity="error">
+                        {error}
+                    </Alert>
+                ))}
+                {notice && <Alert severity="success">{notice}</Alert>}
+                <div className="inbox-inputs">
+                    <div className="inbox-field">
+                        <InputLabel>Queue URL</InputLabel>
+                        <TextField variant="outlined" disabled={!!action} value={queueUrl} onChange={onQueueUrlChange} />
+                    </div>
+                    <Button className="redrive-find-btn" variant="outlined" disabled={!!action || !queueUrl} endIcon={progressIcon(<GetAppIcon />, 'load')} onClick={load}>
+                        Load
+                    </Button>
+                </div>
+                <div className="inbox-actions">
+                    <Button variant="outlined" startIcon={<ListIcon />} onClick={toggleBrowsing}>
+                        {browsing ? 'Hide Queues' : 'Browse Queues'}
+                    </Button>
+                    <Button variant="outlined" color="primary" disabled={!!action || creating} startIcon={<AddIcon />} onClick={newQueue}>
+                        New Queue
+                    </Button>
+                </div>
+                {browsing && <QueueBrowser selectedUrl={details?.url ?? ''} onListQueues={props.onListQueues} onSelect={selectQueue} />}
+            </div>
+            <div className="message queue-admin-section">
+                <h3 className="message-header">{creating ? 'New Queue' : `Attributes of ${details?.settings.name ?? ''}`}</h3>
+                {details && (
+                    <p className="queue-admin-summary">
+                        {details.arn ?? details.url}
+                        {details.approximateMessageCount !== undefined && ` · About ${details.approximateMessageCount} messages`}
+                    </p>
+                )}
+                <div className="inbox-inputs">
+                    <div className="inbox-field">
+                        <InputLabel>Queue Name</InputLabel>
+                        <TextField
+                            variant="outlined"
+                            placeholder={settings.fifo ? 'e.g. orders.fifo' : 'e.g. orders'}
+                            disabled={!creating || !!action}
+                            value={settings.name}
+                            onChange={onNameChange}
+                        />
+                    </div>
+                    <div className="inbox-field">
+                        <InputLabel>Type</InputLabel>
+                        <Select variant="outlined" disabled={!creating || !!action} value={settings.fifo ? 'fifo' : 'standard'} onChange={onTypeChange}>
+                            <MenuItem value="standard">Standard</MenuItem>
+                            <MenuItem value="fifo">FIFO</MenuItem>
+                        </Select>
+                    </div>
+                </div>
+                <div className="inbox-inputs queue-admin-numbers">
+                    {numberFields.map(({ name, label, min, max }) => (
+                        <div key={name} className="inbox-field">
+                            <InputLabel>{label}</InputLabel>
+                            <TextField
+                                variant="outlined"
+                                type="number"
+                                name={name}
+                                inputProps={{ min, max }}
+                                disabled={!!action}
+                                value={settings[name]}
+                                onChange={onNumberChange}
+                            />
+                        </div>
+                    ))}
+                </div>
+                <div className="inbox-inputs">
+                    <div className="inbox-field queue-admin-dlq">
+                        <InputLabel>Dead-letter Queue ARN</InputLabel>
+                        <TextField variant="outlined" placeholder="None" disabled={!!action} value={settings.deadLetterTargetArn} onChange={onDeadLetterTargetArnChange} />
+                    </div>
+                    <div className="inbox-field">
+                        <InputLabel>Maximum Receives</InputLabel>
+                        <TextField
+                            variant="outlined"
+                            type="number"
+                            name="maxReceiveCount"
+                            inputProps={{ min: 1, max: 1000 }}
+                            disabled={!!action || !settings.deadLetterTargetArn}
+                            value={settings.maxReceiveCount}
+                            onChange={onNumberChange}
+                        />
+                    </div>
+                </div>
+                <div className="inbox-actions">
+                    {settings.fifo && (
+                        <FormControlLabel
+                            className="queue-admin-dedup"
+                            control={<Switch color="primary" checked={settings.contentBasedDeduplication} disabled={!!action} onChange={onContentBasedDeduplicationChange} />}
+                            label="Content-based deduplication"
+                        />
+                    )}
+                    {details && (
+                        <Button variant="outlined" disabled={!!action || details.url === props.queueUrl} onClick={sendToQueue}>
+                            Send to This Queue
+                        </Button>
+                    )}
+                    <Button
+                        variant="contained"
+                        color="primary"
+                        disableElevation
+                        disabled={!!action}
+                        endIcon={progressIcon(creating ? <AddIcon /> : <SaveIcon />, 'create', 'saveAttributes')}
+                        onClick={creating ? create : saveAttributes}
+                    >
+                        {creating ? 'Create Queue' : 'Save Attributes'}
+                    </Button>
+                </div>
+            </div>
+            <div className="message queue-admin-section">
+                <h3 className="message-header">Tags</h3>
+                {!tags.length && <p className="queue-admin-summary">{creating ? 'The queue will be created without tags.' : 'The queue has no tags.'}</p>}
+                {tags.map((tag, index) => (
+                    <div key={index} className="inbox-inputs queue-admin-tag">
+                        <TextField
+                            className="inbox-field"
+                            variant="outlined"
+                            placeholder="Key"
+                            disabled={!!action}
+                            value={tag.key}
+                            onChange={(event) => updateTag(index, { key: event.target.value })}
+                        />
+                        <TextField
+                            className="inbox-field"
+                            variant="outlined"
+                            placeholder="Value"
+                            disabled={!!action}
+                            value={tag.value}
+                            onChange={(event) => updateTag(index, { value: event.target.value })}
+                        />
+                        <IconButton disabled={!!action} onClick={() => removeTag(index)}>
+                            <DeleteIcon />
+                        </IconButton>
+                    </div>
+                ))}
+                <div className="inbox-actions">
+                    <Button variant="outlined" disabled={!!action} startIcon={<AddIcon />} onClick={addTag}>
+                        Add Tag
+                    </Button>
+                    {!creating && (
+                        <Button variant="contained" color="primary" disableElevation disabled={!!action} endIcon={progressIcon(<SaveIcon />, 'saveTags')} onClick={saveTags}>
+                            Save Tags
+                        </Button>
+                    )}
+                </div>
+            </div>
+            {details && (
+                <div className="message queue-admin-section queue-admin-danger">
+                    <h3 className="message-header">Purge or Delete</h3>
+                    <p className="queue-admin-summary">
+                        Purging deletes all messages in the queue. Deleting removes the queue and its messages. Neither can be undone. Type{' '}
+                        <b>{QueueUtils.getQueueName(details.url)}</b> to confirm.
+                    </p>
+                    <div className="inbox-inputs">
+                        <div className="inbox-field">
+                            <TextField
+                                variant="outlined"
+                                placeholder={QueueUtils.getQueueName(details.url)}
+                                disabled={!!action}
+                                value={confirmation}
+                                onChange={onConfirmationChange}
+                            />
+                        </div>
+                    </div>
+                    <div className="inbox-actions">
+                        <Button variant="outlined" color="secondary" disabled={!!action || !confirmed} endIcon={progressIcon(<DeleteSweepIcon />, 'purge')} onClick={purge}>
+                            Purge Queue
+                        </Button>
+                        <Button
+                            variant="contained"
+                            color="secondary"
+                            disableElevation
+                            disabled={!!action || !confirmed}
+                            endIcon={progressIcon(<DeleteIcon />, 'delete')}
+                            onClick={deleteQueue}
+                        >
+                            Delete Queue
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
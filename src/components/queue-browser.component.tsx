@@ -0,0 +1,149 @@
+import { Button, CircularProgress, TextField } from '@material-ui/core';
+import SearchIcon from '@material-ui/icons/Search';
+import { Alert } from '@material-ui/lab';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ErrorUtils } from '../utils/error.utils';
+import { QueueUtils } from '../utils/queue.utils';
+import { SqsQueuePage, SqsQueueSummary } from './app.component';
+
+type Props = {
+    /**
+     * The URL of the currently selected queue, which is highlighted.
+     */
+    selectedUrl: string;
+
+    /**
+     * Emitted when the user searches for queues or requests the next page.
+     *
+     * @param prefix       The queue name prefix to filter by.
+     * @param nextToken    The token of the page to load, if not the first.
+     * @returns            A promise that resolves to the page of queues.
+     */
+    onListQueues: (prefix: string, nextToken?: string) => Promise<SqsQueuePage>;
+
+    /**
+     * Emitted when the user picks a queue.
+     *
+     * @param queue    The picked queue.
+     */
+    onSelect: (queue: SqsQueueSummary) => void;
+};
+
+const encryptionLabels: Record<SqsQueueSummary['encryption'], string> = {
+    none: 'None',
+    sqs: 'SSE-SQS',
+    kms: 'SSE-KMS',
+};
+
+/**
+ * Renders a searchable list of the account's SQS queues that the target queue can be picked from.
+ */
+export const QueueBrowser: React.FC<Props> = (props) => {
+    const [prefix, setPrefix] = useState('');
+    const [queues, setQueues] = useState<SqsQueueSummary[]>([]);
+    const [nextToken, setNextToken] = useState<string>();
+    const [loading, setLoading] = useState(false);
+    const [searched, setSearched] = useState(false);
+    const [error, setError] = useState<string>();
+
+    const linkedQueues = useMemo(() => QueueUtils.linkDeadLetterSources(queues), [queues]);
+
+    const load = useCallback(
+        async (token?: string) => {
+            if (loading) {
+                return;
+            }
+
+            setLoading(true);
+            setError(undefined);
+
+            try {
+                const page = await props.onListQueues(prefix, token);
+                setQueues((currentQueues) => (token ? [...currentQueues, ...page.queues] : page.queues));
+                setNextToken(page.nextToken);
+                setSearched(true);
+            } catch (listError) {
+                setError(ErrorUtils.getMessage(listError));
+            } finally {
+                setLoading(false);
+            }
+        },
+        [loading, prefix, props.onListQueues]
+    );
+
+    const search = useCallback(() => load(), [load]);
+    const loadMore = useCallback(() => load(nextToken), [load, nextToken]);
+
+    const onPrefixChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => setPrefix(event.target.value), []);
+
+    const onPrefixKeyDown = useCallback(
+        (event: React.KeyboardEvent<HTMLInputElement>) => {
+            if (event.key === 'Enter') {
+                void search();
+            }
+        },
+        [search]
+    );
+
+    return (
+        <div className="queue-browser">
+            {error && <Alert severity="error">{error}</Alert>}
+            <div className="queue-browser-search">
+                <TextField
+                    className="queue-browser-prefix"
+                    variant="outlined"
+                    placeholder="Queue name prefix"
+                    value={prefix}
+                    onChange={onPrefixChange}
+                    onKeyDown={onPrefixKeyDown}
+                />
+                <Button variant="contained" color="primary" disableElevation endIcon={loading ? <CircularProgress color="inherit" size={20} /> : <SearchIcon />} onClick={search}>
+                    Search
+                </Button>
+            </div>
+            {searched && !linkedQueues.length && <p className="queue-browser-empty">No queues found.</p>}
+            {!!linkedQueues.length && (
+                <table className="queue-browser-table">
+                    <thead>
+                        <tr>
+                            <th>Name</th>
+                            <th>Type</th>
+                            <th>Visibility</th>
+                            <th>Depth</th>
+                            <th>Dead-letter Queue</th>
+                            <th>Encryption</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {linkedQueues.map((queue) => (
+                            <tr
+                                key={queue.url}
+                                className={queue.url === props.selectedUrl ? 'queue-browser-row queue-browser-row-selected' : 'queue-browser-row'}
+                                onClick={() => props.onSelect(queue)}
+                            >
+                                <td>
+                                    {queue.name}
+                                    {!!queue.deadLetterSources.length && <div className="queue-browser-dlq-sources">DLQ for: {queue.deadLetterSources.join(', ')}</div>}
+                                </td>
+                                <td>{queue.fifo ? 'FIFO' : 'Standard'}</td>
+                                <td>{queue.visibilityTimeout !== undefined ? `${queue.visibilityTimeout}s` : '-'}</td>
+                                <td>{queue.approximateDepth ?? '-'}</td>
+                                <td>
+                                    {queue.deadLetterTargetArn
+                                        ? `${QueueUtils.getQueueNameFromArn(queue.deadLetterTargetArn)} (after ${queue.maxReceiveCount ?? '?'} receives)`
+                                        : '-'}
+                                </td>
+                                <td>{encryptionLabels[queue.encryption]}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            {!!nextToken && (
+                <Button className="queue-browser-more-btn" variant="outlined" disabled={loading} onClick={loadMore}>
+                    Load More
+                </Button>
+            )}
+        </div>
+    );
+};
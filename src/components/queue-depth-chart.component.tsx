@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import { MetricsUtils } from '../utils/metrics.utils';
+import { SqsQueueDepth, SqsQueueDepthSeries, SqsSendMarker } from './app.component';
+
+type Props = {
+    /**
+     * The name of the charted queue.
+     */
+    title: string;
+
+    /**
+     * The queue's depth over time, oldest first.
+     */
+    samples: SqsQueueDepth[];
+
+    /**
+     * The times messages were sent, marked on the chart.
+     */
+    markers: SqsSendMarker[];
+
+    /**
+     * The start of the charted time range, in milliseconds since the epoch.
+     */
+    from: number;
+
+    /**
+     * The end of the charted time range, in milliseconds since the epoch.
+     */
+    to: number;
+};
+
+/**
+ * The size of the plotted area, in SVG units. The chart scales to the width of its container.
+ */
+const WIDTH = 720;
+const HEIGHT = 180;
+
+/**
+ * The space around the plotted area, which holds the axis labels.
+ */
+const MARGIN = { top: 10, right: 12, bottom: 24, left: 48 };
+
+const SERIES: Array<{ series: SqsQueueDepthSeries; label: string }> = [
+    { series: 'visible', label: 'Visible' },
+    { series: 'notVisible', label: 'In flight' },
+    { series: 'delayed', label: 'Delayed' },
+];
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+/**
+ * Renders a line chart of a queue's visible, in-flight and delayed messages over time,
+ * with a marker at each point messages were sent to the queue.
+ */
+export const QueueDepthChart: React.FC<Props> = (props) => {
+    const chart = useMemo(() => MetricsUtils.toChart(props.samples, props.markers, props.from, props.to, WIDTH, HEIGHT), [props.samples, props.markers, props.from, props.to]);
+    const latest = props.samples[props.samples.length - 1];
+
+    return (
+        <div className="queue-depth-chart">
+            <div className="queue-depth-legend">
+                <b className="queue-depth-title">{props.title}</b>
+                {SERIES.map(({ series, label }) => (
+                    <span key={series} className={`queue-depth-key queue-depth-${series}`}>
+                        {label}: {latest ? latest[series] : '-'}
+                    </span>
+                ))}
+                <span className="queue-depth-key queue-depth-sent">Sent</span>
+            </div>
+            <svg className="queue-depth-svg" viewBox={`0 0 ${WIDTH + MARGIN.left + MARGIN.right} ${HEIGHT + MARGIN.top + MARGIN.bottom}`}>
+                <g transform={`translate(${MARGIN.left},${MARGIN.top})`}>
+                    {chart.yTicks.map((tick) => (
+                        <g key={tick.value}>
+                            <line className="queue-depth-grid" x1={0} x2={WIDTH} y1={tick.y} y2={tick.y} />
+                            <text className="queue-depth-label" x={-8} y={tick.y} textAnchor="end" dominantBaseline="middle">
+                                {tick.value}
+                            </text>
+                        </g>
+                    ))}
+                    {chart.xTicks.map((tick) => (
+                        <text key={tick.timestamp} className="queue-depth-label" x={tick.x} y={HEIGHT + 18} textAnchor="middle">
+                            {formatTime(tick.timestamp)}
+                        </text>
+                    ))}
+                    {chart.markers.map(({ x, marker }, index) => (
+                        <g key={index} className="queue-depth-marker">
+                            <title>{`Sent ${marker.count} ${marker.count === 1 ? 'message' : 'messages'} at ${formatTime(marker.timestamp)}`}</title>
+                            <line x1={x} x2={x} y1={0} y2={HEIGHT} />
+                            <circle cx={x} cy={0} r={4} />
+                        </g>
+                    ))}
+                    {SERIES.map(({ series }) => (
+                        <path key={series} className={`queue-depth-line queue-depth-${series}`} d={chart.paths[series]} />
+                    ))}
+                </g>
+            </svg>
+        </div>
+    );
+};
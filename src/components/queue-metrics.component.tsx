@@ -0,0 +1,220 @@
+import { Button, InputLabel, TextField } from '@material-ui/core';
+import ClearAllIcon from '@material-ui/icons/ClearAll';
+import PlayArrowIcon from '@material-ui/icons/PlayArrow';
+import StopIcon from '@material-ui/icons/Stop';
+import { Alert } from '@material-ui/lab';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ErrorUtils } from '../utils/error.utils';
+import { MetricsUtils } from '../utils/metrics.utils';
+import { QueueUtils } from '../utils/queue.utils';
+import { SqsMetricsOptions, SqsQueueDepth, SqsSendMarker } from './app.component';
+import { QueueDepthChart } from './queue-depth-chart.component';
+
+type Props = {
+    /**
+     * The SQS queue URL whose depth is charted, along with its dead-letter queue's.
+     */
+    queueUrl: string;
+
+    /**
+     * The times messages were sent to the queue, marked on the charts.
+     */
+    sendMarkers: SqsSendMarker[];
+
+    /**
+     * Emitted on each poll, once for the queue and once for its dead-letter queue, if it has one.
+     *
+     * @param queueUrl    The SQS queue URL.
+     * @returns           A promise that resolves to the queue's current depth.
+     */
+    onLoadDepth: (queueUrl: string) => Promise<SqsQueueDepth>;
+};
+
+type RunControl = {
+    cancelled: boolean;
+    wake?: () => void;
+};
+
+/**
+ * Waits for the provided duration, or until the run is stopped.
+ */
+const wait = (run: RunControl, duration: number) =>
+    new Promise<void>((resolve) => {
+        const timeout = setTimeout(resolve, duration);
+        run.wake = () => {
+            clearTimeout(timeout);
+            resolve();
+        };
+    });
+
+const stopRun = (run: RunControl | undefined) => {
+    if (run) {
+        run.cancelled = true;
+        run.wake?.();
+    }
+};
+
+/**
+ * Renders a dashboard that polls the queue's attributes and charts its visible, in-flight and delayed messages over time,
+ * and those of its dead-letter queue, so a consumer can be watched draining the messages just sent.
+ */
+export const QueueMetrics: React.FC<Props> = (props) => {
+    const [options, setOptions] = useState<SqsMetricsOptions>(MetricsUtils.getDefaultOptions);
+    const [windowMinutes, setWindowMinutes] = useState(options.windowMinutes);
+    const [running, setRunning] = useState(false);
+    const [samples, setSamples] = useState<SqsQueueDepth[]>([]);
+    const [deadLetterSamples, setDeadLetterSamples] = useState<SqsQueueDepth[]>([]);
+    const [errors, setErrors] = useState<string[]>();
+    const [error, setError] = useState<string>();
+    const control = useRef<RunControl>();
+
+    const range = useMemo(() => MetricsUtils.getTimeRange(samples, windowMinutes), [samples, windowMinutes]);
+    const queueName = useMemo(() => QueueUtils.getQueueName(props.queueUrl), [props.queueUrl]);
+    const deadLetterQueueUrl = samples[samples.length - 1]?.deadLetterQueueUrl;
+
+    const onOptionChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = event.target;
+        setOptions((currentOptions) => ({ ...currentOptions, [name]: Number(value) }));
+    }, []);
+
+    const start = useCallback(async () => {
+        if (control.current) {
+            return;
+        }
+
+        const newErrors = MetricsUtils.validateOptions(options);
+        setErrors(newErrors);
+        if (newErrors) {
+            return;
+        }
+
+        const run: RunControl = { cancelled: false };
+        control.current = run;
+        setWindowMinutes(options.windowMinutes);
+        setRunning(true);
+
+        try {
+            while (!run.cancelled) {
+                const startedAt = Date.now();
+
+                // A failed poll leaves a gap in the chart, so a brief outage or throttling does not stop the dashboard.
+                try {
+                    const depth = await props.onLoadDepth(props.queueUrl);
+                    const deadLetterDepth = depth.deadLetterQueueUrl ? await props.onLoadDepth(depth.deadLetterQueueUrl) : undefined;
+
+                    if (run.cancelled) {
+                        break;
+                    }
+
+                    setSamples((currentSamples) => MetricsUtils.addSample(currentSamples, depth, options.windowMinutes));
+                    if (deadLetterDepth) {
+                        setDeadLetterSamples((currentSamples) => MetricsUtils.addSample(currentSamples, deadLetterDepth, options.windowMinutes));
+                    }
+                    setError(undefined);
+                } catch (pollError) {
+                    if (run.cancelled) {
+                        break;
+                    }
+                    setError(`Could not read the queue attributes: ${ErrorUtils.getMessage(pollError)}`);
+                }
+
+                await wait(run, Math.max(options.intervalSeconds * 1000 - (Date.now() - startedAt), 0));
+            }
+        } finally {
+            if (control.current === run) {
+                control.current = undefined;
+                setRunning(false);
+            }
+        }
+    }, [options, props.queueUrl, props.onLoadDepth]);
+
+    const stop = useCallback(() => {
+        stopRun(control.current);
+        control.current = undefined;
+        setRunning(false);
+    }, []);
+
+    // Polling stops when the connection changes, rather than continuing with stale settings.
+    useEffect(() => {
+        stop();
+    }, [props.onLoadDepth, stop]);
+
+    // Polling also stops when the view is unmounted, clearing the run so it no longer updates the view's state.
+    useEffect(() => {
+        return () => {
+            stopRun(control.current);
+            control.current = undefined;
+        };
+    }, []);
+
+    const clear = useCallback(() => {
+        setSamples([]);
+        setDeadLetterSamples([]);
+        setError(undefined);
+    }, []);
+
+    return (
+        <div className="inbox queue-metrics">
+            <div className="settings-config inbox-options">
+                {!props.queueUrl && <Alert severity="info">Set a queue URL in the Settings tab to chart its depth.</Alert>}
+                {errors?.map((optionError, index) => (
+                    <Alert key={index} severity="error">
+                        {optionError}
+                    </Alert>
+                ))}
+                <div className="inbox-inputs">
+                    <div className="inbox-field">
+                        <InputLabel>Interval (s)</InputLabel>
+                        <TextField
+                            variant="outlined"
+                            type="number"
+                            name="intervalSeconds"
+                            inputProps={{ min: 1 }}
+                            disabled={running}
+                            value={options.intervalSeconds}
+                            onChange={onOptionChange}
+                        />
+                    </div>
+                    <div className="inbox-field">
+                        <InputLabel>Window (min)</InputLabel>
+                        <TextField
+                            variant="outlined"
+                            type="number"
+                            name="windowMinutes"
+                            inputProps={{ min: 1 }}
+                            disabled={running}
+                            value={options.windowMinutes}
+                            onChange={onOptionChange}
+                        />
+                    </div>
+                </div>
+                <div className="inbox-actions">
+                    <Button variant="outlined" disabled={!samples.length} startIcon={<ClearAllIcon />} onClick={clear}>
+                        Clear
+                    </Button>
+                    <Button variant="outlined" color="secondary" disabled={!running} startIcon={<StopIcon />} onClick={stop}>
+                        Stop
+                    </Button>
+                    <Button variant="contained" color="primary" disableElevation disabled={running || !props.queueUrl} endIcon={<PlayArrowIcon />} onClick={start}>
+                        Start
+                    </Button>
+                </div>
+            </div>
+            {error && <Alert severity="error">{error}</Alert>}
+            {!!samples.length && (
+                <div className="message queue-metrics-charts">
+                    <QueueDepthChart title={queueName} samples={samples} markers={props.sendMarkers} from={range.from} to={range.to} />
+                    {deadLetterQueueUrl && (
+                        <QueueDepthChart
+                            title={`${QueueUtils.getQueueName(deadLetterQueueUrl)} (dead-letter queue)`}
+                            samples={deadLetterSamples}
+                            markers={props.sendMarkers}
+                            from={range.from}
+                            to={range.to}
+                        />
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
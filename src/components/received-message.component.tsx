@@ -0,0 +1,147 @@
+import { Button, CircularProgress, TextField } from '@material-ui/core';
+import DeleteIcon from '@material-ui/icons/Delete';
+import EditIcon from '@material-ui/icons/Edit';
+import VisibilityIcon from '@material-ui/icons/Visibility';
+import { Alert } from '@material-ui/lab';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ErrorUtils } from '../utils/error.utils';
+import { MessageUtils } from '../utils/message.utils';
+import { SqsReceivedMessage } from './app.component';
+
+type Props = {
+    /**
+     * The message received from the queue.
+     */
+    message: SqsReceivedMessage;
+
+    /**
+     * Emitted when the user chooses to delete the message from the queue.
+     *
+     * @param message    The received message.
+     * @returns          A promise that resolves once the message is deleted.
+     */
+    onDelete: (message: SqsReceivedMessage) => Promise<void>;
+
+    /**
+     * Emitted when the user chooses to change the message's visibility timeout.
+     *
+     * @param message              The received message.
+     * @param visibilityTimeout    The new visibility timeout, in seconds.
+     * @returns                    A promise that resolves once the visibility timeout is changed.
+     */
+    onChangeVisibility: (message: SqsReceivedMessage, visibilityTimeout: number) => Promise<void>;
+
+    /**
+     * Emitted when the user chooses to copy the message into the message editor.
+     *
+     * @param message    The received message.
+     */
+    onCopy: (message: SqsReceivedMessage) => void;
+};
+
+/**
+ * Renders a message received from an SQS queue, along with actions that can be performed on it.
+ */
+export const ReceivedMessage: React.FC<Props> = (props) => {
+    const [visibilityTimeout, setVisibilityTimeout] = useState('0');
+    const [pending, setPending] = useState(false);
+    const [status, setStatus] = useState<string>();
+    const [error, setError] = useState<string>();
+
+    const body = useMemo(() => MessageUtils.formatBody(props.message.body), [props.message.body]);
+    const sentAt = useMemo(() => (props.message.sentTimestamp ? new Date(props.message.sentTimestamp).toLocaleString() : 'Unknown'), [props.message.sentTimestamp]);
+
+    const run = useCallback(
+        async (action: () => Promise<void>, successStatus: string) => {
+            if (pending) {
+                return;
+            }
+
+            setPending(true);
+            setStatus(undefined);
+            setError(undefined);
+
+            try {
+                await action();
+                setStatus(successStatus);
+            } catch (actionError) {
+                setError(ErrorUtils.getMessage(actionError));
+            } finally {
+                setPending(false);
+            }
+        },
+        [pending]
+    );
+
+    const deleteMessage = useCallback(() => run(() => props.onDelete(props.message), 'Message deleted.'), [run, props.message, props.onDelete]);
+
+    const changeVisibility = useCallback(() => {
+        const timeout = Number(visibilityTimeout);
+        return run(() => props.onChangeVisibility(props.message, timeout), `Message visibility timeout changed to ${timeout} seconds.`);
+    }, [run, visibilityTimeout, props.message, props.onChangeVisibility]);
+
+    const updateVisibilityTimeout = useCallback((event: React.ChangeEvent<HTMLInputElement>) => setVisibilityTimeout(event.target.value), []);
+
+    const copyMessage = useCallback(() => props.onCopy(props.message), [props.message, props.onCopy]);
+
+    return (
+        <div className="message received-message">
+            {error && <Alert severity="error">{error}</Alert>}
+            {status && <Alert severity="success">{status}</Alert>}
+            <div className="received-message-details">
+                <span>
+                    <b>ID:</b> {props.message.messageId}
+                </span>
+                <span>
+                    <b>Sent:</b> {sentAt}
+                </span>
+                <span>
+                    <b>Receive Count:</b> {props.message.receiveCount}
+                </span>
+            </div>
+            <h3 className="message-header">Body</h3>
+            <pre className="received-message-body">{body}</pre>
+            <h3 className="message-header">Attributes</h3>
+            <hr className="message-hr" />
+            <table className="received-message-attributes">
+                <tbody>
+                    {props.message.attributes.map((attribute) => (
+                        <tr key={attribute.id}>
+                            <td>{attribute.name}</td>
+                            <td>{MessageUtils.toDataType(attribute)}</td>
+                            <td>{String(attribute.value)}</td>
+                        </tr>
+                    ))}
+                    {Object.entries(props.message.systemAttributes).map(([name, value]) => (
+                        <tr key={name} className="received-message-system-attribute">
+                            <td>{name}</td>
+                            <td>System</td>
+                            <td>{value}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <div className="received-message-actions">
+                <Button variant="outlined" color="secondary" disabled={pending} startIcon={<DeleteIcon />} onClick={deleteMessage}>
+                    Delete
+                </Button>
+                <TextField
+                    className="received-message-visibility"
+                    variant="outlined"
+                    type="number"
+                    label="Visibility (s)"
+                    inputProps={{ min: 0, max: 43200 }}
+                    value={visibilityTimeout}
+                    onChange={updateVisibilityTimeout}
+                />
+                <Button variant="outlined" disabled={pending} startIcon={<VisibilityIcon />} onClick={changeVisibility}>
+                    Change Visibility
+                </Button>
+                <Button variant="outlined" color="primary" startIcon={<EditIcon />} onClick={copyMessage}>
+                    Copy into Editor
+                </Button>
+                {pending && <CircularProgress size={20} />}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,549 @@
+import { Button, Checkbox, CircularProgress, FormControlLabel, InputLabel, LinearProgress, MenuItem, Select, Switch, TextField } from '@material-ui/core';
+import EditIcon from '@material-ui/icons/Edit';
+import GetAppIcon from '@material-ui/icons/GetApp';
+import ReplayIcon from '@material-ui/icons/Replay';
+import SearchIcon from '@material-ui/icons/Search';
+import StopIcon from '@material-ui/icons/Stop';
+import { Alert } from '@material-ui/lab';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ErrorUtils } from '../utils/error.utils';
+import { MessageUtils } from '../utils/message.utils';
+import { QueueUtils } from '../utils/queue.utils';
+import { RedriveUtils } from '../utils/redrive.utils';
+import { SqsMessage, SqsReceivedMessage, SqsReceiveOptions, SqsRedriveMessage, SqsRedriveOptions, SqsRedriveStatus, SqsSendResult, SqsTemplateContext } from './app.component';
+import { Message } from './message.component';
+
+type Props = {
+    /**
+     * The configured SQS queue URL, which is chosen as the source queue when it uses the dead-letter queue.
+     */
+    queueUrl: string;
+
+    /**
+     * The variables available to template expressions, used to preview edited messages.
+     * Redriven messages are sent as written, without rendering template expressions.
+     */
+    templateContext: SqsTemplateContext;
+
+    /**
+     * Emitted when the user chooses a dead-letter queue, to find the queues whose redrive policy targets it.
+     *
+     * @param deadLetterQueueUrl    The dead-letter queue's URL.
+     * @returns                     A promise that resolves to the URLs of the source queues.
+     */
+    onListSources: (deadLetterQueueUrl: string) => Promise<string[]>;
+
+    /**
+     * Emitted when the user chooses to read messages from the dead-letter queue.
+     *
+     * @param queueUrl    The dead-letter queue's URL.
+     * @param options     The receive options.
+     * @returns           A promise that resolves to the received messages.
+     */
+    onReceive: (queueUrl: string, options: SqsReceiveOptions) => Promise<SqsReceivedMessage[]>;
+
+    /**
+     * Emitted for each message that is redriven.
+     *
+     * @param queueUrl    The source queue's URL.
+     * @param message     The message to send.
+     * @returns           A promise that resolves to the result of the send.
+     */
+    onSend: (queueUrl: string, message: SqsMessage) => Promise<SqsSendResult>;
+
+    /**
+     * Emitted when a redriven message is deleted from the dead-letter queue, once it was sent to the source queue.
+     *
+     * @param queueUrl    The dead-letter queue's URL.
+     * @param message     The message as read from the dead-letter queue.
+     * @returns           A promise that resolves once the message is deleted.
+     */
+    onDelete: (queueUrl: string, message: SqsReceivedMessage) => Promise<void>;
+};
+
+type RunControl = {
+    cancelled: boolean;
+};
+
+type RunStatus = 'idle' | 'loading' | 'redriving';
+
+/**
+ * The maximum number of messages a single receive request returns.
+ */
+const RECEIVE_BATCH_SIZE = 10;
+
+/**
+ * The duration, in seconds, each receive request waits for messages, so sparse queues are read completely.
+ */
+const RECEIVE_WAIT_TIME_SECONDS = 1;
+
+const statusLabels: Record<SqsRedriveStatus, string> = {
+    pending: 'Not redriven',
+    sent: 'Redriven',
+    sentNotDeleted: 'Redriven, but not deleted',
+    failed: 'Failed',
+    dryRun: 'Would be redriven',
+};
+
+const delay = (duration: number) =>
+    new Promise<void>((resolve) => {
+        setTimeout(resolve, duration);
+    });
+
+/**
+ * Renders a workflow for redriving messages from a dead-letter queue to its source queue.
+ * Messages are read from the dead-letter queue, can be inspected and edited, and the selected ones are
+ * sent to the source queue at a limited rate. Each original is only deleted once it was sent successfully.
+ */
+export const Redrive: React.FC<Props> = (props) => {
+    const [deadLetterQueueUrl, setDeadLetterQueueUrl] = useState('');
+    const [sources, setSources] = useState<string[]>();
+    const [sourceQueueUrl, setSourceQueueUrl] = useState('');
+    const [options, setOptions] = useState<SqsRedriveOptions>(RedriveUtils.getDefaultOptions);
+    const [messages, setMessages] = useState<SqsRedriveMessage[]>([]);
+    const [editingIds, setEditingIds] = useState<string[]>([]);
+    const [status, setStatus] = useState<RunStatus>('idle');
+    const [progress, setProgress] = useState<{ done: number; total: number }>();
+    const [errors, setErrors] = useState<string[]>();
+    const control = useRef<RunControl>();
+
+    // Messages are validated against the source queue, e.g. as FIFO queues require a message group ID.
+    const validatedMessages = useMemo(
+        () => messages.map((item) => ({ ...item, message: { ...item.message, errors: MessageUtils.validateMessage(item.message, sourceQueueUrl) } })),
+        [messages, sourceQueueUrl]
+    );
+
+    const counts = useMemo(() => RedriveUtils.getCounts(messages), [messages]);
+    const selectable = useMemo(() => messages.filter((item) => !RedriveUtils.isRedriven(item)), [messages]);
+    const selected = useMemo(() => selectable.filter((item) => item.selected), [selectable]);
+
+    // A running load or redrive is cancelled when the view is unmounted.
+    useEffect(() => {
+        return () => {
+            if (control.current) {
+                control.current.cancelled = true;
+            }
+        };
+    }, []);
+
+    const updateItem = useCallback((id: string, changes: Partial<SqsRedriveMessage>) => {
+        setMessages((currentMessages) => currentMessages.map((item) => (item.received.messageId === id ? { ...item, ...changes } : item)));
+    }, []);
+
+    const onDeadLetterQueueUrlChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        setDeadLetterQueueUrl(event.target.value.trim());
+        setSources(undefined);
+        setSourceQueueUrl('');
+    }, []);
+
+    const onSourceChange = useCallback((event: React.ChangeEvent<{ value: unknown }>) => setSourceQueueUrl(event.target.value as string), []);
+
+    const onOptionChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = event.target;
+        setOptions((currentOptions) => ({ ...currentOptions, [name]: Number(value) }));
+    }, []);
+
+    const onDryRunChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const dryRun = event.target.checked;
+        setOptions((currentOptions) => ({ ...currentOptions, dryRun }));
+    }, []);
+
+    const findSources = useCallback(async () => {
+        if (status !== 'idle' || !deadLetterQueueUrl) {
+            return;
+        }
+
+        setStatus('loading');
+        setErrors(undefined);
+
+        try {
+            const sourceUrls = await props.onListSources(deadLetterQueueUrl);
+            setSources(sourceUrls);
+            setSourceQueueUrl(sourceUrls.includes(props.queueUrl) ? props.queueUrl : sourceUrls[0] ?? '');
+        } catch (listError) {
+            setErrors([`Could not find the source queues: ${ErrorUtils.getMessage(listError)}`]);
+        } finally {
+            setStatus('idle');
+        }
+    }, [status, deadLetterQueueUrl, props.queueUrl, props.onListSources]);
+
+    const loadMessages = useCallback(async () => {
+        if (status !== 'idle') {
+            return;
+        }
+
+        const newErrors = RedriveUtils.validateOptions(options);
+        setErrors(newErrors);
+        if (newErrors) {
+            return;
+        }
+
+        const run: RunControl = { cancelled: false };
+        const loaded: SqsRedriveMessage[] = [];
+
+        control.current = run;
+        setStatus('loading');
+        setProgress({ done: 0, total: options.maxMessages });
+
+        try {
+            while (!run.cancelled && loaded.length < options.maxMessages) {
+                const received = await props.onReceive(deadLetterQueueUrl, {
+                    waitTimeSeconds: RECEIVE_WAIT_TIME_SECONDS,
+                    maxNumberOfMessages: Math.min(RECEIVE_BATCH_SIZE, options.maxMessages - loaded.length),
+                    visibilityTimeout: options.visibilityTimeout,
+                });
+
+                if (!received.length) {
+                    break;
+                }
+
+                loaded.push(...received.map(RedriveUtils.toRedriveMessage));
+                setProgress({ done: loaded.length, total: options.maxMessages });
+            }
+        } catch (receiveError) {
+            setErrors([`Could not read the dead-letter queue: ${ErrorUtils.getMessage(receiveError)}`]);
+        } finally {
+            // Messages read again replace their earlier copy, as only the latest receipt handle is valid.
+            setMessages((currentMessages) => [
+                ...currentMessages.filter((item) => !loaded.some((loadedItem) => loadedItem.received.messageId === item.received.messageId)),
+                ...loaded,
+            ]);
+            control.current = undefined;
+            setProgress(undefined);
+            setStatus('idle');
+        }
+    }, [status, options, deadLetterQueueUrl, props.onReceive]);
+
+    /**
+     * Sends the provided message to the source queue, then deletes the original from the dead-letter queue.
+     */
+    const redriveItem = useCallback(
+        async (item: SqsRedriveMessage): Promise<Partial<SqsRedriveMessage>> => {
+            const messageErrors = MessageUtils.validateMessage(item.message, sourceQueueUrl);
+            if (messageErrors) {
+                return { status: 'failed', error: messageErrors.join(' ') };
+            }
+            if (options.dryRun) {
+                return { status: 'dryRun', error: undefined };
+            }
+
+            let result: SqsSendResult;
+
+            try {
+                result = await props.onSend(sourceQueueUrl, item.message);
+            } catch (sendError) {
+                return { status: 'failed', error: ErrorUtils.getMessage(sendError) };
+            }
+
+            if (!result.success) {
+                return { status: 'failed', error: result.error || 'The message could not be sent.' };
+            }
+
+            try {
+                await props.onDelete(deadLetterQueueUrl, item.received);
+            } catch (deleteError) {
+                return {
+                    status: 'sentNotDeleted',
+                    messageId: result.messageId,
+                    error: `The message was sent, but could not be deleted from the dead-letter queue: ${ErrorUtils.getMessage(deleteError)}`,
+                };
+            }
+
+            return { status: 'sent', messageId: result.messageId, error: undefined };
+        },
+        [sourceQueueUrl, deadLetterQueueUrl, options.dryRun, props.onSend, props.onDelete]
+    );
+
+    const redriveSelected = useCallback(async () => {
+        if (status !== 'idle') {
+            return;
+        }
+
+        const newErrors = [...(RedriveUtils.validateOptions(options) ?? [])];
+        if (!sourceQueueUrl) {
+            newErrors.push('Choose the source queue to redrive the messages to.');
+        }
+        if (!selected.length) {
+            newErrors.push('Select at least one message to redrive.');
+        }
+
+        setErrors(newErrors.length ? newErrors : undefined);
+        if (newErrors.length) {
+            return;
+        }
+
+        const run: RunControl = { cancelled: false };
+        const startedAt = performance.now();
+
+        control.current = run;
+        setStatus('redriving');
+        setProgress({ done: 0, total: selected.length });
+
+        try {
+            for (let index = 0; index < selected.length && !run.cancelled; index++) {
+                // Each message is scheduled by its position, spreading the sends evenly at the target rate.
+                const wait = (index / options.ratePerSecond) * 1000 - (performance.now() - startedAt);
+                if (wait > 0) {
+                    await delay(wait);
+                }
+                if (run.cancelled) {
+                    break;
+                }
+
+                updateItem(selected[index].received.messageId, await redriveItem(selected[index]));
+                setProgress({ done: index + 1, total: selected.length });
+            }
+        } finally {
+            control.current = undefined;
+            setProgress(undefined);
+            setStatus('idle');
+        }
+    }, [status, options, sourceQueueUrl, selected, redriveItem, updateItem]);
+
+    const cancel = useCallback(() => {
+        if (control.current) {
+            control.current.cancelled = true;
+        }
+    }, []);
+
+    const toggleAll = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const checked = event.target.checked;
+        setMessages((currentMessages) => currentMessages.map((item) => ({ ...item, selected: checked })));
+    }, []);
+
+    const toggleEditing = useCallback((id: string) => {
+        setEditingIds((currentIds) => (currentIds.includes(id) ? currentIds.filter((editingId) => editingId !== id) : [...currentIds, id]));
+    }, []);
+
+    const updateMessage = useCallback((id: string, message: SqsMessage) => updateItem(id, { message }), [updateItem]);
+
+    // The editor's send button redrives just that message, with the same rules as redriving a selection.
+    const sendMessage = useCallback(
+        async (id: string) => {
+            const item = messages.find((redriveMessage) => redriveMessage.received.messageId === id);
+            if (!item || !sourceQueueUrl || RedriveUtils.isRedriven(item)) {
+                return false;
+            }
+
+            const changes = await redriveItem(item);
+            updateItem(id, changes);
+            return changes.status === 'sent';
+        },
+        [messages, sourceQueueUrl, redriveItem, updateItem]
+    );
+
+    // Removed messages are only dropped from the list. They reappear in the dead-letter queue once their visibility timeout ends.
+    const removeMessage = useCallback((id: string) => {
+        setMessages((currentMessages) => currentMessages.filter((item) => item.received.messageId !== id));
+    }, []);
+
+    const clearMessages = useCallback(() => setMessages([]), []);
+
+    return (
+        <div className="inbox redrive">
+            <div className="settings-config inbox-options">
+                {errors?.map((error, index) => (
+                    <Alert key={index} severity="error">
+                        {error}
+                    </Alert>
+                ))}
+                <div className="inbox-inputs">
+                    <div className="inbox-field">
+                        <InputLabel>Dead-letter Queue URL</InputLabel>
+                        <TextField variant="outlined" disabled={status !== 'idle'} value={deadLetterQueueUrl} onChange={onDeadLetterQueueUrlChange} />
+                    </div>
+                    <Button className="redrive-find-btn" variant="outlined" disabled={status !== 'idle' || !deadLetterQueueUrl} startIcon={<SearchIcon />} onClick={findSources}>
+                        Find Source Queues
+                    </Button>
+                </div>
+                {sources && (
+                    <div className="inbox-inputs">
+                        <div className="inbox-field">
+                            <InputLabel>Source Queue</InputLabel>
+                            {sources.length ? (
+                                <Select variant="outlined" disabled={status !== 'idle'} value={sourceQueueUrl} onChange={onSourceChange}>
+                                    {sources.map((url) => (
+                                        <MenuItem key={url} value={url}>
+                                            {QueueUtils.getQueueName(url)}
+                                        </MenuItem>
+                                    ))}
+                                </Select>
+                            ) : (
+                                <p className="redrive-empty">No queues use this queue as their dead-letter queue.</p>
+                            )}
+                        </div>
+                    </div>
+                )}
+                <div className="inbox-inputs">
+                    <div className="inbox-field">
+                        <InputLabel>Max Messages</InputLabel>
+                        <TextField
+                            variant="outlined"
+                            type="number"
+                            name="maxMessages"
+                            inputProps={{ min: 1, max: 1000 }}
+                            disabled={status !== 'idle'}
+                            value={options.maxMessages}
+                            onChange={onOptionChange}
+                        />
+                    </div>
+                    <div className="inbox-field">
+                        <InputLabel>Visibility Timeout (s)</InputLabel>
+                        <TextField
+                            variant="outlined"
+                            type="number"
+                            name="visibilityTimeout"
+                            inputProps={{ min: 1, max: 43200 }}
+                            disabled={status !== 'idle'}
+                            value={options.visibilityTimeout}
+                            onChange={onOptionChange}
+                        />
+                    </div>
+                    <div className="inbox-field">
+                        <InputLabel>Rate (messages/s)</InputLabel>
+                        <TextField
+                            variant="outlined"
+                            type="number"
+                            name="ratePerSecond"
+                            inputProps={{ min: 1 }}
+                            disabled={status !== 'idle'}
+                            value={options.ratePerSecond}
+                            onChange={onOptionChange}
+                        />
+                    </div>
+                </div>
+                <p className="redrive-help">
+                    Read messages stay hidden in the dead-letter queue for the visibility timeout. Redrive them before it ends, or they can be received by other consumers and must
+                    be read again.
+                </p>
+                <div className="inbox-actions">
+                    <FormControlLabel control={<Switch color="primary" checked={options.dryRun} disabled={status !== 'idle'} onChange={onDryRunChange} />} label="Dry run" />
+                    <Button variant="outlined" disabled={status !== 'idle' || !messages.length} onClick={clearMessages}>
+                        Clear
+                    </Button>
+                    <Button variant="outlined" color="secondary" disabled={status === 'idle'} startIcon={<StopIcon />} onClick={cancel}>
+                        Cancel
+                    </Button>
+                    <Button
+                        variant="outlined"
+                        color="primary"
+                        disabled={status !== 'idle' || !deadLetterQueueUrl}
+                        endIcon={status === 'loading' ? <CircularProgress color="inherit" size={20} /> : <GetAppIcon />}
+                        onClick={loadMessages}
+                    >
+                        Read Messages
+                    </Button>
+                    <Button
+                        variant="contained"
+                        color="primary"
+                        disableElevation
+                        disabled={status !== 'idle' || !selected.length || !sourceQueueUrl}
+                        endIcon={status === 'redriving' ? <CircularProgress color="inherit" size={20} /> : <ReplayIcon />}
+                        onClick={redriveSelected}
+                    >
+                        {options.dryRun ? 'Dry Run' : 'Redrive'} Selected ({selected.length})
+                    </Button>
+                </div>
+            </div>
+            {(progress || !!messages.length) && (
+                <div className="message load-test-stats">
+                    <LinearProgress className="load-test-progress" variant="determinate" value={progress ? Math.min((progress.done / progress.total) * 100, 100) : 100} />
+                    <div className="load-test-stat-grid">
+                        <div className="load-test-stat">
+                            <b>{messages.length}</b>
+                            <span>Read</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{counts.sent}</b>
+                            <span>Redriven</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{counts.sentNotDeleted}</b>
+                            <span>Not deleted</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{counts.failed}</b>
+                            <span>Failed</span>
+                        </div>
+                        <div className="load-test-stat">
+                            <b>{counts.dryRun}</b>
+                            <span>Dry run passed</span>
+                        </div>
+                    </div>
+                    {progress && (
+                        <p className="redrive-progress">
+                            {status === 'loading' ? `Read ${progress.done} of up to ${progress.total} messages…` : `Processed ${progress.done} of ${progress.total} messages…`}
+                        </p>
+                    )}
+                </div>
+            )}
+            {!!selectable.length && (
+                <FormControlLabel
+                    className="redrive-select-all"
+                    control={<Checkbox color="primary" checked={selected.length === selectable.length} disabled={status !== 'idle'} onChange={toggleAll} />}
+                    label="Select all"
+                />
+            )}
+            {validatedMessages.map((item) => (
+                <div key={item.received.messageId} className="message received-message redrive-message">
+                    {item.error && <Alert severity={item.status === 'sentNotDeleted' ? 'warning' : 'error'}>{item.error}</Alert>}
+                    {item.status === 'sent' && <Alert severity="success">Redriven with ID {item.messageId} and deleted from the dead-letter queue.</Alert>}
+                    {item.status === 'dryRun' && <Alert severity="info">Valid. This message would be sent to {QueueUtils.getQueueName(sourceQueueUrl)}.</Alert>}
+                    <div className="redrive-message-summary">
+                        <Checkbox
+                            color="primary"
+                            checked={item.selected && !RedriveUtils.isRedriven(item)}
+                            disabled={status !== 'idle' || RedriveUtils.isRedriven(item)}
+                            onChange={(event) => updateItem(item.received.messageId, { selected: event.target.checked })}
+                        />
+                        <span>
+                            <b>ID:</b> {item.received.messageId}
+                        </span>
+                        <span>
+                            <b>Receive Count:</b> {item.received.receiveCount}
+                        </span>
+                        <span>
+                            <b>Status:</b> {statusLabels[item.status]}
+                        </span>
+                        <Button
+                            variant="outlined"
+                            size="small"
+                            disabled={RedriveUtils.isRedriven(item)}
+                            startIcon={<EditIcon />}
+                            onClick={() => toggleEditing(item.received.messageId)}
+                        >
+                            {editingIds.includes(item.received.messageId) ? 'Done' : 'Edit'}
+                        </Button>
+                    </div>
+                    {editingIds.includes(item.received.messageId) && !RedriveUtils.isRedriven(item) ? (
+                        <div className="redrive-message-editor">
+                            <Message
+                                {...item.message}
+                                fifo={MessageUtils.isFifoQueue(sourceQueueUrl)}
+                                templateContext={props.templateContext}
+                                onChange={updateMessage}
+                                onSend={sendMessage}
+                                onRemove={removeMessage}
+                            />
+                        </div>
+                    ) : (
+                        <>
+                            <pre className="received-message-body">{item.message.body}</pre>
+                            <table className="received-message-attributes">
+                                <tbody>
+                                    {item.message.attributes.map((attribute) => (
+                                        <tr key={attribute.id}>
+                                            <td>{attribute.name}</td>
+                                            <td>{MessageUtils.toDataType(attribute)}</td>
+                                            <td>{String(attribute.value)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,145 @@
+import { Button, IconButton, InputLabel, MenuItem, Select, TextField } from '@material-ui/core';
+import DeleteIcon from '@material-ui/icons/Delete';
+import PublishIcon from '@material-ui/icons/Publish';
+import { Alert } from '@material-ui/lab';
+import React, { useCallback, useRef, useState } from 'react';
+import { ErrorUtils } from '../utils/error.utils';
+import { FileUtils } from '../utils/file.utils';
+import { MessageUtils } from '../utils/message.utils';
+import { SchemaUtils } from '../utils/schema.utils';
+import { SqsSchema, SqsSchemaSettings } from './app.component';
+
+type Props = {
+    /**
+     * The workspace's schema settings.
+     */
+    settings?: SqsSchemaSettings;
+
+    /**
+     * Emitted when the user adds or removes schemas, or changes how they are chosen.
+     *
+     * @param settings    The updated schema settings.
+     */
+    onChange: (settings: SqsSchemaSettings) => void;
+};
+
+/**
+ * Renders the workspace's JSON schemas, which message bodies are validated against,
+ * along with the default schema and the attribute that chooses a schema per message.
+ */
+export const Schemas: React.FC<Props> = (props) => {
+    const [errors, setErrors] = useState<string[]>([]);
+    const fileInput = useRef<HTMLInputElement>(null);
+    const settings: SqsSchemaSettings = props.settings ?? { schemas: [] };
+
+    const updateSettings = useCallback((changes: Partial<SqsSchemaSettings>) => props.onChange({ ...settings, ...changes }), [settings, props.onChange]);
+
+    // Schemas are loaded together, so a schema and the local files it references with $ref can be selected at once.
+    const importFiles = useCallback(
+        async (files: File[]) => {
+            const schemas = [...settings.schemas];
+            const importErrors: string[] = [];
+
+            for (const file of files) {
+                try {
+                    const existingIndex = schemas.findIndex((existingSchema) => existingSchema.fileName === file.name);
+                    const schema = SchemaUtils.createSchema(
+                        existingIndex >= 0 ? schemas[existingIndex].id : MessageUtils.generateRandomId(),
+                        file.name,
+                        await FileUtils.readText(file)
+                    );
+
+                    if (existingIndex >= 0) {
+                        schemas[existingIndex] = schema;
+                    } else {
+                        schemas.push(schema);
+                    }
+                } catch (error) {
+                    importErrors.push(`Could not load '${file.name}': ${ErrorUtils.getMessage(error)}`);
+                }
+            }
+
+            setErrors(importErrors);
+            updateSettings({ schemas });
+        },
+        [settings.schemas, updateSettings]
+    );
+
+    const openFiles = useCallback(() => fileInput.current?.click(), []);
+
+    const onFileChange = useCallback(
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            const files = Array.from(event.target.files ?? []);
+            event.target.value = '';
+            void importFiles(files);
+        },
+        [importFiles]
+    );
+
+    const removeSchema = useCallback(
+        (schema: SqsSchema) => {
+            updateSettings({
+                schemas: settings.schemas.filter((otherSchema) => otherSchema.id !== schema.id),
+                defaultSchemaId: settings.defaultSchemaId === schema.id ? undefined : settings.defaultSchemaId,
+            });
+        },
+        [settings, updateSettings]
+    );
+
+    const onDefaultSchemaChange = useCallback(
+        (event: React.ChangeEvent<{ value: unknown }>) => updateSettings({ defaultSchemaId: (event.target.value as string) || undefined }),
+        [updateSettings]
+    );
+
+    const onSelectorAttributeChange = useCallback(
+        (event: React.ChangeEvent<HTMLInputElement>) => updateSettings({ selectorAttribute: event.target.value || undefined }),
+        [updateSettings]
+    );
+
+    return (
+        <div className="message schemas">
+            {errors.map((error, index) => (
+                <Alert key={index} severity="error">
+                    {error}
+                </Alert>
+            ))}
+            <h3 className="message-header">Schemas</h3>
+            <p className="schemas-help">
+                Message bodies are validated against a JSON Schema (draft 2020-12) before they are sent. Schemas can reference each other by file name with <code>$ref</code>.
+            </p>
+            <hr className="message-hr" />
+            {settings.schemas.map((schema) => (
+                <div key={schema.id} className="schemas-row">
+                    <span className="schemas-name">{SchemaUtils.getSchemaName(schema)}</span>
+                    <span className="schemas-file-name">{schema.fileName}</span>
+                    <IconButton className="message-attribute-delete-btn" onClick={() => removeSchema(schema)}>
+                        <DeleteIcon />
+                    </IconButton>
+                </div>
+            ))}
+            <input ref={fileInput} type="file" accept=".json" multiple hidden onChange={onFileChange} />
+            <Button className="schemas-load-btn" variant="outlined" startIcon={<PublishIcon />} onClick={openFiles}>
+                Load Schemas
+            </Button>
+            {!!settings.schemas.length && (
+                <div className="schemas-settings">
+                    <div className="message-delivery-field">
+                        <InputLabel>Default Schema</InputLabel>
+                        <Select variant="outlined" displayEmpty value={settings.defaultSchemaId ?? ''} onChange={onDefaultSchemaChange}>
+                            <MenuItem value="">None</MenuItem>
+                            {settings.schemas.map((schema) => (
+                                <MenuItem key={schema.id} value={schema.id}>
+                                    {SchemaUtils.getSchemaName(schema)}
+                                </MenuItem>
+                            ))}
+                        </Select>
+                    </div>
+                    <div className="message-delivery-field">
+                        <InputLabel>Choose Schema by Attribute</InputLabel>
+                        <TextField variant="outlined" placeholder="e.g. eventType" value={settings.selectorAttribute ?? ''} onChange={onSelectorAttributeChange} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
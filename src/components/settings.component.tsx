@@ -1,8 +1,17 @@
-import { Button, CircularProgress, InputLabel, TextField } from '@material-ui/core';
+import { Button, Checkbox, CircularProgress, FormControlLabel, InputLabel, MenuItem, Select, TextField } from '@material-ui/core';
+import AddIcon from '@material-ui/icons/Add';
 import ContactlessIcon from '@material-ui/icons/Contactless';
+import DeleteIcon from '@material-ui/icons/Delete';
+import FileCopyIcon from '@material-ui/icons/FileCopy';
+import ListIcon from '@material-ui/icons/List';
 import { Alert } from '@material-ui/lab';
 import React, { useCallback, useMemo, useState } from 'react';
-import { SqsConfig, SqsConnectionStatus } from './app.component';
+import { ConnectionUtils } from '../utils/connection.utils';
+import { ErrorUtils } from '../utils/error.utils';
+import { ProfileUtils } from '../utils/profile.utils';
+import { TransportUtils } from '../utils/transport.utils';
+import { SqsConfig, SqsConnectionStatus, SqsOfflineOptions, SqsProfile, SqsQueuePage, SqsQueueSummary, SqsTargetType, SqsTransportType } from './app.component';
+import { QueueBrowser } from './queue-browser.component';
 
 type Props = {
     /**
@@ -11,21 +20,66 @@ type Props = {
     config: SqsConfig;
 
     /**
-     * Emitted when the user chooses to test the SQS configuration by sending a basic SQS message.
+     * The active connection profile, which the configuration belongs to.
+     */
+    profile: SqsProfile;
+
+    /**
+     * All of the user's connection profiles.
+     */
+    profiles: SqsProfile[];
+
+    /**
+     * Emitted when the user chooses to test the SQS configuration, without sending any messages.
      *
      * @param config    The SQS configuration and queue details.
      * @returns         A promise that resolves to the SQS connection status.
      */
     onTestConnection: (config: SqsConfig) => Promise<SqsConnectionStatus>;
 
+    /**
+     * Emitted when the user browses the account's queues.
+     *
+     * @param prefix       The queue name prefix to filter by.
+     * @param nextToken    The token of the page to load, if not the first.
+     * @returns            A promise that resolves to the page of queues.
+     */
+    onListQueues: (prefix: string, nextToken?: string) => Promise<SqsQueuePage>;
+
     /**
      * Emitted when the AWS account and SQS queue details are changed.
      *
      * @param config    The updated configuration.
      */
     onChange: (config: SqsConfig) => void;
+
+    /**
+     * Emitted when the user creates, renames, duplicates or deletes a connection profile.
+     *
+     * @param profiles    The updated connection profiles.
+     */
+    onProfilesChange: (profiles: SqsProfile[]) => void;
+
+    /**
+     * Emitted when the user chooses a different connection profile to be active.
+     *
+     * @param id    The profile's unique identifier.
+     */
+    onSelectProfile: (id: string) => void;
+};
+
+const transportLabels: Record<SqsTransportType, string> = {
+    sdkV2: 'AWS SDK v2',
+    sdkV3: 'AWS SDK v3',
+    offline: 'Offline queue (in memory)',
 };
 
+const offlineOptionFields: Array<{ name: keyof SqsOfflineOptions; label: string; max?: number }> = [
+    { name: 'failurePercent', label: 'Failure %', max: 100 },
+    { name: 'throttlePercent', label: 'Throttling %', max: 100 },
+    { name: 'latencyMilliseconds', label: 'Latency (ms)' },
+];
+
 /**
  * Renders an editable AWS account and SQS configuration.
  */
@@ -33,6 +87,7 @@ export const Settings: React.FC<Props> = (props) => {
     const [connectionStatus, setConnectionStatus] = useState<SqsConnectionStatus>('unknown');
     const [connectionError, setConnectionError] = useState<string>();
     const [testing, setTesting] = useState(false);
+    const [browsing, setBrowsing] = useState(false);
 
     const onFieldChange = useCallback(
         (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -42,21 +97,115 @@ export const Settings: React.FC<Props> = (props) => {
         [props.config, props.onChange]
     );
 
-    const valid = useMemo(() => {
-        return Object.keys(props.config).every((key) => {
-            const value = props.config[key as keyof SqsConfig];
-            return !!value;
-        });
-    }, [props.config]);
+    const updateProfile = useCallback(
+        (changes: Partial<SqsProfile>) => {
+            props.onProfilesChange(props.profiles.map((profile) => (profile.id === props.profile.id ? { ...profile, ...changes } : profile)));
+        },
+        [props.profile.id, props.profiles, props.onProfilesChange]
+    );
+
+    const onNameChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => updateProfile({ name: event.target.value }), [updateProfile]);
+    const onPersistSecretsChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => updateProfile({ persistSecrets: event.target.checked }), [updateProfile]);
+
+    const addProfile = useCallback(
+        (profile: SqsProfile) => {
+            props.onProfilesChange([...props.profiles, profile]);
+            props.onSelectProfile(profile.id);
+        },
+        [props.profiles, props.onProfilesChange, props.onSelectProfile]
+    );
+
+    const createProfile = useCallback(() => addProfile(ProfileUtils.createProfile(`Profile ${props.profiles.length + 1}`)), [addProfile, props.profiles.length]);
+    const duplicateProfile = useCallback(() => addProfile(ProfileUtils.duplicateProfile(props.profile)), [addProfile, props.profile]);
+
+    const deleteProfile = useCallback(() => {
+        const remainingProfiles = props.profiles.filter((profile) => profile.id !== props.profile.id);
+        props.onProfilesChange(remainingProfiles);
+        props.onSelectProfile(remainingProfiles[0].id);
+    }, [props.profile.id, props.profiles, props.onProfilesChange, props.onSelectProfile]);
+
+    const onOptionChange = useCallback(
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            props.onChange({ ...props.config, [event.target.name]: event.target.checked });
+            setConnectionError('');
+        },
+        [props.config, props.onChange]
+    );
+
+    const onTargetTypeChange = useCallback(
+        (event: React.ChangeEvent<{ value: unknown }>) => {
+            props.onChange({ ...props.config, targetType: event.target.value as SqsTargetType });
+            setConnectionStatus('unknown');
+            setConnectionError('');
+        },
+        [props.config, props.onChange]
+    );
+
+    const onTransportChange = useCallback(
+        (event: React.ChangeEvent<{ value: unknown }>) => {
+            props.onChange({ ...props.config, transport: event.target.value as SqsTransportType });
+            setConnectionStatus('unknown');
+            setConnectionError('');
+        },
+        [props.config, props.onChange]
+    );
+
+    const onOfflineOptionChange = useCallback(
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            const options = { ...TransportUtils.getOfflineOptions(props.config), [event.target.name]: Math.max(Number(event.target.value), 0) };
+            props.onChange({ ...props.config, offline: options });
+        },
+        [props.config, props.onChange]
+    );
+
+    const toggleBrowsing = useCallback(() => setBrowsing(!browsing), [browsing]);
+
+    const selectQueue = useCallback(
+        (queue: SqsQueueSummary) => {
+            props.onChange({ ...props.config, queueUrl: queue.url });
+            setConnectionError('');
+        },
+        [props.config, props.onChange]
+    );
+
+    const valid = useMemo(() => ConnectionUtils.isConfigValid(props.config), [props.config]);
+
+    const requiredFields = useMemo(() => ConnectionUtils.getRequiredFields(props.config), [props.config]);
+
+    const getLabel = (key: keyof SqsConfig, label: string) => (requiredFields.includes(key) ? label : `${label} (optional)`);
+
+    const topic = ConnectionUtils.isTopicTarget(props.config);
+    const offline = props.config.transport === 'offline';
+    const offlineOptions = TransportUtils.getOfflineOptions(props.config);
 
     const notification = useMemo(() => {
+        const target = topic ? 'topic' : 'queue';
+
         switch (connectionStatus) {
             case 'ok':
-                return <Alert severity="success">Connection to SQS queue established.</Alert>;
+                return <Alert severity="success">{topic ? 'Connection to SNS topic established.' : 'Connection to SQS queue established.'}</Alert>;
             case 'failed':
                 return <Alert severity="error">{connectionError}</Alert>;
+            case 'invalidCredentials':
+                return <Alert severity="error">The access key ID or secret is not valid.</Alert>;
+            case 'expiredToken':
+                return <Alert severity="error">The session token has expired. Refresh your credentials and try again.</Alert>;
+            case 'accessDenied':
+                return <Alert severity="error">The credentials are not permitted to access the {target}.</Alert>;
+            case 'sendUnverified':
+                return (
+                    <Alert severity="info">
+                        The {target} was found. Permission to send messages to it ({topic ? 'sns:Publish' : 'sqs:SendMessage'}) is not verified, as that would require sending one.
+                    </Alert>
+                );
+            case 'queueNotFound':
+                return <Alert severity="error">The queue does not exist. Check the queue URL.</Alert>;
+            case 'topicNotFound':
+                return <Alert severity="error">The topic does not exist. Check the topic ARN.</Alert>;
+            case 'regionMismatch':
+                return <Alert severity="error">The {topic ? 'topic ARN' : 'queue URL'} belongs to a different region than the one configured.</Alert>;
         }
-    }, [connectionStatus, connectionError]);
+    }, [connectionStatus, connectionError, topic]);
 
     const testConnection = useCallback(async () => {
         if (!testing) {
@@ -68,7 +217,7 @@ export const Settings: React.FC<Props> = (props) => {
                 setConnectionStatus(status);
             } catch (error) {
                 setConnectionStatus('failed');
-                setConnectionError(error);
+                setConnectionError(ErrorUtils.getMessage(error));
             } finally {
                 setTesting(false);
             }
@@ -77,21 +226,116 @@ export const Settings: React.FC<Props> = (props) => {
 
     return (
         <div className="settings">
+            <div className="settings-config">
+                <div className="settings-inputs">
+                    <InputLabel>Profile Name</InputLabel>
+                    <TextField className="settings-field" variant="outlined" value={props.profile.name} onChange={onNameChange} />
+                    <FormControlLabel
+                        control={<Checkbox color="primary" checked={props.profile.persistSecrets} onChange={onPersistSecretsChange} />}
+                        label="Save access key secret and session token in browser storage"
+                    />
+                    <div className="settings-profile-actions">
+                        <Button variant="outlined" startIcon={<AddIcon />} onClick={createProfile}>
+                            New
+                        </Button>
+                        <Button variant="outlined" startIcon={<FileCopyIcon />} onClick={duplicateProfile}>
+                            Duplicate
+                        </Button>
+                        <Button variant="outlined" color="secondary" startIcon={<DeleteIcon />} disabled={props.profiles.length < 2} onClick={deleteProfile}>
+                            Delete
+                        </Button>
+                    </div>
+                </div>
+            </div>
             <div className="settings-config">
                 {notification}
                 <div className="settings-inputs">
-                    <InputLabel>Region</InputLabel>
+                    <InputLabel>Transport</InputLabel>
+                    <Select className="settings-field" variant="outlined" value={props.config.transport ?? 'sdkV2'} onChange={onTransportChange}>
+                        {Object.entries(transportLabels).map(([transport, label]) => (
+                            <MenuItem key={transport} value={transport}>
+                                {label}
+                            </MenuItem>
+                        ))}
+                    </Select>
+                    {offline && (
+                        <div className="settings-offline-options">
+                            {offlineOptionFields.map(({ name, label, max }) => (
+                                <div key={name} className="settings-offline-option">
+                                    <InputLabel>{label}</InputLabel>
+                                    <TextField
+                                        variant="outlined"
+                                        type="number"
+                                        name={name}
+                                        inputProps={{ min: 0, max }}
+                                        value={offlineOptions[name]}
+                                        onChange={onOfflineOptionChange}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    <InputLabel>Endpoint (optional)</InputLabel>
+                    <TextField
+                        className="settings-field"
+                        variant="outlined"
+                        name="endpoint"
+                        placeholder="e.g. http://localhost:4566"
+                        value={props.config.endpoint ?? ''}
+                        onChange={onFieldChange}
+                    />
+                    {!!props.config.endpoint && (
+                        <div className="settings-endpoint-options">
+                            <FormControlLabel
+                                control={<Checkbox color="primary" name="forcePathStyle" checked={!!props.config.forcePathStyle} onChange={onOptionChange} />}
+                                label="Path-style queue URLs"
+                            />
+                            <FormControlLabel
+                                control={<Checkbox color="primary" name="sslEnabled" checked={props.config.sslEnabled ?? true} onChange={onOptionChange} />}
+                                label="Use SSL"
+                            />
+                        </div>
+                    )}
+                    <InputLabel>{getLabel('region', 'Region')}</InputLabel>
                     <TextField className="settings-field" variant="outlined" name="region" value={props.config.region} onChange={onFieldChange} />
-                    <InputLabel>Access Key ID</InputLabel>
+                    <InputLabel>{getLabel('accessKeyId', 'Access Key ID')}</InputLabel>
                     <TextField className="settings-field" variant="outlined" name="accessKeyId" value={props.config.accessKeyId} onChange={onFieldChange} />
-                    <InputLabel>Access Key Secret</InputLabel>
+                    <InputLabel>{getLabel('secretAccessKey', 'Access Key Secret')}</InputLabel>
                     <TextField className="settings-field" variant="outlined" name="secretAccessKey" value={props.config.secretAccessKey} onChange={onFieldChange} />
-                    <InputLabel>Session Token</InputLabel>
+                    <InputLabel>{getLabel('sessionToken', 'Session Token')}</InputLabel>
                     <TextField className="settings-field" variant="outlined" name="sessionToken" value={props.config.sessionToken} onChange={onFieldChange} />
-                    <InputLabel>Queue URL</InputLabel>
-                    <TextField className="settings-field" variant="outlined" name="queueUrl" value={props.config.queueUrl} onChange={onFieldChange} />
+                    <InputLabel>Send To</InputLabel>
+                    <Select className="settings-field" variant="outlined" value={props.config.targetType ?? 'queue'} onChange={onTargetTypeChange}>
+                        <MenuItem value="queue">SQS queue</MenuItem>
+                        <MenuItem value="topic">SNS topic</MenuItem>
+                    </Select>
+                    {topic && (
+                        <>
+                            <InputLabel>Topic ARN</InputLabel>
+                            <TextField
+                                className="settings-field"
+                                variant="outlined"
+                                name="topicArn"
+                                placeholder="e.g. arn:aws:sns:eu-west-1:123456789012:my-topic"
+                                value={props.config.topicArn ?? ''}
+                                onChange={onFieldChange}
+                            />
+                        </>
+                    )}
+                    <InputLabel>{getLabel('queueUrl', topic ? 'Queue URL for the Inbox' : 'Queue URL')}</InputLabel>
+                    <div className="settings-queue-url">
+                        <TextField className="settings-field" variant="outlined" name="queueUrl" value={props.config.queueUrl} onChange={onFieldChange} />
+                        <Button variant="outlined" startIcon={<ListIcon />} onClick={toggleBrowsing}>
+                            {browsing ? 'Hide' : 'Browse'}
+                        </Button>
+                    </div>
                 </div>
             </div>
+            {browsing && (
+                <div className="settings-config settings-queue-browser">
+                    <QueueBrowser selectedUrl={props.config.queueUrl} onListQueues={props.onListQueues} onSelect={selectQueue} />
+                </div>
+            )}
             <Button
                 className="test-connection-btn"
                 variant="contained"
@@ -0,0 +1,87 @@
+import { IconButton, TextField } from '@material-ui/core';
+import DeleteIcon from '@material-ui/icons/Delete';
+import { Alert } from '@material-ui/lab';
+import React, { useCallback, useMemo } from 'react';
+import { MessageUtils } from '../utils/message.utils';
+import { TemplateUtils } from '../utils/template.utils';
+import { SqsTemplateVariable } from './app.component';
+
+type Props = {
+    /**
+     * The user-defined template variables.
+     */
+    variables: SqsTemplateVariable[];
+
+    /**
+     * Emitted when the user adds, changes or removes variables.
+     *
+     * @param variables    The updated variables.
+     */
+    onChange: (variables: SqsTemplateVariable[]) => void;
+};
+
+/**
+ * Renders an editable list of user-defined variables that can be referenced by template expressions,
+ * along with a reference of the built-in generators.
+ */
+export const Variables: React.FC<Props> = (props) => {
+    const errors = useMemo(() => TemplateUtils.validateVariables(props.variables), [props.variables]);
+
+    const updateVariable = useCallback(
+        (id: string, changes: Partial<SqsTemplateVariable>) => {
+            props.onChange(props.variables.map((variable) => (variable.id === id ? { ...variable, ...changes } : variable)));
+        },
+        [props.variables, props.onChange]
+    );
+
+    const addVariable = useCallback(() => {
+        props.onChange([...props.variables, { id: MessageUtils.generateRandomId(), name: '', value: '' }]);
+    }, [props.variables, props.onChange]);
+
+    const removeVariable = useCallback(
+        (id: string) => {
+            props.onChange(props.variables.filter((variable) => variable.id !== id));
+        },
+        [props.variables, props.onChange]
+    );
+
+    return (
+        <div className="message variables">
+            {errors.map((error, index) => (
+                <Alert key={index} severity="error">
+                    {error}
+                </Alert>
+            ))}
+            <h3 className="message-header">Variables</h3>
+            <p className="variables-help">
+                Reference variables in bodies and attribute values as <code>{'{{name}}'}</code>. Built-in generators: <code>{'{{uuid}}'}</code>, <code>{'{{now:iso}}'}</code>,{' '}
+                <code>{'{{now:date}}'}</code>, <code>{'{{epochMillis}}'}</code>, <code>{'{{epochSeconds}}'}</code> and <code>{'{{randomInt 1 100}}'}</code>.
+            </p>
+            <hr className="message-hr" />
+            {props.variables.map((variable) => (
+                <div key={variable.id} className="message-attribute-inputs variables-row">
+                    <TextField
+                        className="message-attribute-name"
+                        variant="outlined"
+                        placeholder="Name"
+                        value={variable.name}
+                        onChange={(event) => updateVariable(variable.id, { name: event.target.value })}
+                    />
+                    <TextField
+                        className="message-attribute-value"
+                        variant="outlined"
+                        placeholder="Value"
+                        value={variable.value}
+                        onChange={(event) => updateVariable(variable.id, { value: event.target.value })}
+                    />
+                    <IconButton className="message-attribute-delete-btn" onClick={() => removeVariable(variable.id)}>
+                        <DeleteIcon />
+                    </IconButton>
+                </div>
+            ))}
+            <button className="message-attribute-add-btn" onClick={addVariable}>
+                Add Variable
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,178 @@
+import { Button, MenuItem, Select, TextField } from '@material-ui/core';
+import AddIcon from '@material-ui/icons/Add';
+import DeleteIcon from '@material-ui/icons/Delete';
+import FileCopyIcon from '@material-ui/icons/FileCopy';
+import GetAppIcon from '@material-ui/icons/GetApp';
+import PublishIcon from '@material-ui/icons/Publish';
+import { Alert } from '@material-ui/lab';
+import React, { useCallback, useRef, useState } from 'react';
+import { ErrorUtils } from '../utils/error.utils';
+import { FileUtils } from '../utils/file.utils';
+import { MessageUtils } from '../utils/message.utils';
+import { WorkspaceUtils } from '../utils/workspace.utils';
+import { SqsMessage, SqsWorkspace } from './app.component';
+import { FileDropZone } from './file-drop-zone.component';
+
+type Props = {
+    /**
+     * All of the user's workspaces.
+     */
+    workspaces: SqsWorkspace[];
+
+    /**
+     * The active workspace, whose messages are presented.
+     */
+    workspace: SqsWorkspace;
+
+    /**
+     * The SQS queue URL or SNS topic ARN messages will be posted to, used to validate imported messages.
+     */
+    queueUrl: string;
+
+    /**
+     * Emitted when the user creates, renames, duplicates, deletes or imports into a workspace.
+     *
+     * @param workspaces    The updated workspaces.
+     */
+    onChange: (workspaces: SqsWorkspace[]) => void;
+
+    /**
+     * Emitted when the user chooses a different workspace to be active.
+     *
+     * @param id    The workspace's unique identifier.
+     */
+    onSelect: (id: string) => void;
+};
+
+type ImportStatus = {
+    severity: 'success' | 'error';
+    message: string;
+};
+
+const isEmptyMessage = (message: SqsMessage) => !message.body && !message.attributes.length;
+
+/**
+ * Renders the active workspace's toolbar, for switching, managing, importing and exporting workspaces,
+ * around the provided children. Message files can also be dragged and dropped onto the view to import them.
+ */
+export const WorkspaceView: React.FC<Props> = (props) => {
+    const [status, setStatus] = useState<ImportStatus>();
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    const updateWorkspace = useCallback(
+        (changes: Partial<SqsWorkspace>) => {
+            props.onChange(props.workspaces.map((workspace) => (workspace.id === props.workspace.id ? { ...workspace, ...changes } : workspace)));
+        },
+        [props.workspace.id, props.workspaces, props.onChange]
+    );
+
+    const addWorkspace = useCallback(
+        (workspace: SqsWorkspace) => {
+            props.onChange([...props.workspaces, workspace]);
+            props.onSelect(workspace.id);
+        },
+        [props.workspaces, props.onChange, props.onSelect]
+    );
+
+    const selectWorkspace = useCallback((event: React.ChangeEvent<{ value: unknown }>) => props.onSelect(event.target.value as string), [props.onSelect]);
+    const onNameChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => updateWorkspace({ name: event.target.value }), [updateWorkspace]);
+
+    const createWorkspace = useCallback(() => addWorkspace(WorkspaceUtils.createWorkspace(`Workspace ${props.workspaces.length + 1}`)), [addWorkspace, props.workspaces.length]);
+    const duplicateWorkspace = useCallback(() => addWorkspace(WorkspaceUtils.duplicateWorkspace(props.workspace)), [addWorkspace, props.workspace]);
+
+    const deleteWorkspace = useCallback(() => {
+        const remainingWorkspaces = props.workspaces.filter((workspace) => workspace.id !== props.workspace.id);
+        props.onChange(remainingWorkspaces);
+        props.onSelect(remainingWorkspaces[0].id);
+    }, [props.workspace.id, props.workspaces, props.onChange, props.onSelect]);
+
+    const importFile = useCallback(
+        async (file: File) => {
+            try {
+                const items = MessageUtils.parseMessagesFile(await FileUtils.readText(file), file.name);
+                const importedMessages = items.map((item) => MessageUtils.toMessage(item, props.queueUrl, props.workspace.schemaSettings));
+
+                // A workspace's placeholder message is replaced rather than kept above the imported messages.
+                const existingMessages = props.workspace.messages.filter((message) => !isEmptyMessage(message));
+                updateWorkspace({ messages: [...existingMessages, ...importedMessages] });
+
+                const invalid = importedMessages.filter((message) => message.errors).length;
+                setStatus({
+                    severity: 'success',
+                    message: `Imported ${importedMessages.length} messages from '${file.name}'.${invalid ? ` ${invalid} have validation errors.` : ''}`,
+                });
+            } catch (error) {
+                setStatus({ severity: 'error', message: `Could not import '${file.name}': ${ErrorUtils.getMessage(error)}` });
+            }
+        },
+        [props.queueUrl, props.workspace.messages, props.workspace.schemaSettings, updateWorkspace]
+    );
+
+    const openFile = useCallback(() => fileInput.current?.click(), []);
+
+    const onFileChange = useCallback(
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            const file = event.target.files?.[0];
+            event.target.value = '';
+
+            if (file) {
+                void importFile(file);
+            }
+        },
+        [importFile]
+    );
+
+    const exportJs = useCallback(() => {
+        FileUtils.download(`${props.workspace.name}.messages.js`, MessageUtils.toMessagesFile(props.workspace.messages, 'js'), 'text/javascript');
+    }, [props.workspace]);
+
+    const exportJson = useCallback(() => {
+        FileUtils.download(`${props.workspace.name}.messages.json`, MessageUtils.toMessagesFile(props.workspace.messages, 'json'), 'application/json');
+    }, [props.workspace]);
+
+    const clearStatus = useCallback(() => setStatus(undefined), []);
+
+    return (
+        <FileDropZone className="workspace-view" message="Drop a messages.js or JSON file to import it" onDrop={importFile}>
+            <div className="message workspace-bar">
+                {status && (
+                    <Alert severity={status.severity} onClose={clearStatus}>
+                        {status.message}
+                    </Alert>
+                )}
+                <div className="workspace-bar-inputs">
+                    <Select className="workspace-bar-select" variant="outlined" value={props.workspace.id} onChange={selectWorkspace}>
+                        {props.workspaces.map((workspace) => (
+                            <MenuItem key={workspace.id} value={workspace.id}>
+                                {workspace.name || 'Unnamed workspace'}
+                            </MenuItem>
+                        ))}
+                    </Select>
+                    <TextField className="workspace-bar-name" variant="outlined" placeholder="Workspace name" value={props.workspace.name} onChange={onNameChange} />
+                    <Button variant="outlined" startIcon={<AddIcon />} onClick={createWorkspace}>
+                        New
+                    </Button>
+                    <Button variant="outlined" startIcon={<FileCopyIcon />} onClick={duplicateWorkspace}>
+                        Duplicate
+                    </Button>
+                    <Button variant="outlined" color="secondary" startIcon={<DeleteIcon />} disabled={props.workspaces.length < 2} onClick={deleteWorkspace}>
+                        Delete
+                    </Button>
+                </div>
+                <div className="workspace-bar-inputs">
+                    <input ref={fileInput} type="file" accept=".js,.json" hidden onChange={onFileChange} />
+                    <Button variant="outlined" startIcon={<PublishIcon />} onClick={openFile}>
+                        Import
+                    </Button>
+                    <Button variant="outlined" startIcon={<GetAppIcon />} onClick={exportJs}>
+                        Export messages.js
+                    </Button>
+                    <Button variant="outlined" startIcon={<GetAppIcon />} onClick={exportJson}>
+                        Export JSON
+                    </Button>
+                </div>
+            </div>
+            {props.children}
+        </FileDropZone>
+    );
+};
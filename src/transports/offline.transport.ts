@@ -0,0 +1,566 @@
+import { SNS, SQS } from 'aws-sdk';
+import { createHash, randomBytes } from 'crypto';
+import { SqsOfflineOptions, SqsTransport } from '../components/app.component';
+import { MessageUtils } from '../utils/message.utils';
+import { QueueUtils } from '../utils/queue.utils';
+
+/**
+ * How long, in milliseconds, a FIFO deduplication ID is remembered, matching the SQS deduplication interval.
+ */
+const DEDUPLICATION_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * How often, in milliseconds, a long polling receive request checks for messages.
+ */
+const POLL_INTERVAL = 100;
+
+/**
+ * The account ID used in the ARNs of offline queues.
+ */
+const OFFLINE_ACCOUNT_ID = '000000000000';
+
+/**
+ * The URL that queues created by name are given, followed by the queue's name.
+ */
+const OFFLINE_QUEUE_URL = `http://offline.localhost/${OFFLINE_ACCOUNT_ID}`;
+
+/**
+ * The attributes of offline queues that are not set when they are created, matching the SQS defaults.
+ */
+const DEFAULT_ATTRIBUTES: SQS.QueueAttributeMap = {
+    VisibilityTimeout: '30',
+    MessageRetentionPeriod: '345600',
+    DelaySeconds: '0',
+    MaximumMessageSize: String(MessageUtils.getMaxMessageSize()),
+    ReceiveMessageWaitTimeSeconds: '0',
+};
+
+type OfflineMessage = {
+    messageId: string;
+    body: string;
+    attributes?: SQS.MessageBodyAttributeMap;
+    groupId?: string;
+    deduplicationId?: string;
+    sequenceNumber?: string;
+    sentTimestamp: number;
+    firstReceiveTimestamp?: number;
+    receiveCount: number;
+    receiptHandle?: string;
+    visibleAt: number;
+};
+
+type OfflineQueue = {
+    url: string;
+    name: string;
+    fifo: boolean;
+    createdTimestamp: number;
+    attributes: SQS.QueueAttributeMap;
+    tags: SQS.TagMap;
+    messages: OfflineMessage[];
+    deduplicationIds: Map<string, { result: SQS.SendMessageResult; expiresAt: number }>;
+    sequence: number;
+};
+
+/**
+ * The offline queues, keyed by URL. They are shared by all offline transports, so messages survive
+ * configuration changes, but are lost when the page is reloaded.
+ */
+const queues = new Map<string, OfflineQueue>();
+
+/**
+ * The last sequence number given to a message published to each offline FIFO topic, keyed by ARN.
+ */
+const topicSequences = new Map<string, number>();
+
+const delay = (duration: number) =>
+    new Promise<void>((resolve) => {
+        setTimeout(resolve, duration);
+    });
+
+const createError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+const generateUuid = () => {
+    const hex = randomBytes(16).toString('hex');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+const getNumberAttribute = (queue: OfflineQueue, name: string) => Number(queue.attributes[name] ?? DEFAULT_ATTRIBUTES[name]);
+
+const getArn = (queue: OfflineQueue) => `arn:aws:sqs:offline:${OFFLINE_ACCOUNT_ID}:${queue.name}`;
+
+const paginate = (urls: string[], nextToken: string | undefined, maxResults: number | undefined) => {
+    const start = Number(nextToken ?? 0);
+    const end = maxResults ? start + maxResults : urls.length;
+
+    return { urls: urls.slice(start, end), nextToken: end < urls.length ? String(end) : undefined };
+};
+
+const isRequested = (name: string, requestedNames: string[] | undefined) =>
+    !!requestedNames?.some(
+        (requestedName) =>
+            requestedName === 'All' || requestedName === '.*' || requestedName === name || (requestedName.endsWith('.*') && name.startsWith(requestedName.slice(0, -1)))
+    );
+
+/**
+ * Keeps messages in in-memory queues, so the application can be used without an AWS account.
+ * Like SQS, queues must be created before they are used, and requests to any other queue URL fail. Standard queues
+ * deliver messages in the order they were sent, while FIFO queues also hold back a message group until its received
+ * messages are deleted. Messages are moved to the dead-letter queue of a redrive policy once they exceed its
+ * maximum receive count. Topics have no subscriptions to manage: a message published to any topic is
+ * delivered to every offline queue of the same type, as if the queue were subscribed with raw message delivery.
+ */
+export class OfflineTransport implements SqsTransport {
+    public constructor(private readonly options: SqsOfflineOptions) {}
+
+    public async sendMessage(request: SQS.SendMessageRequest): Promise<SQS.SendMessageResult> {
+        await this.simulate();
+        this.simulateFailure();
+
+        return this.enqueue(this.getQueue(request.QueueUrl), request);
+    }
+
+    public async sendMessageBatch(request: SQS.SendMessageBatchRequest): Promise<SQS.SendMessageBatchResult> {
+        await this.simulate();
+
+        const queue = this.getQueue(request.QueueUrl);
+        const result: SQS.SendMessageBatchResult = { Successful: [], Failed: [] };
+
+        request.Entries.forEach((entry) => {
+            try {
+                this.simulateFailure();
+                result.Successful.push({ Id: entry.Id, ...this.enqueue(queue, entry) } as SQS.SendMessageBatchResultEntry);
+            } catch (error) {
+                const { code, message } = error as Error & { code: string };
+                result.Failed.push({ Id: entry.Id, Code: code, Message: message, SenderFault: code !== 'InternalError' });
+            }
+        });
+
+        return result;
+    }
+
+    public async receiveMessage(request: SQS.ReceiveMessageRequest): Promise<SQS.ReceiveMessageResult> {
+        await this.simulate();
+
+        const queue = this.getQueue(request.QueueUrl);
+        const deadline = Date.now() + (request.WaitTimeSeconds ?? getNumberAttribute(queue, 'ReceiveMessageWaitTimeSeconds')) * 1000;
+        let messages = this.takeVisibleMessages(queue, request);
+
+        while (!messages.length && Date.now() < deadline) {
+            await delay(POLL_INTERVAL);
+            messages = this.takeVisibleMessages(queue, request);
+        }
+
+        return { Messages: messages.map((message) => this.toReceivedMessage(message, request)) };
+    }
+
+    public async deleteMessage(request: SQS.DeleteMessageRequest): Promise<void> {
+        await this.simulate();
+
+        const queue = this.getQueue(request.QueueUrl);
+        const message = this.findReceivedMessage(queue, request.ReceiptHandle);
+        queue.messages = queue.messages.filter((queuedMessage) => queuedMessage !== message);
+    }
+
+    public async changeMessageVisibility(request: SQS.ChangeMessageVisibilityRequest): Promise<void> {
+        await this.simulate();
+
+        const message = this.findReceivedMessage(this.getQueue(request.QueueUrl), request.ReceiptHandle);
+
+        if (message.visibleAt <= Date.now()) {
+            throw createError('MessageNotInflight', 'The message is not in flight.');
+        }
+
+        message.visibleAt = Date.now() + request.VisibilityTimeout * 1000;
+    }
+
+    public async listQueues(request: SQS.ListQueuesRequest): Promise<SQS.ListQueuesResult> {
+        await this.simulate();
+
+        const urls = [...queues.values()].filter((queue) => !request.QueueNamePrefix || queue.name.startsWith(request.QueueNamePrefix)).map((queue) => queue.url);
+        const page = paginate(urls, request.NextToken, request.MaxResults);
+
+        return { QueueUrls: page.urls, NextToken: page.nextToken };
+    }
+
+    public async getQueueAttributes(request: SQS.GetQueueAttributesRequest): Promise<SQS.GetQueueAttributesResult> {
+        await this.simulate();
+
+        const queue = this.getQueue(request.QueueUrl);
+        const now = Date.now();
+        this.expireMessages(queue);
+
+        const attributes: SQS.QueueAttributeMap = {
+            QueueArn: getArn(queue),
+            ApproximateNumberOfMessages: String(queue.messages.filter((message) => message.visibleAt <= now).length),
+            ApproximateNumberOfMessagesNotVisible: String(queue.messages.filter((message) => message.visibleAt > now && message.receiveCount).length),
+            ApproximateNumberOfMessagesDelayed: String(queue.messages.filter((message) => message.visibleAt > now && !message.receiveCount).length),
+            CreatedTimestamp: String(Math.floor(queue.createdTimestamp / 1000)),
+            ...DEFAULT_ATTRIBUTES,
+            ...queue.attributes,
+            ...(queue.fifo ? { FifoQueue: 'true', ContentBasedDeduplication: queue.attributes.ContentBasedDeduplication ?? 'false' } : {}),
+        };
+
+        return { Attributes: Object.fromEntries(Object.entries(attributes).filter(([name]) => isRequested(name, request.AttributeNames))) };
+    }
+
+    public async listDeadLetterSourceQueues(request: SQS.ListDeadLetterSourceQueuesRequest): Promise<SQS.ListDeadLetterSourceQueuesResult> {
+        await this.simulate();
+
+        const arn = getArn(this.getQueue(request.QueueUrl));
+        const urls = [...queues.values()].filter((queue) => QueueUtils.parseRedrivePolicy(queue.attributes.RedrivePolicy)?.deadLetterTargetArn === arn).map((queue) => queue.url);
+        const page = paginate(urls, request.NextToken, request.MaxResults);
+
+        return { queueUrls: page.urls, NextToken: page.nextToken };
+    }
+
+    public async createQueue(request: SQS.CreateQueueRequest): Promise<SQS.CreateQueueResult> {
+        await this.simulate();
+
+        const fifo = MessageUtils.isFifoQueue(request.QueueName);
+        const attributes = Object.fromEntries(Object.entries(request.Attributes ?? {}).filter(([name, value]) => name !== 'FifoQueue' && value !== ''));
+
+        if (!/^[\w-]+(\.fifo)?$/.test(request.QueueName) || request.QueueName.length > 80) {
+            throw createError('InvalidParameterValue', 'Queue names can only include alphanumeric characters, hyphens and underscores, and must be 1 to 80 characters long.');
+        }
+        if ((request.Attributes?.FifoQueue === 'true') !== fifo) {
+            throw createError('InvalidParameterValue', 'The name of a FIFO queue must end with the .fifo suffix, and only FIFO queues can use it.');
+        }
+        if (!fifo && attributes.ContentBasedDeduplication) {
+            throw createError('InvalidAttributeName', 'Only FIFO queues support content-based deduplication.');
+        }
+
+        const existing = [...queues.values()].find((candidate) => candidate.name === request.QueueName);
+
+        // Like SQS, creating a queue that exists returns its URL, unless different attribute values are requested.
+        if (existing) {
+            const current: SQS.QueueAttributeMap = { ...DEFAULT_ATTRIBUTES, ...existing.attributes };
+            if (Object.entries(attributes).some(([name, value]) => current[name] !== value)) {
+                throw createError('QueueAlreadyExists', `A queue named '${request.QueueName}' already exists with different attributes.`);
+            }
+            return { QueueUrl: existing.url };
+        }
+
+        const url = `${OFFLINE_QUEUE_URL}/${request.QueueName}`;
+        queues.set(url, {
+            url,
+            name: request.QueueName,
+            fifo,
+            createdTimestamp: Date.now(),
+            attributes: fifo ? { ContentBasedDeduplication: 'false', ...attributes } : attributes,
+            tags: { ...request.tags },
+            messages: [],
+            deduplicationIds: new Map(),
+            sequence: 0,
+        });
+
+        return { QueueUrl: url };
+    }
+
+    // An empty value removes an attribute, e.g. to remove the queue's redrive policy.
+    public async setQueueAttributes(request: SQS.SetQueueAttributesRequest): Promise<void> {
+        await this.simulate();
+
+        const queue = this.getQueue(request.QueueUrl);
+
+        if ('FifoQueue' in request.Attributes) {
+            throw createError('InvalidAttributeName', 'The queue type cannot be changed once the queue is created.');
+        }
+        if (!queue.fifo && 'ContentBasedDeduplication' in request.Attributes) {
+            throw createError('InvalidAttributeName', 'Only FIFO queues support content-based deduplication.');
+        }
+
+        queue.attributes = Object.fromEntries(Object.entries({ ...queue.attributes, ...request.Attributes }).filter(([, value]) => value !== ''));
+    }
+
+    public async purgeQueue(request: SQS.PurgeQueueRequest): Promise<void> {
+        await this.simulate();
+
+        this.getQueue(request.QueueUrl).messages = [];
+    }
+
+    public async deleteQueue(request: SQS.DeleteQueueRequest): Promise<void> {
+        await this.simulate();
+
+        queues.delete(this.getQueue(request.QueueUrl).url);
+    }
+
+    public async listQueueTags(request: SQS.ListQueueTagsRequest): Promise<SQS.ListQueueTagsResult> {
+        await this.simulate();
+
+        return { Tags: { ...this.getQueue(request.QueueUrl).tags } };
+    }
+
+    public async tagQueue(request: SQS.TagQueueRequest): Promise<void> {
+        await this.simulate();
+
+        const queue = this.getQueue(request.QueueUrl);
+        queue.tags = { ...queue.tags, ...request.Tags };
+    }
+
+    public async untagQueue(request: SQS.UntagQueueRequest): Promise<void> {
+        await this.simulate();
+
+        const queue = this.getQueue(request.QueueUrl);
+        queue.tags = Object.fromEntries(Object.entries(queue.tags).filter(([key]) => !request.TagKeys.includes(key)));
+    }
+
+    public async publish(request: SNS.PublishInput): Promise<SNS.PublishResponse> {
+        await this.simulate();
+        this.simulateFailure();
+
+        return this.fanOut(request.TopicArn ?? request.TargetArn ?? '', request);
+    }
+
+    public async publishBatch(request: SNS.PublishBatchInput): Promise<SNS.PublishBatchResponse> {
+        await this.simulate();
+
+        const result: Required<SNS.PublishBatchResponse> = { Successful: [], Failed: [] };
+
+        request.PublishBatchRequestEntries.forEach((entry) => {
+            try {
+                this.simulateFailure();
+                result.Successful.push({ Id: entry.Id, ...this.fanOut(request.TopicArn, entry) });
+            } catch (error) {
+                const { code, message } = error as Error & { code: string };
+                result.Failed.push({ Id: entry.Id, Code: code, Message: message, SenderFault: code !== 'InternalError' });
+            }
+        });
+
+        return result;
+    }
+
+    public async getTopicAttributes(request: SNS.GetTopicAttributesInput): Promise<SNS.GetTopicAttributesResponse> {
+        await this.simulate();
+
+        const fifo = this.isFifoTopic(request.TopicArn);
+        const subscriptions = [...queues.values()].filter((queue) => queue.fifo === fifo).length;
+
+        return {
+            Attributes: {
+                TopicArn: request.TopicArn,
+                SubscriptionsConfirmed: String(subscriptions),
+                SubscriptionsPending: '0',
+                ...(fifo ? { FifoTopic: 'true', ContentBasedDeduplication: 'true' } : {}),
+            },
+        };
+    }
+
+    /**
+     * Returns the queue with the provided URL, or throws a QueueDoesNotExist error if it has not been created.
+     */
+    private getQueue(url: string): OfflineQueue {
+        const queue = queues.get(url);
+
+        if (!queue) {
+            throw createError('QueueDoesNotExist', 'The specified queue does not exist.');
+        }
+
+        return queue;
+    }
+
+    /**
+     * Returns true if the provided topic ARN refers to a FIFO topic, otherwise false.
+     */
+    private isFifoTopic(topicArn: string): boolean {
+        if (!MessageUtils.isTopicArn(topicArn)) {
+            throw createError('InvalidParameter', `Invalid parameter: TopicArn '${topicArn}' is not an SNS topic ARN.`);
+        }
+
+        return MessageUtils.isFifoQueue(topicArn);
+    }
+
+    /**
+     * Delivers the provided published message to every offline queue of the topic's type.
+     * FIFO topics use content-based deduplication, so the queues are sent a deduplication ID even when none is provided.
+     */
+    private fanOut(topicArn: string, request: Omit<SNS.PublishInput, 'TopicArn'>): SNS.PublishResponse {
+        const fifo = this.isFifoTopic(topicArn);
+
+        if (!request.Message) {
+            throw createError('InvalidParameter', 'Invalid parameter: Empty message');
+        }
+        if (fifo && !request.MessageGroupId) {
+            throw createError('InvalidParameter', 'Invalid parameter: The MessageGroupId parameter is required for FIFO topics');
+        }
+
+        const message: Omit<SQS.SendMessageRequest, 'QueueUrl'> = {
+            MessageBody: request.Message,
+            MessageAttributes: request.MessageAttributes,
+            MessageGroupId: request.MessageGroupId,
+            MessageDeduplicationId: fifo ? request.MessageDeduplicationId || createHash('sha256').update(request.Message, 'utf8').digest('hex') : undefined,
+        };
+
+        [...queues.values()].filter((queue) => queue.fifo === fifo).forEach((queue) => this.enqueue(queue, message));
+
+        if (!fifo) {
+            return { MessageId: generateUuid() };
+        }
+
+        const sequence = (topicSequences.get(topicArn) ?? 0) + 1;
+        topicSequences.set(topicArn, sequence);
+        return { MessageId: generateUuid(), SequenceNumber: String(sequence).padStart(20, '0') };
+    }
+
+    private enqueue(queue: OfflineQueue, request: Omit<SQS.SendMessageRequest, 'QueueUrl'>): SQS.SendMessageResult {
+        const now = Date.now();
+        const messageId = generateUuid();
+        const result: SQS.SendMessageResult = {
+            MD5OfMessageBody: MessageUtils.getBodyMd5(request.MessageBody),
+            MD5OfMessageAttributes: MessageUtils.getAttributesMd5(request.MessageAttributes),
+        };
+
+        if (!queue.fifo) {
+            queue.messages.push({
+                messageId,
+                body: request.MessageBody,
+                attributes: request.MessageAttributes,
+                sentTimestamp: now,
+                receiveCount: 0,
+                visibleAt: now + (request.DelaySeconds ?? getNumberAttribute(queue, 'DelaySeconds')) * 1000,
+            });
+            return { ...result, MessageId: messageId };
+        }
+
+        if (!request.MessageGroupId) {
+            throw createError('MissingParameter', 'The request must contain the parameter MessageGroupId.');
+        }
+
+        if (!request.MessageDeduplicationId && queue.attributes.ContentBasedDeduplication !== 'true') {
+            throw createError('InvalidParameterValue', 'The queue should either have ContentBasedDeduplication enabled or MessageDeduplicationId provided explicitly.');
+        }
+
+        const deduplicationId = request.MessageDeduplicationId || createHash('sha256').update(request.MessageBody, 'utf8').digest('hex');
+        const duplicate = queue.deduplicationIds.get(deduplicationId);
+
+        // Duplicates are accepted, but not delivered again, just like SQS does within the deduplication interval.
+        if (duplicate && duplicate.expiresAt > now) {
+            return duplicate.result;
+        }
+
+        const sequenceNumber = String(++queue.sequence).padStart(20, '0');
+        queue.messages.push({
+            messageId,
+            body: request.MessageBody,
+            attributes: request.MessageAttributes,
+            groupId: request.MessageGroupId,
+            deduplicationId,
+            sequenceNumber,
+            sentTimestamp: now,
+            receiveCount: 0,
+            visibleAt: now + getNumberAttribute(queue, 'DelaySeconds') * 1000,
+        });
+
+        const sentResult = { ...result, MessageId: messageId, SequenceNumber: sequenceNumber };
+        queue.deduplicationIds.set(deduplicationId, { result: sentResult, expiresAt: now + DEDUPLICATION_INTERVAL });
+        return sentResult;
+    }
+
+    /**
+     * Marks up to the requested number of visible messages as received and returns them.
+     * Visible messages that were received as often as the redrive policy allows are moved to the dead-letter queue instead.
+     */
+    private takeVisibleMessages(queue: OfflineQueue, request: SQS.ReceiveMessageRequest): OfflineMessage[] {
+        const now = Date.now();
+        const blockedGroups = new Set<string>();
+        const messages: OfflineMessage[] = [];
+        const redrivePolicy = QueueUtils.parseRedrivePolicy(queue.attributes.RedrivePolicy);
+        const deadLetterQueue = [...queues.values()].find((candidate) => candidate !== queue && getArn(candidate) === redrivePolicy?.deadLetterTargetArn);
+        const maxReceiveCount = Number(redrivePolicy?.maxReceiveCount);
+
+        this.expireMessages(queue);
+
+        for (const message of queue.messages) {
+            if (messages.length === (request.MaxNumberOfMessages ?? 1)) {
+                break;
+            }
+
+            // A FIFO message group is blocked while any of its earlier messages are in flight.
+            if (message.groupId && blockedGroups.has(message.groupId)) {
+                continue;
+            }
+            if (message.visibleAt > now) {
+                if (message.groupId) {
+                    blockedGroups.add(message.groupId);
+                }
+                continue;
+            }
+
+            if (deadLetterQueue && message.receiveCount >= maxReceiveCount) {
+                queue.messages = queue.messages.filter((queuedMessage) => queuedMessage !== message);
+                deadLetterQueue.messages.push({ ...message, receiptHandle: undefined, visibleAt: now });
+                continue;
+            }
+
+            message.receiveCount++;
+            message.firstReceiveTimestamp = message.firstReceiveTimestamp ?? now;
+            message.receiptHandle = randomBytes(32).toString('base64');
+            message.visibleAt = now + (request.VisibilityTimeout ?? getNumberAttribute(queue, 'VisibilityTimeout')) * 1000;
+            messages.push(message);
+        }
+
+        return messages;
+    }
+
+    private toReceivedMessage(message: OfflineMessage, request: SQS.ReceiveMessageRequest): SQS.Message {
+        const systemAttributes: SQS.MessageSystemAttributeMap = {
+            SenderId: OFFLINE_ACCOUNT_ID,
+            SentTimestamp: String(message.sentTimestamp),
+            ApproximateReceiveCount: String(message.receiveCount),
+            ApproximateFirstReceiveTimestamp: String(message.firstReceiveTimestamp),
+            ...(message.groupId ? { MessageGroupId: message.groupId, MessageDeduplicationId: message.deduplicationId, SequenceNumber: message.sequenceNumber } : {}),
+        };
+
+        const attributes = Object.entries(message.attributes ?? {}).filter(([name]) => isRequested(name, request.MessageAttributeNames));
+        const messageAttributes = attributes.length ? Object.fromEntries(attributes) : undefined;
+
+        return {
+            MessageId: message.messageId,
+            ReceiptHandle: message.receiptHandle,
+            Body: message.body,
+            MD5OfBody: MessageUtils.getBodyMd5(message.body),
+            Attributes: Object.fromEntries(Object.entries(systemAttributes).filter(([name]) => isRequested(name, request.AttributeNames))),
+            MessageAttributes: messageAttributes,
+            MD5OfMessageAttributes: MessageUtils.getAttributesMd5(messageAttributes),
+        };
+    }
+
+    /**
+     * Deletes the messages that were kept longer than the queue's retention period.
+     */
+    private expireMessages(queue: OfflineQueue): void {
+        const expiresBefore = Date.now() - getNumberAttribute(queue, 'MessageRetentionPeriod') * 1000;
+        queue.messages = queue.messages.filter((message) => message.sentTimestamp > expiresBefore);
+    }
+
+    private findReceivedMessage(queue: OfflineQueue, receiptHandle: string): OfflineMessage {
+        const message = queue.messages.find((queuedMessage) => queuedMessage.receiptHandle === receiptHandle);
+
+        if (!message) {
+            throw createError('ReceiptHandleIsInvalid', `The receipt handle '${receiptHandle}' is not valid.`);
+        }
+
+        return message;
+    }
+
+    /**
+     * Waits for the simulated latency, then rejects the request if it is chosen to be throttled.
+     */
+    private async simulate(): Promise<void> {
+        if (this.options.latencyMilliseconds > 0) {
+            await delay(this.options.latencyMilliseconds);
+        }
+
+        if (Math.random() * 100 < this.options.throttlePercent) {
+            throw createError('RequestThrottled', 'Request is throttled (simulated by the offline queue).');
+        }
+    }
+
+    /**
+     * Rejects a message if it is chosen to fail.
+     */
+    private simulateFailure(): void {
+        if (Math.random() * 100 < this.options.failurePercent) {
+            throw createError('InternalError', 'We encountered an internal error. Please try again (simulated by the offline queue).');
+        }
+    }
+}
@@ -0,0 +1,87 @@
+import { SNS, SQS } from 'aws-sdk';
+import { SqsTransport } from '../components/app.component';
+
+/**
+ * Sends requests with the aws-sdk v2 SQS and SNS clients.
+ */
+export class SdkV2Transport implements SqsTransport {
+    private readonly sqs: SQS;
+    private readonly sns: SNS;
+
+    public constructor(config: SQS.ClientConfiguration) {
+        this.sqs = new SQS(config);
+        this.sns = new SNS(config);
+    }
+
+    public sendMessage(request: SQS.SendMessageRequest): Promise<SQS.SendMessageResult> {
+        return this.sqs.sendMessage(request).promise();
+    }
+
+    public sendMessageBatch(request: SQS.SendMessageBatchRequest): Promise<SQS.SendMessageBatchResult> {
+        return this.sqs.sendMessageBatch(request).promise();
+    }
+
+    public receiveMessage(request: SQS.ReceiveMessageRequest): Promise<SQS.ReceiveMessageResult> {
+        return this.sqs.receiveMessage(request).promise();
+    }
+
+    public async deleteMessage(request: SQS.DeleteMessageRequest): Promise<void> {
+        await this.sqs.deleteMessage(request).promise();
+    }
+
+    public async changeMessageVisibility(request: SQS.ChangeMessageVisibilityRequest): Promise<void> {
+        await this.sqs.changeMessageVisibility(request).promise();
+    }
+
+    public listQueues(request: SQS.ListQueuesRequest): Promise<SQS.ListQueuesResult> {
+        return this.sqs.listQueues(request).promise();
+    }
+
+    public getQueueAttributes(request: SQS.GetQueueAttributesRequest): Promise<SQS.GetQueueAttributesResult> {
+        return this.sqs.getQueueAttributes(request).promise();
+    }
+
+    public listDeadLetterSourceQueues(request: SQS.ListDeadLetterSourceQueuesRequest): Promise<SQS.ListDeadLetterSourceQueuesResult> {
+        return this.sqs.listDeadLetterSourceQueues(request).promise();
+    }
+
+    public createQueue(request: SQS.CreateQueueRequest): Promise<SQS.CreateQueueResult> {
+        return this.sqs.createQueue(request).promise();
+    }
+
+    public async setQueueAttributes(request: SQS.SetQueueAttributesRequest): Promise<void> {
+        await this.sqs.setQueueAttributes(request).promise();
+    }
+
+    public async purgeQueue(request: SQS.PurgeQueueRequest): Promise<void> {
+        await this.sqs.purgeQueue(request).promise();
+    }
+
+    public async deleteQueue(request: SQS.DeleteQueueRequest): Promise<void> {
+        await this.sqs.deleteQueue(request).promise();
+    }
+
+    public listQueueTags(request: SQS.ListQueueTagsRequest): Promise<SQS.ListQueueTagsResult> {
+        return this.sqs.listQueueTags(request).promise();
+    }
+
+    public async tagQueue(request: SQS.TagQueueRequest): Promise<void> {
+        await this.sqs.tagQueue(request).promise();
+    }
+
+    public async untagQueue(request: SQS.UntagQueueRequest): Promise<void> {
+        await this.sqs.untagQueue(request).promise();
+    }
+
+    public publish(request: SNS.PublishInput): Promise<SNS.PublishResponse> {
+        return this.sns.publish(request).promise();
+    }
+
+    public publishBatch(request: SNS.PublishBatchInput): Promise<SNS.PublishBatchResponse> {
+        return this.sns.publishBatch(request).promise();
+    }
+
+    public getTopicAttributes(request: SNS.GetTopicAttributesInput): Promise<SNS.GetTopicAttributesResponse> {
+        return this.sns.getTopicAttributes(request).promise();
+    }
+}
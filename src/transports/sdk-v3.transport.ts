@@ -0,0 +1,193 @@
+import {
+    ChangeMessageVisibilityCommand,
+    CreateQueueCommand,
+    DeleteMessageCommand,
+    DeleteQueueCommand,
+    GetQueueAttributesCommand,
+    ListDeadLetterSourceQueuesCommand,
+    ListQueuesCommand,
+    ListQueueTagsCommand,
+    MessageAttributeValue,
+    PurgeQueueCommand,
+    QueueAttributeName,
+    ReceiveMessageCommand,
+    SendMessageBatchCommand,
+    SendMessageCommand,
+    SetQueueAttributesCommand,
+    SQSClient,
+    SQSClientConfig,
+    TagQueueCommand,
+    UntagQueueCommand,
+} from '@aws-sdk/client-sqs';
+import { GetTopicAttributesCommand, PublishBatchCommand, PublishCommand, SNSClient } from '@aws-sdk/client-sns';
+import { SNS, SQS } from 'aws-sdk';
+import { SqsTransport } from '../components/app.component';
+
+/**
+ * Converts the provided v2 binary attribute value to the bytes v3 requires.
+ * Strings are encoded as UTF-8, like the v2 SDK does. Blobs can only be read asynchronously, so they are rejected.
+ */
+const toV3Binary = (name: string, value: SQS.Binary | undefined): Uint8Array | undefined => {
+    if (value === undefined || value instanceof Uint8Array) {
+        return value;
+    }
+    if (typeof value === 'string') {
+        return Buffer.from(value, 'utf8');
+    }
+
+    throw new Error(`The binary value of the '${name}' attribute must be a Uint8Array, Buffer or string to be sent with the v3 SDK.`);
+};
+
+/**
+ * Converts the provided v2 message attributes to v3 attributes, whose binary values must be bytes.
+ */
+const toV3Attributes = (attributes: SQS.MessageBodyAttributeMap | SNS.MessageAttributeMap | undefined): Record<string, MessageAttributeValue> | undefined => {
+    if (!attributes) {
+        return undefined;
+    }
+
+    return Object.fromEntries(
+        Object.entries(attributes).map(([name, attribute]) => [
+            name,
+            { DataType: attribute.DataType, StringValue: attribute.StringValue, BinaryValue: toV3Binary(name, attribute.BinaryValue) },
+        ])
+    );
+};
+
+/**
+ * Sends requests with the modular @aws-sdk/client-sqs and @aws-sdk/client-sns v3 clients.
+ * Responses are returned in the v2 shapes, and errors are given the v2 error code property.
+ */
+export class SdkV3Transport implements SqsTransport {
+    private readonly client: SQSClient;
+    private readonly snsClient: SNSClient;
+
+    public constructor(config: SQSClientConfig) {
+        this.client = new SQSClient(config);
+        this.snsClient = new SNSClient(config);
+    }
+
+    public async sendMessage(request: SQS.SendMessageRequest): Promise<SQS.SendMessageResult> {
+        return this.send(() => this.client.send(new SendMessageCommand({ ...request, MessageAttributes: toV3Attributes(request.MessageAttributes) })));
+    }
+
+    public async sendMessageBatch(request: SQS.SendMessageBatchRequest): Promise<SQS.SendMessageBatchResult> {
+        const entries = request.Entries.map((entry) => ({ ...entry, MessageAttributes: toV3Attributes(entry.MessageAttributes) }));
+        const response = await this.send(() => this.client.send(new SendMessageBatchCommand({ QueueUrl: request.QueueUrl, Entries: entries })));
+
+        return {
+            Successful: response.Successful ?? [],
+            Failed: (response.Failed ?? []).map((entry) => ({ ...entry, SenderFault: !!entry.SenderFault })),
+        } as SQS.SendMessageBatchResult;
+    }
+
+    public async receiveMessage(request: SQS.ReceiveMessageRequest): Promise<SQS.ReceiveMessageResult> {
+        const response = await this.send(() =>
+            this.client.send(
+                new ReceiveMessageCommand({
+                    ...request,
+                    AttributeNames: undefined,
+                    MessageSystemAttributeNames: request.AttributeNames as ReceiveMessageCommand['input']['MessageSystemAttributeNames'],
+                })
+            )
+        );
+
+        return response as SQS.ReceiveMessageResult;
+    }
+
+    public async deleteMessage(request: SQS.DeleteMessageRequest): Promise<void> {
+        await this.send(() => this.client.send(new DeleteMessageCommand(request)));
+    }
+
+    public async changeMessageVisibility(request: SQS.ChangeMessageVisibilityRequest): Promise<void> {
+        await this.send(() => this.client.send(new ChangeMessageVisibilityCommand(request)));
+    }
+
+    public async listQueues(request: SQS.ListQueuesRequest): Promise<SQS.ListQueuesResult> {
+        return this.send(() => this.client.send(new ListQueuesCommand(request)));
+    }
+
+    public async getQueueAttributes(request: SQS.GetQueueAttributesRequest): Promise<SQS.GetQueueAttributesResult> {
+        const response = await this.send(() =>
+            this.client.send(new GetQueueAttributesCommand({ ...request, AttributeNames: request.AttributeNames as QueueAttributeName[] | undefined }))
+        );
+
+        return response as SQS.GetQueueAttributesResult;
+    }
+
+    public async listDeadLetterSourceQueues(request: SQS.ListDeadLetterSourceQueuesRequest): Promise<SQS.ListDeadLetterSourceQueuesResult> {
+        const response = await this.send(() => this.client.send(new ListDeadLetterSourceQueuesCommand(request)));
+
+        return { queueUrls: response.queueUrls ?? [], NextToken: response.NextToken };
+    }
+
+    public async createQueue(request: SQS.CreateQueueRequest): Promise<SQS.CreateQueueResult> {
+        const response = await this.send(() =>
+            this.client.send(new CreateQueueCommand({ ...request, Attributes: request.Attributes as Partial<Record<QueueAttributeName, string>> | undefined }))
+        );
+
+        return { QueueUrl: response.QueueUrl };
+    }
+
+    public async setQueueAttributes(request: SQS.SetQueueAttributesRequest): Promise<void> {
+        await this.send(() => this.client.send(new SetQueueAttributesCommand({ ...request, Attributes: request.Attributes as Partial<Record<QueueAttributeName, string>> })));
+    }
+
+    public async purgeQueue(request: SQS.PurgeQueueRequest): Promise<void> {
+        await this.send(() => this.client.send(new PurgeQueueCommand(request)));
+    }
+
+    public async deleteQueue(request: SQS.DeleteQueueRequest): Promise<void> {
+        await this.send(() => this.client.send(new DeleteQueueCommand(request)));
+    }
+
+    public async listQueueTags(request: SQS.ListQueueTagsRequest): Promise<SQS.ListQueueTagsResult> {
+        const response = await this.send(() => this.client.send(new ListQueueTagsCommand(request)));
+
+        return { Tags: response.Tags };
+    }
+
+    public async tagQueue(request: SQS.TagQueueRequest): Promise<void> {
+        await this.send(() => this.client.send(new TagQueueCommand(request)));
+    }
+
+    public async untagQueue(request: SQS.UntagQueueRequest): Promise<void> {
+        await this.send(() => this.client.send(new UntagQueueCommand(request)));
+    }
+
+    public async publish(request: SNS.PublishInput): Promise<SNS.PublishResponse> {
+        const response = await this.send(() => this.snsClient.send(new PublishCommand({ ...request, MessageAttributes: toV3Attributes(request.MessageAttributes) })));
+
+        return { MessageId: response.MessageId, SequenceNumber: response.SequenceNumber };
+    }
+
+    public async publishBatch(request: SNS.PublishBatchInput): Promise<SNS.PublishBatchResponse> {
+        const entries = request.PublishBatchRequestEntries.map((entry) => ({ ...entry, MessageAttributes: toV3Attributes(entry.MessageAttributes) }));
+        const response = await this.send(() => this.snsClient.send(new PublishBatchCommand({ TopicArn: request.TopicArn, PublishBatchRequestEntries: entries })));
+
+        return {
+            Successful: response.Successful,
+            Failed: response.Failed?.map((entry) => ({ ...entry, Id: entry.Id ?? '', Code: entry.Code ?? '', SenderFault: !!entry.SenderFault })),
+        };
+    }
+
+    public async getTopicAttributes(request: SNS.GetTopicAttributesInput): Promise<SNS.GetTopicAttributesResponse> {
+        const response = await this.send(() => this.snsClient.send(new GetTopicAttributesCommand(request)));
+
+        return { Attributes: response.Attributes };
+    }
+
+    /**
+     * Sends the provided request, copying v3 error names to the code property used by v2 errors.
+     */
+    private async send<T>(request: () => Promise<T>): Promise<T> {
+        try {
+            return await request();
+        } catch (error) {
+            if (error instanceof Error && !(error as { code?: unknown }).code) {
+                Object.assign(error, { code: error.name });
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,152 @@
+import { BodyUtils } from './body.utils';
+
+describe('BodyUtils', () => {
+    describe('detectFormat', () => {
+        it.each([
+            ['{"id": 1}', 'json'],
+            ['  [1, 2]', 'json'],
+            ['{{payload}}', 'text'],
+            ['{{greeting}} world', 'text'],
+            ['{{#if x}}{"id": 1}{{/if}}', 'json'],
+            ['<order/>', 'xml'],
+            ['id: 1', 'yaml'],
+            ['# comment\n- a', 'yaml'],
+            ['---\na: 1', 'yaml'],
+            ['Hello: world, how are you', 'yaml'],
+            ['Hello world', 'text'],
+            ['https://example.com', 'text'],
+        ])('detects %j as %s', (body, format) => {
+            expect(BodyUtils.detectFormat(body)).toBe(format);
+        });
+    });
+
+    describe('validate', () => {
+        it('accepts valid, empty and plain text bodies', () => {
+            expect(BodyUtils.validate('{"a": [1, -2.5e3, true, null, "\\u00e9\\n"]}', 'json')).toBeUndefined();
+            expect(BodyUtils.validate('  ', 'json')).toBeUndefined();
+            expect(BodyUtils.validate('{not json', 'text')).toBeUndefined();
+        });
+
+        it('accepts template expressions in place of JSON keys and values', () => {
+            expect(BodyUtils.validate('{"id": {{uuid}}, {{key}}: "value", "n": {{randomInt 1 10}}}', 'json')).toBeUndefined();
+        });
+
+        it.each([
+            ['{"a": 1,}', "Expected a property name in double quotes, but found '}'.", 8],
+            ["{'a': 1}", "Expected a property name in double quotes, but found '''.", 1],
+            ['{"a" 1}', "Expected ':' after the property name, but found '1'.", 5],
+            ['[1 2]', "Expected ',' or ']', but found '2'.", 3],
+            ['{"a": 01}', "Expected ',' or '}', but found '1'.", 7],
+            ['{"a": "b\nc"}', 'Strings cannot contain line breaks. Use \\n instead.', 8],
+            ['{"a": "\\x"}', 'Invalid escape sequence.', 7],
+            ['{"a": "b', 'Unterminated string.', 6],
+            ['{"a": {{b}', 'Unterminated template expression.', 6],
+            ['{"a": undefined}', "Unexpected 'u'.", 6],
+            ['[1', "Expected ',' or ']', but found the end of the body.", 2],
+            ['{} {}', "Unexpected '{' after the end of the JSON value.", 3],
+        ])('reports %j', (body, message, offset) => {
+            expect(BodyUtils.validate(body, 'json')).toMatchObject({ message, offset });
+        });
+
+        it('reports the line and column of the problem', () => {
+            expect(BodyUtils.validate('{\n    "a": 1,\n    "b": }', 'json')).toEqual({ message: "Unexpected '}'.", offset: 23, line: 3, column: 10 });
+            expect(BodyUtils.validate('<a>\n  <b>\n</a>', 'xml')).toEqual({ message: 'Expected </b> to close <b>, but found </a>.', offset: 10, line: 3, column: 1 });
+            expect(BodyUtils.validate('a: 1\na: 2', 'yaml')).toEqual({ message: "Duplicate key 'a'.", offset: 5, line: 2, column: 1 });
+        });
+    });
+
+    describe('format', () => {
+        it('indents JSON by four spaces, keeping templates and the precision of numbers', () => {
+            expect(BodyUtils.format('{"id":{{uuid}},"price":19.990,"big":12345678901234567890,"tags":[],"meta":{},"items":[1,{"a":"x, y"}]}', 'json')).toBe(
+                [
+                    '{',
+                    '    "id": {{uuid}},',
+                    '    "price": 19.990,',
+                    '    "big": 12345678901234567890,',
+                    '    "tags": [],',
+                    '    "meta": {},',
+                    '    "items": [',
+                    '        1,',
+                    '        {',
+                    '            "a": "x, y"',
+                    '        }',
+                    '    ]',
+                    '}',
+                ].join('\n')
+            );
+        });
+
+        it('rewrites YAML from its parsed value, indented by two spaces', () => {
+            expect(BodyUtils.format('order:   # comment\n    id:    1\n    tags: [a,   b]', 'yaml')).toBe('order:\n  id: 1\n  tags:\n    - a\n    - b');
+        });
+
+        it('leaves plain text as written and rejects invalid bodies', () => {
+            expect(BodyUtils.format(' Hello\n', 'text')).toBe(' Hello\n');
+            expect(() => BodyUtils.format('{"a":}', 'json')).toThrow("Unexpected '}'.");
+        });
+    });
+
+    describe('minify', () => {
+        it('removes insignificant whitespace from JSON and XML', () => {
+            expect(BodyUtils.minify('{\n    "a": "b c",\n    "n": {{count}}\n}', 'json')).toBe('{"a":"b c","n":{{count}}}');
+            expect(BodyUtils.minify('<a>\n    <b>x</b>\n</a>', 'xml')).toBe('<a><b>x</b></a>');
+            expect(BodyUtils.canMinify('yaml')).toBe(false);
+        });
+    });
+
+    describe('toJson', () => {
+        it('converts YAML to JSON', () => {
+            expect(BodyUtils.toJson('base: &base\n  a: 1\ncopy:\n  <<: *base\n  b: [true, ~]', true)).toBe('{"base":{"a":1},"copy":{"a":1,"b":[true,null]}}');
+            expect(BodyUtils.toJson('a: 1')).toBe('{\n    "a": 1\n}');
+        });
+    });
+
+    describe('tokenize', () => {
+        it('splits JSON into highlighted tokens, skipping template expressions', () => {
+            const body = '{"id": {{uuid}}, "n": -1.5, "ok": true, "s": "x"}';
+
+            expect(BodyUtils.tokenize(body, 'json').map((token) => [token.type, body.substring(token.start, token.end)])).toEqual([
+                ['punctuation', '{'],
+                ['key', '"id"'],
+                ['punctuation', ':'],
+                ['punctuation', ','],
+                ['key', '"n"'],
+                ['punctuation', ':'],
+                ['number', '-1.5'],
+                ['punctuation', ','],
+                ['key', '"ok"'],
+                ['punctuation', ':'],
+                ['literal', 'true'],
+                ['punctuation', ','],
+                ['key', '"s"'],
+                ['punctuation', ':'],
+                ['string', '"x"'],
+                ['punctuation', '}'],
+            ]);
+        });
+
+        it('orders YAML tokens by position', () => {
+            const tokens = BodyUtils.tokenize('a: 1 # one\nb: [2]', 'yaml');
+
+            expect(tokens.map((token) => token.start)).toEqual([...tokens.map((token) => token.start)].sort((a, b) => a - b));
+            expect(BodyUtils.tokenize('plain', 'text')).toEqual([]);
+        });
+    });
+
+    describe('findMatchingBracket', () => {
+        const body = '{"a": [1, {"b": "]"}]}';
+
+        it('matches the bracket after the cursor, then the bracket before it', () => {
+            expect(BodyUtils.findMatchingBracket(body, 'json', 0)).toEqual([0, 21]);
+            expect(BodyUtils.findMatchingBracket(body, 'json', 20)).toEqual([20, 6]);
+            expect(BodyUtils.findMatchingBracket(body, 'json', 7)).toEqual([6, 20]);
+            expect(BodyUtils.findMatchingBracket(body, 'json', 22)).toEqual([21, 0]);
+        });
+
+        it('ignores brackets in strings and returns undefined away from brackets', () => {
+            expect(BodyUtils.findMatchingBracket(body, 'json', 17)).toBeUndefined();
+            expect(BodyUtils.findMatchingBracket(body, 'json', 3)).toBeUndefined();
+            expect(BodyUtils.findMatchingBracket('[1', 'json', 0)).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,401 @@
+import { SqsBodyError, SqsBodyFormat, SqsBodyToken } from '../components/app.component';
+import { XmlUtils } from './xml.utils';
+import { YamlUtils } from './yaml.utils';
+
+/**
+ * Matches a single JSON token, or whitespace. Template expressions are matched as tokens of their own,
+ * so templated values such as {"count": {{randomInt 1 10}}} are treated as JSON.
+ */
+const JSON_TOKEN_PATTERN = /\s+|{{[^{}]*}}|"(?:[^"\\\n]|\\.)*"?|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null|[{}[\],:]|[^\s{}[\],:"]+/y;
+
+/**
+ * The indentation used when formatting JSON and XML bodies.
+ */
+const INDENT = '    ';
+
+/**
+ * Matches template expressions, which are ignored when detecting a body's format.
+ */
+const TEMPLATE_PATTERN = /{{[^{}]*}}/g;
+
+const BRACKETS: Record<string, string> = { '{': '}', '[': ']', '}': '{', ']': '[' };
+
+const createError = (message: string, offset: number) => Object.assign(new Error(message), { offset });
+
+export class BodyUtils {
+    /**
+     * Detects the format of the provided message body from its first characters.
+     * Template expressions are skipped, so a body such as '{{greeting}} world' is detected as text.
+     *
+     * @param body    The message body.
+     */
+    public static detectFormat(body: string): SqsBodyFormat {
+        const text = body.replace(TEMPLATE_PATTERN, '').trimStart();
+
+        if (text.startsWith('{') || text.startsWith('[')) {
+            return 'json';
+        }
+        if (text.startsWith('<')) {
+            return 'xml';
+        }
+
+        const firstLine = text.split('\n').find((line) => line.trim() && !line.startsWith('#')) ?? '';
+        return /^(---|- |-$|[^\s:]+:(\s|$))/.test(firstLine) ? 'yaml' : 'text';
+    }
+
+    /**
+     * Checks that the provided body is valid in the provided format. Empty and plain text bodies are always valid.
+     *
+     * @param body      The message body.
+     * @param format    The body's format.
+     * @returns         The first problem found, or undefined if the body is valid.
+     */
+    public static validate(body: string, format: SqsBodyFormat): SqsBodyError | undefined {
+        if (!body.trim() || format === 'text') {
+            return undefined;
+        }
+
+        try {
+            BodyUtils.parse(body, format);
+        } catch (error) {
+            const offset = Math.min((error as { offset?: number }).offset ?? 0, body.length);
+            const lines = body.substring(0, offset).split('\n');
+            return { message: (error as Error).message, offset, line: lines.length, column: lines[lines.length - 1].length + 1 };
+        }
+    }
+
+    /**
+     * Splits the provided body into tokens for highlighting, ordered by their position.
+     * Characters outside of tokens are not highlighted.
+     *
+     * @param body      The message body.
+     * @param format    The body's format.
+     */
+    public static tokenize(body: string, format: SqsBodyFormat): SqsBodyToken[] {
+        switch (format) {
+            case 'json':
+                return BodyUtils.tokenizeJson(body);
+            case 'xml':
+                return XmlUtils.tokenize(body);
+            case 'yaml':
+                // A line's comment is found before its value, so the tokens are sorted.
+                return YamlUtils.tokenize(body).sort((a, b) => a.start - b.start);
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * Formats the provided body for reading. JSON and XML are indented by four spaces and YAML by two.
+     * YAML is rewritten from its parsed value, so its comments are not kept.
+     *
+     * @param body      The message body.
+     * @param format    The body's format.
+     * @throws          An error if the body is not valid in its format.
+     */
+    public static format(body: string, format: SqsBodyFormat): string {
+        switch (format) {
+            case 'json':
+                BodyUtils.parse(body, format);
+                return BodyUtils.writeJson(body, INDENT);
+            case 'xml':
+                return XmlUtils.format(body);
+            case 'yaml':
+                return YamlUtils.stringify(YamlUtils.parse(body));
+            default:
+                return body;
+        }
+    }
+
+    /**
+     * Removes the insignificant whitespace from the provided JSON or XML body.
+     *
+     * @param body      The message body.
+     * @param format    The body's format.
+     * @throws          An error if the body is not valid in its format.
+     */
+    public static minify(body: string, format: SqsBodyFormat): string {
+        switch (format) {
+            case 'json':
+                BodyUtils.parse(body, format);
+                return BodyUtils.writeJson(body);
+            case 'xml':
+                return XmlUtils.minify(body);
+            default:
+                return body;
+        }
+    }
+
+    /**
+     * Returns true if bodies in the provided format can be minified, otherwise false.
+     *
+     * @param format    The body's format.
+     */
+    public static canMinify(format: SqsBodyFormat): boolean {
+        return format === 'json' || format === 'xml';
+    }
+
+    /**
+     * Converts the provided YAML body to JSON.
+     *
+     * @param body        The YAML body.
+     * @param minified    True if the JSON is written without whitespace, otherwise it is indented.
+     * @throws            An error if the body is not valid YAML.
+     */
+    public static toJson(body: string, minified = false): string {
+        return JSON.stringify(YamlUtils.parse(body), null, minified ? undefined : INDENT);
+    }
+
+    /**
+     * Finds the bracket that matches the bracket next to the provided cursor position.
+     * The bracket after the cursor is matched first, then the bracket before it.
+     *
+     * @param body      The message body.
+     * @param format    The body's format.
+     * @param offset    The cursor position.
+     * @returns         The offsets of both brackets, or undefined if the cursor is not next to a bracket or it is unmatched.
+     */
+    public static findMatchingBracket(body: string, format: SqsBodyFormat, offset: number): [number, number] | undefined {
+        const brackets = BodyUtils.tokenize(body, format)
+            .filter((token) => token.type === 'punctuation' && token.end - token.start === 1 && BRACKETS[body[token.start]])
+            .map((token) => token.start);
+        const bracket = brackets.find((start) => start === offset) ?? brackets.find((start) => start === offset - 1);
+
+        if (bracket === undefined) {
+            return undefined;
+        }
+
+        const isOpening = body[bracket] === '{' || body[bracket] === '[';
+        const candidates = isOpening ? brackets.filter((start) => start > bracket) : brackets.filter((start) => start < bracket).reverse();
+        let depth = 0;
+
+        for (const start of candidates) {
+            if (body[start] === body[bracket]) {
+                depth++;
+            } else if (body[start] === BRACKETS[body[bracket]]) {
+                if (!depth) {
+                    return [bracket, start];
+                }
+                depth--;
+            }
+        }
+    }
+
+    private static parse(body: string, format: SqsBodyFormat): void {
+        switch (format) {
+            case 'json':
+                BodyUtils.parseJson(body);
+                break;
+            case 'xml':
+                XmlUtils.validate(body);
+                break;
+            case 'yaml':
+                YamlUtils.parse(body);
+                break;
+        }
+    }
+
+    /**
+     * Splits the provided JSON into its tokens, as matched by JSON_TOKEN_PATTERN, without whitespace.
+     */
+    private static splitJson(text: string): Array<{ start: number; value: string }> {
+        const tokens: Array<{ start: number; value: string }> = [];
+        let position = 0;
+
+        while (position < text.length) {
+            JSON_TOKEN_PATTERN.lastIndex = position;
+            const value = JSON_TOKEN_PATTERN.exec(text)?.[0] ?? text[position];
+
+            if (value.trim()) {
+                tokens.push({ start: position, value });
+            }
+            position += value.length;
+        }
+
+        return tokens;
+    }
+
+    private static tokenizeJson(text: string): SqsBodyToken[] {
+        const tokens = BodyUtils.splitJson(text);
+
+        return tokens.flatMap(({ start, value }, index): SqsBodyToken[] => {
+            const end = start + value.length;
+
+            if (value.startsWith('{{')) {
+                return [];
+            }
+            if (value.startsWith('"')) {
+                return [{ type: tokens[index + 1]?.value === ':' ? 'key' : 'string', start, end }];
+            }
+            if (/^-?\d/.test(value)) {
+                return [{ type: 'number', start, end }];
+            }
+            if (value === 'true' || value === 'false' || value === 'null') {
+                return [{ type: 'literal', start, end }];
+            }
+            if (/^[{}[\],:]$/.test(value)) {
+                return [{ type: 'punctuation', start, end }];
+            }
+            return [];
+        });
+    }
+
+    /**
+     * Writes the provided JSON from its tokens, indenting it when an indentation is provided, otherwise minifying it.
+     * Writing the tokens, rather than a parsed value, keeps template expressions and the precision of numbers.
+     */
+    private static writeJson(text: string, indent?: string): string {
+        const tokens = BodyUtils.splitJson(text).map(({ value }) => value);
+        let depth = 0;
+
+        if (indent === undefined) {
+            return tokens.join('');
+        }
+
+        return tokens.reduce((json, token, index) => {
+            const newLine = () => `\n${indent.repeat(depth)}`;
+
+            switch (token) {
+                case '{':
+                case '[':
+                    if (tokens[index + 1] === BRACKETS[token]) {
+                        return json + token;
+                    }
+                    depth++;
+                    return json + token + newLine();
+                case '}':
+                case ']':
+                    if (tokens[index - 1] === BRACKETS[token]) {
+                        return json + token;
+                    }
+                    depth--;
+                    return json + newLine() + token;
+                case ',':
+                    return json + token + newLine();
+                case ':':
+                    return `${json}: `;
+                default:
+                    return json + token;
+            }
+        }, '');
+    }
+
+    /**
+     * Checks that the provided text is valid JSON, allowing template expressions in place of keys and values.
+     */
+    private static parseJson(text: string): void {
+        let position = 0;
+
+        const describe = () => (position < text.length ? `'${text[position]}'` : 'the end of the body');
+        const fail = (message: string): never => {
+            throw createError(message, position);
+        };
+        const skipWhitespace = () => {
+            while (/[ \t\n\r]/.test(text[position] ?? '')) {
+                position++;
+            }
+        };
+
+        const parseTemplate = () => {
+            const end = text.indexOf('}}', position);
+            if (end < 0) {
+                fail('Unterminated template expression.');
+            }
+            position = end + 2;
+        };
+
+        const parseString = () => {
+            const start = position++;
+
+            while (position < text.length) {
+                const char = text[position];
+
+                if (char === '"') {
+                    position++;
+                    return;
+                }
+                if (char === '\\') {
+                    const escape = text[position + 1] ?? '';
+                    if (!'"\\/bfnrtu'.includes(escape) || !escape || (escape === 'u' && !/^[\da-fA-F]{4}$/.test(text.substring(position + 2, position + 6)))) {
+                        fail('Invalid escape sequence.');
+                    }
+                    position += escape === 'u' ? 6 : 2;
+                } else if (char.charCodeAt(0) < 32) {
+                    fail(char === '\n' ? 'Strings cannot contain line breaks. Use \\n instead.' : 'Strings cannot contain control characters.');
+                } else {
+                    position++;
+                }
+            }
+
+            position = start;
+            fail('Unterminated string.');
+        };
+
+        const parseValue = (): void => {
+            skipWhitespace();
+            const char = text[position];
+
+            if (text.startsWith('{{', position)) {
+                parseTemplate();
+            } else if (char === '{' || char === '[') {
+                const close = BRACKETS[char];
+                position++;
+                skipWhitespace();
+
+                if (text[position] === close) {
+                    position++;
+                    return;
+                }
+
+                for (;;) {
+                    if (char === '{') {
+                        skipWhitespace();
+                        if (text[position] === '"') {
+                            parseString();
+                        } else if (text.startsWith('{{', position)) {
+                            parseTemplate();
+                        } else {
+                            fail(`Expected a property name in double quotes, but found ${describe()}.`);
+                        }
+
+                        skipWhitespace();
+                        if (text[position] !== ':') {
+                            fail(`Expected ':' after the property name, but found ${describe()}.`);
+                        }
+                        position++;
+                    }
+
+                    parseValue();
+                    skipWhitespace();
+
+                    if (text[position] === close) {
+                        position++;
+                        return;
+                    }
+                    if (text[position] !== ',') {
+                        fail(`Expected ',' or '${close}', but found ${describe()}.`);
+                    }
+                    position++;
+                }
+            } else if (char === '"') {
+                parseString();
+            } else {
+                const literal = /-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?|true|false|null/y;
+                literal.lastIndex = position;
+                const match = literal.exec(text);
+
+                if (!match) {
+                    fail(position < text.length ? `Unexpected ${describe()}.` : 'Unexpected end of the body.');
+                }
+                position += match?.[0].length ?? 0;
+            }
+        };
+
+        parseValue();
+        skipWhitespace();
+
+        if (position < text.length) {
+            fail(`Unexpected ${describe()} after the end of the JSON value.`);
+        }
+    }
+}
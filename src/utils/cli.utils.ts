@@ -0,0 +1,279 @@
+import { SqsCliOptions, SqsCliResult, SqsTemplateVariable } from '../components/app.component';
+import { MessageUtils } from './message.utils';
+import { TemplateUtils } from './template.utils';
+
+/**
+ * The process exit codes, which let pipelines tell validation failures apart from send failures.
+ * Unexpected errors exit with Node's default code of 1.
+ */
+const EXIT_CODES = {
+    success: 0,
+    usage: 2,
+    invalid: 3,
+    failed: 4,
+};
+
+/**
+ * The options that take a value, given either as the next argument or after an equals sign.
+ */
+const VALUE_FLAGS = ['--queue-url', '--profile', '--region', '--endpoint', '--index', '--tag', '--var'] as const;
+
+/**
+ * The options that are switched on by their presence.
+ */
+const SWITCH_FLAGS = ['--dry-run', '--batch', '--json'] as const;
+
+/**
+ * The options that show the help text, whatever other arguments are given.
+ */
+const HELP_FLAGS = ['--help', '-h'];
+
+type ValueFlag = (typeof VALUE_FLAGS)[number];
+
+type SwitchFlag = (typeof SWITCH_FLAGS)[number];
+
+const USAGE = `Usage: sqs-messenger <command> <files...> [options]
+
+Commands:
+  send        Validate the messages in the files and send them to a queue
+  validate    Validate the messages in the files without sending anything
+
+Options:
+  --queue-url <url>      The SQS queue URL. Defaults to AWS_SQS_QUEUE_URL
+  --profile <name>       The AWS shared credentials profile. Defaults to the AWS_* environment variables
+  --region <region>      The AWS region. Defaults to AWS_REGION, then the queue URL's region
+  --endpoint <url>       A custom endpoint, e.g. http://localhost:4566 for LocalStack
+  --index <list>         Only include messages at these positions, starting at 0, e.g. 0,2,5-7
+  --tag <tag>            Only include messages with this tag. Can be repeated
+  --var <name=value>     Set a template variable. Can be repeated
+  --dry-run              Validate and render the messages, and print the requests without sending them
+  --batch                Send messages in batches of up to 10
+  --json                 Write the results as JSON
+  --help                 Show this help
+
+Exit codes:
+  0    All messages are valid and, unless validating or on a dry run, were sent
+  2    The arguments or files could not be read
+  3    At least one message is invalid. Nothing is sent
+  4    At least one message was rejected by SQS
+`;
+
+export class CliUtils {
+    /**
+     * Returns the CLI's help text.
+     */
+    public static getUsage(): string {
+        return USAGE;
+    }
+
+    /**
+     * Returns the process exit code for the outcome of a command.
+     *
+     * @param outcome    The outcome of the command.
+     */
+    public static getExitCode(outcome: keyof typeof EXIT_CODES): number {
+        return EXIT_CODES[outcome];
+    }
+
+    /**
+     * Returns the process exit code for the provided message results.
+     * Validation failures take precedence, as nothing is sent while any message is invalid.
+     *
+     * @param results    The results of each message.
+     */
+    public static getResultsExitCode(results: SqsCliResult[]): number {
+        if (results.some((result) => result.status === 'invalid')) {
+            return EXIT_CODES.invalid;
+        }
+        if (results.some((result) => result.status === 'failed')) {
+            return EXIT_CODES.failed;
+        }
+        return EXIT_CODES.success;
+    }
+
+    /**
+     * Parses the provided command line arguments.
+     *
+     * @param args    The arguments, excluding the node executable and script path.
+     * @throws        An error describing the first invalid argument.
+     */
+    public static parseArgs(args: string[]): SqsCliOptions {
+        const options: SqsCliOptions = { command: 'help', files: [], variables: [], dryRun: false, batch: false, json: false };
+        const positionals: string[] = [];
+
+        if (args.some((arg) => HELP_FLAGS.includes(arg))) {
+            return options;
+        }
+
+        for (let index = 0; index < args.length; index++) {
+            const arg = args[index];
+            const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=') ? [arg.substring(0, arg.indexOf('=')), arg.substring(arg.indexOf('=') + 1)] : [arg, undefined];
+
+            if (CliUtils.isSwitchFlag(flag)) {
+                CliUtils.applySwitch(options, flag);
+            } else if (CliUtils.isValueFlag(flag)) {
+                const value = inlineValue ?? args[++index];
+                if (value === undefined || (inlineValue === undefined && value.startsWith('--'))) {
+                    throw new Error(`${flag} requires a value.`);
+                }
+                CliUtils.applyValue(options, flag, value);
+            } else if (arg.startsWith('--')) {
+                throw new Error(`Unknown option '${arg}'.`);
+            } else {
+                positionals.push(arg);
+            }
+        }
+
+        const [command, ...files] = positionals;
+
+        if (command === 'send' || command === 'validate') {
+            options.command = command;
+            options.files = files;
+        } else if (command !== undefined) {
+            throw new Error(`Unknown command '${command}'.`);
+        }
+
+        if (options.command !== 'help' && !files.length) {
+            throw new Error(`The ${options.command} command requires at least one messages.js or JSON file.`);
+        }
+
+        if (options.queueUrl && MessageUtils.isTopicArn(options.queueUrl)) {
+            throw new Error('--queue-url must be an SQS queue URL. Publishing to SNS topics is not supported by the CLI.');
+        }
+
+        const variableErrors = TemplateUtils.validateVariables(options.variables);
+        if (variableErrors.length) {
+            throw new Error(variableErrors.join(' '));
+        }
+
+        return options;
+    }
+
+    /**
+     * Parses a list of message positions, e.g. '0,2,5-7'.
+     *
+     * @param value    The comma-separated positions and ranges.
+     * @throws         An error if a position or range is invalid.
+     */
+    public static parseIndexes(value: string): number[] {
+        return value.split(',').flatMap((part) => {
+            const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part);
+            if (!match) {
+                throw new Error(`'${part}' is not a message position or range, e.g. 0,2,5-7.`);
+            }
+
+            const start = Number(match[1]);
+            const end = match[2] === undefined ? start : Number(match[2]);
+            if (end < start) {
+                throw new Error(`The range '${part}' ends before it starts.`);
+            }
+
+            return Array.from({ length: end - start + 1 }, (_, offset) => start + offset);
+        });
+    }
+
+    /**
+     * Returns true if the message item at the provided position is picked out by the index and tag options.
+     * Items that do not have a list of tags only match when no tags are given.
+     *
+     * @param item       The message item, as read from the file.
+     * @param index      The item's position in the file.
+     * @param options    The parsed options.
+     */
+    public static isSelected(item: unknown, index: number, options: Pick<SqsCliOptions, 'indexes' | 'tags'>): boolean {
+        if (options.indexes && !options.indexes.includes(index)) {
+            return false;
+        }
+
+        if (options.tags) {
+            const tags = (item as { tags?: unknown } | undefined)?.tags;
+            return Array.isArray(tags) && options.tags.some((tag) => tags.includes(tag));
+        }
+
+        return true;
+    }
+
+    /**
+     * Formats the provided message results as text, one line per message followed by its errors and warnings,
+     * and a summary line.
+     *
+     * @param results    The results of each message.
+     */
+    public static formatResults(results: SqsCliResult[]): string {
+        const lines = results.flatMap((result) => [
+            `${result.file}[${result.index}]${result.tags?.length ? ` (${result.tags.join(', ')})` : ''}: ${result.status}${
+                result.messageId ? ` with ID ${result.messageId}` : ''
+            }`,
+            ...(result.errors ?? []).map((error) => `  error: ${error}`),
+            ...(result.warnings ?? []).map((warning) => `  warning: ${warning}`),
+            ...(result.request
+                ? JSON.stringify(result.request, null, 2)
+                      .split('\n')
+                      .map((line) => `  ${line}`)
+                : []),
+        ]);
+
+        const counts = results.reduce<Record<string, number>>((map, result) => ({ ...map, [result.status]: (map[result.status] ?? 0) + 1 }), {});
+        const summary = Object.keys(counts)
+            .map((status) => `${counts[status]} ${status}`)
+            .join(', ');
+
+        return [...lines, results.length ? `${summary}.` : 'No messages matched.'].join('\n');
+    }
+
+    private static isSwitchFlag(flag: string): flag is SwitchFlag {
+        return (SWITCH_FLAGS as readonly string[]).includes(flag);
+    }
+
+    private static isValueFlag(flag: string): flag is ValueFlag {
+        return (VALUE_FLAGS as readonly string[]).includes(flag);
+    }
+
+    private static applySwitch(options: SqsCliOptions, flag: SwitchFlag): void {
+        switch (flag) {
+            case '--dry-run':
+                options.dryRun = true;
+                break;
+            case '--batch':
+                options.batch = true;
+                break;
+            case '--json':
+                options.json = true;
+                break;
+        }
+    }
+
+    private static applyValue(options: SqsCliOptions, flag: ValueFlag, value: string): void {
+        switch (flag) {
+            case '--queue-url':
+                options.queueUrl = value;
+                break;
+            case '--profile':
+                options.profile = value;
+                break;
+            case '--region':
+                options.region = value;
+                break;
+            case '--endpoint':
+                options.endpoint = value;
+                break;
+            case '--index':
+                options.indexes = [...(options.indexes ?? []), ...CliUtils.parseIndexes(value)];
+                break;
+            case '--tag':
+                options.tags = [...(options.tags ?? []), value];
+                break;
+            case '--var':
+                options.variables = [...options.variables, CliUtils.parseVariable(value)];
+                break;
+        }
+    }
+
+    private static parseVariable(value: string): SqsTemplateVariable {
+        const separator = value.indexOf('=');
+        if (separator < 1) {
+            throw new Error(`--var expects a name and value, e.g. --var orderId=42, but got '${value}'.`);
+        }
+        return { id: MessageUtils.generateRandomId(), name: value.substring(0, separator), value: value.substring(separator + 1) };
+    }
+}
@@ -0,0 +1,187 @@
+import { SQSClientConfig } from '@aws-sdk/client-sqs';
+import { SQS } from 'aws-sdk';
+import { SqsConfig, SqsConnectionStatus } from '../components/app.component';
+
+/**
+ * The region used to sign requests to a custom endpoint when none is configured.
+ * Local emulators such as ElasticMQ and LocalStack accept any region.
+ */
+const PLACEHOLDER_REGION = 'us-east-1';
+
+/**
+ * The credentials used to sign requests to a custom endpoint when none are configured.
+ * Local emulators accept any credentials, but the SDK refuses to send unsigned requests.
+ */
+const PLACEHOLDER_CREDENTIAL = 'test';
+
+/**
+ * The AWS error codes that indicate a specific connection problem.
+ */
+const ERROR_CODE_STATUSES: Record<string, SqsConnectionStatus> = {
+    InvalidClientTokenId: 'invalidCredentials',
+    UnrecognizedClientException: 'invalidCredentials',
+    SignatureDoesNotMatch: 'invalidCredentials',
+    IncompleteSignature: 'invalidCredentials',
+    MissingAuthenticationToken: 'invalidCredentials',
+    CredentialsError: 'invalidCredentials',
+    ExpiredToken: 'expiredToken',
+    ExpiredTokenException: 'expiredToken',
+    RequestExpired: 'expiredToken',
+    AccessDenied: 'accessDenied',
+    AccessDeniedException: 'accessDenied',
+    'AWS.SimpleQueueService.NonExistentQueue': 'queueNotFound',
+    QueueDoesNotExist: 'queueNotFound',
+    AuthorizationError: 'accessDenied',
+    NotFound: 'topicNotFound',
+};
+
+export class ConnectionUtils {
+    /**
+     * Returns the configuration fields that must be filled in before connecting.
+     * When a custom endpoint is set or the offline queue is used, only the queue URL or topic ARN is required.
+     *
+     * @param config    The SQS configuration.
+     */
+    public static getRequiredFields(config: SqsConfig): Array<keyof SqsConfig> {
+        const target = ConnectionUtils.isTopicTarget(config) ? 'topicArn' : 'queueUrl';
+
+        if (config.endpoint || config.transport === 'offline') {
+            return [target];
+        }
+        return ['region', 'accessKeyId', 'secretAccessKey', target];
+    }
+
+    /**
+     * Returns true if all required configuration fields are filled in, otherwise false.
+     *
+     * @param config    The SQS configuration.
+     */
+    public static isConfigValid(config: SqsConfig): boolean {
+        return ConnectionUtils.getRequiredFields(config).every((key) => !!config[key]);
+    }
+
+    /**
+     * Converts the provided SQS configuration to an AWS SDK client configuration.
+     *
+     * @param config    The SQS configuration.
+     */
+    public static toClientConfig(config: SqsConfig): SQS.ClientConfiguration {
+        if (!config.endpoint) {
+            return {
+                region: config.region,
+                accessKeyId: config.accessKeyId,
+                secretAccessKey: config.secretAccessKey,
+                sessionToken: config.sessionToken || undefined,
+            };
+        }
+
+        return {
+            endpoint: config.endpoint,
+            sslEnabled: config.sslEnabled ?? true,
+            region: config.region || PLACEHOLDER_REGION,
+            accessKeyId: config.accessKeyId || PLACEHOLDER_CREDENTIAL,
+            secretAccessKey: config.secretAccessKey || PLACEHOLDER_CREDENTIAL,
+            sessionToken: config.sessionToken || undefined,
+        };
+    }
+
+    /**
+     * Converts the provided SQS configuration to an AWS SDK v3 client configuration.
+     * The same defaults apply as for the v2 client configuration.
+     *
+     * @param config    The SQS configuration.
+     */
+    public static toV3ClientConfig(config: SqsConfig): SQSClientConfig {
+        const clientConfig = ConnectionUtils.toClientConfig(config);
+
+        return {
+            region: clientConfig.region,
+            endpoint: config.endpoint || undefined,
+            tls: clientConfig.sslEnabled,
+            credentials: {
+                accessKeyId: clientConfig.accessKeyId ?? '',
+                secretAccessKey: clientConfig.secretAccessKey ?? '',
+                sessionToken: clientConfig.sessionToken,
+            },
+        };
+    }
+
+    /**
+     * Returns the region of the provided AWS queue URL, e.g. 'eu-west-1' for https://sqs.eu-west-1.amazonaws.com/123456789012/my-queue.
+     *
+     * @param queueUrl    The SQS queue URL.
+     * @returns           The region, or undefined if the URL is not a regional AWS queue URL.
+     */
+    public static getQueueRegion(queueUrl: string): string | undefined {
+        const match = /^https?:\/\/sqs[.-]([a-z0-9-]+)\.amazonaws\.com(\.cn)?\//i.exec(queueUrl.trim());
+        return match?.[1].toLowerCase();
+    }
+
+    /**
+     * Returns the region of the provided SNS topic ARN, e.g. 'eu-west-1' for arn:aws:sns:eu-west-1:123456789012:my-topic.
+     *
+     * @param topicArn    The SNS topic ARN.
+     * @returns           The region, or undefined if the value is not an SNS topic ARN.
+     */
+    public static getTopicRegion(topicArn: string): string | undefined {
+        const match = /^arn:[^:]+:sns:([a-z0-9-]+):/i.exec(topicArn.trim());
+        return match?.[1].toLowerCase();
+    }
+
+    /**
+     * Returns true if messages are published to an SNS topic rather than sent to an SQS queue, otherwise false.
+     *
+     * @param config    The SQS configuration.
+     */
+    public static isTopicTarget(config: SqsConfig): boolean {
+        return config.targetType === 'topic';
+    }
+
+    /**
+     * Returns the queue URL or topic ARN messages are sent to, depending on the configured target type.
+     *
+     * @param config    The SQS configuration.
+     */
+    public static getTarget(config: SqsConfig): string {
+        return ConnectionUtils.isTopicTarget(config) ? config.topicArn ?? '' : ConnectionUtils.resolveQueueUrl(config);
+    }
+
+    /**
+     * Determines the connection status that corresponds to the provided AWS error.
+     * Signature errors that mention the region are reported as a region mismatch rather than invalid credentials.
+     *
+     * @param error    The error thrown by the AWS SDK.
+     * @returns        The matching status, or 'failed' if the error is not a known connection problem.
+     */
+    public static toConnectionStatus(error: unknown): SqsConnectionStatus {
+        const { code, message } = (error ?? {}) as { code?: string; message?: string };
+        const status = (code && ERROR_CODE_STATUSES[code]) || 'failed';
+
+        if (status === 'invalidCredentials' && /region/i.test(message ?? '')) {
+            return 'regionMismatch';
+        }
+
+        return status;
+    }
+
+    /**
+     * Returns the queue URL requests should be sent to.
+     * The SDK sends requests to the queue URL's host, so with path-style URLs enabled the queue URL
+     * is rewritten to sit under the custom endpoint, e.g. http://localhost:4566/000000000000/my-queue.
+     *
+     * @param config    The SQS configuration.
+     */
+    public static resolveQueueUrl(config: SqsConfig): string {
+        if (!config.endpoint || !config.forcePathStyle || !config.queueUrl) {
+            return config.queueUrl;
+        }
+
+        try {
+            const queueUrl = new URL(config.queueUrl);
+            const endpoint = new URL(config.endpoint);
+            return `${endpoint.origin}${endpoint.pathname.replace(/\/$/, '')}${queueUrl.pathname}`;
+        } catch {
+            return config.queueUrl;
+        }
+    }
+}
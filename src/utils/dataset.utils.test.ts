@@ -0,0 +1,83 @@
+import { DatasetUtils } from './dataset.utils';
+
+describe('DatasetUtils', () => {
+    describe('detectFormat', () => {
+        it.each([
+            ['a,b', 'orders.csv', 'csv'],
+            ['{"a": 1}', 'orders.jsonl', 'jsonLines'],
+            ['{"a": 1}', 'orders.ndjson', 'jsonLines'],
+            ['[{"a": 1}]', 'orders.json', 'json'],
+            ['{"a": 1}\n{"a": 2}', 'orders.json', 'jsonLines'],
+            [' [{"a": 1}]', 'orders.txt', 'json'],
+            ['{"a": 1}', 'orders.txt', 'jsonLines'],
+            ['a,b', 'orders.txt', 'csv'],
+        ])('detects %j in %s as %s', (content, fileName, format) => {
+            expect(DatasetUtils.detectFormat(content, fileName)).toBe(format);
+        });
+    });
+
+    describe('parse', () => {
+        it('parses CSV with quoted values', () => {
+            expect(DatasetUtils.parse('﻿id,note\r\n1,"a, ""b""\nc"\r\n2,\r\n', 'orders.csv')).toEqual({
+                fileName: 'orders.csv',
+                format: 'csv',
+                columns: ['id', 'note'],
+                rows: [
+                    { id: '1', note: 'a, "b"\nc' },
+                    { id: '2', note: '' },
+                ],
+            });
+        });
+
+        it('parses a JSON array of objects, writing values that are not strings as JSON', () => {
+            const content = '[\n    {"id": 1, "customer": {"name": "a"}},\n    {"id": "2", "note": null}\n]';
+
+            expect(DatasetUtils.parse(content, 'orders.json')).toEqual({
+                fileName: 'orders.json',
+                format: 'json',
+                columns: ['id', 'customer', 'note'],
+                rows: [
+                    { id: '1', customer: '{"name":"a"}' },
+                    { id: '2', note: '' },
+                ],
+            });
+        });
+
+        it('parses JSON lines, skipping blank lines', () => {
+            expect(DatasetUtils.parse('{"id": 1}\n\n{"id": 2, "ok": true}\n', 'orders.jsonl')).toMatchObject({
+                format: 'jsonLines',
+                columns: ['id', 'ok'],
+                rows: [{ id: '1' }, { id: '2', ok: 'true' }],
+            });
+        });
+
+        it.each([
+            ['id,note\n1', 'orders.csv', 'Line 2: Expected 2 values, but found 1.'],
+            ['id,id\n1,2', 'orders.csv', "Line 1: Column 'id' is named more than once."],
+            ['{"id": 1}\n[1]', 'orders.jsonl', 'Line 2: Each line must hold a JSON object.'],
+            ['[{"id": 1}, 2]', 'orders.json', 'Item 2: Each item of the array must be a JSON object.'],
+            ['[]', 'orders.json', "'orders.json' does not contain any rows."],
+            ['id\n', 'orders.csv', "'orders.csv' does not contain any rows."],
+        ])('reports %j in %s', (content, fileName, message) => {
+            expect(() => DatasetUtils.parse(content, fileName)).toThrow(message);
+        });
+
+        it('reports the line of invalid JSON in an array', () => {
+            expect(() => DatasetUtils.parse('[\n    {"id": 1},\n    {"id": }\n]', 'orders.json')).toThrow(/^Line 3: /);
+        });
+    });
+
+    describe('prepareRow', () => {
+        it('renders the row into the message, identified by the row number', () => {
+            const message = { id: '1', body: '{"customer": "{{customerId}}"}', attributes: [] };
+            const prepared = [{ customerId: 'a' }, { customerId: 'b' }].map((row, index) =>
+                DatasetUtils.prepareRow(message, row, index + 1, 'https://sqs.us-east-1.amazonaws.com/123456789012/q', { variables: {}, env: {} })
+            );
+
+            expect(prepared.map((item) => [item.message.id, item.message.body, item.errors])).toEqual([
+                ['1', '{"customer": "a"}', undefined],
+                ['2', '{"customer": "b"}', undefined],
+            ]);
+        });
+    });
+});
@@ -0,0 +1,338 @@
+import {
+    SqsDataset,
+    SqsDatasetFormat,
+    SqsDatasetResult,
+    SqsDatasetRow,
+    SqsDatasetRowStatus,
+    SqsMessage,
+    SqsPreparedMessage,
+    SqsSchemaSettings,
+    SqsTemplateContext,
+} from '../components/app.component';
+import { BodyUtils } from './body.utils';
+import { MessageUtils } from './message.utils';
+import { TemplateUtils } from './template.utils';
+
+/**
+ * The columns of a send report that precede the dataset's own columns.
+ */
+const REPORT_COLUMNS = ['row', 'status', 'messageId', 'sequenceNumber', 'error'];
+
+const createError = (message: string, line: number) => new Error(`Line ${line}: ${message}`);
+
+export class DatasetUtils {
+    /**
+     * Determines the format of the provided dataset file from its extension, or from its content if the extension is not known.
+     *
+     * @param content     The file's content.
+     * @param fileName    The file's name.
+     */
+    public static detectFormat(content: string, fileName: string): SqsDatasetFormat {
+        const extension = fileName.toLowerCase().split('.').pop();
+
+        if (extension === 'csv') {
+            return 'csv';
+        }
+        if (extension === 'jsonl' || extension === 'ndjson') {
+            return 'jsonLines';
+        }
+
+        // A .json file can hold an array of objects, or one object per line.
+        const start = content.trimStart()[0];
+        if (start === '[') {
+            return 'json';
+        }
+        return start === '{' || extension === 'json' ? 'jsonLines' : 'csv';
+    }
+
+    /**
+     * Parses the provided CSV, JSON or JSON lines file into a dataset.
+     * CSV files must start with a header row. Every value is read as text, and JSON values that are not strings are
+     * written as JSON, so objects can be placed in a JSON body as they are.
+     *
+     * @param content     The file's content.
+     * @param fileName    The file's name, used to determine its format.
+     * @throws            An error naming the line that could not be parsed.
+     */
+    public static parse(content: string, fileName: string): SqsDataset {
+        // A byte order mark would otherwise become part of the first column's name.
+        const text = content.replace(/^\uFEFF/, '');
+        const format = DatasetUtils.detectFormat(text, fileName);
+        const { columns, rows } = format === 'csv' ? DatasetUtils.parseCsv(text) : format === 'json' ? DatasetUtils.parseJson(text) : DatasetUtils.parseJsonLines(text);
+
+        if (!rows.length) {
+            throw new Error(`'${fileName}' does not contain any rows.`);
+        }
+
+        return { fileName, format, columns, rows };
+    }
+
+    /**
+     * Validates that the provided column names can be used as placeholders.
+     *
+     * @param columns    The dataset's column names.
+     * @returns          If any column cannot be used, an array of errors, otherwise undefined.
+     */
+    public static validateColumns(columns: string[]): string[] | undefined {
+        const reservedNames = TemplateUtils.getGeneratorNames();
+        const errors = columns.flatMap((column) => {
+            if (!TemplateUtils.isVariableName(column)) {
+                return [`Column '${column}' cannot be used as a placeholder. Column names must start with a letter and only contain letters, numbers, '_' and '-'.`];
+            }
+            if (reservedNames.includes(column)) {
+                return [`Column '${column}' cannot be used as a placeholder, as the name is reserved for a built-in generator.`];
+            }
+            return [];
+        });
+
+        if (errors.length) {
+            return errors;
+        }
+    }
+
+    /**
+     * Returns warnings about sending the provided message once per row, which are not errors in the message itself.
+     *
+     * @param message     The message template.
+     * @param queueUrl    The SQS queue URL or SNS topic ARN the messages will be posted to.
+     */
+    public static getWarnings(message: SqsMessage, queueUrl: string): string[] {
+        const warnings: string[] = [];
+
+        if (MessageUtils.isFifoQueue(queueUrl) && (message.deduplicationMode ?? 'explicit') === 'explicit') {
+            warnings.push('Every row is sent with the same deduplication ID, so the queue only delivers the first. Choose content-based or auto-generated deduplication instead.');
+        }
+
+        return warnings;
+    }
+
+    /**
+     * Adds the provided row to a template context, so its columns can be referenced like variables, e.g. {{customerId}}.
+     * Columns take precedence over user-defined variables of the same name.
+     *
+     * @param context    The variables available to template expressions.
+     * @param row        The dataset row.
+     */
+    public static toContext(context: SqsTemplateContext, row: SqsDatasetRow): SqsTemplateContext {
+        return { ...context, variables: { ...context.variables, ...row } };
+    }
+
+    /**
+     * Renders the provided message template with the provided row and validates the result, ready to be sent.
+     * Each row's message is identified by its row number, which unlike a random ID is unique within the dataset.
+     *
+     * @param message           The message template.
+     * @param row               The dataset row.
+     * @param rowNumber         The row's number, starting at 1.
+     * @param queueUrl          The SQS queue URL or SNS topic ARN the message will be posted to.
+     * @param context           The variables available to template expressions.
+     * @param schemaSettings    The workspace's schema settings, used to validate the body against a JSON schema.
+     */
+    public static prepareRow(
+        message: SqsMessage,
+        row: SqsDatasetRow,
+        rowNumber: number,
+        queueUrl: string,
+        context: SqsTemplateContext,
+        schemaSettings?: SqsSchemaSettings
+    ): SqsPreparedMessage {
+        return MessageUtils.prepareMessage({ ...message, id: String(rowNumber), errors: undefined }, queueUrl, DatasetUtils.toContext(context, row), schemaSettings);
+    }
+
+    /**
+     * Returns the number of the provided results with each status.
+     *
+     * @param results    The results of sending a dataset.
+     */
+    public static getCounts(results: SqsDatasetResult[]): Record<SqsDatasetRowStatus, number> {
+        return results.reduce<Record<SqsDatasetRowStatus, number>>((counts, result) => ({ ...counts, [result.status]: counts[result.status] + 1 }), {
+            pending: 0,
+            invalid: 0,
+            sent: 0,
+            failed: 0,
+        });
+    }
+
+    /**
+     * Writes the provided results as a CSV report, with one line per row followed by the row's own values.
+     *
+     * @param dataset    The dataset that was sent.
+     * @param results    The results of sending the dataset.
+     */
+    public static toReport(dataset: SqsDataset, results: SqsDatasetResult[]): string {
+        const lines = [
+            [...REPORT_COLUMNS, ...dataset.columns],
+            ...results.map((result) => [
+                String(result.row),
+                result.status,
+                result.messageId ?? '',
+                result.sequenceNumber ?? '',
+                result.errors?.join(' ') ?? '',
+                ...dataset.columns.map((column) => dataset.rows[result.row - 1]?.[column] ?? ''),
+            ]),
+        ];
+
+        return `${lines.map((values) => values.map(DatasetUtils.toCsvValue).join(',')).join('\r\n')}\r\n`;
+    }
+
+    /**
+     * Parses CSV as described by RFC 4180. Quoted values can contain commas, line breaks and doubled quotes.
+     */
+    private static parseCsv(text: string): { columns: string[]; rows: SqsDatasetRow[] } {
+        const records: Array<{ line: number; values: string[] }> = [];
+        let values: string[] = [];
+        let value = '';
+        let quoted = false;
+        let line = 1;
+        let recordLine = 1;
+        let position = 0;
+
+        const endValue = () => {
+            values.push(value);
+            value = '';
+        };
+        const endRecord = () => {
+            endValue();
+            // Blank lines, such as a trailing line break, are skipped.
+            if (values.length > 1 || values[0] !== '') {
+                records.push({ line: recordLine, values });
+            }
+            values = [];
+            recordLine = line;
+        };
+
+        while (position < text.length) {
+            const char = text[position++];
+
+            if (quoted) {
+                if (char === '"' && text[position] === '"') {
+                    value += '"';
+                    position++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    line += char === '\n' ? 1 : 0;
+                    value += char;
+                }
+            } else if (char === '"' && !value) {
+                quoted = true;
+            } else if (char === ',') {
+                endValue();
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && text[position] === '\n') {
+                    position++;
+                }
+                line++;
+                endRecord();
+            } else {
+                value += char;
+            }
+        }
+
+        if (quoted) {
+            throw createError('Unterminated quoted value.', recordLine);
+        }
+        endRecord();
+
+        const [header, ...dataRecords] = records;
+        const columns = header?.values.map((column) => column.trim()) ?? [];
+
+        columns.forEach((column, index) => {
+            if (!column) {
+                throw createError(`Column ${index + 1} has no name.`, 1);
+            }
+            if (columns.indexOf(column) !== index) {
+                throw createError(`Column '${column}' is named more than once.`, 1);
+            }
+        });
+
+        const rows = dataRecords.map((record) => {
+            if (record.values.length !== columns.length) {
+                throw createError(`Expected ${columns.length} values, but found ${record.values.length}.`, record.line);
+            }
+            return Object.fromEntries(columns.map((column, index) => [column, record.values[index]]));
+        });
+
+        return { columns, rows };
+    }
+
+    /**
+     * Parses JSON lines, where each line that is not blank holds an object.
+     */
+    private static parseJsonLines(text: string): { columns: string[]; rows: SqsDatasetRow[] } {
+        const items: unknown[] = [];
+
+        text.split(/\r?\n/).forEach((lineText, index) => {
+            if (!lineText.trim()) {
+                return;
+            }
+
+            let item: unknown;
+            try {
+                item = JSON.parse(lineText);
+            } catch (error) {
+                throw createError((error as Error).message, index + 1);
+            }
+
+            if (!DatasetUtils.isObject(item)) {
+                throw createError('Each line must hold a JSON object.', index + 1);
+            }
+            items.push(item);
+        });
+
+        return DatasetUtils.toRows(items as Array<Record<string, unknown>>);
+    }
+
+    /**
+     * Parses a JSON array of objects.
+     */
+    private static parseJson(text: string): { columns: string[]; rows: SqsDatasetRow[] } {
+        let items: unknown;
+        try {
+            items = JSON.parse(text);
+        } catch (error) {
+            // The body validator reports where the problem is, which the engine's own message may not.
+            const problem = BodyUtils.validate(text, 'json');
+            throw problem ? createError(problem.message, problem.line) : error;
+        }
+
+        if (!Array.isArray(items)) {
+            throw new Error('A JSON file must hold an array of objects, or one object per line.');
+        }
+        items.forEach((item, index) => {
+            if (!DatasetUtils.isObject(item)) {
+                throw new Error(`Item ${index + 1}: Each item of the array must be a JSON object.`);
+            }
+        });
+
+        return DatasetUtils.toRows(items);
+    }
+
+    /**
+     * Converts parsed JSON objects to rows. The columns are the properties found in any row, in the order they first
+     * appear. Rows without a property leave it to the template context.
+     */
+    private static toRows(items: Array<Record<string, unknown>>): { columns: string[]; rows: SqsDatasetRow[] } {
+        const columns: string[] = [];
+        const rows = items.map((item) => {
+            const row = Object.fromEntries(
+                Object.entries(item).map(([column, value]) => [column, typeof value === 'string' ? value : value === null ? '' : JSON.stringify(value)])
+            );
+
+            Object.keys(row)
+                .filter((column) => !columns.includes(column))
+                .forEach((column) => columns.push(column));
+            return row;
+        });
+
+        return { columns, rows };
+    }
+
+    private static isObject(value: unknown): value is Record<string, unknown> {
+        return !!value && typeof value === 'object' && !Array.isArray(value);
+    }
+
+    private static toCsvValue(value: string): string {
+        return /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+    }
+}
@@ -0,0 +1,55 @@
+export type DiffLine = {
+    /**
+     * Whether the line is in both texts, or only the first (removed) or second (added).
+     */
+    type: 'same' | 'added' | 'removed';
+
+    /**
+     * The line's text.
+     */
+    text: string;
+};
+
+export class DiffUtils {
+    /**
+     * Compares the provided texts line by line, using the longest common subsequence of lines.
+     *
+     * @param original    The original text.
+     * @param modified    The modified text.
+     * @returns           The lines of both texts, in order, marked as unchanged, added or removed.
+     */
+    public static diffLines(original: string, modified: string): DiffLine[] {
+        const a = original.split('\n');
+        const b = modified.split('\n');
+
+        // lengths[i][j] is the length of the longest common subsequence of a[i..] and b[j..].
+        const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+        for (let row = a.length - 1; row >= 0; row--) {
+            for (let column = b.length - 1; column >= 0; column--) {
+                lengths[row][column] = a[row] === b[column] ? lengths[row + 1][column + 1] + 1 : Math.max(lengths[row + 1][column], lengths[row][column + 1]);
+            }
+        }
+
+        const lines: DiffLine[] = [];
+        let i = 0;
+        let j = 0;
+
+        while (i < a.length && j < b.length) {
+            if (a[i] === b[j]) {
+                lines.push({ type: 'same', text: a[i] });
+                i++;
+                j++;
+            } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+                lines.push({ type: 'removed', text: a[i++] });
+            } else {
+                lines.push({ type: 'added', text: b[j++] });
+            }
+        }
+
+        a.slice(i).forEach((text) => lines.push({ type: 'removed', text }));
+        b.slice(j).forEach((text) => lines.push({ type: 'added', text }));
+
+        return lines;
+    }
+}
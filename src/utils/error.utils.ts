@@ -0,0 +1,34 @@
+export class ErrorUtils {
+    /**
+     * Returns a human readable message for the provided error.
+     * Anything can be thrown, so values other than Error objects are converted to strings.
+     *
+     * @param error    The caught error.
+     */
+    public static getMessage(error: unknown): string {
+        if (error instanceof Error) {
+            return error.message;
+        }
+        return String(error);
+    }
+
+    /**
+     * Returns the provided error if it is an Error object, or wraps its message in one otherwise,
+     * so callers can rethrow caught errors without passing on plain strings.
+     *
+     * @param error    The caught error.
+     */
+    public static toError(error: unknown): Error {
+        return error instanceof Error ? error : new Error(ErrorUtils.getMessage(error));
+    }
+
+    /**
+     * Returns the error code of the provided error, such as the code of an AWS service error.
+     *
+     * @param error    The caught error.
+     */
+    public static getCode(error: unknown): string | undefined {
+        const code = (error as { code?: unknown } | undefined)?.code;
+        return typeof code === 'string' ? code : undefined;
+    }
+}
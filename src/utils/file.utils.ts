@@ -0,0 +1,47 @@
+export class FileUtils {
+    /**
+     * Prompts the browser to download the provided content as a file.
+     *
+     * @param fileName    The name of the downloaded file.
+     * @param content     The file's content.
+     * @param type        The file's MIME type.
+     */
+    public static download(fileName: string, content: string, type = 'text/plain'): void {
+        const url = URL.createObjectURL(new Blob([content], { type }));
+        const link = document.createElement('a');
+
+        link.href = url;
+        link.download = fileName;
+        link.click();
+
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Reads the provided file's content as text.
+     *
+     * @param file    The file to be read.
+     */
+    public static readText(file: Blob): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsText(file);
+        });
+    }
+
+    /**
+     * Reads the provided file's content as bytes.
+     *
+     * @param file    The file to be read.
+     */
+    public static readBytes(file: Blob): Promise<Uint8Array> {
+        return new Promise<Uint8Array>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+            reader.onerror = () => reject(reader.error);
+            reader.readAsArrayBuffer(file);
+        });
+    }
+}
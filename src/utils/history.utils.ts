@@ -0,0 +1,147 @@
+import { SQS } from 'aws-sdk';
+import { SqsHistoryEntry, SqsSendResult } from '../components/app.component';
+import { MessageUtils } from './message.utils';
+import { StorageUtils } from './storage.utils';
+
+const HISTORY_KEY = 'history';
+
+/**
+ * The maximum number of history entries kept, so browser storage does not run out of space.
+ * The oldest entries are discarded first.
+ */
+const MAX_HISTORY_ENTRIES = 500;
+
+/**
+ * The maximum size of the saved history, in characters of JSON. Browsers allow each site about 5 million characters
+ * of storage, which the history would otherwise fill after a few large messages, leaving no room for the workspaces.
+ */
+const MAX_HISTORY_SIZE = 2000000;
+
+export class HistoryUtils {
+    /**
+     * Creates a history entry recording the outcome of sending the provided request.
+     *
+     * @param request    The exact request sent to SQS.
+     * @param result     The outcome of the send.
+     */
+    public static createEntry(request: SQS.SendMessageRequest, result: SqsSendResult): SqsHistoryEntry {
+        return {
+            id: MessageUtils.generateRandomId(),
+            timestamp: Date.now(),
+            queueUrl: request.QueueUrl,
+            request,
+            messageId: result.messageId,
+            sequenceNumber: result.sequenceNumber,
+            error: result.success ? undefined : result.error || 'Message could not be sent.',
+        };
+    }
+
+    /**
+     * Converts the provided batch request entry to the equivalent single message request.
+     *
+     * @param queueUrl    The SQS queue URL the batch was posted to.
+     * @param entry       The batch request entry.
+     */
+    public static toRequest(queueUrl: string, entry: SQS.SendMessageBatchRequestEntry): SQS.SendMessageRequest {
+        return {
+            QueueUrl: queueUrl,
+            MessageBody: entry.MessageBody,
+            MessageAttributes: entry.MessageAttributes,
+            DelaySeconds: entry.DelaySeconds,
+            MessageGroupId: entry.MessageGroupId,
+            MessageDeduplicationId: entry.MessageDeduplicationId,
+        };
+    }
+
+    /**
+     * Returns true if the provided entry contains the search text in its queue URL, body, attributes, message ID or error.
+     *
+     * @param entry     The history entry.
+     * @param search    The case-insensitive text to search for.
+     */
+    public static matches(entry: SqsHistoryEntry, search: string): boolean {
+        const text = search.trim().toLowerCase();
+        if (!text) {
+            return true;
+        }
+
+        const attributes = Object.entries(entry.request.MessageAttributes ?? {}).map(([name, attribute]) => `${name} ${attribute.StringValue ?? ''}`);
+
+        return [entry.queueUrl, entry.request.MessageBody, entry.messageId ?? '', entry.error ?? '', ...attributes].some((value) => value.toLowerCase().includes(text));
+    }
+
+    /**
+     * Formats the provided entry as text suitable for comparing entries.
+     *
+     * @param entry    The history entry.
+     */
+    public static toDiffText(entry: SqsHistoryEntry): string {
+        const request = { ...entry.request, MessageBody: MessageUtils.formatBody(entry.request.MessageBody) };
+        const details = {
+            sentAt: new Date(entry.timestamp).toISOString(),
+            messageId: entry.messageId,
+            sequenceNumber: entry.sequenceNumber,
+            error: entry.error,
+        };
+
+        return `${JSON.stringify(details, null, 4)}\n${JSON.stringify(request, null, 4).replace(/\\n/g, '\n')}`;
+    }
+
+    /**
+     * Loads the history saved to browser storage, newest first.
+     */
+    public static loadHistory(): SqsHistoryEntry[] {
+        return StorageUtils.load<SqsHistoryEntry[]>(HISTORY_KEY, []).map((entry) => ({ ...entry, request: HistoryUtils.reviveBinaryValues(entry.request) }));
+    }
+
+    /**
+     * Saves the provided history to browser storage, discarding the oldest entries beyond the limits.
+     *
+     * @param history    The history entries, newest first.
+     * @returns          True if the history was saved, or false if browser storage is full.
+     */
+    public static saveHistory(history: SqsHistoryEntry[]): boolean {
+        return StorageUtils.save(HISTORY_KEY, HistoryUtils.limit(history));
+    }
+
+    /**
+     * Adds the provided entries to the start of the history, discarding the oldest entries beyond the limits.
+     *
+     * @param history       The current history entries, newest first.
+     * @param newEntries    The entries to be added.
+     */
+    public static addEntries(history: SqsHistoryEntry[], newEntries: SqsHistoryEntry[]): SqsHistoryEntry[] {
+        return HistoryUtils.limit([...[...newEntries].reverse(), ...history]);
+    }
+
+    /**
+     * Keeps the newest entries that fit within both the entry count and size limits.
+     */
+    private static limit(history: SqsHistoryEntry[]): SqsHistoryEntry[] {
+        let size = 0;
+        let count = 0;
+
+        while (count < Math.min(history.length, MAX_HISTORY_ENTRIES)) {
+            size += JSON.stringify(history[count]).length;
+            if (size > MAX_HISTORY_SIZE) {
+                break;
+            }
+            count++;
+        }
+
+        return count === history.length ? history : history.slice(0, count);
+    }
+
+    /**
+     * Restores Binary attribute values, which are saved to browser storage as serialized Buffers, to bytes.
+     */
+    private static reviveBinaryValues(request: SQS.SendMessageRequest): SQS.SendMessageRequest {
+        const attributes = Object.entries(request.MessageAttributes ?? {}).reduce<SQS.MessageBodyAttributeMap>((map, [name, attribute]) => {
+            const serializedBuffer = attribute.BinaryValue as { type?: string; data?: number[] } | undefined;
+            const binaryValue = serializedBuffer?.type === 'Buffer' && Array.isArray(serializedBuffer.data) ? Buffer.from(serializedBuffer.data) : attribute.BinaryValue;
+            return { ...map, [name]: { ...attribute, BinaryValue: binaryValue } };
+        }, {});
+
+        return { ...request, MessageAttributes: attributes };
+    }
+}
@@ -0,0 +1,301 @@
+/**
+ * The text being parsed, and the position parsing has reached.
+ */
+export type LiteralState = {
+    text: string;
+    position: number;
+};
+
+/**
+ * The JavaScript and Python constants that can be used in literals.
+ */
+const CONSTANTS = new Map<string, unknown>([
+    ['true', true],
+    ['false', false],
+    ['null', null],
+    ['undefined', undefined],
+    ['True', true],
+    ['False', false],
+    ['None', null],
+]);
+
+/**
+ * The characters escaped with a backslash in JavaScript and Python strings, other than unicode and hex escapes.
+ */
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', v: '\v', '0': '\0' };
+
+const IDENTIFIER_PATTERN = /[A-Za-z_$][\w$]*(?:\s*\.\s*[A-Za-z_$][\w$]*)*/y;
+const NUMBER_PATTERN = /-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const KEYWORD_ARGUMENT_PATTERN = /([A-Za-z_]\w*)\s*=(?!=)/y;
+const METHOD_CALL_PATTERN = /\s*\.\s*([A-Za-z_$][\w$]*)\s*\(/y;
+
+const createError = (message: string, state: LiteralState) => new Error(`Line ${state.text.slice(0, state.position).split('\n').length}: ${message}`);
+
+const matchAt = (pattern: RegExp, text: string, position: number) => {
+    pattern.lastIndex = position;
+    return pattern.exec(text);
+};
+
+export class LiteralUtils {
+    /**
+     * Parses the provided text, which must hold a single JavaScript or Python literal, optionally followed by a semicolon.
+     *
+     * @param text    The text to parse.
+     */
+    public static parse(text: string): unknown {
+        const state: LiteralState = { text, position: 0 };
+        const value = LiteralUtils.parseLiteral(state);
+
+        LiteralUtils.skipSpace(state);
+        state.position += text[state.position] === ';' ? 1 : 0;
+        LiteralUtils.skipSpace(state);
+
+        if (state.position < text.length) {
+            throw createError(`Unexpected '${text[state.position]}'.`, state);
+        }
+
+        return value;
+    }
+
+    /**
+     * Parses a JavaScript or Python literal: an object or dict, array or list, string, number or constant.
+     * Buffer.from, base64.b64decode, JSON.stringify and json.dumps calls are evaluated, while other
+     * expressions, such as variables, are skipped and parsed as undefined.
+     *
+     * @param state    The text being parsed, whose position is advanced past the literal.
+     */
+    public static parseLiteral(state: LiteralState): unknown {
+        LiteralUtils.skipSpace(state);
+
+        const { text } = state;
+        const char = text[state.position];
+        let value: unknown;
+
+        if (char === '{') {
+            value = LiteralUtils.parseObject(state);
+        } else if (char === '[') {
+            value = LiteralUtils.parseArray(state);
+        } else if (char === '"' || char === "'" || char === '`') {
+            value = LiteralUtils.parseString(state);
+        } else if ((char === 'b' || char === 'B') && (text[state.position + 1] === '"' || text[state.position + 1] === "'")) {
+            state.position++;
+            value = Buffer.from(LiteralUtils.parseString(state), 'latin1');
+        } else {
+            const numeral = matchAt(NUMBER_PATTERN, text, state.position)?.[0];
+            const name = numeral ? undefined : matchAt(IDENTIFIER_PATTERN, text, state.position)?.[0];
+
+            if (numeral) {
+                state.position += numeral.length;
+                return Number(numeral);
+            }
+            if (!name) {
+                throw createError(char ? `Unexpected '${char}'.` : 'Unexpected end of text.', state);
+            }
+
+            state.position += name.length;
+            if (name === 'new') {
+                LiteralUtils.parseLiteral(state);
+            } else if (text[state.position] === '(') {
+                value = LiteralUtils.callFunction(name.replace(/\s/g, ''), state);
+            } else {
+                value = CONSTANTS.get(name);
+            }
+        }
+
+        // Methods called on a value, such as "text".encode() in Python, are evaluated where known.
+        for (let method = matchAt(METHOD_CALL_PATTERN, text, state.position); method; method = matchAt(METHOD_CALL_PATTERN, text, state.position)) {
+            state.position += method[0].length - 1;
+            LiteralUtils.parseArguments(state);
+            value = method[1] === 'encode' && typeof value === 'string' ? Buffer.from(value, 'utf8') : undefined;
+        }
+
+        return value;
+    }
+
+    /**
+     * Parses the arguments of a call, from its opening parenthesis up to and including its closing parenthesis.
+     *
+     * @param state    The text being parsed, whose position is advanced past the arguments.
+     */
+    public static parseArguments(state: LiteralState): { positionalArguments: unknown[]; keywordArguments: Record<string, unknown> } {
+        const positionalArguments: unknown[] = [];
+        const keywordArguments: Record<string, unknown> = {};
+
+        if (state.text[state.position] === '(') {
+            state.position++;
+        }
+
+        for (;;) {
+            LiteralUtils.skipSpace(state);
+            if (state.text[state.position] === ')') {
+                state.position++;
+                return { positionalArguments, keywordArguments };
+            }
+
+            const keyword = matchAt(KEYWORD_ARGUMENT_PATTERN, state.text, state.position);
+            if (keyword) {
+                state.position += keyword[0].length;
+                keywordArguments[keyword[1]] = LiteralUtils.parseLiteral(state);
+            } else {
+                positionalArguments.push(LiteralUtils.parseLiteral(state));
+            }
+
+            LiteralUtils.skipSeparator(state, ')');
+        }
+    }
+
+    private static callFunction(name: string, state: LiteralState): unknown {
+        const [value, encoding] = LiteralUtils.parseArguments(state).positionalArguments;
+
+        switch (name) {
+            case 'Buffer.from':
+                return typeof value === 'string' ? Buffer.from(value, encoding === 'base64' || encoding === 'hex' ? encoding : 'utf8') : undefined;
+            case 'base64.b64decode':
+                return typeof value === 'string' ? Buffer.from(value, 'base64') : undefined;
+            case 'JSON.stringify':
+            case 'json.dumps':
+                return value === undefined ? undefined : JSON.stringify(value);
+            default:
+                return undefined;
+        }
+    }
+
+    private static parseObject(state: LiteralState): Record<string, unknown> {
+        const entries: Record<string, unknown> = {};
+        state.position++;
+
+        for (;;) {
+            LiteralUtils.skipSpace(state);
+
+            const char = state.text[state.position];
+            if (char === '}') {
+                state.position++;
+                return entries;
+            }
+
+            const name = char === '"' || char === "'" ? undefined : matchAt(/[\w$]+/y, state.text, state.position)?.[0] ?? '';
+            if (name === '') {
+                throw createError(char ? `Unexpected '${char}'.` : 'Unexpected end of text.', state);
+            }
+            state.position += name?.length ?? 0;
+
+            const key = name ?? LiteralUtils.parseString(state);
+            LiteralUtils.skipSpace(state);
+            if (state.text[state.position] !== ':') {
+                throw createError(`Expected ':' after '${key}'.`, state);
+            }
+            state.position++;
+
+            entries[key] = LiteralUtils.parseLiteral(state);
+            LiteralUtils.skipSeparator(state, '}');
+        }
+    }
+
+    private static parseArray(state: LiteralState): unknown[] {
+        const items: unknown[] = [];
+        state.position++;
+
+        for (;;) {
+            LiteralUtils.skipSpace(state);
+            if (state.text[state.position] === ']') {
+                state.position++;
+                return items;
+            }
+
+            items.push(LiteralUtils.parseLiteral(state));
+            LiteralUtils.skipSeparator(state, ']');
+        }
+    }
+
+    /**
+     * Parses a quoted string, including Python's triple-quoted strings and JavaScript's template literals without placeholders.
+     */
+    private static parseString(state: LiteralState): string {
+        const { text } = state;
+        const quote = text[state.position];
+        const delimiter = quote !== '`' && text.startsWith(quote.repeat(3), state.position) ? quote.repeat(3) : quote;
+        let value = '';
+
+        state.position += delimiter.length;
+
+        while (state.position < text.length) {
+            if (text.startsWith(delimiter, state.position)) {
+                state.position += delimiter.length;
+                return value;
+            }
+
+            const char = text[state.position++];
+
+            if (char === '\\') {
+                value += LiteralUtils.parseEscape(state);
+            } else if (quote === '`' && char === '$' && text[state.position] === '{') {
+                throw createError('Template literals with ${...} placeholders cannot be imported.', state);
+            } else if (char === '\n' && delimiter === quote && quote !== '`') {
+                throw createError('Unterminated string.', state);
+            } else {
+                value += char;
+            }
+        }
+
+        throw createError('Unterminated string.', state);
+    }
+
+    private static parseEscape(state: LiteralState): string {
+        const { text } = state;
+        const char = text[state.position++];
+        const readHex = (length: number) => {
+            const hex = text.slice(state.position, state.position + length);
+            if (!/^[\dA-Fa-f]+$/.test(hex) || hex.length !== length) {
+                throw createError(`Invalid escape sequence '\\${char}${hex}'.`, state);
+            }
+            state.position += length;
+            return String.fromCodePoint(parseInt(hex, 16));
+        };
+
+        if (char === 'u' && text[state.position] === '{') {
+            state.position++;
+            const end = text.indexOf('}', state.position);
+            const value = readHex(end - state.position);
+            state.position++;
+            return value;
+        }
+
+        switch (char) {
+            case 'u':
+                return readHex(4);
+            case 'U':
+                return readHex(8);
+            case 'x':
+                return readHex(2);
+            case '\r':
+                state.position += text[state.position] === '\n' ? 1 : 0;
+                return '';
+            case '\n':
+                return '';
+            default:
+                return ESCAPES[char] ?? char;
+        }
+    }
+
+    /**
+     * Skips whitespace and JavaScript and Python comments.
+     */
+    private static skipSpace(state: LiteralState): void {
+        const space = matchAt(/(?:\s+|\/\/[^\n]*|#[^\n]*|\/\*[\s\S]*?\*\/)*/y, state.text, state.position);
+        state.position += space?.[0].length ?? 0;
+    }
+
+    /**
+     * Skips the comma after an entry, which is optional before the closing bracket.
+     */
+    private static skipSeparator(state: LiteralState, closing: string): void {
+        LiteralUtils.skipSpace(state);
+
+        const char = state.text[state.position];
+        if (char === ',') {
+            state.position++;
+        } else if (char !== closing) {
+            throw createError(char ? `Expected ',' or '${closing}', but found '${char}'.` : `Expected '${closing}'.`, state);
+        }
+    }
+}
@@ -0,0 +1,138 @@
+import { SqsLoadTestOptions, SqsLoadTestStats, SqsMessage, SqsSendResult } from '../components/app.component';
+import { MessageUtils } from './message.utils';
+
+/**
+ * The largest number of requests a load test can have in flight at once.
+ */
+const MAX_CONCURRENCY = 50;
+
+/**
+ * Error codes SQS, and the emulators that mimic it, return when requests are being throttled.
+ */
+const THROTTLING_ERROR_CODES = ['RequestThrottled', 'ThrottlingException', 'Throttling', 'AWS.SimpleQueueService.RequestThrottled', 'KmsThrottled'];
+
+export class LoadTestUtils {
+    /**
+     * Returns the options a new load test starts with.
+     */
+    public static getDefaultOptions(): SqsLoadTestOptions {
+        return {
+            mode: 'count',
+            count: 1000,
+            durationSeconds: 60,
+            ratePerSecond: 50,
+            concurrency: 5,
+            batching: true,
+        };
+    }
+
+    /**
+     * Validates the provided load test options for errors.
+     *
+     * @param options    The load test options.
+     * @returns          If invalid, an array of errors, otherwise undefined.
+     */
+    public static validateOptions(options: SqsLoadTestOptions): string[] | undefined {
+        const errors: string[] = [];
+
+        if (options.mode === 'count' && (!Number.isInteger(options.count) || options.count < 1)) {
+            errors.push('Message Count must be a whole number of at least 1.');
+        }
+        if (options.mode === 'duration' && (!Number.isInteger(options.durationSeconds) || options.durationSeconds < 1)) {
+            errors.push('Duration must be a whole number of seconds of at least 1.');
+        }
+        if (!(options.ratePerSecond > 0)) {
+            errors.push('Rate must be greater than 0 messages per second.');
+        }
+        if (!Number.isInteger(options.concurrency) || options.concurrency < 1 || options.concurrency > MAX_CONCURRENCY) {
+            errors.push(`Concurrency must be a whole number between 1 and ${MAX_CONCURRENCY}.`);
+        }
+
+        if (errors.length) {
+            return errors;
+        }
+    }
+
+    /**
+     * Converts the provided message to a load test template. On FIFO queues and topics every message is given a generated
+     * deduplication ID, as an explicit ID, or content-based deduplication of a fixed body, would have SQS accept every
+     * message but deliver only the first, while the load test reported them all as sent.
+     *
+     * @param message     The message used as a template.
+     * @param queueUrl    The SQS queue URL or SNS topic ARN the load is sent to.
+     */
+    public static toTemplate(message: SqsMessage, queueUrl: string): SqsMessage {
+        return MessageUtils.isFifoQueue(queueUrl) ? { ...message, deduplicationMode: 'generated', messageDeduplicationId: undefined } : message;
+    }
+
+    /**
+     * Creates empty statistics for a new load test.
+     */
+    public static createStats(): SqsLoadTestStats {
+        return { sent: 0, failed: 0, throttled: 0, latencies: [], errors: {}, elapsed: 0 };
+    }
+
+    /**
+     * Adds the results of a single request to the provided statistics.
+     * The statistics are updated in place, as load tests record many thousands of requests.
+     *
+     * @param stats      The load test statistics.
+     * @param results    The results of each message in the request.
+     * @param latency    The duration of the request, in milliseconds.
+     */
+    public static recordResults(stats: SqsLoadTestStats, results: SqsSendResult[], latency: number): void {
+        stats.latencies.push(latency);
+
+        results.forEach((result) => {
+            if (result.success) {
+                stats.sent++;
+                return;
+            }
+
+            const error = result.error || 'Message could not be sent.';
+            stats.failed++;
+            stats.errors[error] = (stats.errors[error] ?? 0) + 1;
+
+            if (LoadTestUtils.isThrottled(result.errorCode)) {
+                stats.throttled++;
+            }
+        });
+    }
+
+    /**
+     * Returns the provided percentiles of the request latencies, using the nearest-rank method.
+     *
+     * @param latencies      The duration of each request, in milliseconds.
+     * @param percentiles    The percentiles, each between 0 and 100.
+     * @returns              The latency in milliseconds for each percentile, or undefined if no requests were made.
+     */
+    public static getPercentiles(latencies: number[], percentiles: number[]): Array<number | undefined> {
+        const sorted = [...latencies].sort((a, b) => a - b);
+
+        return percentiles.map((percentile) => {
+            if (!sorted.length) {
+                return undefined;
+            }
+            const rank = Math.ceil((percentile / 100) * sorted.length);
+            return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+        });
+    }
+
+    /**
+     * Returns the number of messages accepted by SQS per second.
+     *
+     * @param stats    The load test statistics.
+     */
+    public static getThroughput(stats: SqsLoadTestStats): number {
+        return stats.elapsed ? (stats.sent / stats.elapsed) * 1000 : 0;
+    }
+
+    /**
+     * Returns true if the provided error code indicates the request was throttled, otherwise false.
+     *
+     * @param code    The error code returned by SQS.
+     */
+    public static isThrottled(code: string | undefined): boolean {
+        return !!code && THROTTLING_ERROR_CODES.includes(code);
+    }
+}
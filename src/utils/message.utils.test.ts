@@ -0,0 +1,134 @@
+import { SQS } from 'aws-sdk';
+import { MessageUtils } from './message.utils';
+
+// The expected digests follow SQS's documented algorithm and were calculated independently of this implementation:
+// https://docs.aws.amazon.com/AWSSimpleQueueService/latest/SQSDeveloperGuide/sqs-message-metadata.html#sqs-attributes-md5-message-digest-calculation
+describe('MessageUtils', () => {
+    describe('getBodyMd5', () => {
+        it.each([
+            ['Hello, World!', '65a8e27d8879283831b664bd8b7f0ad4'],
+            ['', 'd41d8cd98f00b204e9800998ecf8427e'],
+            ['{"orderId": 42, "note": "héllo 😀"}', '961cebadba0b0eeb91a1ca15ab4265d9'],
+        ])('digests %j as UTF-8', (body, expected) => {
+            expect(MessageUtils.getBodyMd5(body)).toBe(expected);
+        });
+    });
+
+    describe('getAttributesMd5', () => {
+        it('digests a String attribute', () => {
+            expect(MessageUtils.getAttributesMd5({ Greeting: { DataType: 'String', StringValue: 'Hello' } })).toBe('a878768cfce718f67a3f3ec5ca658b8d');
+        });
+
+        it('digests a String attribute as UTF-8', () => {
+            expect(MessageUtils.getAttributesMd5({ Name: { DataType: 'String', StringValue: 'Zoë 😀' } })).toBe('2dbbb55f3d4405df4b5ea8b6919fda74');
+        });
+
+        it('digests a Number attribute', () => {
+            expect(MessageUtils.getAttributesMd5({ Count: { DataType: 'Number', StringValue: '42' } })).toBe('e4f5bb7e5116e9e6077cc94f3d330702');
+        });
+
+        it('digests a Binary attribute', () => {
+            const expected = 'dd073d27fe7cef79b6063ea323517cef';
+
+            expect(MessageUtils.getAttributesMd5({ Payload: { DataType: 'Binary', BinaryValue: Uint8Array.from([0, 1, 2, 255]) } })).toBe(expected);
+            expect(MessageUtils.getAttributesMd5({ Payload: { DataType: 'Binary', BinaryValue: Buffer.from([0, 1, 2, 255]) } })).toBe(expected);
+        });
+
+        it('digests custom labels as part of the data type', () => {
+            const attributes: SQS.MessageBodyAttributeMap = {
+                Price: { DataType: 'Number.float', StringValue: '9.99' },
+                Doc: { DataType: 'String.json', StringValue: '{"a":1}' },
+                Image: { DataType: 'Binary.gif', BinaryValue: Buffer.from('GIF89a') },
+            };
+
+            expect(MessageUtils.getAttributesMd5(attributes)).toBe('e0240c7e505e3d580fbb1efe1ddb1561');
+        });
+
+        it('digests attributes in name order, regardless of their order in the request', () => {
+            const expected = 'a44c00116f4785b393a584503d4c1791';
+            const greeting = { DataType: 'String', StringValue: 'Hello' };
+            const count = { DataType: 'Number', StringValue: '42' };
+            const payload = { DataType: 'Binary', BinaryValue: Uint8Array.from([0, 1, 2, 255]) };
+
+            expect(MessageUtils.getAttributesMd5({ Greeting: greeting, Count: count, Payload: payload })).toBe(expected);
+            expect(MessageUtils.getAttributesMd5({ Payload: payload, Count: count, Greeting: greeting })).toBe(expected);
+        });
+
+        it('returns undefined when there are no attributes', () => {
+            expect(MessageUtils.getAttributesMd5(undefined)).toBeUndefined();
+            expect(MessageUtils.getAttributesMd5({})).toBeUndefined();
+        });
+    });
+
+    describe('toDataType', () => {
+        it('appends the custom label to the type', () => {
+            expect(MessageUtils.toDataType({ type: 'Number', label: 'int' })).toBe('Number.int');
+            expect(MessageUtils.toDataType({ type: 'String' })).toBe('String');
+        });
+
+        it('sends the trimmed label that was validated', () => {
+            const attribute = { id: '1', name: 'Doc', type: 'String' as const, label: ' json ', value: '{}' };
+
+            expect(MessageUtils.toDataType(attribute)).toBe('String.json');
+            expect(
+                MessageUtils.toRequest('https://sqs.us-east-1.amazonaws.com/123456789012/q', { id: '1', body: 'a', attributes: [attribute] }).MessageAttributes?.Doc.DataType
+            ).toBe('String.json');
+            expect(MessageUtils.toDataType({ type: 'String', label: '  ' })).toBe('String');
+        });
+    });
+
+    describe('toBatchRequests', () => {
+        it('identifies entries by their position, so messages with the same ID can be sent together', () => {
+            const messages = [1, 2, 3].map((position) => ({ id: 'same', body: `Message ${position}`, attributes: [] }));
+
+            expect(MessageUtils.toBatchRequests('https://sqs.us-east-1.amazonaws.com/123456789012/q', messages)[0].Entries.map((entry) => [entry.Id, entry.MessageBody])).toEqual([
+                ['0', 'Message 1'],
+                ['1', 'Message 2'],
+                ['2', 'Message 3'],
+            ]);
+            expect(MessageUtils.toPublishBatchRequests('arn:aws:sns:us-east-1:123456789012:t', messages)[0].PublishBatchRequestEntries.map((entry) => entry.Id)).toEqual([
+                '0',
+                '1',
+                '2',
+            ]);
+        });
+
+        it('numbers entries across batches', () => {
+            const messages = Array.from({ length: 12 }, (_, index) => ({ id: String(index % 2), body: 'a', attributes: [] }));
+
+            expect(MessageUtils.toBatchRequests('https://sqs.us-east-1.amazonaws.com/123456789012/q', messages).map((request) => request.Entries.map((entry) => entry.Id))).toEqual(
+                [
+                    ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
+                    ['10', '11'],
+                ]
+            );
+        });
+    });
+
+    describe('verifyChecksums', () => {
+        const request = { MessageBody: 'Hello, World!', MessageAttributes: { Greeting: { DataType: 'String', StringValue: 'Hello' } } };
+
+        it('accepts matching digests', () => {
+            expect(
+                MessageUtils.verifyChecksums(request, { MD5OfMessageBody: '65a8e27d8879283831b664bd8b7f0ad4', MD5OfMessageAttributes: 'a878768cfce718f67a3f3ec5ca658b8d' })
+            ).toBeUndefined();
+        });
+
+        it('reports a body digest mismatch', () => {
+            const warnings = MessageUtils.verifyChecksums(request, {
+                MD5OfMessageBody: 'd41d8cd98f00b204e9800998ecf8427e',
+                MD5OfMessageAttributes: 'a878768cfce718f67a3f3ec5ca658b8d',
+            });
+
+            expect(warnings).toHaveLength(1);
+            expect(warnings?.[0]).toContain('body');
+        });
+
+        it('reports missing or mismatched attribute digests', () => {
+            expect(MessageUtils.verifyChecksums(request, { MD5OfMessageBody: '65a8e27d8879283831b664bd8b7f0ad4' })).toHaveLength(1);
+            expect(
+                MessageUtils.verifyChecksums(request, { MD5OfMessageBody: '65a8e27d8879283831b664bd8b7f0ad4', MD5OfMessageAttributes: 'e4f5bb7e5116e9e6077cc94f3d330702' })
+            ).toHaveLength(1);
+        });
+    });
+});
@@ -1,5 +1,160 @@
-import { SQS } from 'aws-sdk';
-import { SqsMessage, SqsMessageAttribute, SqsMessageAttributeType } from '../components/app.component';
+import { SNS, SQS } from 'aws-sdk';
+import { createHash } from 'crypto';
+import {
+    SqsBinaryEncoding,
+    SqsBodyFormat,
+    SqsMessage,
+    SqsMessageAttribute,
+    SqsMessageAttributeType,
+    SqsMessageAttributeValue,
+    SqsMessageItem,
+    SqsPreparedMessage,
+    SqsReceivedMessage,
+    SqsSchemaSettings,
+    SqsTemplateContext,
+} from '../components/app.component';
+import { BodyUtils } from './body.utils';
+import { LiteralUtils } from './literal.utils';
+import { SchemaUtils } from './schema.utils';
+import { TemplateUtils } from './template.utils';
+
+/**
+ * The maximum length of a FIFO message group ID or deduplication ID.
+ */
+const FIFO_ID_MAX_LENGTH = 128;
+
+/**
+ * The maximum number of seconds a standard queue message can be delayed.
+ */
+const MAX_DELAY_SECONDS = 900;
+
+/**
+ * The maximum number of entries in a single SendMessageBatch request.
+ */
+const MAX_BATCH_ENTRIES = 10;
+
+/**
+ * The maximum payload size, in bytes, of a single message or batch request.
+ */
+const MAX_PAYLOAD_SIZE = 262144;
+
+/**
+ * The maximum number of custom attributes a message can have.
+ */
+const MAX_ATTRIBUTES = 10;
+
+/**
+ * The maximum length of an attribute name.
+ */
+const MAX_ATTRIBUTE_NAME_LENGTH = 256;
+
+/**
+ * The characters allowed in attribute names: alphanumerics, hyphens, underscores and periods.
+ */
+const ATTRIBUTE_NAME_PATTERN = /^[A-Za-z0-9_.-]*$/;
+
+/**
+ * Attribute name prefixes reserved by AWS, matched case-insensitively.
+ */
+const RESERVED_ATTRIBUTE_NAME_PREFIXES = ['aws.', 'amazon.'];
+
+/**
+ * Matches any character outside the Unicode ranges SQS allows in bodies and String values:
+ * #x9 | #xA | #xD | #x20 to #xD7FF | #xE000 to #xFFFD | #x10000 to #x10FFFF.
+ */
+const INVALID_CHARACTER_PATTERN = /[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/u;
+
+/**
+ * The maximum length of an attribute's data type, including its custom label.
+ */
+const MAX_DATA_TYPE_LENGTH = 256;
+
+const isParsableJson = (text: string) => {
+    try {
+        JSON.parse(text);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const isUrl = (text: string) => {
+    try {
+        new URL(text);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Value rules for common custom labels on String and Number attributes, matched case-insensitively.
+ */
+const LABEL_RULES: Array<{ labels: string[]; description: string; isValid: (value: string) => boolean }> = [
+    { labels: ['json'], description: 'valid JSON', isValid: isParsableJson },
+    { labels: ['int', 'integer', 'long'], description: 'an integer', isValid: (value) => /^[+-]?\d+$/.test(value.trim()) },
+    { labels: ['bool', 'boolean'], description: "'true' or 'false'", isValid: (value) => value === 'true' || value === 'false' },
+    { labels: ['uuid'], description: 'a UUID', isValid: (value) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value) },
+    { labels: ['url', 'uri'], description: 'an absolute URL', isValid: isUrl },
+];
+
+/**
+ * The leading bytes of common file formats, checked for Binary attributes labelled with the format.
+ */
+const BINARY_SIGNATURES: Record<string, number[]> = {
+    png: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+    jpg: [0xff, 0xd8, 0xff],
+    jpeg: [0xff, 0xd8, 0xff],
+    gif: [0x47, 0x49, 0x46, 0x38],
+    pdf: [0x25, 0x50, 0x44, 0x46],
+    zip: [0x50, 0x4b, 0x03, 0x04],
+    gzip: [0x1f, 0x8b],
+};
+
+/**
+ * The maximum number of significant digits in a Number attribute.
+ */
+const MAX_NUMBER_PRECISION = 38;
+
+/**
+ * The smallest and largest magnitudes of a non-zero Number attribute.
+ */
+const MIN_NUMBER_MAGNITUDE = 1e-128;
+const MAX_NUMBER_MAGNITUDE = 1e126;
+
+/**
+ * The maximum length of an SNS message subject.
+ */
+const MAX_SUBJECT_LENGTH = 100;
+
+/**
+ * The printable ASCII characters SNS allows in a message subject, which cannot contain line breaks.
+ */
+const SUBJECT_PATTERN = /^[\x20-\x7E]*$/;
+
+/**
+ * Alphanumeric characters and punctuation, as allowed by SQS for FIFO group and deduplication IDs.
+ */
+const FIFO_ID_PATTERN = /^[A-Za-z0-9!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]*$/;
+
+/**
+ * The transport type bytes SQS writes before each attribute value when hashing message attributes.
+ */
+const STRING_TRANSPORT_TYPE = 1;
+const BINARY_TRANSPORT_TYPE = 2;
+
+/**
+ * The patterns text must match to be decoded as binary, once whitespace is removed.
+ */
+const BINARY_ENCODING_PATTERNS: Record<SqsBinaryEncoding, RegExp> = {
+    base64: /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/,
+    hex: /^(?:[0-9A-Fa-f]{2})*$/,
+};
+
+/**
+ * The optional message fields that must hold text when read from a messages.js or JSON file.
+ */
+const ITEM_STRING_FIELDS = ['bodyFormat', 'messageGroupId', 'messageDeduplicationId', 'deduplicationMode', 'subject', 'messageStructure'];
 
 export class MessageUtils {
     /**
@@ -9,38 +164,137 @@ export class MessageUtils {
         return Math.round(Math.random() * 100000).toString();
     }
 
+    /**
+     * Generates a new deduplication ID for a FIFO message.
+     * Unlike random IDs, these are unique enough to not collide within the SQS deduplication interval.
+     */
+    public static generateDeduplicationId(): string {
+        return `${Date.now()}-${MessageUtils.generateRandomId()}`;
+    }
+
+    /**
+     * Returns true if the provided target is an SNS topic ARN rather than an SQS queue URL, otherwise false.
+     *
+     * @param target    The SQS queue URL or SNS topic ARN.
+     */
+    public static isTopicArn(target: string | undefined): boolean {
+        return !!target && /^arn:[^:]+:sns:/.test(target.trim());
+    }
+
+    /**
+     * Returns true if the provided queue URL refers to a FIFO queue, otherwise false.
+     * SNS topic ARNs are also supported, as FIFO topics share the .fifo suffix.
+     *
+     * @param queueUrl    The SQS queue URL or SNS topic ARN.
+     */
+    public static isFifoQueue(queueUrl: string | undefined): boolean {
+        return !!queueUrl && queueUrl.trim().endsWith('.fifo');
+    }
+
     /**
      * Formats the provided message body.
-     * If provided JSON content, this will indent the content.
+     * If provided JSON content, including arrays and template expressions, this will indent the content.
      *
-     * @param body    The message body.
+     * @param body      The message body.
+     * @param format    The body's format, detected from the body when not provided.
+     */
+    public static formatBody(body: string, format = BodyUtils.detectFormat(body)): string {
+        const text = body.trim();
+
+        try {
+            return format === 'json' ? BodyUtils.format(text, format) : text;
+        } catch {
+            return text;
+        }
+    }
+
+    /**
+     * Returns the format of the provided message's body, as chosen in the editor or otherwise detected from the body.
+     *
+     * @param message    The SQS message.
+     */
+    public static getBodyFormat(message: Pick<SqsMessage, 'body' | 'bodyFormat'>): SqsBodyFormat {
+        return message.bodyFormat ?? BodyUtils.detectFormat(message.body);
+    }
+
+    /**
+     * Returns the body that is sent for the provided message. YAML bodies are converted to JSON and JSON or
+     * XML bodies are minified when the message asks for it, otherwise the body is sent as written.
+     * Bodies that cannot be parsed are also sent as written, as validateMessage reports them.
+     *
+     * @param message    The SQS message.
      */
-    public static formatBody(body: string): string {
-        let text = body.trim();
+    public static toPayloadBody(message: Pick<SqsMessage, 'body' | 'bodyFormat' | 'convertToJson' | 'minifyBody'>): string {
+        const format = MessageUtils.getBodyFormat(message);
 
         try {
-            if (MessageUtils.isJson(text)) {
-                const obj = JSON.parse(text);
-                text = JSON.stringify(obj, null, 4);
+            if (message.convertToJson && format === 'yaml') {
+                return BodyUtils.toJson(message.body, message.minifyBody);
+            }
+            if (message.minifyBody && BodyUtils.canMinify(format)) {
+                return BodyUtils.minify(message.body, format);
             }
         } catch {
             // do nothing
         }
 
-        return text;
+        return message.body;
     }
 
     /**
      * Validates the provided SQS message for errors.
+     * Values containing template expressions are only checked once rendered.
      *
-     * @param message    The SQS message to be validated.
-     * @returns          If invalid, an array of errors, otherwise undefined.
+     * @param message           The SQS message to be validated.
+     * @param queueUrl          The SQS queue URL the message will be posted to, used to detect FIFO queues.
+     * @param schemaSettings    The workspace's schema settings, used to validate the body against a JSON schema.
+     * @returns                 If invalid, an array of errors, otherwise undefined.
      */
-    public static validateMessage(message: SqsMessage): string[] | undefined {
+    public static validateMessage(message: SqsMessage, queueUrl?: string, schemaSettings?: SqsSchemaSettings): string[] | undefined {
         const errors: string[] = [];
 
         if (!message.body) {
             errors.push('Body is not defined.');
+        } else {
+            errors.push(...MessageUtils.validateCharacters('Body', message.body));
+            errors.push(...MessageUtils.validatePayloadBody(message));
+        }
+
+        const schema = SchemaUtils.selectSchema(message, schemaSettings);
+        if (schema && schemaSettings && message.body && !TemplateUtils.hasTemplate(message.body)) {
+            errors.push(...SchemaUtils.validateBody(MessageUtils.toPayloadBody(message), schema, schemaSettings.schemas));
+        }
+
+        if (MessageUtils.isFifoQueue(queueUrl)) {
+            if (!message.messageGroupId) {
+                errors.push('Message Group ID is required for FIFO queues.');
+            } else {
+                errors.push(...MessageUtils.validateFifoId('Message Group ID', message.messageGroupId));
+            }
+
+            if ((message.deduplicationMode ?? 'explicit') === 'explicit') {
+                if (!message.messageDeduplicationId) {
+                    errors.push('Message Deduplication ID is required unless content-based or generated deduplication is chosen.');
+                } else {
+                    errors.push(...MessageUtils.validateFifoId('Message Deduplication ID', message.messageDeduplicationId));
+                }
+            }
+
+            if (message.delaySeconds !== undefined) {
+                errors.push('Delay Seconds cannot be set per message on FIFO queues.');
+            }
+        } else if (MessageUtils.isTopicArn(queueUrl)) {
+            if (message.delaySeconds !== undefined) {
+                errors.push('Delay Seconds is not supported when publishing to an SNS topic.');
+            }
+        } else if (message.delaySeconds !== undefined) {
+            if (!Number.isInteger(message.delaySeconds) || message.delaySeconds < 0 || message.delaySeconds > MAX_DELAY_SECONDS) {
+                errors.push(`Delay Seconds must be a whole number between 0 and ${MAX_DELAY_SECONDS}.`);
+            }
+        }
+
+        if (MessageUtils.isTopicArn(queueUrl)) {
+            errors.push(...MessageUtils.validatePublishFields(message));
         }
 
         const attributeTypes = Object.keys(MessageUtils.getAttributeTypes());
@@ -49,75 +303,582 @@ export class MessageUtils {
             errors.push(`Attribute Name is not unique.`);
         }
 
+        if (message.attributes.length > MAX_ATTRIBUTES) {
+            errors.push(`A message cannot have more than ${MAX_ATTRIBUTES} attributes.`);
+        }
+
         message.attributes.forEach((attribute, index) => {
             if (!attribute.name) {
                 errors.push(`Attribute Name at position ${index} is undefined.`);
+            } else {
+                errors.push(...MessageUtils.validateAttributeName(`Attribute Name at position ${index}`, attribute.name));
             }
             if (!attribute.value) {
                 errors.push(`Attribute Value at position ${index} is undefined.`);
-            } else if (attribute.type === 'Number' && !MessageUtils.isNumeric(attribute.value)) {
+            } else if (attribute.type === 'Number' && !TemplateUtils.hasTemplate(attribute.value) && !MessageUtils.isNumeric(attribute.value)) {
                 errors.push(`Attribute value at position ${index} is not a number.`);
+            } else if (attribute.type === 'Number' && !TemplateUtils.hasTemplate(attribute.value)) {
+                errors.push(...MessageUtils.validateNumber(`Attribute value at position ${index}`, attribute.value as string));
+            } else if (attribute.type === 'String' && typeof attribute.value === 'string') {
+                errors.push(...MessageUtils.validateCharacters(`Attribute value at position ${index}`, attribute.value));
+            } else if (attribute.type === 'Binary' && typeof attribute.value === 'string' && !MessageUtils.isBinaryValid(attribute.value, attribute.encoding)) {
+                errors.push(`Attribute value at position ${index} is not valid ${attribute.encoding ?? 'base64'}.`);
             }
             if (!attributeTypes.some((type) => attribute.type === type)) {
                 errors.push(`Attribute Data Type at position ${index} is invalid.`);
+            } else if (attribute.label !== undefined) {
+                errors.push(...MessageUtils.validateLabel(`Attribute Data Type at position ${index}`, attribute));
             }
         });
 
+        if (message.tags && (!Array.isArray(message.tags) || message.tags.some((tag) => typeof tag !== 'string' || !tag))) {
+            errors.push('Tags must be a list of non-empty strings.');
+        }
+
+        // The size is only known once every attribute can be mapped to a request.
+        if (message.attributes.every((attribute) => attributeTypes.includes(attribute.type))) {
+            const size = MessageUtils.getMessageSize(message);
+            if (size > MAX_PAYLOAD_SIZE) {
+                errors.push(`Message size of ${size} bytes exceeds the limit of ${MAX_PAYLOAD_SIZE} bytes, counting the body and attributes together.`);
+            }
+        }
+
         if (errors.length) {
             return errors;
         }
     }
 
+    /**
+     * Validates the provided message and resolves its template expressions, ready to be sent.
+     * The rendered message is validated again, as generated values must satisfy the same rules.
+     *
+     * @param message           The SQS message.
+     * @param queueUrl          The SQS queue URL or SNS topic ARN the message will be posted to.
+     * @param context           The variables available to template expressions.
+     * @param schemaSettings    The workspace's schema settings, used to validate the body against a JSON schema.
+     */
+    public static prepareMessage(message: SqsMessage, queueUrl: string | undefined, context: SqsTemplateContext, schemaSettings?: SqsSchemaSettings): SqsPreparedMessage {
+        const errors = [...(MessageUtils.validateMessage(message, queueUrl, schemaSettings) ?? []), ...(TemplateUtils.validateMessage(message, context) ?? [])];
+
+        if (errors.length) {
+            return { message, errors };
+        }
+
+        const renderedMessage = TemplateUtils.renderMessage(message, context);
+        const renderedErrors = MessageUtils.validateMessage(renderedMessage, queueUrl, schemaSettings);
+
+        return { message: renderedMessage, errors: renderedErrors?.map((error) => `Rendered message: ${error}`) };
+    }
+
     /**
      * Converts the provided SQS message to an AQS SQS message request.
+     * FIFO fields are only mapped when the queue is a FIFO queue, and the delay only when it is not.
      *
      * @param queryUrl    The SQS queue URL the message will be posted to.
      * @param message     The SQS message details.
      */
     public static toRequest(queryUrl: string, message: SqsMessage): SQS.SendMessageRequest {
         const mapAttribute = (attribute: SqsMessageAttribute): SQS.MessageAttributeValue => {
+            const dataType = MessageUtils.toDataType(attribute);
+
             switch (attribute.type) {
                 case 'String':
                 case 'Number':
-                    return { DataType: attribute.type, StringValue: attribute.value as string };
+                    return { DataType: dataType, StringValue: attribute.value as string };
                 case 'Binary':
-                    return { DataType: attribute.type, BinaryValue: attribute.value };
+                    return { DataType: dataType, BinaryValue: MessageUtils.decodeBinary(attribute.value, attribute.encoding) };
                 default:
                     throw new Error(`Could not map unknown attribute type: '${attribute.type}'.`);
             }
         };
 
-        return {
+        const request: SQS.SendMessageRequest = {
             QueueUrl: queryUrl,
-            MessageBody: message.body,
+            MessageBody: MessageUtils.toPayloadBody(message),
             MessageAttributes: message.attributes.reduce<SQS.MessageBodyAttributeMap>((map, attribute) => {
                 return { ...map, [attribute.name]: mapAttribute(attribute) };
             }, {}),
         };
+
+        if (MessageUtils.isFifoQueue(queryUrl)) {
+            request.MessageGroupId = message.messageGroupId;
+
+            switch (message.deduplicationMode ?? 'explicit') {
+                case 'explicit':
+                    request.MessageDeduplicationId = message.messageDeduplicationId;
+                    break;
+                case 'generated':
+                    request.MessageDeduplicationId = MessageUtils.generateDeduplicationId();
+                    break;
+            }
+        } else if (message.delaySeconds !== undefined) {
+            request.DelaySeconds = message.delaySeconds;
+        }
+
+        return request;
+    }
+
+    /**
+     * Converts the provided SQS message to an AWS SNS publish request, the counterpart of toRequest for SNS topics.
+     * FIFO fields are only mapped when the topic is a FIFO topic. The subject and message structure are only
+     * supported by SNS, while the delay is only supported by SQS.
+     *
+     * @param topicArn    The ARN of the SNS topic the message will be published to.
+     * @param message     The SQS message details.
+     */
+    public static toPublishRequest(topicArn: string, message: SqsMessage): SNS.PublishInput {
+        return { TopicArn: topicArn, ...MessageUtils.toPublishFields(topicArn, message) };
+    }
+
+    /**
+     * Converts the provided SQS messages to AWS SNS publish batch requests.
+     * Messages are split into chunks that fit within the batch entry count and payload size limits.
+     * Each entry's ID is the message's position in the provided list, so results can be mapped back to their messages
+     * even if message IDs repeat.
+     *
+     * @param topicArn    The ARN of the SNS topic the messages will be published to.
+     * @param messages    The SQS messages to be published.
+     */
+    public static toPublishBatchRequests(topicArn: string, messages: SqsMessage[]): SNS.PublishBatchInput[] {
+        const entries = messages.map((message, index) => {
+            const request = MessageUtils.toPublishFields(topicArn, message);
+            const size = MessageUtils.getRequestSize({ MessageBody: request.Message, MessageAttributes: request.MessageAttributes });
+            return { entry: { Id: String(index), ...request }, size };
+        });
+
+        return MessageUtils.toBatches(entries).map((batch) => ({ TopicArn: topicArn, PublishBatchRequestEntries: batch }));
+    }
+
+    /**
+     * Converts the provided SQS messages to AWS SQS batch requests.
+     * Messages are split into chunks that fit within the batch entry count and payload size limits.
+     * Each entry's ID is the message's position in the provided list, so results can be mapped back to their messages
+     * even if message IDs repeat.
+     *
+     * @param queryUrl    The SQS queue URL the messages will be posted to.
+     * @param messages    The SQS messages to be sent.
+     */
+    public static toBatchRequests(queryUrl: string, messages: SqsMessage[]): SQS.SendMessageBatchRequest[] {
+        const entries = messages.map((message, index) => {
+            const entry: SQS.SendMessageBatchRequestEntry & Partial<SQS.SendMessageRequest> = { Id: String(index), ...MessageUtils.toRequest(queryUrl, message) };
+            delete entry.QueueUrl;
+            return { entry, size: MessageUtils.getRequestSize(entry) };
+        });
+
+        return MessageUtils.toBatches(entries).map((batch) => ({ QueueUrl: queryUrl, Entries: batch }));
+    }
+
+    /**
+     * Calculates the size, in bytes, SQS counts towards the payload limit for the provided request.
+     * This includes the body along with each attribute's name, data type and value.
+     *
+     * @param request    The message request.
+     */
+    public static getRequestSize(request: Pick<SQS.SendMessageRequest, 'MessageBody' | 'MessageAttributes'>): number {
+        const encoder = new TextEncoder();
+        const attributes = Object.entries(request.MessageAttributes ?? {});
+
+        return attributes.reduce((size, [name, attribute]) => {
+            const value = attribute.StringValue !== undefined ? encoder.encode(attribute.StringValue).length : MessageUtils.getBinarySize(attribute.BinaryValue);
+            return size + encoder.encode(name).length + encoder.encode(attribute.DataType).length + value;
+        }, encoder.encode(request.MessageBody).length);
+    }
+
+    /**
+     * Calculates the size, in bytes, SQS counts towards the payload limit for the provided message.
+     *
+     * @param message    The SQS message.
+     */
+    public static getMessageSize(message: SqsMessage): number {
+        return MessageUtils.getRequestSize(MessageUtils.toRequest('', message));
+    }
+
+    /**
+     * Returns the maximum size, in bytes, of a single message including its attributes.
+     */
+    public static getMaxMessageSize(): number {
+        return MAX_PAYLOAD_SIZE;
+    }
+
+    /**
+     * Formats the provided size in bytes as a human readable string, e.g. 12.5 KB.
+     *
+     * @param size    The size, in bytes.
+     */
+    public static formatSize(size: number): string {
+        return size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1).replace(/\.0$/, '')} KB`;
+    }
+
+    /**
+     * Calculates the MD5 digest of the provided message body, as returned by SQS in MD5OfMessageBody.
+     *
+     * @param body    The message body.
+     */
+    public static getBodyMd5(body: string): string {
+        return createHash('md5').update(body, 'utf8').digest('hex');
+    }
+
+    /**
+     * Calculates the MD5 digest of the provided message attributes, as returned by SQS in MD5OfMessageAttributes.
+     * Uses SQS's canonical encoding: attributes sorted by name, then for each attribute its name, data type,
+     * a transport type byte and its value, with the name, data type and value each prefixed by their 4-byte length.
+     *
+     * @param attributes    The message attributes.
+     * @returns             The hex digest, or undefined if there are no attributes or a binary value cannot be read synchronously.
+     */
+    public static getAttributesMd5(attributes: SQS.MessageBodyAttributeMap | undefined): string | undefined {
+        const names = Object.keys(attributes ?? {}).sort();
+        if (!attributes || !names.length) {
+            return undefined;
+        }
+
+        const hash = createHash('md5');
+        const lengthPrefixed = (bytes: Buffer) => {
+            const length = Buffer.alloc(4);
+            length.writeUInt32BE(bytes.length, 0);
+            hash.update(length);
+            hash.update(bytes);
+        };
+
+        for (const name of names) {
+            const attribute = attributes[name];
+
+            lengthPrefixed(Buffer.from(name, 'utf8'));
+            lengthPrefixed(Buffer.from(attribute.DataType, 'utf8'));
+
+            if (attribute.StringValue !== undefined) {
+                hash.update(Buffer.from([STRING_TRANSPORT_TYPE]));
+                lengthPrefixed(Buffer.from(attribute.StringValue, 'utf8'));
+            } else {
+                const value = MessageUtils.getBinaryBytes(attribute.BinaryValue);
+                if (!value) {
+                    return undefined;
+                }
+                hash.update(Buffer.from([BINARY_TRANSPORT_TYPE]));
+                lengthPrefixed(value);
+            }
+        }
+
+        return hash.digest('hex');
+    }
+
+    /**
+     * Compares the MD5 digests returned by SQS against those calculated locally for the sent request.
+     *
+     * @param request      The sent message request.
+     * @param checksums    The digests returned by SendMessage or SendMessageBatch.
+     * @returns            Warnings describing each mismatch, or undefined if the digests match.
+     */
+    public static verifyChecksums(
+        request: Pick<SQS.SendMessageRequest, 'MessageBody' | 'MessageAttributes'>,
+        checksums: Pick<SQS.SendMessageResult, 'MD5OfMessageBody' | 'MD5OfMessageAttributes'>
+    ): string[] | undefined {
+        const warnings: string[] = [];
+
+        const bodyMd5 = MessageUtils.getBodyMd5(request.MessageBody);
+        if (checksums.MD5OfMessageBody && checksums.MD5OfMessageBody !== bodyMd5) {
+            warnings.push(`The body's MD5 returned by SQS (${checksums.MD5OfMessageBody}) does not match the body sent (${bodyMd5}).`);
+        }
+
+        const attributesMd5 = MessageUtils.getAttributesMd5(request.MessageAttributes);
+        if (attributesMd5 && checksums.MD5OfMessageAttributes !== attributesMd5) {
+            warnings.push(`The attributes' MD5 returned by SQS (${checksums.MD5OfMessageAttributes ?? 'none'}) does not match the attributes sent (${attributesMd5}).`);
+        }
+
+        return warnings.length ? warnings : undefined;
     }
 
     /**
      * Converts the provided item to an SQS message.
      * The item represents an item taken from a local message.js source that is
-     * loaded when the application initializes.
+     * loaded when the application initializes. An item that is not shaped like a message
+     * is converted to a message holding the problems found as its errors.
      *
-     * @param item    The item that will be converted.
+     * @param item              The item that will be converted.
+     * @param queueUrl          The SQS queue URL the message will be posted to, used for validation.
+     * @param schemaSettings    The workspace's schema settings, used for validation.
      */
-    public static toMessage(item: unknown): SqsMessage {
+    public static toMessage(item: unknown, queueUrl?: string, schemaSettings?: SqsSchemaSettings): SqsMessage {
+        const itemErrors = MessageUtils.validateItem(item);
+        if (itemErrors) {
+            const itemBody = (item as { body?: unknown } | undefined)?.body;
+            return { id: MessageUtils.generateRandomId(), body: typeof itemBody === 'string' ? itemBody : '', attributes: [], errors: itemErrors };
+        }
+
         const message = item as SqsMessage;
+        // Data types may be given with their custom label, e.g. { type: 'Number.int' }, as sent to SQS.
+        const attributes =
+            message.attributes?.map((attribute) => {
+                const typedAttribute = { ...attribute, ...MessageUtils.parseDataType(attribute.type, attribute.label) };
+                return { ...typedAttribute, ...MessageUtils.toEditableBinary(typedAttribute), id: MessageUtils.generateRandomId() };
+            }) ?? [];
+
+        const body = MessageUtils.formatBody(message.body ?? '', message.bodyFormat);
+
         return {
             ...message,
+            id: MessageUtils.generateRandomId(),
+            body,
+            attributes,
+            errors: MessageUtils.validateMessage({ ...message, body, attributes }, queueUrl, schemaSettings),
+        };
+    }
+
+    /**
+     * Checks that the provided item, read from a messages.js or JSON file, has the shape of a message,
+     * so that a malformed item can be reported on its own rather than failing the whole file.
+     *
+     * @param item    The item to check.
+     * @returns       The problems found, or undefined if the item can be converted to a message.
+     */
+    public static validateItem(item: unknown): string[] | undefined {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+            return ['Message is not an object.'];
+        }
+
+        const { body, attributes, ...fields } = item as Record<string, unknown>;
+        const errors: string[] = [];
+
+        if (body !== undefined && typeof body !== 'string') {
+            errors.push('Body must be a string.');
+        }
+
+        ITEM_STRING_FIELDS.filter((field) => fields[field] !== undefined && typeof fields[field] !== 'string').forEach((field) => errors.push(`${field} must be a string.`));
+
+        if (attributes !== undefined && !Array.isArray(attributes)) {
+            errors.push('Attributes must be a list.');
+        } else {
+            ((attributes as unknown[] | undefined) ?? []).forEach((attribute, index) => {
+                const { name, type, value } = (attribute ?? {}) as Record<string, unknown>;
+
+                if (!attribute || typeof attribute !== 'object') {
+                    errors.push(`Attribute at position ${index} is not an object.`);
+                } else if (typeof name !== 'string' || typeof type !== 'string') {
+                    errors.push(`Attribute at position ${index} must have a name and a data type.`);
+                } else if (value !== undefined && typeof value !== 'string' && !type.startsWith('Binary')) {
+                    errors.push(`Attribute value at position ${index} must be a string.`);
+                }
+            });
+        }
+
+        if (errors.length) {
+            return errors;
+        }
+    }
+
+    /**
+     * Converts the provided SQS message to an item in the messages.js format.
+     * This is the inverse of toMessage, omitting IDs and validation errors.
+     *
+     * @param message    The SQS message.
+     */
+    public static toItem(message: SqsMessage): SqsMessageItem {
+        return {
+            body: message.body,
+            bodyFormat: message.bodyFormat,
+            convertToJson: message.convertToJson,
+            minifyBody: message.minifyBody,
+            attributes: message.attributes.map((attribute) =>
+                attribute.type === 'Binary'
+                    ? { name: attribute.name, type: attribute.type, label: attribute.label, ...MessageUtils.toEditableBinary(attribute) }
+                    : { name: attribute.name, type: attribute.type, label: attribute.label, value: attribute.value }
+            ),
+            messageGroupId: message.messageGroupId,
+            messageDeduplicationId: message.messageDeduplicationId,
+            deduplicationMode: message.deduplicationMode,
+            delaySeconds: message.delaySeconds,
+            subject: message.subject,
+            messageStructure: message.messageStructure,
+            tags: message.tags,
+        };
+    }
+
+    /**
+     * Parses the items in the provided messages.js or JSON file.
+     * A messages.js file is a module whose default export is an array of items, e.g. `export default [...]`.
+     *
+     * @param content     The file's content.
+     * @param fileName    The file's name, used to determine its format.
+     */
+    public static parseMessagesFile(content: string, fileName: string): unknown[] {
+        let items: unknown;
+
+        if (fileName.toLowerCase().endsWith('.json')) {
+            items = JSON.parse(content);
+        } else {
+            // The file is parsed as a literal rather than evaluated, so a shared file cannot run code,
+            // while it may still use JavaScript object syntax just like the messages.js file imported when the application is built.
+            items = LiteralUtils.parse(content.replace(/^((?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*)(?:export\s+default|module\.exports\s*=)/, '$1'));
+        }
+
+        if (!Array.isArray(items)) {
+            throw new Error(`'${fileName}' does not contain an array of messages.`);
+        }
+
+        return items;
+    }
+
+    /**
+     * Converts the provided SQS messages to the content of a messages.js or JSON file.
+     *
+     * @param messages    The SQS messages.
+     * @param format      The file format.
+     */
+    public static toMessagesFile(messages: SqsMessage[], format: 'js' | 'json'): string {
+        const json = JSON.stringify(messages.map(MessageUtils.toItem), null, 4);
+        return format === 'js' ? `export default ${json};\n` : json;
+    }
+
+    /**
+     * Converts the provided AWS SQS message, as returned by ReceiveMessage, to a received SQS message.
+     *
+     * @param message    The received AWS SQS message.
+     */
+    public static fromReceivedMessage(message: SQS.Message): SqsReceivedMessage {
+        const systemAttributes = message.Attributes ?? {};
+        const sentTimestamp = Number(systemAttributes.SentTimestamp);
+
+        return {
+            messageId: message.MessageId ?? '',
+            receiptHandle: message.ReceiptHandle ?? '',
+            body: message.Body ?? '',
+            attributes: Object.entries(message.MessageAttributes ?? {}).map(([name, attribute]) => ({
+                id: MessageUtils.generateRandomId(),
+                name,
+                ...MessageUtils.parseDataType(attribute.DataType),
+                ...MessageUtils.fromAttributeValue(attribute),
+            })),
+            systemAttributes,
+            receiveCount: Number(systemAttributes.ApproximateReceiveCount) || 0,
+            sentTimestamp: isNaN(sentTimestamp) ? undefined : sentTimestamp,
+        };
+    }
+
+    /**
+     * Converts the provided received SQS message to an editable SQS message.
+     * FIFO system attributes are carried over so the message can be resent to the same group.
+     *
+     * @param message    The received SQS message.
+     */
+    public static fromReceivedToMessage(message: SqsReceivedMessage): SqsMessage {
+        const { MessageGroupId, MessageDeduplicationId } = message.systemAttributes;
+
+        return {
             id: MessageUtils.generateRandomId(),
             body: MessageUtils.formatBody(message.body),
-            attributes:
-                message.attributes?.map((attribute) => ({
-                    ...attribute,
-                    id: MessageUtils.generateRandomId(),
-                })) ?? [],
-            errors: MessageUtils.validateMessage(message),
+            attributes: message.attributes.map((attribute) => ({ ...attribute, id: MessageUtils.generateRandomId() })),
+            messageGroupId: MessageGroupId,
+            messageDeduplicationId: MessageDeduplicationId,
         };
     }
 
+    /**
+     * Converts the provided AWS SQS message request back to an editable SQS message.
+     * The deduplication ID the request was sent with is kept, even if it was originally generated.
+     *
+     * @param request    The AWS SQS message request.
+     */
+    public static fromRequest(request: SQS.SendMessageRequest): SqsMessage {
+        return {
+            id: MessageUtils.generateRandomId(),
+            body: request.MessageBody,
+            attributes: Object.entries(request.MessageAttributes ?? {}).map(([name, attribute]) => ({
+                id: MessageUtils.generateRandomId(),
+                name,
+                ...MessageUtils.parseDataType(attribute.DataType),
+                ...MessageUtils.fromAttributeValue(attribute),
+            })),
+            messageGroupId: request.MessageGroupId,
+            messageDeduplicationId: request.MessageDeduplicationId,
+            deduplicationMode: request.MessageDeduplicationId ? 'explicit' : undefined,
+            delaySeconds: request.DelaySeconds,
+        };
+    }
+
+    /**
+     * Returns true if the provided text can be decoded as binary using the provided encoding, otherwise false.
+     * Whitespace is ignored, so values can be split across lines.
+     *
+     * @param text        The encoded binary value.
+     * @param encoding    The text's encoding. Defaults to 'base64'.
+     */
+    public static isBinaryValid(text: string, encoding: SqsBinaryEncoding = 'base64'): boolean {
+        return BINARY_ENCODING_PATTERNS[encoding].test(text.replace(/\s/g, ''));
+    }
+
+    /**
+     * Decodes the provided Binary attribute value to the bytes sent to SQS.
+     * Values that are already bytes are returned as they are.
+     *
+     * @param value       The attribute value, either encoded text or bytes.
+     * @param encoding    The text's encoding. Defaults to 'base64'.
+     */
+    public static decodeBinary(value: SqsMessageAttributeValue, encoding: SqsBinaryEncoding = 'base64'): SQS.Binary {
+        return typeof value === 'string' ? Buffer.from(value.replace(/\s/g, ''), encoding) : value;
+    }
+
+    /**
+     * Encodes the provided bytes as text.
+     *
+     * @param bytes       The bytes to be encoded.
+     * @param encoding    The encoding to use.
+     */
+    public static encodeBinary(bytes: Uint8Array, encoding: SqsBinaryEncoding): string {
+        return Buffer.from(bytes).toString(encoding);
+    }
+
+    /**
+     * Converts the provided encoded text from one binary encoding to another.
+     * Invalid text is returned unchanged, so the user's input is never lost.
+     *
+     * @param text    The encoded binary value.
+     * @param from    The text's current encoding.
+     * @param to      The encoding to convert to.
+     */
+    public static convertBinary(text: string, from: SqsBinaryEncoding, to: SqsBinaryEncoding): string {
+        if (from === to || !MessageUtils.isBinaryValid(text, from)) {
+            return text;
+        }
+        return MessageUtils.encodeBinary(MessageUtils.decodeBinary(text, from) as Buffer, to);
+    }
+
+    /**
+     * Formats the leading bytes of the provided value as space separated hex pairs, for previewing binary values.
+     *
+     * @param bytes       The bytes to be previewed.
+     * @param maxBytes    The maximum number of bytes shown.
+     */
+    public static toHexPreview(bytes: Uint8Array, maxBytes = 32): string {
+        const hex = Array.from(bytes.slice(0, maxBytes), (byte) => byte.toString(16).padStart(2, '0')).join(' ');
+        return bytes.length > maxBytes ? `${hex} …` : hex;
+    }
+
+    /**
+     * Returns the data type sent to SQS for the provided attribute, combining its type and custom label, e.g. Number.int.
+     * The label is trimmed, just as it is when validated, so the data type sent is the one that was checked.
+     *
+     * @param attribute    The message attribute.
+     */
+    public static toDataType(attribute: Pick<SqsMessageAttribute, 'type' | 'label'>): string {
+        const label = attribute.label?.trim();
+        return label ? `${attribute.type}.${label}` : attribute.type;
+    }
+
+    /**
+     * Splits the provided data type into its base type and custom label, e.g. Number.int into Number and int.
+     * Everything after the first period is the label, as custom labels can themselves contain periods.
+     *
+     * @param dataType    The data type, with or without a custom label.
+     * @param label       A label already held separately, used when the data type has none.
+     */
+    public static parseDataType(dataType: string, label?: string): Pick<SqsMessageAttribute, 'type' | 'label'> {
+        const separator = typeof dataType === 'string' ? dataType.indexOf('.') : -1;
+        if (separator < 0) {
+            return { type: dataType as SqsMessageAttributeType, label: label || undefined };
+        }
+        return { type: dataType.slice(0, separator) as SqsMessageAttributeType, label: dataType.slice(separator + 1) || undefined };
+    }
+
     /**
      * Returns an object with all the supported SQS message attribute data types.
      * Used to ensure different parts of the application support all necessary data types.
@@ -148,11 +909,253 @@ export class MessageUtils {
         return propertyValues.length == objects.length;
     };
 
-    private static isNumeric(str: any): boolean {
-        return !isNaN(str) && !isNaN(parseFloat(str));
+    private static getBinarySize(value: SQS.Binary | undefined): number {
+        if (value === undefined) {
+            return 0;
+        }
+        if (typeof value === 'string') {
+            return new TextEncoder().encode(value).length;
+        }
+        if (typeof Blob !== 'undefined' && value instanceof Blob) {
+            return value.size;
+        }
+        return (value as Uint8Array).byteLength;
     }
 
-    private static isJson(text: string): boolean {
-        return text[0] === '{' && text[text.length - 1] === '}';
+    /**
+     * Converts the provided attribute's Binary value to encoded text that can be edited and saved as JSON.
+     * Values may be loaded as bytes, or as a Buffer that was serialized to JSON.
+     */
+    private static toEditableBinary(attribute: Pick<SqsMessageAttribute, 'type' | 'value' | 'encoding'>): Pick<SqsMessageAttribute, 'value' | 'encoding'> {
+        const value = attribute.value as unknown;
+        const serializedBuffer = value as { type?: string; data?: number[] } | undefined;
+
+        if (attribute.type !== 'Binary' || typeof value === 'string' || value === undefined) {
+            return { value: attribute.value, encoding: attribute.encoding };
+        }
+        if (value instanceof Uint8Array) {
+            return { value: MessageUtils.encodeBinary(value, attribute.encoding ?? 'base64'), encoding: attribute.encoding ?? 'base64' };
+        }
+        if (serializedBuffer?.type === 'Buffer' && Array.isArray(serializedBuffer.data)) {
+            return { value: MessageUtils.encodeBinary(Uint8Array.from(serializedBuffer.data), attribute.encoding ?? 'base64'), encoding: attribute.encoding ?? 'base64' };
+        }
+
+        return { value: attribute.value, encoding: attribute.encoding };
+    }
+
+    private static fromAttributeValue(attribute: SQS.MessageAttributeValue): Pick<SqsMessageAttribute, 'value' | 'encoding'> {
+        if (attribute.StringValue !== undefined) {
+            return { value: attribute.StringValue };
+        }
+        return MessageUtils.toEditableBinary({ type: 'Binary', value: (attribute.BinaryValue as SqsMessageAttributeValue | undefined) ?? '' });
+    }
+
+    private static getBinaryBytes(value: SQS.Binary | undefined): Buffer | undefined {
+        if (value === undefined) {
+            return Buffer.alloc(0);
+        }
+        if (typeof value === 'string') {
+            return Buffer.from(value, 'utf8');
+        }
+        if (typeof Blob !== 'undefined' && value instanceof Blob) {
+            return undefined;
+        }
+        return Buffer.from(value as Uint8Array);
+    }
+
+    /**
+     * Returns the publish request fields shared by single and batch SNS publish requests.
+     */
+    private static toPublishFields(topicArn: string, message: SqsMessage): Omit<SNS.PublishBatchRequestEntry, 'Id'> {
+        const request = MessageUtils.toRequest(topicArn, message);
+
+        return {
+            Message: request.MessageBody,
+            MessageAttributes: request.MessageAttributes,
+            MessageGroupId: request.MessageGroupId,
+            MessageDeduplicationId: request.MessageDeduplicationId,
+            Subject: message.subject || undefined,
+            MessageStructure: message.messageStructure,
+        };
+    }
+
+    /**
+     * Splits the provided batch entries into batches that fit within the batch entry count and payload size limits.
+     */
+    private static toBatches<T>(entries: Array<{ entry: T; size: number }>): T[][] {
+        const batches: T[][] = [];
+        let batch: T[] = [];
+        let size = 0;
+
+        entries.forEach(({ entry, size: entrySize }) => {
+            if (batch.length && (batch.length === MAX_BATCH_ENTRIES || size + entrySize > MAX_PAYLOAD_SIZE)) {
+                batches.push(batch);
+                batch = [];
+                size = 0;
+            }
+
+            batch.push(entry);
+            size += entrySize;
+        });
+
+        if (batch.length) {
+            batches.push(batch);
+        }
+
+        return batches;
+    }
+
+    /**
+     * Checks that a body that is converted or minified when sent can be parsed in its format.
+     * Bodies with template expressions are checked once rendered.
+     */
+    private static validatePayloadBody(message: SqsMessage): string[] {
+        const format = MessageUtils.getBodyFormat(message);
+        const isConverted = (message.convertToJson && format === 'yaml') || (message.minifyBody && BodyUtils.canMinify(format));
+
+        if (!isConverted || TemplateUtils.hasTemplate(message.body)) {
+            return [];
+        }
+
+        const error = BodyUtils.validate(message.body, format);
+        return error ? [`Body is not valid ${format.toUpperCase()}: ${error.message} (line ${error.line}, column ${error.column})`] : [];
+    }
+
+    private static validatePublishFields(message: SqsMessage): string[] {
+        const errors: string[] = [];
+
+        if (message.subject !== undefined && message.subject !== '') {
+            if (message.subject.length > MAX_SUBJECT_LENGTH) {
+                errors.push(`Subject cannot be longer than ${MAX_SUBJECT_LENGTH} characters.`);
+            }
+            if (!SUBJECT_PATTERN.test(message.subject)) {
+                errors.push('Subject can only contain printable ASCII characters, without line breaks.');
+            }
+        }
+
+        // Bodies with template expressions are checked once rendered, as they may not be valid JSON until then.
+        if (message.messageStructure === 'json' && message.body && !TemplateUtils.hasTemplate(message.body)) {
+            let structure: unknown;
+
+            try {
+                structure = JSON.parse(MessageUtils.toPayloadBody(message));
+            } catch {
+                errors.push('Body must be a JSON object of messages keyed by protocol when sending a message per protocol.');
+                return errors;
+            }
+
+            const messages = structure && typeof structure === 'object' && !Array.isArray(structure) ? Object.entries(structure as Record<string, unknown>) : undefined;
+
+            if (!messages) {
+                errors.push('Body must be a JSON object of messages keyed by protocol when sending a message per protocol.');
+            } else if (!messages.some(([protocol]) => protocol === 'default')) {
+                errors.push("Body must include a 'default' message when sending a message per protocol.");
+            } else if (messages.some(([, protocolMessage]) => typeof protocolMessage !== 'string')) {
+                errors.push('Each protocol message in the body must be a string.');
+            }
+        }
+
+        return errors;
+    }
+
+    private static validateLabel(label: string, attribute: SqsMessageAttribute): string[] {
+        const errors: string[] = [];
+        const dataType = MessageUtils.toDataType(attribute);
+        const customLabel = attribute.label?.trim() ?? '';
+
+        if (!customLabel) {
+            errors.push(`${label} has an empty custom label.`);
+            return errors;
+        }
+        if (dataType.length > MAX_DATA_TYPE_LENGTH) {
+            errors.push(`${label} cannot be longer than ${MAX_DATA_TYPE_LENGTH} characters, including its custom label.`);
+        }
+        errors.push(...MessageUtils.validateCharacters(label, customLabel));
+
+        // Values with template expressions are checked against their label once rendered.
+        if (typeof attribute.value !== 'string' || TemplateUtils.hasTemplate(attribute.value)) {
+            return errors;
+        }
+
+        const labelKey = customLabel.toLowerCase();
+        const rule = LABEL_RULES.find((labelRule) => labelRule.labels.includes(labelKey));
+        const signature = BINARY_SIGNATURES[labelKey];
+
+        if (attribute.type !== 'Binary' && rule && !rule.isValid(attribute.value)) {
+            errors.push(`${label} is ${dataType}, but the value is not ${rule.description}.`);
+        }
+        if (attribute.type === 'Binary' && signature && MessageUtils.isBinaryValid(attribute.value, attribute.encoding)) {
+            const bytes = MessageUtils.decodeBinary(attribute.value, attribute.encoding) as Uint8Array;
+            if (!signature.every((byte, index) => bytes[index] === byte)) {
+                errors.push(`${label} is ${dataType}, but the value does not look like a ${customLabel.toUpperCase()} file.`);
+            }
+        }
+
+        return errors;
+    }
+
+    private static validateAttributeName(label: string, name: string): string[] {
+        const errors: string[] = [];
+
+        if (name.length > MAX_ATTRIBUTE_NAME_LENGTH) {
+            errors.push(`${label} cannot be longer than ${MAX_ATTRIBUTE_NAME_LENGTH} characters.`);
+        }
+        if (!ATTRIBUTE_NAME_PATTERN.test(name)) {
+            errors.push(`${label} can only contain alphanumeric characters, hyphens, underscores and periods.`);
+        }
+        if (RESERVED_ATTRIBUTE_NAME_PREFIXES.some((prefix) => name.toLowerCase().startsWith(prefix))) {
+            errors.push(`${label} cannot start with the reserved prefixes 'AWS.' or 'Amazon.'.`);
+        }
+        if (name.startsWith('.') || name.endsWith('.')) {
+            errors.push(`${label} cannot start or end with a period.`);
+        }
+        if (name.includes('..')) {
+            errors.push(`${label} cannot contain consecutive periods.`);
+        }
+
+        return errors;
+    }
+
+    private static validateCharacters(label: string, text: string): string[] {
+        const match = INVALID_CHARACTER_PATTERN.exec(text);
+        if (!match) {
+            return [];
+        }
+
+        const codePoint = (match[0].codePointAt(0) ?? 0).toString(16).toUpperCase().padStart(4, '0');
+        return [`${label} contains a character SQS does not allow (U+${codePoint}) at position ${match.index}.`];
+    }
+
+    private static validateNumber(label: string, value: string): string[] {
+        const errors: string[] = [];
+        const mantissa = value.trim().replace(/^[+-]/, '').split(/e/i)[0];
+        const digits = mantissa.replace('.', '').replace(/^0+/, '').replace(/0+$/, '');
+        const magnitude = Math.abs(Number(value));
+
+        if (digits.length > MAX_NUMBER_PRECISION) {
+            errors.push(`${label} cannot have more than ${MAX_NUMBER_PRECISION} significant digits.`);
+        }
+        if (magnitude !== 0 && (magnitude < MIN_NUMBER_MAGNITUDE || magnitude > MAX_NUMBER_MAGNITUDE)) {
+            errors.push(`${label} must be between 10^-128 and 10^126.`);
+        }
+
+        return errors;
+    }
+
+    private static validateFifoId(label: string, value: string): string[] {
+        const errors: string[] = [];
+
+        if (value.length > FIFO_ID_MAX_LENGTH) {
+            errors.push(`${label} cannot be longer than ${FIFO_ID_MAX_LENGTH} characters.`);
+        }
+        if (!FIFO_ID_PATTERN.test(value)) {
+            errors.push(`${label} can only contain alphanumeric characters and punctuation.`);
+        }
+
+        return errors;
+    }
+
+    private static isNumeric(str: any): boolean {
+        return !isNaN(str) && !isNaN(parseFloat(str));
     }
 }
@@ -0,0 +1,185 @@
+import { SQS } from 'aws-sdk';
+import { SqsDepthChart, SqsMetricsOptions, SqsQueueDepth, SqsQueueDepthSeries, SqsSendMarker } from '../components/app.component';
+import { QueueUtils } from './queue.utils';
+
+/**
+ * The queue attributes read on each poll.
+ */
+const DEPTH_ATTRIBUTES = ['ApproximateNumberOfMessages', 'ApproximateNumberOfMessagesNotVisible', 'ApproximateNumberOfMessagesDelayed', 'RedrivePolicy'];
+
+const MAX_INTERVAL_SECONDS = 300;
+
+const MAX_WINDOW_MINUTES = 120;
+
+/**
+ * The shortest time range charted, in milliseconds, so the first few samples are not stretched across the whole chart.
+ */
+const MIN_RANGE = 60000;
+
+/**
+ * Sends to the same queue within this many milliseconds of each other share a marker, so a load test does not flood the chart.
+ */
+const MARKER_MERGE_INTERVAL = 1000;
+
+/**
+ * The most send markers kept, oldest first out.
+ */
+const MAX_SEND_MARKERS = 1000;
+
+/**
+ * The spacings between time labels, in seconds, of which the smallest that fits is used.
+ */
+const TIME_STEPS = [5, 10, 15, 30, 60, 120, 300, 600, 900, 1800];
+
+/**
+ * The most labels along either axis of a chart.
+ */
+const MAX_TICKS = 6;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export class MetricsUtils {
+    /**
+     * Returns the options the metrics dashboard starts with.
+     */
+    public static getDefaultOptions(): SqsMetricsOptions {
+        return { intervalSeconds: 5, windowMinutes: 15 };
+    }
+
+    /**
+     * Validates the provided metrics options for errors.
+     *
+     * @param options    The metrics options.
+     * @returns          If invalid, an array of errors, otherwise undefined.
+     */
+    public static validateOptions(options: SqsMetricsOptions): string[] | undefined {
+        const errors: string[] = [];
+
+        if (!Number.isInteger(options.intervalSeconds) || options.intervalSeconds < 1 || options.intervalSeconds > MAX_INTERVAL_SECONDS) {
+            errors.push(`Interval must be a whole number of seconds between 1 and ${MAX_INTERVAL_SECONDS}.`);
+        }
+        if (!Number.isInteger(options.windowMinutes) || options.windowMinutes < 1 || options.windowMinutes > MAX_WINDOW_MINUTES) {
+            errors.push(`Window must be a whole number of minutes between 1 and ${MAX_WINDOW_MINUTES}.`);
+        }
+
+        if (errors.length) {
+            return errors;
+        }
+    }
+
+    /**
+     * Returns the attribute names requested from GetQueueAttributes on each poll.
+     */
+    public static getAttributeNames(): string[] {
+        return [...DEPTH_ATTRIBUTES];
+    }
+
+    /**
+     * Converts the provided queue attributes, as returned by GetQueueAttributes, to a sample of the queue's depth.
+     *
+     * @param queueUrl      The SQS queue URL, used to find the dead-letter queue's URL.
+     * @param attributes    The queue's attributes.
+     * @param timestamp     The time the attributes were read, in milliseconds since the epoch.
+     */
+    public static toQueueDepth(queueUrl: string, attributes: SQS.QueueAttributeMap, timestamp: number): SqsQueueDepth {
+        const deadLetterTargetArn = QueueUtils.parseRedrivePolicy(attributes.RedrivePolicy)?.deadLetterTargetArn;
+
+        return {
+            timestamp,
+            visible: Number(attributes.ApproximateNumberOfMessages) || 0,
+            notVisible: Number(attributes.ApproximateNumberOfMessagesNotVisible) || 0,
+            delayed: Number(attributes.ApproximateNumberOfMessagesDelayed) || 0,
+            deadLetterQueueUrl: deadLetterTargetArn ? QueueUtils.toQueueUrl(deadLetterTargetArn, queueUrl) : undefined,
+        };
+    }
+
+    /**
+     * Appends the provided sample, discarding samples that have fallen out of the charted window.
+     *
+     * @param samples          The samples taken so far, oldest first.
+     * @param sample           The new sample.
+     * @param windowMinutes    The number of minutes charted.
+     */
+    public static addSample(samples: SqsQueueDepth[], sample: SqsQueueDepth, windowMinutes: number): SqsQueueDepth[] {
+        const oldest = sample.timestamp - windowMinutes * 60000;
+        return [...samples.filter((current) => current.timestamp >= oldest), sample];
+    }
+
+    /**
+     * Appends the provided send marker, combining it with the previous marker if it was sent to the same queue moments before.
+     *
+     * @param markers    The send markers so far, oldest first.
+     * @param marker     The new send marker.
+     */
+    public static addSendMarker(markers: SqsSendMarker[], marker: SqsSendMarker): SqsSendMarker[] {
+        const previous = markers[markers.length - 1];
+
+        if (previous && previous.queueUrl === marker.queueUrl && marker.timestamp - previous.timestamp < MARKER_MERGE_INTERVAL) {
+            return [...markers.slice(0, -1), { ...previous, count: previous.count + marker.count }];
+        }
+
+        return [...markers, marker].slice(-MAX_SEND_MARKERS);
+    }
+
+    /**
+     * Returns the time range to chart, from the first sample in the window up to the latest sample.
+     *
+     * @param samples          The samples taken so far, oldest first.
+     * @param windowMinutes    The number of minutes charted.
+     */
+    public static getTimeRange(samples: SqsQueueDepth[], windowMinutes: number): { from: number; to: number } {
+        const to = samples.length ? samples[samples.length - 1].timestamp : Date.now();
+        const from = Math.max(samples[0]?.timestamp ?? to, to - windowMinutes * 60000);
+
+        return { from: Math.min(from, to - MIN_RANGE), to };
+    }
+
+    /**
+     * Lays out a line chart of the provided samples, with the vertical axis scaled to the largest value.
+     *
+     * @param samples    The samples to chart, oldest first.
+     * @param markers    The send markers, of which those within the time range are placed.
+     * @param from       The start of the time range, in milliseconds since the epoch.
+     * @param to         The end of the time range, in milliseconds since the epoch.
+     * @param width      The chart's width.
+     * @param height     The chart's height.
+     */
+    public static toChart(samples: SqsQueueDepth[], markers: SqsSendMarker[], from: number, to: number, width: number, height: number): SqsDepthChart {
+        const largest = Math.max(1, ...samples.map((sample) => Math.max(sample.visible, sample.notVisible, sample.delayed)));
+        const yStep = MetricsUtils.getValueStep(largest);
+        const yMax = Math.ceil(largest / yStep) * yStep;
+        const toX = (timestamp: number) => round(((timestamp - from) / (to - from)) * width);
+        const toY = (value: number) => round(height - (value / yMax) * height);
+
+        const toPath = (series: SqsQueueDepthSeries) => samples.map((sample, index) => `${index ? 'L' : 'M'}${toX(sample.timestamp)},${toY(sample[series])}`).join(' ');
+
+        const timeStep = (TIME_STEPS.find((step) => (to - from) / (step * 1000) <= MAX_TICKS) ?? TIME_STEPS[TIME_STEPS.length - 1]) * 1000;
+        const xTicks: SqsDepthChart['xTicks'] = [];
+        for (let timestamp = Math.ceil(from / timeStep) * timeStep; timestamp <= to; timestamp += timeStep) {
+            xTicks.push({ x: toX(timestamp), timestamp });
+        }
+
+        const yTicks: SqsDepthChart['yTicks'] = [];
+        for (let value = 0; value <= yMax; value += yStep) {
+            yTicks.push({ y: toY(value), value });
+        }
+
+        return {
+            paths: { visible: toPath('visible'), notVisible: toPath('notVisible'), delayed: toPath('delayed') },
+            markers: markers.filter((marker) => marker.timestamp >= from && marker.timestamp <= to).map((marker) => ({ x: toX(marker.timestamp), marker })),
+            yTicks,
+            xTicks,
+        };
+    }
+
+    /**
+     * Returns a whole gridline spacing of 1, 2 or 5 times a power of ten, so the largest value needs at most a few gridlines.
+     */
+    private static getValueStep(largest: number): number {
+        const rough = largest / (MAX_TICKS - 1);
+        const magnitude = Math.pow(10, Math.floor(Math.log10(Math.max(rough, 1))));
+        const step = [1, 2, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= rough) ?? 10 * magnitude;
+
+        return Math.max(1, step);
+    }
+}
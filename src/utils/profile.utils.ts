@@ -0,0 +1,111 @@
+import { SqsConfig, SqsProfile } from '../components/app.component';
+import { MessageUtils } from './message.utils';
+import { StorageUtils } from './storage.utils';
+
+const PROFILES_KEY = 'profiles';
+const ACTIVE_PROFILE_KEY = 'activeProfileId';
+
+/**
+ * The configuration fields that are only persisted when a profile explicitly opts in.
+ */
+const SECRET_CONFIG_KEYS = ['secretAccessKey', 'sessionToken'] as const;
+
+export class ProfileUtils {
+    /**
+     * Returns the configuration loaded from environment variables.
+     * If a local .env file is present, variables from it will be loaded
+     * as environment variables by parcel when the application is transpiled.
+     */
+    public static getDefaultConfig(): SqsConfig {
+        return {
+            region: process.env.AWS_REGION || '',
+            accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+            secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+            sessionToken: process.env.AWS_SESSION_TOKEN || '',
+            queueUrl: process.env.AWS_SQS_QUEUE_URL || '',
+        };
+    }
+
+    /**
+     * Creates a new connection profile.
+     *
+     * @param name      The profile's display name.
+     * @param config    The profile's configuration. Defaults to an empty configuration.
+     */
+    public static createProfile(name: string, config?: SqsConfig): SqsProfile {
+        return {
+            id: MessageUtils.generateRandomId(),
+            name,
+            config: config ?? { region: '', accessKeyId: '', secretAccessKey: '', sessionToken: '', queueUrl: '' },
+            persistSecrets: false,
+        };
+    }
+
+    /**
+     * Creates a copy of the provided profile with a new ID and name.
+     *
+     * @param profile    The profile to be copied.
+     */
+    public static duplicateProfile(profile: SqsProfile): SqsProfile {
+        return { ...profile, id: MessageUtils.generateRandomId(), name: `${profile.name} (copy)`, config: { ...profile.config } };
+    }
+
+    /**
+     * Loads the connection profiles saved to browser storage.
+     * If none have been saved, a default profile is created from environment variables.
+     */
+    public static loadProfiles(): SqsProfile[] {
+        const profiles = StorageUtils.load<SqsProfile[]>(PROFILES_KEY, []);
+
+        if (!profiles.length) {
+            return [ProfileUtils.createProfile('Default', ProfileUtils.getDefaultConfig())];
+        }
+
+        // Secrets are not stored unless opted in, so fill in any missing config fields.
+        return profiles.map((profile) => ({ ...profile, config: { ...ProfileUtils.createProfile('').config, ...profile.config } }));
+    }
+
+    /**
+     * Saves the provided connection profiles to browser storage.
+     * Secrets are excluded from profiles that have not opted in to persisting them.
+     *
+     * @param profiles    The connection profiles.
+     */
+    public static saveProfiles(profiles: SqsProfile[]): void {
+        StorageUtils.save(PROFILES_KEY, profiles.map(ProfileUtils.toStoredProfile));
+    }
+
+    /**
+     * Loads the ID of the last active profile.
+     */
+    public static loadActiveProfileId(): string | undefined {
+        return StorageUtils.load<string | undefined>(ACTIVE_PROFILE_KEY, undefined);
+    }
+
+    /**
+     * Saves the ID of the active profile.
+     *
+     * @param id    The active profile's ID.
+     */
+    public static saveActiveProfileId(id: string): void {
+        StorageUtils.save(ACTIVE_PROFILE_KEY, id);
+    }
+
+    /**
+     * Returns a copy of the provided profile that is safe to store, removing secrets unless the profile opted in.
+     *
+     * @param profile    The connection profile.
+     */
+    public static toStoredProfile(profile: SqsProfile): SqsProfile {
+        if (profile.persistSecrets) {
+            return profile;
+        }
+
+        const config = { ...profile.config };
+        SECRET_CONFIG_KEYS.forEach((key) => {
+            config[key] = '';
+        });
+
+        return { ...profile, config };
+    }
+}
@@ -0,0 +1,218 @@
+import { SQS } from 'aws-sdk';
+import { SqsQueueDetails, SqsQueueSettings, SqsQueueTag } from '../components/app.component';
+import { MessageUtils } from './message.utils';
+import { QueueUtils } from './queue.utils';
+
+/**
+ * The allowed range of each numeric queue setting, as enforced by SQS.
+ */
+const SETTING_RANGES: Record<'visibilityTimeout' | 'messageRetentionPeriod' | 'delaySeconds' | 'maximumMessageSize' | 'receiveMessageWaitTimeSeconds', [string, number, number]> = {
+    visibilityTimeout: ['Visibility Timeout', 0, 43200],
+    messageRetentionPeriod: ['Retention Period', 60, 1209600],
+    delaySeconds: ['Delivery Delay', 0, 900],
+    maximumMessageSize: ['Maximum Message Size', 1024, MessageUtils.getMaxMessageSize()],
+    receiveMessageWaitTimeSeconds: ['Receive Wait Time', 0, 20],
+};
+
+/**
+ * The largest maximum receive count a redrive policy can have.
+ */
+const MAX_RECEIVE_COUNT = 1000;
+
+/**
+ * The most tags a single queue can have.
+ */
+const MAX_TAGS = 50;
+
+export class QueueAdminUtils {
+    /**
+     * Returns the settings a new queue starts with, which match the SQS defaults.
+     */
+    public static getDefaultSettings(): SqsQueueSettings {
+        return {
+            name: '',
+            fifo: false,
+            visibilityTimeout: 30,
+            messageRetentionPeriod: 345600,
+            delaySeconds: 0,
+            maximumMessageSize: MessageUtils.getMaxMessageSize(),
+            receiveMessageWaitTimeSeconds: 0,
+            contentBasedDeduplication: false,
+            deadLetterTargetArn: '',
+            maxReceiveCount: 5,
+        };
+    }
+
+    /**
+     * Validates the provided queue settings for errors.
+     *
+     * @param settings    The queue settings.
+     * @returns           If invalid, an array of errors, otherwise undefined.
+     */
+    public static validateSettings(settings: SqsQueueSettings): string[] | undefined {
+        const errors: string[] = [];
+        const baseName = settings.fifo ? settings.name.replace(/\.fifo$/, '') : settings.name;
+
+        if (!/^[\w-]+$/.test(baseName) || settings.name.length > 80) {
+            errors.push('Queue Name can only include letters, numbers, hyphens and underscores, and must be 1 to 80 characters long.');
+        }
+        if (settings.fifo && !settings.name.endsWith('.fifo')) {
+            errors.push("FIFO queue names must end with '.fifo'.");
+        }
+
+        Object.entries(SETTING_RANGES).forEach(([name, [label, min, max]]) => {
+            const value = settings[name as keyof typeof SETTING_RANGES];
+            if (!Number.isInteger(value) || value < min || value > max) {
+                errors.push(`${label} must be a whole number between ${min} and ${max}.`);
+            }
+        });
+
+        if (settings.deadLetterTargetArn) {
+            if (!/^arn:[\w-]+:sqs:[\w-]*:\d*:[\w.-]+$/.test(settings.deadLetterTargetArn)) {
+                errors.push('Dead-letter Queue must be the ARN of an SQS queue, e.g. arn:aws:sqs:us-east-1:123456789012:my-dlq.');
+            } else if (MessageUtils.isFifoQueue(settings.deadLetterTargetArn) !== settings.fifo) {
+                errors.push(`The dead-letter queue of a ${settings.fifo ? 'FIFO' : 'standard'} queue must also be a ${settings.fifo ? 'FIFO' : 'standard'} queue.`);
+            }
+            if (!Number.isInteger(settings.maxReceiveCount) || settings.maxReceiveCount < 1 || settings.maxReceiveCount > MAX_RECEIVE_COUNT) {
+                errors.push(`Maximum Receives must be a whole number between 1 and ${MAX_RECEIVE_COUNT}.`);
+            }
+        }
+
+        if (errors.length) {
+            return errors;
+        }
+    }
+
+    /**
+     * Validates the provided queue tags for errors.
+     *
+     * @param tags    The queue tags.
+     * @returns       If invalid, an array of errors, otherwise undefined.
+     */
+    public static validateTags(tags: SqsQueueTag[]): string[] | undefined {
+        const errors: string[] = [];
+        const keys = tags.map((tag) => tag.key.trim());
+
+        if (tags.length > MAX_TAGS) {
+            errors.push(`A queue can have at most ${MAX_TAGS} tags.`);
+        }
+        if (keys.some((key) => !key || key.length > 128)) {
+            errors.push('Tag keys must be 1 to 128 characters long.');
+        }
+        if (tags.some((tag) => tag.value.length > 256)) {
+            errors.push('Tag values can be at most 256 characters long.');
+        }
+        if (keys.some((key) => key.toLowerCase().startsWith('aws:'))) {
+            errors.push("Tag keys cannot start with 'aws:', which is reserved for AWS.");
+        }
+
+        const duplicates = keys.filter((key, index) => key && keys.indexOf(key) !== index);
+        if (duplicates.length) {
+            errors.push(`Tag keys must be unique, but ${Array.from(new Set(duplicates)).join(', ')} ${duplicates.length === 1 ? 'is' : 'are'} used more than once.`);
+        }
+
+        if (errors.length) {
+            return errors;
+        }
+    }
+
+    /**
+     * Converts the provided settings to queue attributes, as sent with CreateQueue or SetQueueAttributes.
+     * The queue type can only be set when the queue is created. An empty redrive policy removes the queue's policy.
+     *
+     * @param settings    The queue settings.
+     * @param creating    True if the attributes are used to create the queue, otherwise false.
+     */
+    public static toAttributes(settings: SqsQueueSettings, creating: boolean): SQS.QueueAttributeMap {
+        const attributes: SQS.QueueAttributeMap = {
+            VisibilityTimeout: String(settings.visibilityTimeout),
+            MessageRetentionPeriod: String(settings.messageRetentionPeriod),
+            DelaySeconds: String(settings.delaySeconds),
+            MaximumMessageSize: String(settings.maximumMessageSize),
+            ReceiveMessageWaitTimeSeconds: String(settings.receiveMessageWaitTimeSeconds),
+        };
+
+        if (settings.fifo) {
+            attributes.ContentBasedDeduplication = String(settings.contentBasedDeduplication);
+            if (creating) {
+                attributes.FifoQueue = 'true';
+            }
+        }
+
+        if (settings.deadLetterTargetArn) {
+            attributes.RedrivePolicy = JSON.stringify({ deadLetterTargetArn: settings.deadLetterTargetArn, maxReceiveCount: settings.maxReceiveCount });
+        } else if (!creating) {
+            attributes.RedrivePolicy = '';
+        }
+
+        return attributes;
+    }
+
+    /**
+     * Converts the provided queue attributes and tags, as returned by GetQueueAttributes and ListQueueTags, to the queue's details.
+     * Attributes that are not returned keep their default value.
+     *
+     * @param queueUrl      The SQS queue URL.
+     * @param attributes    The queue's attributes.
+     * @param tags          The queue's tags.
+     */
+    public static toQueueDetails(queueUrl: string, attributes: SQS.QueueAttributeMap, tags: SQS.TagMap | undefined): SqsQueueDetails {
+        const defaults = QueueAdminUtils.getDefaultSettings();
+        const summary = QueueUtils.toQueueSummary(queueUrl, attributes);
+        const toNumber = (value: string | undefined, defaultValue: number) => (value === undefined || isNaN(Number(value)) ? defaultValue : Number(value));
+        const counts = ['ApproximateNumberOfMessages', 'ApproximateNumberOfMessagesNotVisible', 'ApproximateNumberOfMessagesDelayed']
+            .filter((name) => attributes[name] !== undefined)
+            .map((name) => Number(attributes[name]));
+
+        return {
+            url: queueUrl,
+            arn: summary.arn,
+            settings: {
+                name: summary.name,
+                fifo: summary.fifo,
+                visibilityTimeout: toNumber(attributes.VisibilityTimeout, defaults.visibilityTimeout),
+                messageRetentionPeriod: toNumber(attributes.MessageRetentionPeriod, defaults.messageRetentionPeriod),
+                delaySeconds: toNumber(attributes.DelaySeconds, defaults.delaySeconds),
+                maximumMessageSize: toNumber(attributes.MaximumMessageSize, defaults.maximumMessageSize),
+                receiveMessageWaitTimeSeconds: toNumber(attributes.ReceiveMessageWaitTimeSeconds, defaults.receiveMessageWaitTimeSeconds),
+                contentBasedDeduplication: attributes.ContentBasedDeduplication === 'true',
+                deadLetterTargetArn: summary.deadLetterTargetArn ?? '',
+                maxReceiveCount: summary.maxReceiveCount ?? defaults.maxReceiveCount,
+            },
+            tags: Object.entries(tags ?? {})
+                .map(([key, value]) => ({ key, value }))
+                .sort((a, b) => a.key.localeCompare(b.key)),
+            approximateMessageCount: counts.length ? counts.reduce((total, count) => total + count, 0) : undefined,
+        };
+    }
+
+    /**
+     * Converts the provided tags to the map sent with CreateQueue and TagQueue. Keys are trimmed.
+     *
+     * @param tags    The queue tags.
+     */
+    public static toTagMap(tags: SqsQueueTag[]): SQS.TagMap {
+        return Object.fromEntries(tags.map((tag) => [tag.key.trim(), tag.value]));
+    }
+
+    /**
+     * Returns the keys of the current tags that are no longer in the provided tags, so they must be untagged.
+     *
+     * @param currentTags    The queue's current tags, as returned by ListQueueTags.
+     * @param tags           The queue's new tags.
+     */
+    public static getRemovedTagKeys(currentTags: SQS.TagMap | undefined, tags: SqsQueueTag[]): string[] {
+        const keys = tags.map((tag) => tag.key.trim());
+        return Object.keys(currentTags ?? {}).filter((key) => !keys.includes(key));
+    }
+
+    /**
+     * Returns true if the provided confirmation matches the queue's name, so a destructive action can proceed.
+     *
+     * @param queueUrl        The SQS queue URL.
+     * @param confirmation    The text the user typed to confirm.
+     */
+    public static isConfirmed(queueUrl: string, confirmation: string): boolean {
+        return !!queueUrl && confirmation.trim() === QueueUtils.getQueueName(queueUrl);
+    }
+}
@@ -0,0 +1,114 @@
+import { SQS } from 'aws-sdk';
+import { SqsQueueSummary } from '../components/app.component';
+
+type RedrivePolicy = {
+    deadLetterTargetArn?: string;
+    maxReceiveCount?: number | string;
+};
+
+export class QueueUtils {
+    /**
+     * Returns the name of the queue the provided URL refers to.
+     *
+     * @param queueUrl    The SQS queue URL.
+     */
+    public static getQueueName(queueUrl: string): string {
+        return queueUrl.replace(/\/+$/, '').split('/').pop() ?? queueUrl;
+    }
+
+    /**
+     * Returns the name of the queue the provided ARN refers to.
+     *
+     * @param arn    The SQS queue ARN.
+     */
+    public static getQueueNameFromArn(arn: string): string {
+        return arn.split(':').pop() ?? arn;
+    }
+
+    /**
+     * Returns the URL of the queue the provided ARN refers to, served from the same endpoint as another queue,
+     * e.g. the dead-letter queue named in a queue's redrive policy.
+     *
+     * @param arn                The SQS queue ARN.
+     * @param siblingQueueUrl    The URL of a queue in the same region.
+     */
+    public static toQueueUrl(arn: string, siblingQueueUrl: string): string {
+        const [, , , , accountId, name] = arn.split(':');
+        return siblingQueueUrl.replace(/\/+$/, '').replace(/\/[^/]*\/[^/]*$/, `/${accountId}/${name}`);
+    }
+
+    /**
+     * Returns the ARN of the queue the provided URL refers to, e.g. arn:aws:sqs:us-east-1:123456789012:my-queue.
+     *
+     * @param queueUrl    The SQS queue URL.
+     * @param region      The queue's region.
+     */
+    public static toQueueArn(queueUrl: string, region: string): string {
+        const [accountId, name] = queueUrl.replace(/\/+$/, '').split('/').slice(-2);
+        return `arn:aws:sqs:${region}:${accountId}:${name}`;
+    }
+
+    /**
+     * Converts the provided queue attributes, as returned by GetQueueAttributes, to a queue summary.
+     *
+     * @param queueUrl      The SQS queue URL.
+     * @param attributes    The queue's attributes.
+     */
+    public static toQueueSummary(queueUrl: string, attributes: SQS.QueueAttributeMap): SqsQueueSummary {
+        const redrivePolicy = QueueUtils.parseRedrivePolicy(attributes.RedrivePolicy);
+        const name = QueueUtils.getQueueName(queueUrl);
+
+        return {
+            url: queueUrl,
+            name,
+            arn: attributes.QueueArn,
+            fifo: attributes.FifoQueue === 'true' || name.endsWith('.fifo'),
+            visibilityTimeout: QueueUtils.toNumber(attributes.VisibilityTimeout),
+            approximateDepth: QueueUtils.toNumber(attributes.ApproximateNumberOfMessages),
+            deadLetterTargetArn: redrivePolicy?.deadLetterTargetArn,
+            maxReceiveCount: QueueUtils.toNumber(redrivePolicy?.maxReceiveCount),
+            encryption: attributes.KmsMasterKeyId ? 'kms' : attributes.SqsManagedSseEnabled === 'true' ? 'sqs' : 'none',
+            deadLetterSources: [],
+        };
+    }
+
+    /**
+     * Fills in which of the provided queues are dead-letter queues, and for which source queues.
+     * Only the provided queues' redrive policies are considered.
+     *
+     * @param queues    The queue summaries.
+     */
+    public static linkDeadLetterSources(queues: SqsQueueSummary[]): SqsQueueSummary[] {
+        return queues.map((queue) => ({
+            ...queue,
+            deadLetterSources: queues.filter((source) => !!queue.arn && source.deadLetterTargetArn === queue.arn).map((source) => source.name),
+        }));
+    }
+
+    /**
+     * Parses the provided JSON redrive policy.
+     *
+     * @param json    The RedrivePolicy queue attribute.
+     * @returns       The parsed policy, or undefined if none is set or it cannot be parsed.
+     */
+    public static parseRedrivePolicy(json: string | undefined): RedrivePolicy | undefined {
+        if (!json) {
+            return undefined;
+        }
+
+        try {
+            return JSON.parse(json) as RedrivePolicy;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private static toNumber(value: string | number | undefined): number | undefined {
+        if (value === undefined || value === '') {
+            return undefined;
+        }
+
+        const num = Number(value);
+        return isNaN(num) ? undefined : num;
+    }
+}
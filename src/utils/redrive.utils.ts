@@ -0,0 +1,101 @@
+import { SqsReceivedMessage, SqsRedriveMessage, SqsRedriveOptions, SqsRedriveStatus } from '../components/app.component';
+import { MessageUtils } from './message.utils';
+
+/**
+ * The largest number of messages that can be read from a dead-letter queue at once.
+ */
+const MAX_MESSAGES = 1000;
+
+/**
+ * The longest visibility timeout SQS allows, in seconds.
+ */
+const MAX_VISIBILITY_TIMEOUT = 43200;
+
+export class RedriveUtils {
+    /**
+     * Returns the options a new redrive starts with.
+     */
+    public static getDefaultOptions(): SqsRedriveOptions {
+        return {
+            maxMessages: 100,
+            visibilityTimeout: 600,
+            ratePerSecond: 10,
+            dryRun: false,
+        };
+    }
+
+    /**
+     * Validates the provided redrive options for errors.
+     *
+     * @param options    The redrive options.
+     * @returns          If invalid, an array of errors, otherwise undefined.
+     */
+    public static validateOptions(options: SqsRedriveOptions): string[] | undefined {
+        const errors: string[] = [];
+
+        if (!Number.isInteger(options.maxMessages) || options.maxMessages < 1 || options.maxMessages > MAX_MESSAGES) {
+            errors.push(`Max Messages must be a whole number between 1 and ${MAX_MESSAGES}.`);
+        }
+        // Messages must stay hidden while they are redriven, otherwise another consumer could receive them and their receipt handles would expire.
+        if (!Number.isInteger(options.visibilityTimeout) || options.visibilityTimeout < 1 || options.visibilityTimeout > MAX_VISIBILITY_TIMEOUT) {
+            errors.push(`Visibility Timeout must be a whole number of seconds between 1 and ${MAX_VISIBILITY_TIMEOUT}.`);
+        }
+        if (!(options.ratePerSecond > 0)) {
+            errors.push('Rate must be greater than 0 messages per second.');
+        }
+
+        if (errors.length) {
+            return errors;
+        }
+    }
+
+    /**
+     * Converts the provided message, read from a dead-letter queue, to a message that can be redriven to its source queue.
+     * The body is kept exactly as received and the attributes are carried over, so the consumer sees the original message.
+     * FIFO messages are given a new deduplication ID, as the source queue would otherwise drop messages that failed
+     * within the deduplication interval as duplicates. The message is identified by its SQS message ID, which unlike a
+     * random ID is unique, so editing or redriving one message can never change another.
+     *
+     * @param received    The message read from the dead-letter queue.
+     */
+    public static toRedriveMessage(received: SqsReceivedMessage): SqsRedriveMessage {
+        const message = MessageUtils.fromReceivedToMessage(received);
+
+        return {
+            received,
+            message: {
+                ...message,
+                id: received.messageId,
+                body: received.body,
+                deduplicationMode: message.messageGroupId ? 'generated' : undefined,
+                messageDeduplicationId: undefined,
+            },
+            selected: true,
+            status: 'pending',
+        };
+    }
+
+    /**
+     * Returns the number of the provided messages with each redrive status.
+     *
+     * @param messages    The messages being redriven.
+     */
+    public static getCounts(messages: SqsRedriveMessage[]): Record<SqsRedriveStatus, number> {
+        return messages.reduce<Record<SqsRedriveStatus, number>>((counts, message) => ({ ...counts, [message.status]: counts[message.status] + 1 }), {
+            pending: 0,
+            sent: 0,
+            sentNotDeleted: 0,
+            failed: 0,
+            dryRun: 0,
+        });
+    }
+
+    /**
+     * Returns true if the provided message has already left the dead-letter queue, so it cannot be redriven again.
+     *
+     * @param message    The message being redriven.
+     */
+    public static isRedriven(message: SqsRedriveMessage): boolean {
+        return message.status === 'sent' || message.status === 'sentNotDeleted';
+    }
+}
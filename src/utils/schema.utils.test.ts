@@ -0,0 +1,163 @@
+import { SqsJsonSchema, SqsSchema } from '../components/app.component';
+import { SchemaUtils } from './schema.utils';
+
+const createSchema = (schema: SqsJsonSchema, fileName = 'test.schema.json'): SqsSchema => ({ id: fileName, fileName, schema });
+
+// Like the workspace's schemas, the validated schema is one of the schemas that can be referenced.
+const isValid = (schema: SqsJsonSchema, value: unknown, otherSchemas: SqsSchema[] = []) => {
+    const testSchema = createSchema(schema);
+    return !SchemaUtils.validate(value, testSchema, [testSchema, ...otherSchemas]).length;
+};
+
+describe('SchemaUtils', () => {
+    // Each supported keyword is checked against values that must pass and values that must fail, as in the JSON Schema test suite.
+    describe('validate', () => {
+        it.each<[string, SqsJsonSchema, unknown[], unknown[]]>([
+            ['true', true, [1, 'a', null], []],
+            ['false', false, [], [1, 'a', null]],
+            ['type', { type: 'integer' }, [1, 1.0, -3], [1.5, '1', null]],
+            ['type number', { type: 'number' }, [1, 1.5], ['1']],
+            ['type list', { type: ['string', 'null'] }, ['a', null], [0, {}]],
+            ['enum', { enum: ['a', 1, { b: [2] }] }, ['a', 1, { b: [2] }], ['b', { b: [3] }, [1]]],
+            ['const', { const: { a: [1, 2] } }, [{ a: [1, 2] }], [{ a: [2, 1] }, { a: [1, 2], b: 1 }]],
+            ['multipleOf', { multipleOf: 3 }, [0, 9, -12], [10, 4.5]],
+            ['multipleOf decimal', { multipleOf: 0.01 }, [19.99, 0.07, 1.15, 4.35, 123456.78], [19.991, 0.005]],
+            ['multipleOf tenth', { multipleOf: 0.1 }, [0.3, 0.7, 2.9], [0.35]],
+            ['minimum', { minimum: 2 }, [2, 3], [1.9]],
+            ['exclusiveMinimum', { exclusiveMinimum: 2 }, [2.1], [2, 1]],
+            ['maximum', { maximum: 2 }, [2, 1], [2.1]],
+            ['exclusiveMaximum', { exclusiveMaximum: 2 }, [1.9], [2, 3]],
+            ['minLength', { minLength: 2 }, ['ab', '😀😀'], ['a', '😀']],
+            ['maxLength', { maxLength: 2 }, ['ab', '😀😀'], ['abc', '😀😀😀']],
+            ['pattern', { pattern: '^[a-z]+-\\d+$' }, ['order-1'], ['Order-1', 'order-']],
+            ['items', { items: { type: 'number' } }, [[], [1, 2]], [[1, 'a']]],
+            ['prefixItems', { prefixItems: [{ type: 'string' }], items: { type: 'number' } }, [['a', 1, 2]], [[1], ['a', 'b']]],
+            ['minItems', { minItems: 1 }, [[1]], [[]]],
+            ['maxItems', { maxItems: 1 }, [[1]], [[1, 2]]],
+            [
+                'uniqueItems',
+                { uniqueItems: true },
+                [[1, '1', { a: 1 }, { a: 2 }]],
+                [
+                    [1, 1],
+                    [{ a: 1 }, { a: 1 }],
+                ],
+            ],
+            ['contains', { contains: { type: 'string' } }, [[1, 'a']], [[1, 2], []]],
+            ['minContains', { contains: { type: 'string' }, minContains: 2 }, [['a', 'b']], [['a', 1]]],
+            ['maxContains', { contains: { type: 'string' }, maxContains: 1 }, [['a', 1]], [['a', 'b']]],
+            ['required', { required: ['a'] }, [{ a: undefined }, { a: 1, b: 2 }], [{ b: 2 }]],
+            ['properties', { properties: { a: { type: 'string' } } }, [{ a: 'x' }, { b: 1 }], [{ a: 1 }]],
+            ['patternProperties', { patternProperties: { '^x-': { type: 'string' } } }, [{ 'x-a': 'y', b: 1 }], [{ 'x-a': 1 }]],
+            ['additionalProperties', { properties: { a: true }, patternProperties: { '^x-': true }, additionalProperties: false }, [{ a: 1, 'x-b': 2 }], [{ a: 1, b: 2 }]],
+            ['additionalProperties schema', { additionalProperties: { type: 'number' } }, [{ a: 1 }], [{ a: 'b' }]],
+            ['propertyNames', { propertyNames: { pattern: '^[a-z]+$' } }, [{ abc: 1 }], [{ Abc: 1 }]],
+            ['minProperties', { minProperties: 1 }, [{ a: 1 }], [{}]],
+            ['maxProperties', { maxProperties: 1 }, [{ a: 1 }], [{ a: 1, b: 2 }]],
+            ['dependentRequired', { dependentRequired: { card: ['expiry'] } }, [{}, { card: 1, expiry: 2 }], [{ card: 1 }]],
+            ['dependentSchemas', { dependentSchemas: { card: { required: ['expiry'] } } }, [{}, { card: 1, expiry: 2 }], [{ card: 1 }]],
+            ['allOf', { allOf: [{ type: 'number' }, { minimum: 2 }] }, [2], [1, '2']],
+            ['anyOf', { anyOf: [{ type: 'string' }, { minimum: 2 }] }, ['a', 2], [1]],
+            ['oneOf', { oneOf: [{ type: 'integer' }, { minimum: 2 }] }, [1, 2.5], [3, 1.5]],
+            ['not', { not: { type: 'string' } }, [1], ['a']],
+            ['if then else', { if: { type: 'string' }, then: { minLength: 2 }, else: { minimum: 2 } }, ['ab', 2], ['a', 1]],
+            ['$ref pointer', { $defs: { id: { type: 'integer' } }, properties: { id: { $ref: '#/$defs/id' } } }, [{ id: 1 }], [{ id: 'a' }]],
+            ['$ref anchor', { $defs: { id: { $anchor: 'id', type: 'integer' } }, items: { $ref: '#id' } }, [[1]], [['a']]],
+            ['$ref recursive', { properties: { child: { $ref: '#' } }, required: ['name'] }, [{ name: 'a', child: { name: 'b' } }], [{ name: 'a', child: {} }]],
+            [
+                'unevaluatedProperties',
+                { allOf: [{ properties: { orderId: { type: 'string' } } }], unevaluatedProperties: false },
+                [{ orderId: 'a' }, {}],
+                [{ ordrId: 'typo' }, { orderId: 'a', extra: 1 }],
+            ],
+            [
+                'unevaluatedProperties with applicators',
+                {
+                    properties: { kind: true },
+                    patternProperties: { '^x-': true },
+                    anyOf: [{ properties: { card: true } }, { properties: { iban: true } }],
+                    if: { properties: { kind: { const: 'gift' } } },
+                    then: { properties: { message: true } },
+                    unevaluatedProperties: false,
+                },
+                [{ kind: 'gift', message: 'hi', card: 1, 'x-a': 1 }, { iban: 1 }],
+                [{ kind: 'plain', message: 'hi' }, { other: 1 }],
+            ],
+            ['unevaluatedProperties schema', { properties: { a: true }, unevaluatedProperties: { type: 'number' } }, [{ a: 'x', b: 1 }], [{ a: 'x', b: 'y' }]],
+            [
+                'unevaluatedProperties of failed subschemas',
+                { anyOf: [{ properties: { a: { type: 'string' } }, required: ['a'] }, { required: ['b'] }], unevaluatedProperties: false },
+                [{ a: 'x' }],
+                [{ a: 1, b: 1 }],
+            ],
+            ['unevaluatedItems', { allOf: [{ prefixItems: [{ type: 'string' }] }], unevaluatedItems: false }, [['a'], []], [['a', 'b']]],
+            ['unevaluatedItems with contains', { contains: { type: 'string' }, unevaluatedItems: { type: 'number' } }, [['a', 1, 'b']], [['a', true]]],
+            [
+                '$dynamicRef',
+                {
+                    $id: 'https://example.com/strict-tree',
+                    $dynamicAnchor: 'node',
+                    $ref: 'tree',
+                    unevaluatedProperties: false,
+                    $defs: {
+                        tree: {
+                            $id: 'tree',
+                            $dynamicAnchor: 'node',
+                            type: 'object',
+                            properties: { data: true, children: { type: 'array', items: { $dynamicRef: '#node' } } },
+                        },
+                    },
+                },
+                [{ children: [{ data: 1 }] }],
+                [{ children: [{ daat: 1 }] }],
+            ],
+        ])('%s', (keyword, schema, validValues, invalidValues) => {
+            validValues.forEach((value) => expect(isValid(schema, value)).toBe(true));
+            invalidValues.forEach((value) => expect(isValid(schema, value)).toBe(false));
+        });
+
+        it('resolves references to other schemas by file name and by $id', () => {
+            const address = createSchema({ $id: 'https://example.com/address', type: 'object', required: ['city'] }, 'address.schema.json');
+            const money = createSchema({ type: 'number', multipleOf: 0.01 }, 'money.schema.json');
+            const schema = { properties: { price: { $ref: 'money.schema.json' }, address: { $ref: 'https://example.com/address' } } };
+
+            expect(isValid(schema, { price: 19.99, address: { city: 'Leeds' } }, [address, money])).toBe(true);
+            expect(isValid(schema, { price: 19.991 }, [address, money])).toBe(false);
+            expect(isValid(schema, { address: {} }, [address, money])).toBe(false);
+        });
+
+        it('reports the path and reason of each violation', () => {
+            const schema = { properties: { items: { items: { required: ['sku'] } }, 'unit price': { minimum: 0 } } };
+
+            expect(SchemaUtils.validate({ items: [{ sku: 'a' }, {}], 'unit price': -1 }, createSchema(schema), [])).toEqual([
+                { path: '$.items[1]', message: "must have required property 'sku'" },
+                { path: "$['unit price']", message: 'must be >= 0' },
+            ]);
+        });
+
+        it('reports keywords that draft 2020-12 replaced, rather than ignoring them', () => {
+            expect(SchemaUtils.validate({}, createSchema({ dependencies: { a: ['b'] } }), [])).toEqual([
+                { path: '$', message: "cannot be checked against 'dependencies', which draft 2020-12 replaced with dependentRequired or dependentSchemas" },
+            ]);
+            expect(isValid({ items: [{ type: 'string' }] }, ['a'])).toBe(false);
+            expect(isValid({ additionalItems: false }, [])).toBe(false);
+        });
+
+        it('reports references that cannot be resolved', () => {
+            expect(SchemaUtils.validate(1, createSchema({ $ref: 'missing.schema.json' }), [])).toEqual([{ path: '$', message: "cannot resolve $ref 'missing.schema.json'" }]);
+        });
+    });
+
+    describe('validateBody', () => {
+        const schema = createSchema({ required: ['orderId'] }, 'order.schema.json');
+
+        it('reports violations with the schema name', () => {
+            expect(SchemaUtils.validateBody('{"orderId": 1}', schema, [schema])).toEqual([]);
+            expect(SchemaUtils.validateBody('{}', schema, [schema])).toEqual(["Body does not match schema 'order' at $: must have required property 'orderId'."]);
+        });
+
+        it('reports a body that is not JSON', () => {
+            expect(SchemaUtils.validateBody('orderId=1', schema, [schema])).toEqual(["Body must be JSON to be validated against schema 'order'."]);
+        });
+    });
+});
@@ -0,0 +1,604 @@
+import { SqsJsonSchema, SqsMessage, SqsSchema, SqsSchemaSettings, SqsSchemaViolation } from '../components/app.component';
+
+/**
+ * The base URI of schemas without an $id, so other schemas can reference them by file name, e.g. { "$ref": "address.schema.json" }.
+ */
+const BASE_URI = 'schema:///';
+
+/**
+ * The maximum number of nested $ref lookups, which stops recursive schemas from looping forever.
+ */
+const MAX_REF_DEPTH = 64;
+
+/**
+ * The keywords whose values are data rather than subschemas, which are skipped when indexing $id and $anchor keywords.
+ */
+const DATA_KEYWORDS = ['const', 'enum', 'default', 'examples'];
+
+/**
+ * Keywords of earlier drafts that draft 2020-12 replaced, with what to use instead. Schemas using them are reported
+ * rather than passing every value.
+ */
+const UNSUPPORTED_KEYWORDS: Record<string, string> = {
+    $recursiveRef: '$dynamicRef',
+    additionalItems: 'items with prefixItems',
+    dependencies: 'dependentRequired or dependentSchemas',
+};
+
+type SchemaObject = { [keyword: string]: unknown };
+
+type SchemaRegistry = Map<string, SqsJsonSchema>;
+
+type Scope = {
+    registry: SchemaRegistry;
+    baseUri: string;
+    depth: number;
+
+    /**
+     * The base URIs of the schema resources entered so far, outermost first, which $dynamicRef searches.
+     */
+    dynamicScope: string[];
+};
+
+/**
+ * The properties and items a schema and its valid subschemas have evaluated, which unevaluatedProperties and
+ * unevaluatedItems apply to the rest of.
+ */
+type Evaluated = {
+    properties: Set<string>;
+    items: Set<number>;
+};
+
+/**
+ * The registries of each list of schemas, which are rebuilt whenever the list changes.
+ */
+const registries = new WeakMap<SqsSchema[], SchemaRegistry>();
+
+const hasOwn = (value: SchemaObject, name: string) => Object.prototype.hasOwnProperty.call(value, name);
+
+const isObject = (value: unknown): value is SchemaObject => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+    }
+    if (isObject(a) && isObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length && keys.every((key) => hasOwn(b, key) && isEqual(a[key], b[key]));
+    }
+    return a === b;
+};
+
+const getType = (value: unknown) => {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? 'integer' : 'number';
+    }
+    return typeof value;
+};
+
+const toArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : [value]);
+
+const toChildPath = (path: string, key: string | number) => {
+    if (typeof key === 'number') {
+        return `${path}[${key}]`;
+    }
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}['${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+};
+
+/**
+ * Returns true if the text matches the provided pattern, or undefined if the pattern is not a valid regular expression.
+ */
+const testPattern = (pattern: string, text: string) => {
+    try {
+        return new RegExp(pattern, 'u').test(text);
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Returns true if the value is a whole multiple of the divisor. Decimal fractions such as 0.01 are not exact in floating
+ * point, so 19.99 / 0.01 is 1998.9999999999998, and quotients within a few rounding errors of a whole number are accepted.
+ */
+const isMultipleOf = (value: number, divisor: number) => {
+    const quotient = value / divisor;
+    return Math.abs(quotient - Math.round(quotient)) <= Math.abs(quotient) * Number.EPSILON * 4;
+};
+
+const resolveUri = (reference: string, baseUri: string) => new URL(reference, baseUri).href;
+
+const withoutFragment = (uri: string) => uri.replace(/#.*$/, '');
+
+export class SchemaUtils {
+    /**
+     * Creates a workspace schema from the content of a JSON Schema file.
+     *
+     * @param id          The schema's unique identifier.
+     * @param fileName    The file's name, which other schemas can reference with $ref.
+     * @param content     The file's content.
+     */
+    public static createSchema(id: string, fileName: string, content: string): SqsSchema {
+        const schema: unknown = JSON.parse(content);
+
+        if (typeof schema !== 'boolean' && !isObject(schema)) {
+            throw new Error(`'${fileName}' does not contain a JSON schema.`);
+        }
+
+        return { id, fileName, schema };
+    }
+
+    /**
+     * Returns the schema's display name, being its file name without the .json or .schema.json extension.
+     *
+     * @param schema    The workspace schema.
+     */
+    public static getSchemaName(schema: SqsSchema): string {
+        return schema.fileName.replace(/(\.schema)?\.json$/i, '');
+    }
+
+    /**
+     * Chooses the schema the provided message's body is validated against. The message's own schema takes precedence,
+     * followed by the schema chosen by the selector attribute's value and finally the workspace's default schema.
+     *
+     * @param message     The SQS message.
+     * @param settings    The workspace's schema settings.
+     * @returns           The chosen schema, or undefined if the message is not validated against a schema.
+     */
+    public static selectSchema(message: SqsMessage, settings: SqsSchemaSettings | undefined): SqsSchema | undefined {
+        if (!settings?.schemas.length) {
+            return undefined;
+        }
+
+        const findSchema = (id: string | undefined) => settings.schemas.find((schema) => schema.id === id);
+
+        if (message.schemaId) {
+            return findSchema(message.schemaId);
+        }
+
+        const selector = settings.selectorAttribute && message.attributes.find((attribute) => attribute.name === settings.selectorAttribute);
+        if (selector && typeof selector.value === 'string') {
+            const selectedSchema = settings.schemas.find(
+                (schema) => SchemaUtils.getSchemaName(schema) === selector.value || (isObject(schema.schema) && schema.schema.title === selector.value)
+            );
+
+            if (selectedSchema) {
+                return selectedSchema;
+            }
+        }
+
+        return findSchema(settings.defaultSchemaId);
+    }
+
+    /**
+     * Validates the provided message body against the provided schema.
+     *
+     * @param body       The message body.
+     * @param schema     The schema the body must match.
+     * @param schemas    All of the workspace's schemas, which may be referenced with $ref.
+     * @returns          The validation errors, with the JSON path of each invalid value.
+     */
+    public static validateBody(body: string, schema: SqsSchema, schemas: SqsSchema[]): string[] {
+        const name = SchemaUtils.getSchemaName(schema);
+        let value: unknown;
+
+        try {
+            value = JSON.parse(body);
+        } catch {
+            return [`Body must be JSON to be validated against schema '${name}'.`];
+        }
+
+        return SchemaUtils.validate(value, schema, schemas).map((violation) => `Body does not match schema '${name}' at ${violation.path}: ${violation.message}.`);
+    }
+
+    /**
+     * Validates the provided value against the provided JSON Schema (draft 2020-12).
+     * Annotations such as format are not asserted. Keywords that draft 2020-12 replaced, such as dependencies, are reported as violations.
+     *
+     * @param value      The value to be validated.
+     * @param schema     The schema the value must match.
+     * @param schemas    All of the workspace's schemas, which may be referenced with $ref.
+     * @returns          The schema violations, if any.
+     */
+    public static validate(value: unknown, schema: SqsSchema, schemas: SqsSchema[]): SqsSchemaViolation[] {
+        const violations: SqsSchemaViolation[] = [];
+        const baseUri = SchemaUtils.getBaseUri(schema);
+        const scope = { registry: SchemaUtils.getRegistry(schemas), baseUri, depth: 0, dynamicScope: [baseUri] };
+
+        SchemaUtils.validateValue(schema.schema, value, '$', scope, violations);
+        return violations;
+    }
+
+    /**
+     * Returns the registry of the provided schemas, keyed by their absolute URIs.
+     * Schemas are registered by file name, by $id, by $anchor and by $dynamicAnchor, including those of nested subschemas.
+     */
+    private static getRegistry(schemas: SqsSchema[]): SchemaRegistry {
+        let registry = registries.get(schemas);
+
+        if (!registry) {
+            const newRegistry: SchemaRegistry = new Map();
+
+            const register = (schema: unknown, baseUri: string) => {
+                if (Array.isArray(schema)) {
+                    schema.forEach((item) => register(item, baseUri));
+                }
+                if (!isObject(schema)) {
+                    return;
+                }
+
+                let uri = baseUri;
+                if (typeof schema.$id === 'string') {
+                    uri = withoutFragment(resolveUri(schema.$id, baseUri));
+                    newRegistry.set(uri, schema);
+                }
+                if (typeof schema.$anchor === 'string') {
+                    newRegistry.set(`${uri}#${schema.$anchor}`, schema);
+                }
+                if (typeof schema.$dynamicAnchor === 'string') {
+                    newRegistry.set(`${uri}#${schema.$dynamicAnchor}`, schema);
+                }
+
+                Object.entries(schema)
+                    .filter(([keyword]) => !DATA_KEYWORDS.includes(keyword))
+                    .forEach(([, subschema]) => register(subschema, uri));
+            };
+
+            schemas.forEach((schema) => {
+                const fileUri = resolveUri(schema.fileName, BASE_URI);
+                newRegistry.set(fileUri, schema.schema);
+                register(schema.schema, fileUri);
+            });
+
+            registries.set(schemas, newRegistry);
+            registry = newRegistry;
+        }
+
+        return registry;
+    }
+
+    private static getBaseUri(schema: SqsSchema): string {
+        const fileUri = resolveUri(schema.fileName, BASE_URI);
+        return isObject(schema.schema) && typeof schema.schema.$id === 'string' ? withoutFragment(resolveUri(schema.schema.$id, fileUri)) : fileUri;
+    }
+
+    /**
+     * Finds the schema the provided $ref refers to, being either a whole schema, a JSON pointer into one or an anchor.
+     */
+    private static resolveRef(reference: string, scope: Scope): { schema: SqsJsonSchema; baseUri: string } | undefined {
+        const uri = resolveUri(reference, scope.baseUri);
+        const baseUri = withoutFragment(uri);
+        const fragment = decodeURIComponent(uri.slice(baseUri.length + 1));
+
+        if (fragment && !fragment.startsWith('/')) {
+            const anchored = scope.registry.get(`${baseUri}#${fragment}`);
+            return anchored !== undefined ? { schema: anchored, baseUri } : undefined;
+        }
+
+        let schema: unknown = scope.registry.get(baseUri);
+
+        for (const token of fragment.split('/').slice(1)) {
+            const key = token.replace(/~1/g, '/').replace(/~0/g, '~');
+            schema = Array.isArray(schema) ? schema[Number(key)] : isObject(schema) ? schema[key] : undefined;
+        }
+
+        return typeof schema === 'boolean' || isObject(schema) ? { schema, baseUri } : undefined;
+    }
+
+    /**
+     * Finds the schema the provided $dynamicRef refers to. When it resolves to a $dynamicAnchor, the outermost schema resource
+     * in the dynamic scope with a $dynamicAnchor of the same name is used instead, so a recursive schema can be extended.
+     */
+    private static resolveDynamicRef(reference: string, scope: Scope): { schema: SqsJsonSchema; baseUri: string } | undefined {
+        const target = SchemaUtils.resolveRef(reference, scope);
+        const anchor = decodeURIComponent(reference.replace(/^[^#]*#?/, ''));
+
+        if (!target || !isObject(target.schema) || target.schema.$dynamicAnchor !== anchor) {
+            return target;
+        }
+
+        for (const uri of scope.dynamicScope) {
+            const schema = scope.registry.get(`${uri}#${anchor}`);
+            if (isObject(schema) && schema.$dynamicAnchor === anchor) {
+                return { schema, baseUri: uri };
+            }
+        }
+
+        return target;
+    }
+
+    /**
+     * Returns the scope of the provided schema, which starts a new schema resource if it has an $id or was reached by a $ref.
+     */
+    private static enterScope(schema: SchemaObject, scope: Scope): Scope {
+        const baseUri = typeof schema.$id === 'string' ? withoutFragment(resolveUri(schema.$id, scope.baseUri)) : scope.baseUri;
+        const dynamicScope = scope.dynamicScope[scope.dynamicScope.length - 1] === baseUri ? scope.dynamicScope : [...scope.dynamicScope, baseUri];
+
+        return { ...scope, baseUri, dynamicScope };
+    }
+
+    /**
+     * Validates the provided value against a schema, adding any violations to the provided list.
+     * If the value is valid, the properties and items the schema evaluated are added to the provided annotations.
+     *
+     * @returns    True if the value is valid, otherwise false.
+     */
+    private static validateValue(schema: SqsJsonSchema, value: unknown, path: string, scope: Scope, violations: SqsSchemaViolation[], evaluated?: Evaluated): boolean {
+        if (schema === true) {
+            return true;
+        }
+        if (schema === false) {
+            violations.push({ path, message: 'is not allowed' });
+            return false;
+        }
+
+        const initialCount = violations.length;
+        const currentScope = SchemaUtils.enterScope(schema, scope);
+        const local: Evaluated = { properties: new Set(), items: new Set() };
+        const fail = (message: string) => violations.push({ path, message });
+        const isValid = (subschema: unknown, subvalue: unknown = value, annotations?: Evaluated) =>
+            SchemaUtils.validateValue(subschema as SqsJsonSchema, subvalue, path, currentScope, [], annotations);
+        const type = getType(value);
+
+        const followRef = (keyword: string, reference: string, target: { schema: SqsJsonSchema; baseUri: string } | undefined) => {
+            if (!target) {
+                fail(`cannot resolve ${keyword} '${reference}'`);
+            } else if (scope.depth >= MAX_REF_DEPTH) {
+                fail(`cannot follow ${keyword} '${reference}', as it is nested too deeply`);
+            } else {
+                SchemaUtils.validateValue(target.schema, value, path, { ...currentScope, baseUri: target.baseUri, depth: scope.depth + 1 }, violations, local);
+            }
+        };
+
+        Object.keys(UNSUPPORTED_KEYWORDS)
+            .filter((keyword) => hasOwn(schema, keyword))
+            .forEach((keyword) => fail(`cannot be checked against '${keyword}', which draft 2020-12 replaced with ${UNSUPPORTED_KEYWORDS[keyword]}`));
+        if (Array.isArray(schema.items)) {
+            fail("cannot be checked against a list of schemas in 'items', which draft 2020-12 replaced with prefixItems");
+        }
+
+        if (typeof schema.$ref === 'string') {
+            followRef('$ref', schema.$ref, SchemaUtils.resolveRef(schema.$ref, currentScope));
+        }
+        if (typeof schema.$dynamicRef === 'string') {
+            followRef('$dynamicRef', schema.$dynamicRef, SchemaUtils.resolveDynamicRef(schema.$dynamicRef, currentScope));
+        }
+
+        if (schema.type !== undefined) {
+            const types = toArray(schema.type);
+            if (!types.some((allowedType) => allowedType === type || (allowedType === 'number' && type === 'integer'))) {
+                fail(`must be ${types.join(' or ')}`);
+            }
+        }
+        if (Array.isArray(schema.enum) && !schema.enum.some((allowedValue) => isEqual(allowedValue, value))) {
+            fail(`must be one of ${schema.enum.map((allowedValue) => JSON.stringify(allowedValue)).join(', ')}`);
+        }
+        if ('const' in schema && !isEqual(schema.const, value)) {
+            fail(`must be ${JSON.stringify(schema.const)}`);
+        }
+
+        if (typeof value === 'number') {
+            SchemaUtils.validateNumber(schema, value, fail);
+        }
+        if (typeof value === 'string') {
+            SchemaUtils.validateString(schema, value, fail);
+        }
+
+        if (Array.isArray(value)) {
+            SchemaUtils.validateArray(schema, value, path, currentScope, violations, isValid, local);
+        }
+        if (isObject(value)) {
+            SchemaUtils.validateObject(schema, value, path, currentScope, violations, isValid, local);
+        }
+
+        // Every subschema is evaluated, rather than stopping at the first match, as each valid one adds to the evaluated properties and items.
+        if (Array.isArray(schema.allOf)) {
+            schema.allOf.forEach((subschema) => SchemaUtils.validateValue(subschema as SqsJsonSchema, value, path, currentScope, violations, local));
+        }
+        if (Array.isArray(schema.anyOf) && !schema.anyOf.filter((subschema) => isValid(subschema, value, local)).length) {
+            fail('must match at least one of the schemas in anyOf');
+        }
+        if (Array.isArray(schema.oneOf) && schema.oneOf.filter((subschema) => isValid(subschema, value, local)).length !== 1) {
+            fail('must match exactly one of the schemas in oneOf');
+        }
+        if (schema.not !== undefined && isValid(schema.not)) {
+            fail('must not match the schema in not');
+        }
+        if (schema.if !== undefined) {
+            const branch = isValid(schema.if, value, local) ? schema.then : schema.else;
+            if (branch !== undefined) {
+                SchemaUtils.validateValue(branch as SqsJsonSchema, value, path, currentScope, violations, local);
+            }
+        }
+
+        // The unevaluated keywords apply last, once every other keyword has added the properties and items it evaluated.
+        if (Array.isArray(value) && schema.unevaluatedItems !== undefined) {
+            value.forEach((item, index) => {
+                if (local.items.has(index)) {
+                    return;
+                }
+                if (schema.unevaluatedItems === false) {
+                    fail(`must not have unevaluated item ${index}`);
+                } else {
+                    SchemaUtils.validateValue(schema.unevaluatedItems as SqsJsonSchema, item, toChildPath(path, index), currentScope, violations);
+                }
+                local.items.add(index);
+            });
+        }
+        if (isObject(value) && schema.unevaluatedProperties !== undefined) {
+            Object.keys(value).forEach((name) => {
+                if (local.properties.has(name)) {
+                    return;
+                }
+                if (schema.unevaluatedProperties === false) {
+                    fail(`must not have unevaluated property '${name}'`);
+                } else {
+                    SchemaUtils.validateValue(schema.unevaluatedProperties as SqsJsonSchema, value[name], toChildPath(path, name), currentScope, violations);
+                }
+                local.properties.add(name);
+            });
+        }
+
+        const valid = violations.length === initialCount;
+
+        // Annotations are only kept from valid schemas, e.g. from the branches of anyOf that matched.
+        if (valid && evaluated) {
+            local.properties.forEach((name) => evaluated.properties.add(name));
+            local.items.forEach((index) => evaluated.items.add(index));
+        }
+
+        return valid;
+    }
+
+    private static validateNumber(schema: SchemaObject, value: number, fail: (message: string) => void): void {
+        if (typeof schema.multipleOf === 'number' && !isMultipleOf(value, schema.multipleOf)) {
+            fail(`must be a multiple of ${schema.multipleOf}`);
+        }
+        if (typeof schema.minimum === 'number' && value < schema.minimum) {
+            fail(`must be >= ${schema.minimum}`);
+        }
+        if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+            fail(`must be > ${schema.exclusiveMinimum}`);
+        }
+        if (typeof schema.maximum === 'number' && value > schema.maximum) {
+            fail(`must be <= ${schema.maximum}`);
+        }
+        if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+            fail(`must be < ${schema.exclusiveMaximum}`);
+        }
+    }
+
+    private static validateString(schema: SchemaObject, value: string, fail: (message: string) => void): void {
+        // Lengths are counted in code points, as required by the specification, so emoji count as one character.
+        const length = [...value].length;
+
+        if (typeof schema.minLength === 'number' && length < schema.minLength) {
+            fail(`must not have fewer than ${schema.minLength} characters`);
+        }
+        if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+            fail(`must not have more than ${schema.maxLength} characters`);
+        }
+        if (typeof schema.pattern === 'string') {
+            const matches = testPattern(schema.pattern, value);
+            if (matches === undefined) {
+                fail(`cannot be checked against the invalid pattern "${schema.pattern}"`);
+            } else if (!matches) {
+                fail(`must match pattern "${schema.pattern}"`);
+            }
+        }
+    }
+
+    private static validateArray(
+        schema: SchemaObject,
+        value: unknown[],
+        path: string,
+        scope: Scope,
+        violations: SqsSchemaViolation[],
+        isValid: (subschema: unknown, subvalue: unknown) => boolean,
+        evaluated: Evaluated
+    ): void {
+        const fail = (message: string) => violations.push({ path, message });
+        const prefixItems: unknown[] = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+
+        value.forEach((item, index) => {
+            const itemSchema = index < prefixItems.length ? prefixItems[index] : schema.items;
+            if (itemSchema !== undefined && !Array.isArray(itemSchema)) {
+                SchemaUtils.validateValue(itemSchema as SqsJsonSchema, item, toChildPath(path, index), scope, violations);
+                evaluated.items.add(index);
+            }
+        });
+
+        if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+            fail(`must not have fewer than ${schema.minItems} items`);
+        }
+        if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+            fail(`must not have more than ${schema.maxItems} items`);
+        }
+        if (schema.uniqueItems === true && value.some((item, index) => value.findIndex((otherItem) => isEqual(item, otherItem)) !== index)) {
+            fail('must not have duplicate items');
+        }
+        if (schema.contains !== undefined) {
+            const matchingIndexes = value.flatMap((item, index) => (isValid(schema.contains, item) ? [index] : []));
+            const matches = matchingIndexes.length;
+            const minContains = typeof schema.minContains === 'number' ? schema.minContains : 1;
+
+            if (matches < minContains) {
+                fail(`must contain at least ${minContains} matching ${minContains === 1 ? 'item' : 'items'}`);
+            }
+            if (typeof schema.maxContains === 'number' && matches > schema.maxContains) {
+                fail(`must not contain more than ${schema.maxContains} matching items`);
+            }
+            matchingIndexes.forEach((index) => evaluated.items.add(index));
+        }
+    }
+
+    private static validateObject(
+        schema: SchemaObject,
+        value: SchemaObject,
+        path: string,
+        scope: Scope,
+        violations: SqsSchemaViolation[],
+        isValid: (subschema: unknown, subvalue: unknown) => boolean,
+        evaluated: Evaluated
+    ): void {
+        const fail = (message: string) => violations.push({ path, message });
+        const names = Object.keys(value);
+        const properties = isObject(schema.properties) ? schema.properties : {};
+        const patterns = Object.keys(isObject(schema.patternProperties) ? schema.patternProperties : {});
+
+        if (Array.isArray(schema.required)) {
+            schema.required.filter((name) => typeof name === 'string' && !hasOwn(value, name)).forEach((name) => fail(`must have required property '${String(name)}'`));
+        }
+        if (typeof schema.minProperties === 'number' && names.length < schema.minProperties) {
+            fail(`must not have fewer than ${schema.minProperties} properties`);
+        }
+        if (typeof schema.maxProperties === 'number' && names.length > schema.maxProperties) {
+            fail(`must not have more than ${schema.maxProperties} properties`);
+        }
+        if (isObject(schema.dependentRequired)) {
+            Object.entries(schema.dependentRequired)
+                .filter(([name]) => hasOwn(value, name))
+                .forEach(([name, dependencies]) =>
+                    toArray(dependencies)
+                        .filter((dependency) => typeof dependency === 'string' && !hasOwn(value, dependency))
+                        .forEach((dependency) => fail(`must have property '${String(dependency)}' when property '${name}' is present`))
+                );
+        }
+        if (isObject(schema.dependentSchemas)) {
+            Object.entries(schema.dependentSchemas)
+                .filter(([name]) => hasOwn(value, name))
+                .forEach(([, subschema]) => SchemaUtils.validateValue(subschema as SqsJsonSchema, value, path, scope, violations, evaluated));
+        }
+
+        names.forEach((name) => {
+            const childPath = toChildPath(path, name);
+            const matchingPatterns = patterns.filter((pattern) => testPattern(pattern, name));
+
+            if (hasOwn(properties, name) || matchingPatterns.length || schema.additionalProperties !== undefined) {
+                evaluated.properties.add(name);
+            }
+            if (hasOwn(properties, name)) {
+                SchemaUtils.validateValue(properties[name] as SqsJsonSchema, value[name], childPath, scope, violations);
+            }
+            matchingPatterns.forEach((pattern) =>
+                SchemaUtils.validateValue((schema.patternProperties as SchemaObject)[pattern] as SqsJsonSchema, value[name], childPath, scope, violations)
+            );
+
+            if (schema.additionalProperties !== undefined && !hasOwn(properties, name) && !matchingPatterns.length) {
+                if (schema.additionalProperties === false) {
+                    fail(`must not have additional property '${name}'`);
+                } else {
+                    SchemaUtils.validateValue(schema.additionalProperties as SqsJsonSchema, value[name], childPath, scope, violations);
+                }
+            }
+            if (schema.propertyNames !== undefined && !isValid(schema.propertyNames, name)) {
+                fail(`must not have a property named '${name}'`);
+            }
+        });
+    }
+}
@@ -0,0 +1,530 @@
+import { SQS } from 'aws-sdk';
+import { createHash } from 'crypto';
+import { SqsMessage, SqsSnippetFormat } from '../components/app.component';
+import { ConnectionUtils } from './connection.utils';
+import { LiteralState, LiteralUtils } from './literal.utils';
+import { MessageUtils } from './message.utils';
+import { QueueUtils } from './queue.utils';
+import { TemplateUtils } from './template.utils';
+
+type Language = 'js' | 'python';
+
+const INDENT = '    ';
+
+/**
+ * The region used when it cannot be read from the queue URL, e.g. for local emulators. Emulators accept any region.
+ */
+const DEFAULT_REGION = 'us-east-1';
+
+/**
+ * The sender ID and receipt handle of exported Lambda events, taken from the sample events in the AWS documentation.
+ */
+const SAMPLE_SENDER_ID = 'AIDAIENQZJOLO23YVJ4VO';
+const SAMPLE_RECEIPT_HANDLE = 'MessageReceiptHandle';
+
+/**
+ * The options of `aws sqs send-message`, and the request fields they set.
+ */
+const CLI_OPTIONS: Record<string, keyof SQS.SendMessageRequest> = {
+    '--queue-url': 'QueueUrl',
+    '--message-body': 'MessageBody',
+    '--message-attributes': 'MessageAttributes',
+    '--delay-seconds': 'DelaySeconds',
+    '--message-group-id': 'MessageGroupId',
+    '--message-deduplication-id': 'MessageDeduplicationId',
+};
+
+const UNRECOGNIZED_MESSAGE =
+    'Could not recognize the pasted text. Paste an aws sqs send-message command, an AWS SDK v3 or boto3 snippet, a Lambda SQS event, or a ReceiveMessage response.';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Uint8Array);
+
+const toOptionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const toBase64 = (value: SQS.Binary | undefined) => {
+    if (value === undefined || typeof value === 'string') {
+        return Buffer.from(value ?? '', 'utf8').toString('base64');
+    }
+    if (value instanceof Uint8Array) {
+        return Buffer.from(value).toString('base64');
+    }
+    throw new Error('Binary attributes read from a file cannot be exported.');
+};
+
+const quoteShell = (value: string) => (/^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`);
+
+export class SnippetUtils {
+    /**
+     * Writes the provided send request in the provided format.
+     *
+     * @param format     The snippet format.
+     * @param request    The SQS send request, as returned by MessageUtils.toRequest.
+     */
+    public static toSnippet(format: SqsSnippetFormat, request: SQS.SendMessageRequest): string {
+        switch (format) {
+            case 'awsCli':
+                return SnippetUtils.toCliCommand(request);
+            case 'sdkV3':
+                return SnippetUtils.toSdkV3Snippet(request);
+            case 'boto3':
+                return SnippetUtils.toBoto3Snippet(request);
+            case 'lambdaEvent':
+                return SnippetUtils.toLambdaEvent(request);
+        }
+    }
+
+    /**
+     * Parses the provided text into editable messages. The text can be an `aws sqs send-message` command, an AWS SDK v3
+     * or boto3 snippet that sends a message, a Lambda SQS event, a ReceiveMessage response, or a SendMessage request as JSON.
+     * Values in snippets that are not literals, such as variables, are left out.
+     *
+     * @param text    The pasted text.
+     * @throws        An error describing why the text could not be parsed.
+     */
+    public static parse(text: string): SqsMessage[] {
+        const trimmed = text.trim();
+        let messages: SqsMessage[];
+
+        if (/^(\$\s*)?aws\s/.test(trimmed)) {
+            messages = [MessageUtils.fromRequest(SnippetUtils.parseCliCommand(trimmed))];
+        } else if (/\bSendMessageCommand\s*\(/.test(trimmed)) {
+            messages = [MessageUtils.fromRequest(SnippetUtils.parseSdkV3Snippet(trimmed))];
+        } else if (/\.send_message\s*\(/.test(trimmed)) {
+            messages = [MessageUtils.fromRequest(SnippetUtils.parseBoto3Snippet(trimmed))];
+        } else {
+            messages = SnippetUtils.fromJson(SnippetUtils.parseJson(trimmed));
+        }
+
+        if (!messages.length) {
+            throw new Error('The pasted text does not contain any messages.');
+        }
+
+        return messages;
+    }
+
+    private static toCliCommand(request: SQS.SendMessageRequest): string {
+        const region = ConnectionUtils.getQueueRegion(request.QueueUrl);
+        const options: Array<[string, string | number | undefined]> = [
+            ['--queue-url', request.QueueUrl],
+            ['--message-body', request.MessageBody],
+            ['--message-attributes', SnippetUtils.hasAttributes(request) ? JSON.stringify(SnippetUtils.toJsonAttributes(request.MessageAttributes)) : undefined],
+            ['--delay-seconds', request.DelaySeconds],
+            ['--message-group-id', request.MessageGroupId],
+            ['--message-deduplication-id', request.MessageDeduplicationId],
+            ['--region', region],
+        ];
+
+        const lines = options.filter(([, value]) => value !== undefined).map(([option, value]) => `${INDENT}${option} ${quoteShell(String(value))}`);
+
+        return ['aws sqs send-message', ...lines].join(' \\\n');
+    }
+
+    private static toSdkV3Snippet(request: SQS.SendMessageRequest): string {
+        return [
+            'import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";',
+            '',
+            `const client = new SQSClient(${SnippetUtils.toLiteral(SnippetUtils.getClientConfig(request.QueueUrl), 'js', '')});`,
+            '',
+            `const response = await client.send(new SendMessageCommand(${SnippetUtils.toLiteral(SnippetUtils.toInput(request), 'js', '')}));`,
+            'console.log(response.MessageId);',
+            '',
+        ].join('\n');
+    }
+
+    private static toBoto3Snippet(request: SQS.SendMessageRequest): string {
+        const { region, endpoint } = SnippetUtils.getClientConfig(request.QueueUrl);
+        const binary = Object.values(request.MessageAttributes ?? {}).some((attribute) => attribute.StringValue === undefined);
+        const clientArguments = [JSON.stringify('sqs'), `region_name=${JSON.stringify(region)}`, ...(endpoint ? [`endpoint_url=${JSON.stringify(endpoint)}`] : [])];
+
+        return [
+            ...(binary ? ['import base64'] : []),
+            'import boto3',
+            '',
+            `sqs = boto3.client(${clientArguments.join(', ')})`,
+            '',
+            'response = sqs.send_message(',
+            ...Object.entries(SnippetUtils.toInput(request)).map(([name, value]) => `${INDENT}${name}=${SnippetUtils.toLiteral(value, 'python', INDENT)},`),
+            ')',
+            'print(response["MessageId"])',
+            '',
+        ].join('\n');
+    }
+
+    /**
+     * Writes the provided request as a Lambda SQS event, as if the message had just been received for the first time.
+     * Message attributes use Lambda's own casing, e.g. stringValue rather than StringValue.
+     */
+    private static toLambdaEvent(request: SQS.SendMessageRequest): string {
+        const { region } = SnippetUtils.getClientConfig(request.QueueUrl);
+        const timestamp = String(Date.now());
+        const fifo = MessageUtils.isFifoQueue(request.QueueUrl);
+
+        const attributes = {
+            ApproximateReceiveCount: '1',
+            SentTimestamp: timestamp,
+            ...(fifo ? { SequenceNumber: timestamp.padEnd(20, '0'), MessageGroupId: request.MessageGroupId ?? '' } : {}),
+            SenderId: SAMPLE_SENDER_ID,
+            // Content-based deduplication uses the SHA-256 digest of the body as the deduplication ID.
+            ...(fifo ? { MessageDeduplicationId: request.MessageDeduplicationId ?? createHash('sha256').update(request.MessageBody, 'utf8').digest('hex') } : {}),
+            ApproximateFirstReceiveTimestamp: timestamp,
+        };
+
+        const messageAttributes = Object.fromEntries(
+            Object.entries(request.MessageAttributes ?? {}).map(([name, attribute]) => [
+                name,
+                {
+                    ...(attribute.StringValue !== undefined ? { stringValue: attribute.StringValue } : { binaryValue: toBase64(attribute.BinaryValue) }),
+                    stringListValues: [],
+                    binaryListValues: [],
+                    dataType: attribute.DataType,
+                },
+            ])
+        );
+
+        const record = {
+            messageId: TemplateUtils.generateUuid(),
+            receiptHandle: SAMPLE_RECEIPT_HANDLE,
+            body: request.MessageBody,
+            attributes,
+            messageAttributes,
+            md5OfBody: MessageUtils.getBodyMd5(request.MessageBody),
+            md5OfMessageAttributes: SnippetUtils.hasAttributes(request) ? MessageUtils.getAttributesMd5(request.MessageAttributes) : undefined,
+            eventSource: 'aws:sqs',
+            eventSourceARN: QueueUtils.toQueueArn(request.QueueUrl, region),
+            awsRegion: region,
+        };
+
+        return `${JSON.stringify({ Records: [record] }, null, 4)}\n`;
+    }
+
+    /**
+     * Returns the client configuration of SDK snippets, which connect to the queue URL's own host if it is not an AWS endpoint.
+     */
+    private static getClientConfig(queueUrl: string): { region: string; endpoint?: string } {
+        const region = ConnectionUtils.getQueueRegion(queueUrl);
+        return region ? { region } : { region: DEFAULT_REGION, endpoint: /^https?:\/\/[^/]+/i.exec(queueUrl)?.[0] };
+    }
+
+    /**
+     * Returns the request's fields in the order they are written to SDK snippets, leaving out those that are not set.
+     */
+    private static toInput(request: SQS.SendMessageRequest): Record<string, unknown> {
+        const input: Record<string, unknown> = {
+            QueueUrl: request.QueueUrl,
+            MessageBody: request.MessageBody,
+            MessageAttributes: SnippetUtils.hasAttributes(request) ? request.MessageAttributes : undefined,
+            DelaySeconds: request.DelaySeconds,
+            MessageGroupId: request.MessageGroupId,
+            MessageDeduplicationId: request.MessageDeduplicationId,
+        };
+
+        return Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+    }
+
+    private static hasAttributes(request: SQS.SendMessageRequest): boolean {
+        return !!Object.keys(request.MessageAttributes ?? {}).length;
+    }
+
+    /**
+     * Converts the provided attributes to JSON, as accepted by the AWS CLI, with binary values encoded as base64.
+     */
+    private static toJsonAttributes(attributes: SQS.MessageBodyAttributeMap | undefined): Record<string, SQS.MessageAttributeValue> {
+        return Object.fromEntries(
+            Object.entries(attributes ?? {}).map(([name, attribute]) => [
+                name,
+                attribute.StringValue !== undefined
+                    ? { DataType: attribute.DataType, StringValue: attribute.StringValue }
+                    : { DataType: attribute.DataType, BinaryValue: toBase64(attribute.BinaryValue) },
+            ])
+        );
+    }
+
+    /**
+     * Writes the provided value as a JavaScript or Python literal. Binary values are decoded from base64 when the snippet runs.
+     */
+    private static toLiteral(value: unknown, language: Language, indent: string): string {
+        if (value instanceof Uint8Array) {
+            const base64 = JSON.stringify(toBase64(value));
+            return language === 'js' ? `Buffer.from(${base64}, "base64")` : `base64.b64decode(${base64})`;
+        }
+
+        if (isRecord(value)) {
+            const entries = Object.entries(value).filter(([, entryValue]) => entryValue !== undefined);
+            const entryIndent = indent + INDENT;
+            const toKey = (key: string) => (language === 'js' && /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key));
+
+            if (!entries.length) {
+                return '{}';
+            }
+            return `{\n${entries.map(([key, entryValue]) => `${entryIndent}${toKey(key)}: ${SnippetUtils.toLiteral(entryValue, language, entryIndent)},`).join('\n')}\n${indent}}`;
+        }
+
+        // JSON strings and numbers are valid JavaScript and Python literals.
+        return JSON.stringify(value);
+    }
+
+    private static parseJson(text: string): unknown {
+        try {
+            return JSON.parse(text);
+        } catch (error) {
+            if (text.startsWith('{') || text.startsWith('[')) {
+                throw new Error(`Could not parse the JSON: ${(error as Error).message}`);
+            }
+            throw new Error(UNRECOGNIZED_MESSAGE);
+        }
+    }
+
+    /**
+     * Converts the provided JSON to messages. Lambda events and ReceiveMessage responses can hold several messages.
+     */
+    private static fromJson(value: unknown): SqsMessage[] {
+        if (Array.isArray(value)) {
+            return value.flatMap((item) => SnippetUtils.fromJson(item));
+        }
+        if (!isRecord(value)) {
+            throw new Error(UNRECOGNIZED_MESSAGE);
+        }
+
+        if (Array.isArray(value.Records)) {
+            return value.Records.flatMap((record) => SnippetUtils.fromJson(record));
+        }
+        if (Array.isArray(value.Messages)) {
+            return value.Messages.flatMap((message) => SnippetUtils.fromJson(message));
+        }
+        if (value.eventSource === 'aws:sqs' || typeof value.receiptHandle === 'string') {
+            return [SnippetUtils.fromLambdaRecord(value)];
+        }
+        if (typeof value.Body === 'string') {
+            return [MessageUtils.fromReceivedToMessage(MessageUtils.fromReceivedMessage(value as SQS.Message))];
+        }
+        if ('MessageBody' in value) {
+            return [MessageUtils.fromRequest(SnippetUtils.toRequest(value))];
+        }
+
+        throw new Error(UNRECOGNIZED_MESSAGE);
+    }
+
+    /**
+     * Converts a record of a Lambda SQS event to a message, by way of the ReceiveMessage shape it is a recasing of.
+     */
+    private static fromLambdaRecord(record: Record<string, unknown>): SqsMessage {
+        if (typeof record.body !== 'string') {
+            throw new Error("The Lambda SQS event record does not have a 'body'.");
+        }
+
+        const messageAttributes = isRecord(record.messageAttributes) ? record.messageAttributes : {};
+
+        return MessageUtils.fromReceivedToMessage(
+            MessageUtils.fromReceivedMessage({
+                MessageId: toOptionalString(record.messageId),
+                ReceiptHandle: toOptionalString(record.receiptHandle),
+                Body: record.body,
+                Attributes: isRecord(record.attributes) ? (record.attributes as SQS.MessageSystemAttributeMap) : undefined,
+                MessageAttributes: Object.fromEntries(
+                    Object.entries(messageAttributes).map(([name, attribute]) => {
+                        const fields = isRecord(attribute) ? attribute : {};
+                        return [
+                            name,
+                            {
+                                DataType: toOptionalString(fields.dataType) ?? 'String',
+                                StringValue: toOptionalString(fields.stringValue),
+                                BinaryValue: toOptionalString(fields.binaryValue),
+                            },
+                        ];
+                    })
+                ),
+            })
+        );
+    }
+
+    /**
+     * Validates the provided fields as a send request, as parsed from a command, snippet or JSON.
+     */
+    private static toRequest(fields: Record<string, unknown>): SQS.SendMessageRequest {
+        const attributes = fields.MessageAttributes ?? {};
+
+        if (typeof fields.MessageBody !== 'string') {
+            throw new Error('Could not find the message body, which must be a literal string.');
+        }
+        if (!isRecord(attributes)) {
+            throw new Error('MessageAttributes must be an object keyed by attribute name.');
+        }
+        Object.entries(attributes).forEach(([name, attribute]) => {
+            if (!isRecord(attribute) || typeof attribute.DataType !== 'string' || (typeof attribute.StringValue !== 'string' && attribute.BinaryValue === undefined)) {
+                throw new Error(`Attribute '${name}' must have a DataType and a StringValue or BinaryValue.`);
+            }
+        });
+
+        return {
+            QueueUrl: toOptionalString(fields.QueueUrl) ?? '',
+            MessageBody: fields.MessageBody,
+            MessageAttributes: attributes as SQS.MessageBodyAttributeMap,
+            DelaySeconds: fields.DelaySeconds === undefined || fields.DelaySeconds === '' ? undefined : Number(fields.DelaySeconds),
+            MessageGroupId: toOptionalString(fields.MessageGroupId),
+            MessageDeduplicationId: toOptionalString(fields.MessageDeduplicationId),
+        };
+    }
+
+    private static parseCliCommand(text: string): SQS.SendMessageRequest {
+        const tokens = SnippetUtils.tokenizeShell(text.replace(/^\$\s*/, ''));
+        const commandIndex = tokens.indexOf('send-message');
+        let fields: Record<string, unknown> = {};
+
+        if (commandIndex < 0 || tokens[commandIndex - 1] !== 'sqs') {
+            throw new Error('Only aws sqs send-message commands can be imported.');
+        }
+
+        for (let index = 1; index < tokens.length; index++) {
+            const token = tokens[index];
+            const separator = token.indexOf('=');
+            const option = separator < 0 ? token : token.slice(0, separator);
+
+            // Options that are not followed by a value are switches, such as --debug, which do not affect the message.
+            if (!token.startsWith('--') || (separator < 0 && (index + 1 >= tokens.length || tokens[index + 1].startsWith('--')))) {
+                continue;
+            }
+
+            const value = separator < 0 ? tokens[++index] : token.slice(separator + 1);
+            const field = CLI_OPTIONS[option];
+
+            if (/^fileb?:\/\//.test(value)) {
+                throw new Error(`${option} reads a file, which cannot be imported. Replace it with the file's content.`);
+            }
+
+            if (option === '--cli-input-json') {
+                const input = SnippetUtils.parseJsonOption(option, value);
+                if (!isRecord(input)) {
+                    throw new Error(`${option} must be a JSON object.`);
+                }
+                fields = { ...fields, ...input };
+            } else if (field === 'MessageAttributes') {
+                fields.MessageAttributes = value.trim().startsWith('{') ? SnippetUtils.parseJsonOption(option, value) : SnippetUtils.parseShorthandAttributes(value);
+            } else if (field) {
+                fields[field] = value;
+            }
+        }
+
+        return SnippetUtils.toRequest(fields);
+    }
+
+    private static parseJsonOption(option: string, value: string): unknown {
+        try {
+            return JSON.parse(value);
+        } catch (error) {
+            throw new Error(`${option} is not valid JSON: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Parses message attributes written in the AWS CLI's shorthand syntax, e.g. Name={DataType=String,StringValue=Jane}.
+     * Values cannot contain commas or braces, as with the AWS CLI itself.
+     */
+    private static parseShorthandAttributes(value: string): SQS.MessageBodyAttributeMap {
+        const attributes: Record<string, Record<string, string>> = {};
+        const pattern = /([^=,\s]+)=\{([^}]*)\}/g;
+
+        for (let match = pattern.exec(value); match; match = pattern.exec(value)) {
+            attributes[match[1]] = Object.fromEntries(
+                match[2].split(',').map((pair) => {
+                    const separator = pair.indexOf('=');
+                    return [pair.slice(0, separator).trim(), pair.slice(separator + 1)];
+                })
+            );
+        }
+
+        if (!Object.keys(attributes).length) {
+            throw new Error('--message-attributes must be JSON, or shorthand such as Name={DataType=String,StringValue=Jane}.');
+        }
+
+        return attributes as unknown as SQS.MessageBodyAttributeMap;
+    }
+
+    /**
+     * Splits a POSIX shell command into its arguments, removing quotes, escapes and line continuations.
+     */
+    private static tokenizeShell(text: string): string[] {
+        const tokens: string[] = [];
+        let token: string | undefined;
+        let position = 0;
+
+        while (position < text.length) {
+            const char = text[position++];
+
+            if (char === '\\' && (text[position] === '\n' || text[position] === '\r')) {
+                position += text.startsWith('\r\n', position) ? 2 : 1;
+            } else if (char === '\\') {
+                token = (token ?? '') + (text[position++] ?? '');
+            } else if (/\s/.test(char)) {
+                if (token !== undefined) {
+                    tokens.push(token);
+                    token = undefined;
+                }
+            } else if (char === "'") {
+                const end = text.indexOf("'", position);
+                if (end < 0) {
+                    throw new Error('The command has an unterminated quote.');
+                }
+                token = (token ?? '') + text.slice(position, end);
+                position = end + 1;
+            } else if (char === '"') {
+                let value = '';
+                while (position < text.length && text[position] !== '"') {
+                    // Within double quotes, a backslash only escapes characters the shell would otherwise interpret.
+                    if (text[position] === '\\' && '"\\$`\n'.includes(text[position + 1])) {
+                        value += text[position + 1] === '\n' ? '' : text[position + 1];
+                        position += 2;
+                    } else {
+                        value += text[position++];
+                    }
+                }
+                if (position >= text.length) {
+                    throw new Error('The command has an unterminated quote.');
+                }
+                token = (token ?? '') + value;
+                position++;
+            } else {
+                token = (token ?? '') + char;
+            }
+        }
+
+        if (token !== undefined) {
+            tokens.push(token);
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Parses the input of the first SendMessageCommand, written inline or assigned to a variable beforehand.
+     */
+    private static parseSdkV3Snippet(text: string): SQS.SendMessageRequest {
+        const command = /\bSendMessageCommand\s*\(\s*/.exec(text);
+        const state: LiteralState = { text, position: command ? command.index + command[0].length : 0 };
+        const variable = text[state.position] === '{' ? undefined : /^[A-Za-z_$][\w$]*/.exec(text.slice(state.position))?.[0];
+
+        if (variable) {
+            const assignment = new RegExp(`\\b(?:const|let|var)\\s+${variable.replace(/\$/g, '\\$')}\\s*(?::[^=]+)?=\\s*`).exec(text);
+            if (!assignment) {
+                throw new Error(`Could not find the value of '${variable}', which is passed to SendMessageCommand.`);
+            }
+            state.position = assignment.index + assignment[0].length;
+        }
+
+        const input = LiteralUtils.parseLiteral(state);
+        if (!isRecord(input)) {
+            throw new Error('SendMessageCommand must be passed an object literal.');
+        }
+
+        return SnippetUtils.toRequest(input);
+    }
+
+    /**
+     * Parses the keyword arguments of the first send_message call.
+     */
+    private static parseBoto3Snippet(text: string): SQS.SendMessageRequest {
+        const call = /\.send_message\s*\(/.exec(text);
+        const state: LiteralState = { text, position: call ? call.index + call[0].length : 0 };
+
+        return SnippetUtils.toRequest(LiteralUtils.parseArguments(state).keywordArguments);
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * The prefix applied to all keys, to avoid collisions with other applications served from the same origin.
+ */
+const KEY_PREFIX = 'sqs-messenger.';
+
+export class StorageUtils {
+    /**
+     * Loads the value stored under the provided key from the browser's local storage.
+     *
+     * @param key         The storage key.
+     * @param fallback    The value returned if nothing is stored or the stored value cannot be read.
+     */
+    public static load<T>(key: string, fallback: T): T {
+        try {
+            const json = localStorage.getItem(KEY_PREFIX + key);
+            return json ? (JSON.parse(json) as T) : fallback;
+        } catch (error) {
+            console.warn(`Could not load '${key}' from local storage.`, error);
+            return fallback;
+        }
+    }
+
+    /**
+     * Saves the provided value under the provided key in the browser's local storage.
+     *
+     * @param key      The storage key.
+     * @param value    The value to be stored. Must be serializable to JSON.
+     * @returns         True if the value was saved, or false if it could not be, e.g. as storage is full.
+     */
+    public static save<T>(key: string, value: T): boolean {
+        try {
+            localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+            return true;
+        } catch (error) {
+            console.warn(`Could not save '${key}' to local storage.`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Removes the value stored under the provided key from the browser's local storage.
+     *
+     * @param key    The storage key.
+     */
+    public static remove(key: string): void {
+        localStorage.removeItem(KEY_PREFIX + key);
+    }
+}
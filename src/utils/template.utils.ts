@@ -0,0 +1,206 @@
+import { SqsMessage, SqsTemplateContext, SqsTemplateVariable } from '../components/app.component';
+
+/**
+ * Matches template expressions, e.g. {{uuid}} or {{randomInt 1 100}}.
+ */
+const EXPRESSION_PATTERN = /{{\s*([^{}]*?)\s*}}/g;
+
+/**
+ * The valid names of user-defined variables.
+ */
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+type Generator = (args: string[], now: Date) => string;
+
+/**
+ * The built-in generators, keyed by name. A generator throws if it is given invalid arguments.
+ */
+const generators: Record<string, Generator> = {
+    uuid: () => TemplateUtils.generateUuid(),
+    epochMillis: (args, now) => now.getTime().toString(),
+    epochSeconds: (args, now) => Math.floor(now.getTime() / 1000).toString(),
+    'now:iso': (args, now) => now.toISOString(),
+    'now:date': (args, now) => now.toISOString().substring(0, 10),
+    'now:time': (args, now) => now.toISOString().substring(11, 19),
+    'now:epoch': (args, now) => Math.floor(now.getTime() / 1000).toString(),
+    'now:epochMillis': (args, now) => now.getTime().toString(),
+    randomInt: (args) => {
+        const [min, max] = args.map(Number);
+        if (args.length !== 2 || !Number.isInteger(min) || !Number.isInteger(max) || min > max) {
+            throw new Error('randomInt expects two whole numbers, e.g. {{randomInt 1 100}}.');
+        }
+        return (min + Math.floor(Math.random() * (max - min + 1))).toString();
+    },
+};
+
+export class TemplateUtils {
+    /**
+     * Returns the names of the built-in generators, which cannot be used as variable names.
+     */
+    public static getGeneratorNames(): string[] {
+        return [...Object.keys(generators), 'now', 'env'];
+    }
+
+    /**
+     * Generates a random version 4 UUID.
+     */
+    public static generateUuid(): string {
+        return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+            const random = Math.floor(Math.random() * 16);
+            return (char === 'x' ? random : 8 + (random % 4)).toString(16);
+        });
+    }
+
+    /**
+     * Creates a template context from the provided user-defined variables and environment variables.
+     * Only the CLI can provide environment variables, as the bundler leaves the application an empty process.env.
+     *
+     * @param variables    The user-defined variables.
+     * @param env          The environment variables, if they can be read.
+     */
+    public static createContext(variables: SqsTemplateVariable[], env?: Record<string, string | undefined>): SqsTemplateContext {
+        return {
+            variables: variables.reduce<Record<string, string>>((map, variable) => ({ ...map, [variable.name]: variable.value }), {}),
+            env,
+        };
+    }
+
+    /**
+     * Returns true if the provided name can be referenced in a template expression, e.g. {{customerId}}, otherwise false.
+     *
+     * @param name    The variable name.
+     */
+    public static isVariableName(name: string): boolean {
+        return VARIABLE_NAME_PATTERN.test(name);
+    }
+
+    /**
+     * Returns true if the provided text contains at least one template expression, otherwise false.
+     *
+     * @param text    The text to be inspected.
+     */
+    public static hasTemplate(text: unknown): boolean {
+        return typeof text === 'string' && new RegExp(EXPRESSION_PATTERN.source).test(text);
+    }
+
+    /**
+     * Replaces all template expressions in the provided text with their values.
+     *
+     * @param text       The template text.
+     * @param context    The variables available to the template.
+     * @param now        The time used by date generators, so all expressions in a message share the same time.
+     */
+    public static render(text: string, context: SqsTemplateContext, now = new Date()): string {
+        return text.replace(EXPRESSION_PATTERN, (expression, content: string) => TemplateUtils.evaluate(content, context, now));
+    }
+
+    /**
+     * Renders all template expressions in the provided message's body and string attribute values.
+     *
+     * @param message    The SQS message.
+     * @param context    The variables available to the template.
+     */
+    public static renderMessage(message: SqsMessage, context: SqsTemplateContext): SqsMessage {
+        const now = new Date();
+
+        return {
+            ...message,
+            body: TemplateUtils.render(message.body, context, now),
+            attributes: message.attributes.map((attribute) =>
+                attribute.type !== 'Binary' && typeof attribute.value === 'string' ? { ...attribute, value: TemplateUtils.render(attribute.value, context, now) } : attribute
+            ),
+        };
+    }
+
+    /**
+     * Validates all template expressions in the provided message's body and string attribute values.
+     *
+     * @param message    The SQS message.
+     * @param context    The variables available to the template.
+     * @returns          If invalid, an array of errors, otherwise undefined.
+     */
+    public static validateMessage(message: SqsMessage, context: SqsTemplateContext): string[] | undefined {
+        const errors = TemplateUtils.validate(message.body, context).map((error) => `Body: ${error}`);
+
+        // Binary values are encoded bytes, so they are never treated as templates.
+        message.attributes.forEach((attribute, index) => {
+            if (attribute.type !== 'Binary' && typeof attribute.value === 'string') {
+                errors.push(...TemplateUtils.validate(attribute.value, context).map((error) => `Attribute Value at position ${index}: ${error}`));
+            }
+        });
+
+        if (errors.length) {
+            return errors;
+        }
+    }
+
+    /**
+     * Validates the names of the provided user-defined variables.
+     *
+     * @param variables    The user-defined variables.
+     * @returns            An array of errors, empty if all variables are valid.
+     */
+    public static validateVariables(variables: SqsTemplateVariable[]): string[] {
+        const errors: string[] = [];
+        const reservedNames = TemplateUtils.getGeneratorNames();
+
+        variables.forEach((variable, index) => {
+            if (!TemplateUtils.isVariableName(variable.name)) {
+                errors.push(`Variable name at position ${index} must start with a letter and only contain letters, numbers, '_' and '-'.`);
+            } else if (reservedNames.includes(variable.name)) {
+                errors.push(`Variable name '${variable.name}' is reserved for a built-in generator.`);
+            } else if (variables.findIndex((other) => other.name === variable.name) !== index) {
+                errors.push(`Variable name '${variable.name}' is not unique.`);
+            }
+        });
+
+        return errors;
+    }
+
+    private static validate(text: string, context: SqsTemplateContext): string[] {
+        const errors: string[] = [];
+        const now = new Date();
+
+        text.replace(EXPRESSION_PATTERN, (expression, content: string) => {
+            try {
+                TemplateUtils.evaluate(content, context, now);
+            } catch (error) {
+                errors.push(`${expression} - ${(error as Error).message}`);
+            }
+            return expression;
+        });
+
+        return errors;
+    }
+
+    private static evaluate(content: string, context: SqsTemplateContext, now: Date): string {
+        const [name, ...args] = content.split(/\s+/);
+        const generator = generators[name === 'now' ? 'now:iso' : name];
+
+        if (generator) {
+            return generator(args, now);
+        }
+
+        if (name.startsWith('env.')) {
+            if (!context.env) {
+                throw new Error(`Environment variables, e.g. {{${name}}}, can only be used when sending with the CLI.`);
+            }
+            const envValue = context.env[name.substring(4)];
+            if (envValue === undefined) {
+                throw new Error(`Unknown environment variable '${name.substring(4)}'.`);
+            }
+            return envValue;
+        }
+
+        if (!name) {
+            throw new Error('Empty template expression.');
+        }
+
+        const value = context.variables[name];
+        if (value === undefined) {
+            throw new Error(`Unknown variable '${name}'.`);
+        }
+
+        return value;
+    }
+}
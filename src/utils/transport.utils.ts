@@ -0,0 +1,33 @@
+import { SqsConfig, SqsOfflineOptions, SqsTransport } from '../components/app.component';
+import { OfflineTransport } from '../transports/offline.transport';
+import { SdkV2Transport } from '../transports/sdk-v2.transport';
+import { SdkV3Transport } from '../transports/sdk-v3.transport';
+import { ConnectionUtils } from './connection.utils';
+
+export class TransportUtils {
+    /**
+     * Creates the transport that sends requests for the provided configuration.
+     *
+     * @param config    The SQS configuration.
+     */
+    public static createTransport(config: SqsConfig): SqsTransport {
+        switch (config.transport) {
+            case 'sdkV3':
+                return new SdkV3Transport(ConnectionUtils.toV3ClientConfig(config));
+            case 'offline':
+                return new OfflineTransport(TransportUtils.getOfflineOptions(config));
+            default:
+                return new SdkV2Transport(ConnectionUtils.toClientConfig(config));
+        }
+    }
+
+    /**
+     * Returns the offline queue's simulation options for the provided configuration.
+     * By default, no failures or latency are simulated.
+     *
+     * @param config    The SQS configuration.
+     */
+    public static getOfflineOptions(config: SqsConfig): SqsOfflineOptions {
+        return { failurePercent: 0, throttlePercent: 0, latencyMilliseconds: 0, ...config.offline };
+    }
+}
@@ -0,0 +1,81 @@
+import { SqsWorkspace } from '../components/app.component';
+import { MessageUtils } from './message.utils';
+import { StorageUtils } from './storage.utils';
+
+const WORKSPACES_KEY = 'workspaces';
+const ACTIVE_WORKSPACE_KEY = 'activeWorkspaceId';
+
+export class WorkspaceUtils {
+    /**
+     * Creates a new workspace containing a single empty message.
+     *
+     * @param name    The workspace's display name.
+     */
+    public static createWorkspace(name: string): SqsWorkspace {
+        return {
+            id: MessageUtils.generateRandomId(),
+            name,
+            messages: [{ id: MessageUtils.generateRandomId(), body: '', attributes: [] }],
+            variables: [],
+        };
+    }
+
+    /**
+     * Creates a copy of the provided workspace with a new ID and name.
+     *
+     * @param workspace    The workspace to be copied.
+     */
+    public static duplicateWorkspace(workspace: SqsWorkspace): SqsWorkspace {
+        return {
+            ...workspace,
+            id: MessageUtils.generateRandomId(),
+            name: `${workspace.name} (copy)`,
+            messages: workspace.messages.map((message) => ({ ...message, id: MessageUtils.generateRandomId() })),
+        };
+    }
+
+    /**
+     * Returns true if workspaces have previously been saved to browser storage, otherwise false.
+     */
+    public static hasSavedWorkspaces(): boolean {
+        return StorageUtils.load<SqsWorkspace[]>(WORKSPACES_KEY, []).length > 0;
+    }
+
+    /**
+     * Loads the workspaces saved to browser storage.
+     * If none have been saved, a default workspace is created.
+     */
+    public static loadWorkspaces(): SqsWorkspace[] {
+        const workspaces = StorageUtils.load<SqsWorkspace[]>(WORKSPACES_KEY, []);
+        return workspaces.length ? workspaces : [WorkspaceUtils.createWorkspace('Default')];
+    }
+
+    /**
+     * Saves the provided workspaces to browser storage.
+     * Validation errors are not saved, as they are recalculated when messages are sent.
+     *
+     * @param workspaces    The workspaces.
+     */
+    public static saveWorkspaces(workspaces: SqsWorkspace[]): void {
+        StorageUtils.save(
+            WORKSPACES_KEY,
+            workspaces.map((workspace) => ({ ...workspace, messages: workspace.messages.map((message) => ({ ...message, errors: undefined })) }))
+        );
+    }
+
+    /**
+     * Loads the ID of the last active workspace.
+     */
+    public static loadActiveWorkspaceId(): string | undefined {
+        return StorageUtils.load<string | undefined>(ACTIVE_WORKSPACE_KEY, undefined);
+    }
+
+    /**
+     * Saves the ID of the active workspace.
+     *
+     * @param id    The active workspace's ID.
+     */
+    public static saveActiveWorkspaceId(id: string): void {
+        StorageUtils.save(ACTIVE_WORKSPACE_KEY, id);
+    }
+}
@@ -0,0 +1,114 @@
+import { XmlUtils } from './xml.utils';
+
+const validationError = (text: string) => {
+    try {
+        XmlUtils.validate(text);
+    } catch (error) {
+        return { message: (error as Error).message, offset: (error as { offset?: number }).offset };
+    }
+    throw new Error('The document is well-formed.');
+};
+
+describe('XmlUtils', () => {
+    describe('validate', () => {
+        it.each([
+            '<order/>',
+            '<?xml version="1.0" encoding="UTF-8"?>\n<order id="1" xmlns:x="urn:x"><x:item sku=\'A&amp;B\'>Fish &#38; chips &#x26; &lt;peas&gt;</x:item></order>',
+            '<!DOCTYPE order [<!ENTITY note "Hello">]>\n<!-- comment --><order><![CDATA[<raw> & unescaped]]><?pi data?></order>\n',
+            '<order>{{uuid}}</order>',
+            '<commande numéro="1"><café·noir/></commande>',
+        ])('accepts %j', (text) => {
+            expect(() => XmlUtils.validate(text)).not.toThrow();
+        });
+
+        it.each([
+            ['', 'The document has no root element.', 0],
+            ['<a></b>', 'Expected </a> to close <a>, but found </b>.', 3],
+            ['<a><b></a>', 'Expected </b> to close <b>, but found </a>.', 6],
+            ['<a>', 'Unclosed tag <a>.', 0],
+            ['</a>', 'Unexpected end tag </a>.', 0],
+            ['<a/><b/>', 'A document can only have one root element.', 4],
+            ['text<a/>', 'Text must be inside the root element.', 0],
+            ['<a>1 < 2</a>', "Invalid tag name. Use &lt; for a literal '<'.", 5],
+            ['<a>fish & chips</a>', "Unescaped '&'. Use &amp; instead.", 8],
+            ['<a b="1" b="2"/>', "Duplicate attribute 'b'.", 9],
+            ['<a b=1/>', "Attribute 'b' must have a quoted value.", 3],
+            ['<a b="1"c="2"/>', 'Attributes must be separated by whitespace.', 8],
+            ['<a b="x<y"/>', "Attribute values cannot contain '<'. Use &lt; instead.", 7],
+            ['<a b="x', "Unterminated value of attribute 'b'.", 5],
+            ['<a', 'Unterminated tag <a>.', 2],
+            ['<a><!-- open</a>', 'Unterminated comment.', 3],
+            ['<![CDATA[x]]><a/>', 'CDATA sections are only allowed inside an element.', 0],
+            [' <?xml version="1.0"?><a/>', 'The XML declaration must be at the start of the document.', 1],
+            ['<a/><!DOCTYPE a>', 'The document type must be declared before the root element.', 4],
+        ])('reports %j', (text, message, offset) => {
+            expect(validationError(text)).toEqual({ message, offset });
+        });
+    });
+
+    describe('format', () => {
+        it('indents each element on its own line, keeping text-only elements on one line', () => {
+            const text = '<?xml version="1.0"?><order id="1"><!-- items --><items><item sku="A"> Fish </item><item/><empty></empty></items><note>a &amp; b</note></order>';
+
+            expect(XmlUtils.format(text)).toBe(
+                [
+                    '<?xml version="1.0"?>',
+                    '<order id="1">',
+                    '    <!-- items -->',
+                    '    <items>',
+                    '        <item sku="A">Fish</item>',
+                    '        <item/>',
+                    '        <empty></empty>',
+                    '    </items>',
+                    '    <note>a &amp; b</note>',
+                    '</order>',
+                ].join('\n')
+            );
+        });
+
+        it('places mixed content on separate lines', () => {
+            expect(XmlUtils.format('<p>Hello <b>world</b>!</p>')).toBe(['<p>', '    Hello', '    <b>world</b>', '    !', '</p>'].join('\n'));
+        });
+    });
+
+    describe('minify', () => {
+        it('removes whitespace between tags but keeps text as written', () => {
+            expect(XmlUtils.minify('<order>\n    <item sku="A">  Fish  </item>\n    <item/>\n</order>\n')).toBe('<order><item sku="A">  Fish  </item><item/></order>');
+        });
+
+        it('rejects documents that are not well-formed', () => {
+            expect(() => XmlUtils.minify('<a>')).toThrow('Unclosed tag <a>.');
+        });
+    });
+
+    describe('tokenize', () => {
+        it('splits a document into highlighted tokens', () => {
+            const text = '<?xml version="1.0"?><a id="1">x &amp; <![CDATA[y]]><!-- z --></a>';
+
+            expect(XmlUtils.tokenize(text).map((token) => [token.type, text.substring(token.start, token.end)])).toEqual([
+                ['comment', '<?xml version="1.0"?>'],
+                ['tag', '<a'],
+                ['attribute', 'id'],
+                ['punctuation', '='],
+                ['string', '"1"'],
+                ['tag', '>'],
+                ['literal', '&amp;'],
+                ['string', '<![CDATA[y]]>'],
+                ['comment', '<!-- z -->'],
+                ['tag', '</a'],
+                ['tag', '>'],
+            ]);
+        });
+
+        it('highlights unterminated documents as far as possible', () => {
+            const text = '<a b="1';
+
+            expect(XmlUtils.tokenize(text).map((token) => [token.type, text.substring(token.start, token.end)])).toEqual([
+                ['tag', '<a'],
+                ['attribute', 'b'],
+                ['punctuation', '='],
+                ['string', '"1'],
+            ]);
+        });
+    });
+});
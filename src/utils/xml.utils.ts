@@ -0,0 +1,320 @@
+import { SqsBodyToken } from '../components/app.component';
+
+type XmlNode = {
+    /**
+     * - open: A start tag, e.g. <order id="1">.
+     * - close: An end tag, e.g. </order>.
+     * - empty: A self-closing tag, e.g. <item/>.
+     * - text: Character data between tags.
+     * - other: A comment, CDATA section, processing instruction or document type declaration.
+     */
+    type: 'open' | 'close' | 'empty' | 'text' | 'other';
+
+    /**
+     * The node as written.
+     */
+    text: string;
+};
+
+/**
+ * Matches the name of an element or attribute. Characters from U+00C0 are allowed, as XML allows most letters of other scripts.
+ */
+const NAME_PATTERN = /[A-Za-z_:\u00C0-\uFFFF][\w:.\-\u00B7\u00C0-\uFFFF]*/y;
+
+/**
+ * Matches an ampersand that does not start an entity or character reference.
+ */
+const BARE_AMPERSAND_PATTERN = /&(?!(?:[A-Za-z_][\w.-]*|#\d+|#x[\dA-Fa-f]+);)/;
+
+const createError = (message: string, offset: number) => Object.assign(new Error(message), { offset });
+
+const matchAt = (pattern: RegExp, text: string, position: number) => {
+    pattern.lastIndex = position;
+    return pattern.exec(text)?.[0];
+};
+
+/**
+ * Checks, formats and highlights XML documents. Documents are checked for well-formedness: matching tags, a single
+ * root element, quoted and unique attributes, and escaped '<' and '&' characters. Entity references, namespace prefixes
+ * and the content of document type declarations are not checked, so a document that passes can still be rejected by
+ * a stricter parser.
+ */
+export class XmlUtils {
+    /**
+     * Checks that the provided XML document is well-formed.
+     *
+     * @param text    The XML document.
+     * @throws        An error with the offset of the first problem, if the document is not well-formed.
+     */
+    public static validate(text: string): void {
+        XmlUtils.parse(text);
+    }
+
+    /**
+     * Indents the provided XML document, placing each element on its own line.
+     * Elements that only contain text are kept on a single line.
+     *
+     * @param text    The XML document.
+     * @throws        An error with the offset of the first problem, if the document is not well-formed.
+     */
+    public static format(text: string): string {
+        const nodes = XmlUtils.parse(text).filter((node) => node.type !== 'text' || node.text.trim());
+        const lines: string[] = [];
+        let depth = 0;
+
+        for (let index = 0; index < nodes.length; index++) {
+            const node = nodes[index];
+            const padding = '    '.repeat(depth);
+
+            if (node.type === 'close') {
+                depth--;
+                lines.push('    '.repeat(depth) + node.text);
+            } else if (node.type === 'open' && nodes[index + 1]?.type === 'close') {
+                lines.push(padding + node.text + nodes[++index].text);
+            } else if (node.type === 'open' && nodes[index + 1]?.type === 'text' && nodes[index + 2]?.type === 'close') {
+                lines.push(padding + node.text + nodes[index + 1].text.trim() + nodes[index + 2].text);
+                index += 2;
+            } else {
+                lines.push(padding + (node.type === 'text' ? node.text.trim() : node.text));
+                depth += node.type === 'open' ? 1 : 0;
+            }
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Removes the whitespace between the provided XML document's tags.
+     * Text that is not only whitespace is kept as written.
+     *
+     * @param text    The XML document.
+     * @throws        An error with the offset of the first problem, if the document is not well-formed.
+     */
+    public static minify(text: string): string {
+        return XmlUtils.parse(text)
+            .filter((node) => node.type !== 'text' || node.text.trim())
+            .map((node) => node.text)
+            .join('');
+    }
+
+    /**
+     * Splits the provided XML document into tokens for highlighting.
+     * Unlike validate, this never throws, so invalid documents are highlighted as far as possible.
+     *
+     * @param text    The XML document.
+     */
+    public static tokenize(text: string): SqsBodyToken[] {
+        const tokens: SqsBodyToken[] = [];
+        const pattern =
+            /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<[?!][\s\S]*?(?:>|$)|<\/?[A-Za-z_:\u00C0-\uFFFF][\w:.\-\u00B7\u00C0-\uFFFF]*|&(?:[A-Za-z_][\w.-]*|#\d+|#x[\dA-Fa-f]+);/g;
+        let match: RegExpExecArray | null;
+
+        while ((match = pattern.exec(text))) {
+            const start = match.index;
+            const value = match[0];
+
+            if (value.startsWith('<!--') || value.startsWith('<?') || value.startsWith('<!')) {
+                tokens.push({ type: value.startsWith('<![CDATA[') ? 'string' : 'comment', start, end: start + value.length });
+            } else if (value.startsWith('&')) {
+                tokens.push({ type: 'literal', start, end: start + value.length });
+            } else {
+                tokens.push({ type: 'tag', start, end: start + value.length });
+                pattern.lastIndex = XmlUtils.tokenizeTag(text, start + value.length, tokens);
+            }
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Tokenizes the attributes and end of the tag starting at the provided position.
+     *
+     * @returns    The position after the tag.
+     */
+    private static tokenizeTag(text: string, start: number, tokens: SqsBodyToken[]): number {
+        const pattern = /\s+|\/?>|=|"[^"]*"?|'[^']*'?|[A-Za-z_:\u00C0-\uFFFF][\w:.\-\u00B7\u00C0-\uFFFF]*|[^\s<>]/y;
+        let position = start;
+
+        pattern.lastIndex = position;
+        let match = pattern.exec(text);
+
+        while (match && position < text.length && text[position] !== '<') {
+            const value = match[0];
+
+            if (value.endsWith('>')) {
+                tokens.push({ type: 'tag', start: position, end: position + value.length });
+                return position + value.length;
+            }
+            if (value === '=') {
+                tokens.push({ type: 'punctuation', start: position, end: position + 1 });
+            } else if (value[0] === '"' || value[0] === "'") {
+                tokens.push({ type: 'string', start: position, end: position + value.length });
+            } else if (value.trim()) {
+                tokens.push({ type: 'attribute', start: position, end: position + value.length });
+            }
+
+            position += value.length;
+            match = pattern.exec(text);
+        }
+
+        return position;
+    }
+
+    /**
+     * Splits the provided XML document into nodes, checking that it is well-formed along the way.
+     */
+    private static parse(text: string): XmlNode[] {
+        const nodes: XmlNode[] = [];
+        const openTags: Array<{ name: string; offset: number }> = [];
+        let hasRoot = false;
+        let position = 0;
+
+        const readUntil = (terminator: string, message: string) => {
+            const end = text.indexOf(terminator, position);
+            if (end < 0) {
+                throw createError(message, position);
+            }
+            nodes.push({ type: 'other', text: text.substring(position, end + terminator.length) });
+            position = end + terminator.length;
+        };
+
+        while (position < text.length) {
+            if (text.startsWith('<!--', position)) {
+                readUntil('-->', 'Unterminated comment.');
+            } else if (text.startsWith('<![CDATA[', position)) {
+                if (!openTags.length) {
+                    throw createError('CDATA sections are only allowed inside an element.', position);
+                }
+                readUntil(']]>', 'Unterminated CDATA section.');
+            } else if (text.startsWith('<?', position)) {
+                // Not even whitespace can come before the XML declaration.
+                if (/^<\?xml\s/.test(text.substring(position, position + 6)) && position > 0) {
+                    throw createError('The XML declaration must be at the start of the document.', position);
+                }
+                readUntil('?>', 'Unterminated processing instruction.');
+            } else if (text.startsWith('<!', position)) {
+                if (hasRoot || openTags.length) {
+                    throw createError('The document type must be declared before the root element.', position);
+                }
+                readUntil(text.indexOf('[', position) >= 0 && text.indexOf('[', position) < text.indexOf('>', position) ? ']>' : '>', 'Unterminated declaration.');
+            } else if (text.startsWith('</', position)) {
+                const name = matchAt(NAME_PATTERN, text, position + 2);
+                const end = name ? /^\s*>/.exec(text.substring(position + 2 + name.length)) : undefined;
+                const openTag = openTags.pop();
+
+                if (!name || !end) {
+                    throw createError('Invalid end tag.', position);
+                }
+                if (!openTag) {
+                    throw createError(`Unexpected end tag </${name}>.`, position);
+                }
+                if (openTag.name !== name) {
+                    throw createError(`Expected </${openTag.name}> to close <${openTag.name}>, but found </${name}>.`, position);
+                }
+
+                const length = 2 + name.length + end[0].length;
+                nodes.push({ type: 'close', text: text.substring(position, position + length) });
+                position += length;
+            } else if (text[position] === '<') {
+                position = XmlUtils.parseStartTag(text, position, nodes, openTags, hasRoot);
+                hasRoot = true;
+            } else {
+                const end = text.indexOf('<', position) < 0 ? text.length : text.indexOf('<', position);
+                const content = text.substring(position, end);
+                const ampersand = BARE_AMPERSAND_PATTERN.exec(content);
+
+                if (!openTags.length && content.trim()) {
+                    throw createError('Text must be inside the root element.', position + content.search(/\S/));
+                }
+                if (ampersand) {
+                    throw createError("Unescaped '&'. Use &amp; instead.", position + ampersand.index);
+                }
+
+                nodes.push({ type: 'text', text: content });
+                position = end;
+            }
+        }
+
+        const unclosed = openTags.pop();
+        if (unclosed) {
+            throw createError(`Unclosed tag <${unclosed.name}>.`, unclosed.offset);
+        }
+        if (!hasRoot) {
+            throw createError('The document has no root element.', 0);
+        }
+
+        return nodes;
+    }
+
+    /**
+     * Parses the start or self-closing tag at the provided position, checking its attributes.
+     *
+     * @returns    The position after the tag.
+     */
+    private static parseStartTag(text: string, start: number, nodes: XmlNode[], openTags: Array<{ name: string; offset: number }>, hasRoot: boolean): number {
+        const name = matchAt(NAME_PATTERN, text, start + 1);
+        const attributes = new Set<string>();
+        let position = start + 1 + (name?.length ?? 0);
+
+        if (!name) {
+            throw createError("Invalid tag name. Use &lt; for a literal '<'.", start);
+        }
+        if (hasRoot && !openTags.length) {
+            throw createError('A document can only have one root element.', start);
+        }
+
+        for (;;) {
+            const spaces = /^\s*/.exec(text.substring(position))?.[0].length ?? 0;
+            position += spaces;
+
+            if (text.startsWith('/>', position) || text[position] === '>') {
+                const length = text[position] === '>' ? 1 : 2;
+                const type = length === 1 ? 'open' : 'empty';
+
+                if (type === 'open') {
+                    openTags.push({ name, offset: start });
+                }
+                nodes.push({ type, text: text.substring(start, position + length) });
+                return position + length;
+            }
+
+            const attribute = matchAt(NAME_PATTERN, text, position);
+            if (!attribute) {
+                throw createError(position < text.length ? `Invalid attribute in <${name}>.` : `Unterminated tag <${name}>.`, position);
+            }
+            if (!spaces) {
+                throw createError('Attributes must be separated by whitespace.', position);
+            }
+            if (attributes.has(attribute)) {
+                throw createError(`Duplicate attribute '${attribute}'.`, position);
+            }
+            attributes.add(attribute);
+
+            const equals = /^\s*=\s*/.exec(text.substring(position + attribute.length));
+            const quote = equals && text[position + attribute.length + equals[0].length];
+
+            if (!equals || (quote !== '"' && quote !== "'")) {
+                throw createError(`Attribute '${attribute}' must have a quoted value.`, position);
+            }
+
+            const valueStart = position + attribute.length + equals[0].length + 1;
+            const valueEnd = text.indexOf(quote, valueStart);
+
+            if (valueEnd < 0) {
+                throw createError(`Unterminated value of attribute '${attribute}'.`, valueStart - 1);
+            }
+
+            const value = text.substring(valueStart, valueEnd);
+            const ampersand = BARE_AMPERSAND_PATTERN.exec(value);
+
+            if (value.includes('<')) {
+                throw createError("Attribute values cannot contain '<'. Use &lt; instead.", valueStart + value.indexOf('<'));
+            }
+            if (ampersand) {
+                throw createError("Unescaped '&'. Use &amp; instead.", valueStart + ampersand.index);
+            }
+
+            position = valueEnd + 1;
+        }
+    }
+}
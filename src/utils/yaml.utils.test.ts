@@ -0,0 +1,228 @@
+import { YamlUtils } from './yaml.utils';
+
+const parseError = (text: string) => {
+    try {
+        YamlUtils.parse(text);
+    } catch (error) {
+        return { message: (error as Error).message, offset: (error as { offset?: number }).offset };
+    }
+    throw new Error('The document was parsed.');
+};
+
+describe('YamlUtils', () => {
+    describe('parse', () => {
+        it('parses block mappings and sequences', () => {
+            const text = ['order:', '  id: 42', '  items:', '    - sku: A-1', '      quantity: 2', '    - sku: B-2', '  tags:', '  - new', '  - gift'].join('\n');
+
+            expect(YamlUtils.parse(text)).toEqual({
+                order: { id: 42, items: [{ sku: 'A-1', quantity: 2 }, { sku: 'B-2' }], tags: ['new', 'gift'] },
+            });
+        });
+
+        it('parses nested sequences and empty values', () => {
+            expect(YamlUtils.parse('- - 1\n  - 2\n- \n- empty:')).toEqual([[1, 2], null, { empty: null }]);
+        });
+
+        it('parses flow collections', () => {
+            expect(YamlUtils.parse('point: {x: 1, "y": -2.5, z}\nlist: [a, [b, c], {d: e}, ]\nempty: [ ]')).toEqual({
+                point: { x: 1, y: -2.5, z: null },
+                list: ['a', ['b', 'c'], { d: 'e' }],
+                empty: [],
+            });
+        });
+
+        it('resolves plain scalars with the YAML 1.2 core schema', () => {
+            const text = ['a: ~', 'b: null', 'c: True', 'd: false', 'e: 12', 'f: -1.5e3', 'g: 0x1F', 'h: 0o17', 'i: yes', 'j: 1.2.3', 'k: .5', 'l:'].join('\n');
+
+            expect(YamlUtils.parse(text)).toEqual({ a: null, b: null, c: true, d: false, e: 12, f: -1500, g: 31, h: 15, i: 'yes', j: '1.2.3', k: 0.5, l: null });
+        });
+
+        it('parses quoted scalars', () => {
+            expect(YamlUtils.parse(`- "tab\\tnew\\nline \\u00e9"\n- 'it''s # not a comment'\n- "42"`)).toEqual(['tab\tnew\nline é', "it's # not a comment", '42']);
+        });
+
+        it('folds plain scalars that continue on more indented lines', () => {
+            expect(YamlUtils.parse('note: a long\n  sentence that\n  wraps\nnext: 1')).toEqual({ note: 'a long sentence that wraps', next: 1 });
+        });
+
+        it('parses literal and folded block scalars with their chomping indicators', () => {
+            const text = [
+                'clip: |',
+                '  line 1',
+                '  line 2',
+                '',
+                'strip: |-',
+                '  text',
+                'keep: |+',
+                '  text',
+                '',
+                'folded: >',
+                '  a',
+                '  b',
+                '',
+                '  c',
+                '    indented',
+                'end: 1',
+            ].join('\n');
+
+            expect(YamlUtils.parse(text)).toEqual({
+                clip: 'line 1\nline 2\n',
+                strip: 'text',
+                keep: 'text\n\n',
+                folded: 'a b\nc\n  indented\n',
+                end: 1,
+            });
+        });
+
+        it('ignores comments and document markers', () => {
+            expect(YamlUtils.parse('# order\n---\nid: 1 # the id\nurl: http://example.com/#top\n...\n')).toEqual({ id: 1, url: 'http://example.com/#top' });
+        });
+
+        it('keeps template expressions as strings', () => {
+            expect(YamlUtils.parse('id: {{uuid}}\nitems: [{{randomInt 1 5}}, 2]')).toEqual({ id: '{{uuid}}', items: ['{{randomInt 1 5}}', 2] });
+        });
+
+        it('parses an empty document as null', () => {
+            expect(YamlUtils.parse('')).toBeNull();
+            expect(YamlUtils.parse('# nothing here')).toBeNull();
+        });
+    });
+
+    describe('anchors and aliases', () => {
+        it('reuses anchored scalars and collections', () => {
+            const text = ['currency: &currency EUR', 'address: &home', '  city: Leeds', 'billing: *home', 'price: {amount: 5, currency: *currency}', 'items: [&one 1, *one]'].join(
+                '\n'
+            );
+
+            expect(YamlUtils.parse(text)).toEqual({
+                currency: 'EUR',
+                address: { city: 'Leeds' },
+                billing: { city: 'Leeds' },
+                price: { amount: 5, currency: 'EUR' },
+                items: [1, 1],
+            });
+        });
+
+        it('anchors sequence items', () => {
+            expect(YamlUtils.parse('- &first\n  id: 1\n- *first\n- &list [a]\n- *list')).toEqual([{ id: 1 }, { id: 1 }, ['a'], ['a']]);
+        });
+
+        it('merges mappings with merge keys, without overriding explicit entries', () => {
+            const text = [
+                'base: &base',
+                '  region: eu-west-1',
+                '  retries: 3',
+                'extra: &extra',
+                '  retries: 5',
+                '  debug: true',
+                'dev:',
+                '  <<: [*base, *extra]',
+                '  retries: 1',
+                'prod: {<<: *base, name: prod}',
+            ].join('\n');
+
+            expect(YamlUtils.parse(text)).toMatchObject({
+                dev: { region: 'eu-west-1', retries: 1, debug: true },
+                prod: { region: 'eu-west-1', retries: 3, name: 'prod' },
+            });
+        });
+
+        it('reports aliases to anchors that are not defined before them', () => {
+            expect(parseError('a: *later\nb: &later 1')).toEqual({ message: "Unknown alias '*later'. An anchor must be defined before it is used.", offset: 3 });
+            expect(parseError('a: &self [*self]').message).toContain("Unknown alias '*self'");
+        });
+
+        it('reports unsupported or invalid uses', () => {
+            expect(parseError('- &item id: 1').message).toContain('Anchors on mapping keys are not supported');
+            expect(parseError('a: *b c').message).toBe('An alias cannot be followed by other content.');
+            expect(parseError('a: 1\nb:\n  <<: 2').message).toBe('The value of a merge key must be a mapping or a list of mappings.');
+        });
+    });
+
+    describe('errors', () => {
+        it.each([
+            ['a: 1\na: 2', "Duplicate key 'a'.", 5],
+            ['{a: 1, a: 2}', "Duplicate key 'a'.", 7],
+            ['a: 1\n\tb: 2', 'Tabs cannot be used for indentation.', 5],
+            ['a: 1\n---\nb: 2', 'Only one YAML document is supported.', 5],
+            ['a:\n  b: 1\n    c: 2', 'Unexpected indentation.', 14],
+            ['a: !!str 1', 'Tags are not supported.', 3],
+            ['a: "open', 'Unterminated string. Quoted strings must end on the same line.', 3],
+            ['a: "\\q"', 'Invalid escape sequence in double-quoted string.', 3],
+            ['a: "x" y', 'Unexpected content after the quoted value.', 6],
+            ['a: [1, 2', "Missing ']'.", 8],
+            ['a: [1] 2', 'Unexpected content after the collection.', 7],
+            ['a: @b', "A plain value cannot start with '@'.", 3],
+            ['a: 1\n- b', "Expected a 'key: value' pair, but found a list item.", 5],
+        ])('reports %j', (text, message, offset) => {
+            expect(parseError(text)).toEqual({ message, offset });
+        });
+    });
+
+    describe('stringify', () => {
+        it('writes block collections indented by two spaces', () => {
+            const value = { order: { id: 42, items: [{ sku: 'A-1', quantity: 2 }, 'gift'], tags: [], meta: {} }, active: true, note: null };
+
+            expect(YamlUtils.stringify(value)).toBe(
+                ['order:', '  id: 42', '  items:', '    - sku: A-1', '      quantity: 2', '    - gift', '  tags: []', '  meta: {}', 'active: true', 'note: null'].join('\n')
+            );
+        });
+
+        it('quotes strings that would otherwise be read as another value', () => {
+            expect(YamlUtils.stringify(['true', '42', '', ' padded', 'a: b', '- item', 'x #y', 'null', 'plain text', '{{uuid}}'])).toBe(
+                ['- "true"', '- "42"', '- ""', '- " padded"', '- "a: b"', '- "- item"', '- "x #y"', '- "null"', '- plain text', '- {{uuid}}'].join('\n')
+            );
+        });
+
+        it('writes multi-line strings as literal block scalars', () => {
+            expect(YamlUtils.stringify({ clip: 'a\nb\n', strip: 'a\nb', keep: 'a\n\n' })).toBe(
+                ['clip: |', '  a', '  b', 'strip: |-', '  a', '  b', 'keep: |+', '  a', ''].join('\n')
+            );
+        });
+
+        it.each([
+            { order: { id: 1, lines: [{ sku: 'A', tags: ['x', 'y'] }], note: 'multi\nline\n', empty: '', flag: false } },
+            [[1, [2, 3]], { a: null }, 'yes', '0x1F', '#hash', 'colon:', 'trailing '],
+        ])('round trips %j', (value) => {
+            expect(YamlUtils.parse(YamlUtils.stringify(value))).toEqual(value);
+        });
+    });
+
+    describe('tokenize', () => {
+        it('splits a document into highlighted tokens', () => {
+            const text = 'id: &id 42 # note\nitems:\n  - "a"\n  - [true, *id]';
+            const tokens = YamlUtils.tokenize(text)
+                .sort((a, b) => a.start - b.start)
+                .map((token) => [token.type, text.substring(token.start, token.end)]);
+
+            expect(tokens).toEqual([
+                ['key', 'id'],
+                ['literal', '&id'],
+                ['number', '42'],
+                ['comment', '# note'],
+                ['key', 'items'],
+                ['punctuation', '-'],
+                ['string', '"a"'],
+                ['punctuation', '-'],
+                ['punctuation', '['],
+                ['literal', 'true'],
+                ['punctuation', ','],
+                ['literal', '*id'],
+                ['punctuation', ']'],
+            ]);
+        });
+
+        it('highlights the content of block scalars as strings', () => {
+            const text = 'text: |\n  a: b\n  # not a comment\nnext: 1';
+
+            expect(YamlUtils.tokenize(text).map((token) => [token.type, text.substring(token.start, token.end)])).toEqual([
+                ['key', 'text'],
+                ['punctuation', '|'],
+                ['string', 'a: b'],
+                ['string', '# not a comment'],
+                ['key', 'next'],
+                ['number', '1'],
+            ]);
+        });
+    });
+});
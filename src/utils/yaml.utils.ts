@@ -0,0 +1,817 @@
+import { SqsBodyToken } from '../components/app.component';
+
+type YamlLine = {
+    /**
+     * The offset of the line's first character in the document.
+     */
+    offset: number;
+
+    /**
+     * The number of spaces before the line's content.
+     */
+    indent: number;
+
+    /**
+     * The line's content, without its indentation, trailing whitespace or comment.
+     */
+    content: string;
+
+    /**
+     * The line as written, used by block scalars, which keep their comments and whitespace.
+     */
+    raw: string;
+};
+
+type YamlState = {
+    lines: YamlLine[];
+    index: number;
+
+    /**
+     * The values of the anchors defined so far, which later aliases refer to.
+     */
+    anchors: Map<string, unknown>;
+};
+
+type YamlKey = {
+    /**
+     * The key, with any quotes removed.
+     */
+    key: string;
+
+    /**
+     * The length of the key as written, including any quotes.
+     */
+    length: number;
+
+    /**
+     * The value following the colon, if any.
+     */
+    rest: string;
+
+    /**
+     * The position of the value within the content.
+     */
+    restColumn: number;
+};
+
+/**
+ * Matches a block scalar header, e.g. | or >- or |2.
+ */
+const BLOCK_SCALAR_PATTERN = /^[|>][+-]?\d?$|^[|>]\d[+-]?$/;
+
+/**
+ * The characters that cannot start a plain scalar without changing its meaning.
+ */
+const INDICATOR_PATTERN = /^[-?:,[\]{}#&*!|>'"%@`]/;
+
+/**
+ * Matches an anchor, e.g. &base, or an alias, e.g. *base, followed by any spaces.
+ */
+const ANCHOR_PATTERN = /^[&*]([^\s,[\]{}]+) */;
+
+/**
+ * The key of a mapping entry whose value, a mapping or list of mappings, is merged into the mapping, e.g. <<: *base.
+ */
+const MERGE_KEY = '<<';
+
+const createError = (message: string, offset: number) => Object.assign(new Error(message), { offset });
+
+const isSequenceItem = (content: string) => content === '-' || content.startsWith('- ');
+
+const isDocumentMarker = (line: YamlLine) => line.indent === 0 && /^(---|\.\.\.)(\s|$)/.test(line.content);
+
+const isCollection = (value: unknown): value is unknown[] | Record<string, unknown> =>
+    Array.isArray(value) ? value.length > 0 : typeof value === 'object' && value !== null && Object.keys(value).length > 0;
+
+/**
+ * Parses and writes YAML documents. Only the subset of YAML commonly used for message payloads is supported:
+ * block and flow collections, plain and quoted scalars, block scalars, comments, anchors, aliases and merge keys.
+ * Tags, explicit keys, multiple documents, and quoted strings or flow collections that span several lines
+ * are reported as errors. Scalars are resolved with the YAML 1.2 core schema, so yes and no are strings.
+ */
+export class YamlUtils {
+    /**
+     * Parses the provided YAML document.
+     *
+     * @param text    The YAML document.
+     * @returns       The document's value.
+     * @throws        An error with the offset of the problem, if the document is invalid or unsupported.
+     */
+    public static parse(text: string): unknown {
+        const state: YamlState = { lines: YamlUtils.toLines(text), index: 0, anchors: new Map() };
+        const first = YamlUtils.peek(state);
+
+        if (first?.indent === 0 && first.content === '---') {
+            state.index++;
+        }
+
+        const value = YamlUtils.parseNode(state, -1);
+        const next = YamlUtils.peek(state);
+
+        if (next?.indent === 0 && next.content === '...') {
+            state.index++;
+        }
+
+        const extra = YamlUtils.peek(state);
+        if (extra) {
+            throw createError(extra.content.startsWith('---') ? 'Only one YAML document is supported.' : 'Unexpected content. Check the indentation.', extra.offset + extra.indent);
+        }
+
+        return value;
+    }
+
+    /**
+     * Writes the provided value as a YAML document, indented by two spaces per level.
+     *
+     * @param value    The value, as parsed from JSON or YAML.
+     */
+    public static stringify(value: unknown): string {
+        return YamlUtils.toYamlLines(value, 0).join('\n');
+    }
+
+    /**
+     * Splits the provided YAML document into tokens for highlighting.
+     * Unlike parse, this never throws, so invalid documents are highlighted as far as possible.
+     *
+     * @param text    The YAML document.
+     */
+    public static tokenize(text: string): SqsBodyToken[] {
+        const tokens: SqsBodyToken[] = [];
+        let blockIndent: number | undefined;
+        let offset = 0;
+
+        for (const raw of text.split('\n')) {
+            const indent = raw.length - raw.trimStart().length;
+            const lineOffset = offset;
+            offset += raw.length + 1;
+
+            if (blockIndent !== undefined && (!raw.trim() || indent > blockIndent)) {
+                if (raw.trim()) {
+                    tokens.push({ type: 'string', start: lineOffset + indent, end: lineOffset + raw.trimEnd().length });
+                }
+                continue;
+            }
+            blockIndent = undefined;
+
+            const commentIndex = YamlUtils.findComment(raw);
+            let content = raw.substring(0, commentIndex).trimEnd();
+            let column = indent;
+
+            if (commentIndex < raw.length) {
+                tokens.push({ type: 'comment', start: lineOffset + commentIndex, end: lineOffset + raw.trimEnd().length });
+            }
+
+            if (indent === 0 && (content === '---' || content === '...')) {
+                tokens.push({ type: 'punctuation', start: lineOffset, end: lineOffset + 3 });
+                continue;
+            }
+
+            while (isSequenceItem(content.substring(column))) {
+                tokens.push({ type: 'punctuation', start: lineOffset + column, end: lineOffset + column + 1 });
+                column = content.length - content.substring(column + 1).trimStart().length;
+            }
+
+            const key = YamlUtils.splitKey(content.substring(column));
+            if (key) {
+                tokens.push({ type: 'key', start: lineOffset + column, end: lineOffset + column + key.length });
+                column += key.restColumn;
+            }
+
+            content = content.substring(column);
+            if (BLOCK_SCALAR_PATTERN.test(content)) {
+                tokens.push({ type: 'punctuation', start: lineOffset + column, end: lineOffset + column + content.length });
+                blockIndent = indent;
+            } else if (content) {
+                tokens.push(...YamlUtils.tokenizeValue(content, lineOffset + column));
+            }
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Splits the document into lines, measuring the indentation and removing the comment of each.
+     */
+    private static toLines(text: string): YamlLine[] {
+        let offset = 0;
+
+        return text.split('\n').map((line) => {
+            const raw = line.replace(/\r$/, '');
+            const indent = raw.length - raw.replace(/^ +/, '').length;
+            const lineOffset = offset;
+            offset += line.length + 1;
+
+            return { offset: lineOffset, indent, content: raw.substring(indent, YamlUtils.findComment(raw)).trimEnd(), raw };
+        });
+    }
+
+    /**
+     * Returns the position of the comment in the provided line, or the line's length if it has none.
+     * A comment starts with a # at the start of the line or after whitespace, outside of quotes.
+     */
+    private static findComment(line: string): number {
+        let quote: string | undefined;
+
+        for (let index = 0; index < line.length; index++) {
+            const char = line[index];
+            const previous = line[index - 1];
+
+            if (quote) {
+                if ((char === '\\' && quote === '"') || (char === "'" && quote === "'" && line[index + 1] === "'")) {
+                    index++;
+                } else if (char === quote) {
+                    quote = undefined;
+                }
+            } else if ((char === '"' || char === "'") && (index === 0 || /[\s[{,:]/.test(previous))) {
+                quote = char;
+            } else if (char === '#' && (index === 0 || /\s/.test(previous))) {
+                return index;
+            }
+        }
+
+        return line.length;
+    }
+
+    /**
+     * Returns the next line with content, without consuming it.
+     */
+    private static peek(state: YamlState): YamlLine | undefined {
+        while (state.index < state.lines.length && !state.lines[state.index].content) {
+            state.index++;
+        }
+
+        const line = state.lines[state.index] as YamlLine | undefined;
+        if (line?.content.startsWith('\t')) {
+            throw createError('Tabs cannot be used for indentation.', line.offset + line.indent);
+        }
+
+        return line;
+    }
+
+    /**
+     * Parses the collection or scalar starting on the next line, if it is indented further than its parent.
+     */
+    private static parseNode(state: YamlState, parentIndent: number): unknown {
+        const line = YamlUtils.peek(state);
+
+        if (!line || line.indent <= parentIndent || isDocumentMarker(line)) {
+            return null;
+        }
+
+        if (isSequenceItem(line.content)) {
+            return YamlUtils.parseSequence(state, line.indent);
+        }
+
+        if (YamlUtils.splitKey(line.content)) {
+            return YamlUtils.parseMapping(state, line.indent);
+        }
+
+        state.index++;
+        return YamlUtils.parseValue(state, line.content, line.offset + line.indent, parentIndent, false);
+    }
+
+    private static parseMapping(state: YamlState, indent: number): Record<string, unknown> {
+        const mapping: Record<string, unknown> = {};
+        const keys = new Set<string>();
+        let line = YamlUtils.peek(state);
+
+        while (line && line.indent === indent && !isDocumentMarker(line)) {
+            const entry = YamlUtils.splitKey(line.content);
+
+            if (!entry) {
+                throw createError(
+                    isSequenceItem(line.content) ? "Expected a 'key: value' pair, but found a list item." : "Expected a 'key: value' pair.",
+                    line.offset + line.indent
+                );
+            }
+            const offset = line.offset + line.indent;
+            const merge = entry.key === MERGE_KEY && line.content.startsWith(MERGE_KEY);
+
+            if (!merge && keys.has(entry.key)) {
+                throw createError(`Duplicate key '${entry.key}'.`, offset);
+            }
+
+            state.index++;
+            const value = YamlUtils.parseValue(state, entry.rest, offset + entry.restColumn, indent, true);
+
+            if (merge) {
+                YamlUtils.merge(mapping, value, offset);
+            } else {
+                keys.add(entry.key);
+                mapping[entry.key] = value;
+            }
+            line = YamlUtils.peek(state);
+        }
+
+        if (line && line.indent > indent) {
+            throw createError('Unexpected indentation.', line.offset + line.indent);
+        }
+
+        return mapping;
+    }
+
+    private static parseSequence(state: YamlState, indent: number): unknown[] {
+        const sequence: unknown[] = [];
+        let line = YamlUtils.peek(state);
+
+        while (line && line.indent === indent && isSequenceItem(line.content) && !isDocumentMarker(line)) {
+            const rest = line.content.substring(1).trimStart();
+            const restColumn = line.content.length - rest.length;
+
+            if (rest && (isSequenceItem(rest) || YamlUtils.splitKey(rest))) {
+                // A collection that starts on the same line as its dash, e.g. '- name: value', is parsed
+                // as though it started on its own line, indented to where it is written.
+                line.indent += restColumn;
+                line.content = rest;
+                sequence.push(YamlUtils.parseNode(state, indent));
+            } else {
+                state.index++;
+                sequence.push(YamlUtils.parseValue(state, rest, line.offset + line.indent + restColumn, indent, false));
+            }
+
+            line = YamlUtils.peek(state);
+        }
+
+        if (line && line.indent > indent) {
+            throw createError('Unexpected indentation.', line.offset + line.indent);
+        }
+
+        return sequence;
+    }
+
+    /**
+     * Parses the value of a mapping entry or sequence item, which either follows on the same line or is nested below it.
+     */
+    private static parseValue(state: YamlState, rest: string, offset: number, indent: number, inMapping: boolean): unknown {
+        const anchor = rest[0] === '&' ? ANCHOR_PATTERN.exec(rest) : undefined;
+
+        // An anchor names the value that follows it, which may be a collection nested below it.
+        if (anchor) {
+            const anchored = rest.substring(anchor[0].length);
+            if (YamlUtils.splitKey(anchored)) {
+                throw createError('Anchors on mapping keys are not supported. Put the anchor on its own line, before the mapping.', offset);
+            }
+
+            const value = YamlUtils.parseValue(state, anchored, offset + anchor[0].length, indent, inMapping);
+            state.anchors.set(anchor[1], value);
+            return value;
+        }
+
+        if (!rest) {
+            const next = YamlUtils.peek(state);
+
+            // A mapping's sequence value may be written at the same indentation as its key.
+            if (inMapping && next?.indent === indent && isSequenceItem(next.content)) {
+                return YamlUtils.parseSequence(state, indent);
+            }
+            return YamlUtils.parseNode(state, indent);
+        }
+
+        if (BLOCK_SCALAR_PATTERN.test(rest)) {
+            return YamlUtils.parseBlockScalar(state, rest, indent);
+        }
+
+        return YamlUtils.parseScalar(state, rest, offset, indent);
+    }
+
+    /**
+     * Parses a single-line value. Plain scalars may continue on the following, further indented lines.
+     */
+    private static parseScalar(state: YamlState, text: string, offset: number, parentIndent: number): unknown {
+        if (text.startsWith('{{')) {
+            return YamlUtils.foldPlainScalar(state, text, parentIndent);
+        }
+
+        switch (text[0]) {
+            case '"':
+            case "'": {
+                const { value, end } = YamlUtils.parseQuoted(text, 0, offset);
+                if (end < text.length) {
+                    throw createError('Unexpected content after the quoted value.', offset + end);
+                }
+                return value;
+            }
+            case '[':
+            case '{':
+                return YamlUtils.parseFlow(text, offset, state.anchors);
+            case '*': {
+                const alias = ANCHOR_PATTERN.exec(text);
+                if (!alias || alias[0].length < text.length) {
+                    throw createError('An alias cannot be followed by other content.', offset);
+                }
+                return YamlUtils.resolveAlias(alias[1], state.anchors, offset);
+            }
+            case '&':
+                throw createError('Invalid anchor.', offset);
+            case '!':
+                throw createError('Tags are not supported.', offset);
+            case '@':
+            case '`':
+                throw createError(`A plain value cannot start with '${text[0]}'.`, offset);
+            default: {
+                const folded = YamlUtils.foldPlainScalar(state, text, parentIndent);
+                return folded === text ? YamlUtils.resolveScalar(text) : folded;
+            }
+        }
+    }
+
+    private static foldPlainScalar(state: YamlState, text: string, parentIndent: number): string {
+        let folded = text;
+        let line = YamlUtils.peek(state);
+
+        while (line && line.indent > parentIndent && !isSequenceItem(line.content) && !YamlUtils.splitKey(line.content) && !isDocumentMarker(line)) {
+            folded += ` ${line.content}`;
+            state.index++;
+            line = YamlUtils.peek(state);
+        }
+
+        return folded;
+    }
+
+    private static parseBlockScalar(state: YamlState, header: string, parentIndent: number): string {
+        const explicitIndent = /\d/.exec(header);
+        const lines: string[] = [];
+        let blockIndent = explicitIndent ? parentIndent + Number(explicitIndent[0]) : undefined;
+
+        while (state.index < state.lines.length) {
+            const { raw } = state.lines[state.index];
+            const indent = raw.length - raw.trimStart().length;
+
+            if (!raw.trim()) {
+                lines.push('');
+            } else if (blockIndent === undefined ? indent > parentIndent : indent >= blockIndent) {
+                blockIndent = blockIndent ?? indent;
+                lines.push(raw.substring(blockIndent));
+            } else {
+                break;
+            }
+
+            state.index++;
+        }
+
+        const trailing = lines.length - lines.map((line) => !!line).lastIndexOf(true) - 1;
+        const contentLines = lines.slice(0, lines.length - trailing);
+        const content = header[0] === '|' ? contentLines.join('\n') : YamlUtils.foldLines(contentLines);
+
+        if (header.includes('-') || !content) {
+            return content;
+        }
+        return header.includes('+') ? content + '\n'.repeat(trailing + 1) : `${content}\n`;
+    }
+
+    /**
+     * Joins the lines of a folded block scalar. A single line break between lines is replaced with a space, while a line
+     * break followed by empty lines is replaced with one line break per empty line. Line breaks next to more indented
+     * lines are kept as written.
+     */
+    private static foldLines(lines: string[]): string {
+        let text = '';
+        let emptyLines = 0;
+        let previous: string | undefined;
+
+        lines.forEach((line) => {
+            if (!line) {
+                emptyLines++;
+                return;
+            }
+
+            if (previous === undefined) {
+                text += '\n'.repeat(emptyLines);
+            } else if (/^\s/.test(previous) || /^\s/.test(line)) {
+                text += '\n'.repeat(emptyLines + 1);
+            } else {
+                text += emptyLines ? '\n'.repeat(emptyLines) : ' ';
+            }
+
+            text += line;
+            previous = line;
+            emptyLines = 0;
+        });
+
+        return text;
+    }
+
+    private static parseQuoted(text: string, start: number, offset: number): { value: string; end: number } {
+        const quote = text[start];
+
+        for (let index = start + 1; index < text.length; index++) {
+            if (quote === '"' && text[index] === '\\') {
+                index++;
+            } else if (quote === "'" && text[index] === "'" && text[index + 1] === "'") {
+                index++;
+            } else if (text[index] === quote) {
+                const inner = text.substring(start + 1, index);
+
+                if (quote === "'") {
+                    return { value: inner.replace(/''/g, "'"), end: index + 1 };
+                }
+
+                try {
+                    return { value: JSON.parse(`"${inner.replace(/\t/g, '\\t')}"`) as string, end: index + 1 };
+                } catch {
+                    throw createError('Invalid escape sequence in double-quoted string.', offset + start);
+                }
+            }
+        }
+
+        throw createError('Unterminated string. Quoted strings must end on the same line.', offset + start);
+    }
+
+    /**
+     * Parses a single-line flow collection, e.g. [1, 2] or {name: value}.
+     */
+    private static parseFlow(text: string, offset: number, anchors: Map<string, unknown>): unknown {
+        let position = 0;
+
+        const skipSpaces = () => {
+            while (text[position] === ' ') {
+                position++;
+            }
+        };
+
+        const parsePlain = (terminators: RegExp) => {
+            const start = position;
+            while (position < text.length && !terminators.test(text[position])) {
+                if (text.startsWith('{{', position)) {
+                    const end = text.indexOf('}}', position);
+                    position = end < 0 ? text.length : end + 2;
+                } else {
+                    position++;
+                }
+            }
+            return text.substring(start, position).trim();
+        };
+
+        const parseItem = (terminators: RegExp): unknown => {
+            skipSpaces();
+            const char = text[position];
+
+            if (char === '[' || (char === '{' && text[position + 1] !== '{')) {
+                return parseCollection();
+            }
+            if (char === '"' || char === "'") {
+                const { value: quoted, end } = YamlUtils.parseQuoted(text, position, offset);
+                position = end;
+                return quoted;
+            }
+            if (char === '&' || char === '*') {
+                const anchor = ANCHOR_PATTERN.exec(text.substring(position));
+                if (!anchor) {
+                    throw createError(char === '&' ? 'Invalid anchor.' : 'Invalid alias.', offset + position);
+                }
+
+                const anchorOffset = position;
+                position += anchor[0].length;
+
+                if (char === '*') {
+                    return YamlUtils.resolveAlias(anchor[1], anchors, offset + anchorOffset);
+                }
+
+                const anchored = parseItem(terminators);
+                anchors.set(anchor[1], anchored);
+                return anchored;
+            }
+            if (char === '!') {
+                throw createError('Tags are not supported.', offset + position);
+            }
+
+            const plain = parsePlain(terminators);
+            return plain.startsWith('{{') ? plain : YamlUtils.resolveScalar(plain);
+        };
+
+        const parseCollection = (): unknown => {
+            const open = text[position];
+            const close = open === '[' ? ']' : '}';
+            const items: unknown[] = [];
+            const mapping: Record<string, unknown> = {};
+            const keys = new Set<string>();
+            position++;
+
+            for (;;) {
+                skipSpaces();
+                if (text[position] === close) {
+                    position++;
+                    return open === '[' ? items : mapping;
+                }
+
+                if (open === '[') {
+                    items.push(parseItem(/[,\]]/));
+                } else {
+                    const keyOffset = position;
+                    const key = String(parseItem(/[,:}]/));
+                    skipSpaces();
+
+                    if (keys.has(key)) {
+                        throw createError(`Duplicate key '${key}'.`, offset + keyOffset);
+                    }
+                    if (text[position] === ':' && key === MERGE_KEY && text.startsWith(MERGE_KEY, keyOffset)) {
+                        position++;
+                        YamlUtils.merge(mapping, parseItem(/[,}]/), offset + keyOffset);
+                    } else if (text[position] === ':') {
+                        position++;
+                        keys.add(key);
+                        mapping[key] = parseItem(/[,}]/);
+                    } else {
+                        keys.add(key);
+                        mapping[key] = null;
+                    }
+                }
+
+                skipSpaces();
+                if (text[position] === ',') {
+                    position++;
+                } else if (text[position] !== close) {
+                    throw createError(position < text.length ? `Expected ',' or '${close}'.` : `Missing '${close}'.`, offset + position);
+                }
+            }
+        };
+
+        const value = parseCollection();
+        skipSpaces();
+
+        if (position < text.length) {
+            throw createError('Unexpected content after the collection.', offset + position);
+        }
+
+        return value;
+    }
+
+    private static resolveAlias(name: string, anchors: Map<string, unknown>, offset: number): unknown {
+        if (!anchors.has(name)) {
+            throw createError(`Unknown alias '*${name}'. An anchor must be defined before it is used.`, offset);
+        }
+        return anchors.get(name);
+    }
+
+    /**
+     * Adds the entries of a merge key's mappings to the provided mapping, unless it already has them. Like YAML's merge
+     * key type, the mapping's own entries take precedence, followed by the mappings in the order they are listed.
+     */
+    private static merge(mapping: Record<string, unknown>, value: unknown, offset: number): void {
+        const sources = Array.isArray(value) ? value : [value];
+
+        if (!sources.every((source) => typeof source === 'object' && source !== null && !Array.isArray(source))) {
+            throw createError('The value of a merge key must be a mapping or a list of mappings.', offset);
+        }
+
+        (sources as Array<Record<string, unknown>>).forEach((source) =>
+            Object.entries(source)
+                .filter(([key]) => !Object.prototype.hasOwnProperty.call(mapping, key))
+                .forEach(([key, item]) => {
+                    mapping[key] = item;
+                })
+        );
+    }
+
+    /**
+     * Resolves a plain scalar to a null, boolean, number or string.
+     */
+    private static resolveScalar(text: string): unknown {
+        if (/^(|~|null|Null|NULL)$/.test(text)) {
+            return null;
+        }
+        if (/^(true|True|TRUE|false|False|FALSE)$/.test(text)) {
+            return text.toLowerCase() === 'true';
+        }
+        if (/^[-+]?(\.\d+|\d+(\.\d*)?)([eE][-+]?\d+)?$/.test(text)) {
+            return Number(text);
+        }
+        if (/^0x[\da-fA-F]+$/.test(text)) {
+            return parseInt(text.substring(2), 16);
+        }
+        if (/^0o[0-7]+$/.test(text)) {
+            return parseInt(text.substring(2), 8);
+        }
+        return text;
+    }
+
+    /**
+     * Splits a mapping entry into its key and value, e.g. 'name: value'.
+     *
+     * @returns    The key and value, or undefined if the content is not a mapping entry.
+     */
+    private static splitKey(content: string): YamlKey | undefined {
+        let length: number;
+        let key: string;
+
+        if (content[0] === '"' || content[0] === "'") {
+            try {
+                const quoted = YamlUtils.parseQuoted(content, 0, 0);
+                length = quoted.end;
+                key = quoted.value;
+            } catch {
+                return undefined;
+            }
+        } else {
+            const match = /:(\s|$)/.exec(content);
+            if (!match || INDICATOR_PATTERN.test(content) || content.startsWith('{{')) {
+                return undefined;
+            }
+            key = content.substring(0, match.index).trimEnd();
+            length = key.length;
+        }
+
+        const colon = /^\s*:(\s|$)/.exec(content.substring(length));
+        if (!colon) {
+            return undefined;
+        }
+
+        const rest = content.substring(length + colon[0].length).trimStart();
+        return { key, length, rest, restColumn: content.length - rest.length };
+    }
+
+    private static tokenizeValue(text: string, offset: number): SqsBodyToken[] {
+        const anchor = ANCHOR_PATTERN.exec(text);
+
+        if (anchor) {
+            const rest = text.substring(anchor[0].length);
+            const token: SqsBodyToken = { type: 'literal', start: offset, end: offset + anchor[0].trimEnd().length };
+            return rest ? [token, ...YamlUtils.tokenizeValue(rest, offset + anchor[0].length)] : [token];
+        }
+        if (text[0] === '"' || text[0] === "'") {
+            return [{ type: 'string', start: offset, end: offset + text.length }];
+        }
+
+        if ((text[0] === '[' || text[0] === '{') && !text.startsWith('{{')) {
+            const tokens: SqsBodyToken[] = [];
+            const pattern = /{{[^{}]*}}|"(?:[^"\\]|\\.)*"?|'(?:[^']|'')*'?|[[\]{},:]|[^[\]{},:"']+/g;
+            let match: RegExpExecArray | null;
+
+            while ((match = pattern.exec(text))) {
+                const part = match[0].trim();
+                const start = offset + match.index + match[0].indexOf(part);
+
+                if (/^[[\]{},:]$/.test(part)) {
+                    tokens.push({ type: 'punctuation', start, end: start + 1 });
+                } else if (part) {
+                    tokens.push(...YamlUtils.tokenizeValue(part, start));
+                }
+            }
+            return tokens;
+        }
+
+        const value = YamlUtils.resolveScalar(text);
+        const type = typeof value === 'number' ? 'number' : typeof value === 'string' ? 'string' : 'literal';
+        return [{ type, start: offset, end: offset + text.length }];
+    }
+
+    private static toYamlLines(value: unknown, indent: number): string[] {
+        const padding = ' '.repeat(indent);
+
+        if (Array.isArray(value) && value.length) {
+            return value.flatMap((item) => {
+                if (isCollection(item)) {
+                    const [first, ...rest] = YamlUtils.toYamlLines(item, indent + 2);
+                    return [`${padding}- ${first.trimStart()}`, ...rest];
+                }
+                return YamlUtils.toScalarLines(item, `${padding}- `, indent + 2);
+            });
+        }
+
+        if (isCollection(value)) {
+            return Object.entries(value).flatMap(([key, item]) => {
+                const prefix = `${padding}${YamlUtils.toScalar(key)}:`;
+                return isCollection(item) ? [prefix, ...YamlUtils.toYamlLines(item, indent + 2)] : YamlUtils.toScalarLines(item, `${prefix} `, indent + 2);
+            });
+        }
+
+        return YamlUtils.toScalarLines(value, padding, indent);
+    }
+
+    /**
+     * Writes a scalar or empty collection. Multi-line strings are written as literal block scalars.
+     */
+    private static toScalarLines(value: unknown, prefix: string, indent: number): string[] {
+        if (typeof value === 'string' && value.includes('\n') && !/^\s/.test(value) && !/[^\S\n]\n|[^\S\n]$/.test(value)) {
+            const keep = value.endsWith('\n\n');
+            const chomping = keep ? '+' : value.endsWith('\n') ? '' : '-';
+            const lines = (value.endsWith('\n') ? value.substring(0, value.length - 1) : value).split('\n');
+            return [`${prefix}|${chomping}`, ...lines.map((line) => (line ? ' '.repeat(indent) + line : ''))];
+        }
+
+        return [prefix + YamlUtils.toScalar(value)];
+    }
+
+    private static toScalar(value: unknown): string {
+        if (Array.isArray(value)) {
+            return '[]';
+        }
+        if (typeof value === 'object' && value !== null) {
+            return '{}';
+        }
+        if (typeof value !== 'string') {
+            return value === undefined || (typeof value === 'number' && !Number.isFinite(value)) ? 'null' : String(value);
+        }
+
+        // A lone template expression is left unquoted, so it can render to a number or boolean.
+        const isPlain =
+            /^{{[^{}]*}}$/.test(value) ||
+            (value !== '' &&
+                YamlUtils.resolveScalar(value) === value &&
+                !INDICATOR_PATTERN.test(value) &&
+                !/^\s|\s$|: |:$| #/.test(value) &&
+                ![...value].some((char) => char.charCodeAt(0) < 32));
+
+        return isPlain ? value : JSON.stringify(value);
+    }
+}